@@ -1,18 +1,55 @@
 /**
  * POST /api/chat — EOP Agent chat endpoint.
  *
- * Receives { provider, apiKey, messages, model? } and returns the agent's reply.
- * No API keys are stored server-side; they come from the request body.
+ * Receives { provider, apiKey, messages, model?, endpoint?, stream?, fallback?, sessionId? } and returns the agent's reply.
+ * The offline providers ("replay", "mock") take no apiKey.
+ * The "custom" provider is an OpenAI-compatible server at `endpoint.baseUrl`
+ * (hosts limited by EOP_CUSTOM_HOSTS); it needs a `model`, and its key is optional.
+ * With `sessionId`, `messages` holds only the new turn: it is appended to the
+ * stored history (see /api/sessions) and the reply is stored with it.
+ * Long histories are compacted: the response's `compaction` is a synopsis of
+ * older turns, which the client inserts into its messages (and the session
+ * stores) so later requests only send what follows it.
+ * `fallback` lists other providers (with their keys) to switch to when the
+ * provider fails with a rate limit, server error or timeout; the response's
+ * `answeredBy` says which one answered.
+ * With `stream: true` the response is a text/event-stream of AgentEvents
+ * (token deltas, tool calls, tool results, round ends, then `final` or `error`);
+ * otherwise a single JSON ChatResponse is returned.
+ * With EOP_TRACES=on, each run's trace (LLM and tool calls, keys redacted) is
+ * stored for /api/traces; its id is the response's `traceId`, also on errors.
+ * No API keys are stored server-side; they come from the request body and are
+ * never written to a session or a trace.
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import type { ChatRequest, ChatResponse, Provider } from "@/lib/types";
-import { runAgent } from "@/lib/eop-agent/run-agent";
+import type {
+  AgentEvent,
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  EvidenceGraph,
+  LLMErrorClass,
+  Provider,
+  RepoTree,
+  RunTrace,
+} from "@/lib/types";
+import { runAgent, type AgentRunResult, type RunAgentOptions } from "@/lib/eop-agent/run-agent";
+import { insertSynopsis } from "@/lib/eop-agent/memory";
+import { getSession, updateSession } from "@/lib/sessions/store";
+import { DEFAULT_SESSION_TITLE, titleFromMessages } from "@/lib/sessions/titles";
+import { saveTrace, tracesEnabledFromEnv } from "@/lib/traces/store";
+import { customEndpointError, toCustomEndpoint } from "@/lib/llm/custom-endpoint";
+import { encodeSSE } from "@/lib/sse";
 
-const VALID_PROVIDERS: Provider[] = ["openai", "nim", "gemini"];
+const VALID_PROVIDERS: Provider[] = ["openai", "nim", "gemini", "anthropic", "custom", "replay", "mock"];
+// Many local servers take no key; the offline providers call no model
+const KEYLESS_PROVIDERS: Provider[] = ["custom", "replay", "mock"];
+const ERROR_CLASSES: LLMErrorClass[] = ["rate_limit", "server", "timeout", "network", "auth", "invalid_request", "unknown"];
 const MAX_MESSAGES = 100;
 
 export async function POST(req: NextRequest) {
+  let trace: TraceSaver | undefined;
   try {
     const body = (await req.json()) as ChatRequest;
 
@@ -24,13 +61,27 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    if (!body.apiKey || typeof body.apiKey !== "string" || body.apiKey.trim().length === 0) {
+    if (body.apiKey !== undefined && typeof body.apiKey !== "string") {
+      return NextResponse.json(
+        { error: "apiKey must be a string." },
+        { status: 400 }
+      );
+    }
+
+    if (!KEYLESS_PROVIDERS.includes(body.provider) && !body.apiKey?.trim()) {
       return NextResponse.json(
         { error: "API key is required." },
         { status: 400 }
       );
     }
 
+    if (body.provider === "custom") {
+      const error = !body.model?.trim()
+        ? "The custom provider needs a model name."
+        : customEndpointError(body.endpoint);
+      if (error) return NextResponse.json({ error }, { status: 400 });
+    }
+
     if (!Array.isArray(body.messages) || body.messages.length === 0) {
       return NextResponse.json(
         { error: "Messages array is required and must not be empty." },
@@ -45,37 +96,267 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // ── Run agent ──
-    const result = await runAgent(
-      body.provider,
-      body.apiKey.trim(),
-      body.messages,
-      body.model
-    );
-
-    const response: ChatResponse = {
-      reply: result.reply,
-      toolResults: result.toolResults.length > 0 ? result.toolResults : undefined,
-    };
+    if (body.evidenceGraph !== undefined && !isEvidenceGraphShape(body.evidenceGraph)) {
+      return NextResponse.json(
+        { error: "evidenceGraph must have a scope and artifacts, claims and links arrays." },
+        { status: 400 }
+      );
+    }
+
+    if (body.repoTree !== undefined && !isRepoTreeShape(body.repoTree)) {
+      return NextResponse.json(
+        { error: "repoTree must have an archiveName and a files array (use POST /api/upload)." },
+        { status: 400 }
+      );
+    }
+
+    if (
+      body.fallback !== undefined &&
+      !(
+        Array.isArray(body.fallback) &&
+        body.fallback.every(
+          (t) =>
+            VALID_PROVIDERS.includes(t?.provider) &&
+            typeof t.apiKey === "string" &&
+            (KEYLESS_PROVIDERS.includes(t.provider) || t.apiKey.trim().length > 0) &&
+            (t.model === undefined || typeof t.model === "string") &&
+            (t.provider !== "custom" || !!t.model?.trim())
+        )
+      )
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            `fallback must be a list of { provider, apiKey, model?, endpoint? } with provider one of: ${VALID_PROVIDERS.join(", ")}` +
+            " (custom targets need a model and an endpoint)",
+        },
+        { status: 400 }
+      );
+    }
+
+    const fallbackEndpointError = body.fallback
+      ?.filter((t) => t.provider === "custom")
+      .map((t) => customEndpointError(t.endpoint))
+      .find(Boolean);
+    if (fallbackEndpointError) {
+      return NextResponse.json({ error: `fallback: ${fallbackEndpointError}` }, { status: 400 });
+    }
+
+    if (
+      body.fallbackOn !== undefined &&
+      !(Array.isArray(body.fallbackOn) && body.fallbackOn.every((c) => ERROR_CLASSES.includes(c)))
+    ) {
+      return NextResponse.json(
+        { error: `fallbackOn must be a list of: ${ERROR_CLASSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (body.sessionId !== undefined && (typeof body.sessionId !== "string" || !(await getSession(body.sessionId)))) {
+      return NextResponse.json(
+        { error: `No session with id "${body.sessionId}" (create one with POST /api/sessions).` },
+        { status: 404 }
+      );
+    }
+
+    if (body.stream) {
+      return streamAgent(body, req.signal);
+    }
 
-    return NextResponse.json(response);
+    // ── Run agent ──
+    trace = traceSaver(body);
+    const response = await runTurn(body, { signal: req.signal, onTrace: trace.onTrace });
+    return NextResponse.json({ ...response, ...traceField(trace) });
   } catch (err) {
     console.error("[/api/chat] Error:", err);
 
-    const message =
-      err instanceof Error ? err.message : "An unexpected error occurred.";
-
-    // Return user-friendly error (don't leak internals)
-    const status =
-      message.includes("401") || message.includes("Unauthorized")
-        ? 401
-        : message.includes("429") || message.includes("rate")
-          ? 429
-          : 500;
-
-    return NextResponse.json(
-      { error: message },
-      { status }
-    );
+    const { error, status } = describeError(err);
+    return NextResponse.json({ error, ...traceField(trace) }, { status });
   }
 }
+
+interface TraceSaver {
+  id?: string; // set once the trace is stored
+  onTrace: (trace: RunTrace) => Promise<void>;
+}
+
+/** Stores the run's trace (tagged with the session); a failure to store it doesn't fail the turn. */
+function traceSaver(body: ChatRequest): TraceSaver {
+  const saver: TraceSaver = {
+    onTrace: async (trace) => {
+      if (!tracesEnabledFromEnv()) return;
+      try {
+        await saveTrace(body.sessionId ? { ...trace, sessionId: body.sessionId } : trace);
+        saver.id = trace.id;
+      } catch (err) {
+        console.error("[/api/chat] Could not store the trace:", err);
+      }
+    },
+  };
+  return saver;
+}
+
+function traceField(trace: TraceSaver | undefined): { traceId?: string } {
+  return trace?.id ? { traceId: trace.id } : {};
+}
+
+/** Run the agent and forward its progress as server-sent events. */
+function streamAgent(body: ChatRequest, signal: AbortSignal): Response {
+  const encoder = new TextEncoder();
+  // Aborted when the client goes away: the run stops its tools and makes no further LLM call
+  const run = new AbortController();
+  const stop = () => run.abort();
+  signal.addEventListener("abort", stop, { once: true });
+  let cancelled = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // Nothing can be sent once the stream is cancelled
+      const send = (event: AgentEvent) => {
+        if (!cancelled) controller.enqueue(encoder.encode(encodeSSE(event)));
+      };
+      const trace = traceSaver(body);
+
+      try {
+        const response = await runTurn(body, { onEvent: send, signal: run.signal, onTrace: trace.onTrace });
+        send({ type: "final", response: { ...response, ...traceField(trace) } });
+      } catch (err) {
+        console.error("[/api/chat] Stream error:", err);
+        send({ type: "error", ...describeError(err), ...traceField(trace) });
+      } finally {
+        signal.removeEventListener("abort", stop);
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      cancelled = true;
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+/**
+ * Run the agent for the request. With a session, the agent sees the stored
+ * history plus the new messages, and the turn is stored when it finishes;
+ * an evidence chain or repo tree sent with the request replaces the stored one.
+ * The agent runs without holding the session's lock (a rename or another
+ * request isn't held up for the whole turn); the turn is appended under the
+ * lock once the reply is in.
+ */
+async function runTurn(body: ChatRequest, options: RunAgentOptions): Promise<ChatResponse> {
+  const run = (history: ChatRequest["messages"], stored?: Pick<ChatRequest, "evidenceGraph" | "repoTree">) =>
+    runAgent(body.provider, (body.apiKey ?? "").trim(), history, body.model, {
+      ...options,
+      ...(body.provider === "custom" && body.endpoint ? { endpoint: toCustomEndpoint(body.endpoint) } : {}),
+      evidenceGraph: body.evidenceGraph ?? stored?.evidenceGraph,
+      repoTree: body.repoTree ?? stored?.repoTree,
+      ...fallbackOptions(body),
+    });
+
+  if (!body.sessionId) return toChatResponse(await run(body.messages));
+
+  const loaded = await getSession(body.sessionId);
+  if (!loaded) throw new Error(`No session with id "${body.sessionId}".`);
+  const result = await run([...loaded.messages, ...body.messages], loaded);
+
+  const reply = replyToStore(result);
+  const session = await updateSession(body.sessionId, (stored) => {
+    const history = [...stored.messages, ...body.messages];
+    // The synopsis covers the history as loaded; it can't be placed if that changed meanwhile (the next turn compacts again)
+    const unchanged =
+      JSON.stringify(stored.messages.slice(0, loaded.messages.length)) === JSON.stringify(loaded.messages);
+    const messages = [
+      ...(result.compaction && unchanged ? insertSynopsis(history, result.compaction) : history),
+      reply,
+    ];
+    return {
+      ...stored,
+      title: stored.title === DEFAULT_SESSION_TITLE ? titleFromMessages(messages) : stored.title,
+      messages,
+      evidenceGraph: result.evidenceGraph,
+      repoTree: body.repoTree ?? stored.repoTree,
+    };
+  });
+  if (!session) throw new Error("The session was deleted before the reply could be stored.");
+  return { ...toChatResponse(result), sessionId: session.id };
+}
+
+/** The reply with what the UI shows alongside it: the turn's tool results and token usage. */
+function replyToStore(result: AgentRunResult): ChatMessage {
+  return {
+    ...result.reply,
+    ...(result.toolResults.length > 0 ? { toolResults: result.toolResults } : {}),
+    ...(result.usage.length > 0 ? { usage: result.usage } : {}),
+  };
+}
+
+function toChatResponse(result: AgentRunResult): ChatResponse {
+  return {
+    reply: result.reply,
+    toolResults: result.toolResults.length > 0 ? result.toolResults : undefined,
+    evidenceGraph: result.evidenceGraph,
+    path: result.path,
+    ...(result.partial ? { partial: result.partial } : {}),
+    answeredBy: result.answeredBy,
+    ...(result.compaction ? { compaction: result.compaction } : {}),
+    ...(result.usage.length > 0 ? { usage: result.usage } : {}),
+  };
+}
+
+function fallbackOptions(body: ChatRequest) {
+  return {
+    fallback: body.fallback?.map((t) => ({
+      provider: t.provider,
+      apiKey: t.apiKey.trim(),
+      model: t.model,
+      ...(t.provider === "custom" && t.endpoint ? { endpoint: toCustomEndpoint(t.endpoint) } : {}),
+    })),
+    fallbackOn: body.fallbackOn,
+  };
+}
+
+function isEvidenceGraphShape(value: unknown): boolean {
+  const graph = value as Partial<EvidenceGraph> | null;
+  return (
+    typeof graph === "object" &&
+    graph !== null &&
+    typeof graph.scope?.id === "string" &&
+    Array.isArray(graph.artifacts) &&
+    Array.isArray(graph.claims) &&
+    Array.isArray(graph.links)
+  );
+}
+
+/** Map an error to a user-friendly message and HTTP status (don't leak internals). */
+function describeError(err: unknown): { error: string; status: number } {
+  const message =
+    err instanceof Error ? err.message : "An unexpected error occurred.";
+
+  const status =
+    message.includes("401") || message.includes("Unauthorized")
+      ? 401
+      : message.includes("429") || message.includes("rate")
+        ? 429
+        : 500;
+
+  return { error: message, status };
+}
+
+function isRepoTreeShape(value: unknown): boolean {
+  const tree = value as Partial<RepoTree> | null;
+  return (
+    typeof tree === "object" &&
+    tree !== null &&
+    typeof tree.archiveName === "string" &&
+    Array.isArray(tree.files) &&
+    tree.files.every((f) => typeof f?.path === "string" && typeof f?.size === "number")
+  );
+}
@@ -0,0 +1,112 @@
+/**
+ * POST /api/hash — SHA-256 manifest of artifact files, or verification against one.
+ *
+ * Receives multipart/form-data with either
+ *   - `files`: one or more files, each hashed under its file name (which may
+ *     carry a relative path), or
+ *   - `archive`: a .zip / .tar.gz / .tgz / .tar whose every file is hashed.
+ *     .gitignore is not applied: restricted data is often git-ignored.
+ * plus, optionally,
+ *   - `manifest`: a hash manifest (JSON or YAML) to verify the files against;
+ *   - `evidenceGraph`: the evidence graph as JSON, used to tie new manifest
+ *     entries to ECF artifacts.
+ *
+ * Nothing is stored; files are hashed in memory and dropped with the request.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import type { EvidenceGraph, FileHash, HashResponse } from "@/lib/types";
+import { formatBytes, readArchive, sha256Hex, uploadLimitsFromEnv } from "@/lib/repo/archive";
+import { buildRepoTree } from "@/lib/repo/tree";
+import { createEvidenceGraph } from "@/lib/eop-agent/evidence-graph";
+import { buildHashManifest, parseHashManifest, verifyHashManifest } from "@/lib/eop-agent/hash-manifest";
+
+export const runtime = "nodejs";
+
+export async function POST(req: NextRequest) {
+  const limits = uploadLimitsFromEnv();
+
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch {
+    return NextResponse.json<HashResponse>({ error: "Expected a multipart/form-data upload." }, { status: 400 });
+  }
+
+  const archive = form.get("archive");
+  const files = form.getAll("files").filter((v): v is File => v instanceof File);
+  if (!(archive instanceof File) && files.length === 0) {
+    return NextResponse.json<HashResponse>(
+      { error: "Form field \"files\" (one or more files) or \"archive\" is required." },
+      { status: 400 }
+    );
+  }
+
+  const uploaded = archive instanceof File ? archive.size : files.reduce((sum, f) => sum + f.size, 0);
+  if (uploaded > limits.maxArchiveBytes) {
+    return NextResponse.json<HashResponse>(
+      { error: `Upload is too large (max ${formatBytes(limits.maxArchiveBytes)}).` },
+      { status: 413 }
+    );
+  }
+
+  let hashes: FileHash[];
+  let source: string;
+  try {
+    if (archive instanceof File) {
+      const entries = readArchive(new Uint8Array(await archive.arrayBuffer()), archive.name, {
+        limits,
+        wantContent: () => false,
+        hash: true,
+      });
+      const tree = buildRepoTree(archive.name, entries, limits, { gitignore: false });
+      if (tree.truncated) {
+        return NextResponse.json<HashResponse>(
+          { error: `The archive has more than ${limits.maxFiles} files; split it or raise EOP_UPLOAD_MAX_FILES.` },
+          { status: 413 }
+        );
+      }
+      hashes = tree.files.filter((f) => f.sha256).map((f) => ({ path: f.path, size: f.size, sha256: f.sha256! }));
+      source = archive.name;
+    } else {
+      hashes = await Promise.all(
+        files.map(async (f) => ({
+          path: f.name.replace(/\\/g, "/").replace(/^(\.\/)+/, ""),
+          size: f.size,
+          sha256: sha256Hex(new Uint8Array(await f.arrayBuffer())),
+        }))
+      );
+      source = "files";
+    }
+  } catch (err) {
+    // Everything readArchive throws is about the uploaded file itself
+    const message = err instanceof Error ? err.message : String(err);
+    return NextResponse.json<HashResponse>({ error: `Could not read archive: ${message}` }, { status: 400 });
+  }
+
+  // ── Verify ──
+  const manifestField = form.get("manifest");
+  if (manifestField !== null) {
+    const text = typeof manifestField === "string" ? manifestField : await manifestField.text();
+    const parsed = parseHashManifest(text, manifestField instanceof File ? manifestField.name : undefined);
+    if (!parsed.ok) {
+      const issues = parsed.issues.map((i) => `${i.path}: ${i.message}`).join("; ");
+      return NextResponse.json<HashResponse>({ error: `Invalid hash manifest — ${issues}` }, { status: 400 });
+    }
+    return NextResponse.json<HashResponse>({ verification: verifyHashManifest(parsed.manifest, hashes, source) });
+  }
+
+  // ── Create ──
+  let graph = createEvidenceGraph({ kind: "conversation", id: "hash" });
+  const graphField = form.get("evidenceGraph");
+  if (typeof graphField === "string") {
+    try {
+      const parsed = JSON.parse(graphField) as Partial<EvidenceGraph> | null;
+      if (parsed && Array.isArray(parsed.artifacts)) graph = { ...graph, artifacts: parsed.artifacts };
+    } catch {
+      return NextResponse.json<HashResponse>({ error: "evidenceGraph is not valid JSON." }, { status: 400 });
+    }
+  }
+
+  return NextResponse.json<HashResponse>({ manifest: buildHashManifest(hashes, graph, source) });
+}
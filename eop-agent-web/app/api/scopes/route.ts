@@ -0,0 +1,19 @@
+/**
+ * GET /api/scopes — the disclosure scope registry (built-in levels plus any
+ * from EOP_DISCLOSURE_SCOPES_FILE), for the UI.
+ */
+
+import { NextResponse } from "next/server";
+import type { ScopesResponse } from "@/lib/types";
+import { loadDisclosureScopes } from "@/lib/eop-agent/load-scopes";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  try {
+    return NextResponse.json<ScopesResponse>({ scopes: loadDisclosureScopes() });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return NextResponse.json<ScopesResponse>({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * /api/sessions/:id — one stored conversation.
+ *
+ * GET    returns the session with its messages, evidence chain and repo tree.
+ * PATCH  renames it: { title }.
+ * DELETE removes it.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import type { SessionResponse } from "@/lib/types";
+import { deleteSession, getSession, renameSession } from "@/lib/sessions/store";
+
+export const runtime = "nodejs";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+function notFound(id: string) {
+  return NextResponse.json<SessionResponse>({ error: `No session with id "${id}".` }, { status: 404 });
+}
+
+function storeError(err: unknown) {
+  console.error("[/api/sessions] Error:", err);
+  return NextResponse.json<SessionResponse>({ error: "Could not access the session store." }, { status: 500 });
+}
+
+export async function GET(_req: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  try {
+    const session = await getSession(id);
+    return session ? NextResponse.json<SessionResponse>({ session }) : notFound(id);
+  } catch (err) {
+    return storeError(err);
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  let body: { title?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json<SessionResponse>({ error: "Expected a JSON body." }, { status: 400 });
+  }
+  if (typeof body?.title !== "string" || body.title.trim().length === 0) {
+    return NextResponse.json<SessionResponse>({ error: "title is required." }, { status: 400 });
+  }
+
+  try {
+    const session = await renameSession(id, body.title);
+    return session ? NextResponse.json<SessionResponse>({ session }) : notFound(id);
+  } catch (err) {
+    return storeError(err);
+  }
+}
+
+export async function DELETE(_req: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  try {
+    return (await deleteSession(id)) ? new NextResponse(null, { status: 204 }) : notFound(id);
+  } catch (err) {
+    return storeError(err);
+  }
+}
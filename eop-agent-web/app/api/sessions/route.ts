@@ -0,0 +1,58 @@
+/**
+ * /api/sessions — conversations stored on the server (lib/sessions/store.ts).
+ *
+ * GET  lists the sessions, most recently updated first.
+ * POST creates one from { title?, messages? } and returns it.
+ *
+ * A session holds messages, the evidence chain and the uploaded repo tree;
+ * API keys are never stored. /api/chat appends to a session given its sessionId
+ * and stores the evidence chain and repo tree sent with the turn.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import type { ChatMessage, SessionResponse } from "@/lib/types";
+import { createSession, listSessions } from "@/lib/sessions/store";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  try {
+    return NextResponse.json<SessionResponse>({ sessions: await listSessions() });
+  } catch (err) {
+    console.error("[/api/sessions] Error:", err);
+    return NextResponse.json<SessionResponse>({ error: "Could not read the session store." }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  let body: { title?: unknown; messages?: unknown };
+  try {
+    body = (await req.json()) ?? {};
+  } catch {
+    body = {}; // an empty body creates an empty session
+  }
+
+  if (body.title !== undefined && typeof body.title !== "string") {
+    return NextResponse.json<SessionResponse>({ error: "title must be a string." }, { status: 400 });
+  }
+  if (
+    body.messages !== undefined &&
+    !(
+      Array.isArray(body.messages) &&
+      body.messages.every((m: Partial<ChatMessage> | null) => typeof m?.role === "string")
+    )
+  ) {
+    return NextResponse.json<SessionResponse>({ error: "messages must be a list of chat messages." }, { status: 400 });
+  }
+
+  try {
+    const session = await createSession({
+      title: body.title,
+      messages: body.messages as ChatMessage[] | undefined,
+    });
+    return NextResponse.json<SessionResponse>({ session }, { status: 201 });
+  } catch (err) {
+    console.error("[/api/sessions] Error:", err);
+    return NextResponse.json<SessionResponse>({ error: "Could not write the session store." }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * GET /api/traces/:id — one run trace: every LLM request and response, tool
+ * call, retry and fallback of the run, in order, with API keys redacted.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import type { TraceResponse } from "@/lib/types";
+import { getTrace, tracesEnabledFromEnv } from "@/lib/traces/store";
+
+export const runtime = "nodejs";
+
+/** While tracing is off, stored traces (from when it was on) aren't served either. */
+const TRACES_OFF = "Run traces are off. Set EOP_TRACES=on on the server to record and view them.";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_req: NextRequest, { params }: RouteParams) {
+  if (!tracesEnabledFromEnv()) {
+    return NextResponse.json<TraceResponse>({ error: TRACES_OFF }, { status: 404 });
+  }
+
+  const { id } = await params;
+  try {
+    const trace = await getTrace(id);
+    return trace
+      ? NextResponse.json<TraceResponse>({ trace })
+      : NextResponse.json<TraceResponse>({ error: `No trace with id "${id}".` }, { status: 404 });
+  } catch (err) {
+    console.error("[/api/traces] Error:", err);
+    return NextResponse.json<TraceResponse>({ error: "Could not read the trace store." }, { status: 500 });
+  }
+}
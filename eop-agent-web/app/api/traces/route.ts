@@ -0,0 +1,42 @@
+/**
+ * GET /api/traces — recent agent run traces (lib/traces/store.ts), newest first.
+ *
+ * Query: sessionId (only that session's runs), limit (default 50, max 200).
+ * Each /api/chat request records one trace; its id is the response's `traceId`.
+ * Only when EOP_TRACES=on: otherwise nothing is recorded and this returns 404.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import type { TraceResponse } from "@/lib/types";
+import { listTraces, tracesEnabledFromEnv } from "@/lib/traces/store";
+
+export const runtime = "nodejs";
+
+/** While tracing is off, stored traces (from when it was on) aren't served either. */
+const TRACES_OFF = "Run traces are off. Set EOP_TRACES=on on the server to record and view them.";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+export async function GET(req: NextRequest) {
+  if (!tracesEnabledFromEnv()) {
+    return NextResponse.json<TraceResponse>({ error: TRACES_OFF }, { status: 404 });
+  }
+
+  const params = req.nextUrl.searchParams;
+  const limit = params.has("limit") ? Number(params.get("limit")) : DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return NextResponse.json<TraceResponse>(
+      { error: `limit must be a whole number from 1 to ${MAX_LIMIT}.` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const traces = await listTraces({ sessionId: params.get("sessionId") ?? undefined, limit });
+    return NextResponse.json<TraceResponse>({ traces });
+  } catch (err) {
+    console.error("[/api/traces] Error:", err);
+    return NextResponse.json<TraceResponse>({ error: "Could not read the trace store." }, { status: 500 });
+  }
+}
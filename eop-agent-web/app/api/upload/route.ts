@@ -0,0 +1,72 @@
+/**
+ * POST /api/upload — unpack a repository archive in memory and return its file tree.
+ *
+ * Receives multipart/form-data with a `file` field (.zip, .tar.gz, .tgz or .tar).
+ * The archive is never written to disk; only the resulting RepoTree (paths,
+ * sizes, SHA-256 digests and hard-coded path references, after .gitignore
+ * filtering) is returned. Limits come from the
+ * EOP_UPLOAD_* environment variables (see lib/repo/archive.ts).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import type { UploadResponse } from "@/lib/types";
+import { formatBytes, readArchive, uploadLimitsFromEnv } from "@/lib/repo/archive";
+import { buildRepoTree, isGitignoreFile } from "@/lib/repo/tree";
+import { isScannableSource } from "@/lib/repo/references";
+
+export const runtime = "nodejs";
+
+export async function POST(req: NextRequest) {
+  const limits = uploadLimitsFromEnv();
+
+  let file: File;
+  try {
+    const form = await req.formData();
+    const value = form.get("file");
+    if (!(value instanceof File)) {
+      return NextResponse.json<UploadResponse>(
+        { error: "Form field \"file\" with the archive is required." },
+        { status: 400 }
+      );
+    }
+    file = value;
+  } catch {
+    return NextResponse.json<UploadResponse>(
+      { error: "Expected a multipart/form-data upload." },
+      { status: 400 }
+    );
+  }
+
+  if (file.size > limits.maxArchiveBytes) {
+    return NextResponse.json<UploadResponse>(
+      { error: `Archive is too large (max ${formatBytes(limits.maxArchiveBytes)}).` },
+      { status: 413 }
+    );
+  }
+
+  try {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const entries = readArchive(bytes, file.name, {
+      limits,
+      wantContent: (path) => isGitignoreFile(path) || isScannableSource(path),
+      hash: true, // lets create_hash_manifest and hash verification use the upload
+    });
+    const tree = buildRepoTree(file.name, entries, limits);
+
+    if (tree.files.length === 0) {
+      return NextResponse.json<UploadResponse>(
+        { error: "The archive contains no files (after .gitignore filtering)." },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json<UploadResponse>({ tree });
+  } catch (err) {
+    // Everything readArchive throws is about the uploaded file itself
+    const message = err instanceof Error ? err.message : String(err);
+    return NextResponse.json<UploadResponse>(
+      { error: `Could not read archive: ${message}` },
+      { status: 400 }
+    );
+  }
+}
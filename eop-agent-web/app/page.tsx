@@ -1,11 +1,17 @@
 "use client";
 
 import { useState } from "react";
+import { useApp } from "@/lib/context";
 import Sidebar from "@/components/Sidebar";
 import ChatPanel from "@/components/ChatPanel";
+import EvidenceGraphPanel from "@/components/EvidenceGraphPanel";
+import TracePanel from "@/components/TracePanel";
 
 export default function Home() {
   const [sidebarOpen, setSidebarOpen] = useState(true);
+  const [graphOpen, setGraphOpen] = useState(false);
+  const [tracesOpen, setTracesOpen] = useState(false);
+  const { conversationKey } = useApp();
 
   return (
     <div className="flex h-screen overflow-hidden">
@@ -36,10 +42,37 @@ export default function Home() {
           <span className="text-xs text-muted hidden sm:block">
             Evidence-Oriented Programming Assistant
           </span>
+          <button
+            onClick={() => setTracesOpen(!tracesOpen)}
+            className={`ml-auto px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+              tracesOpen
+                ? "bg-accent-muted text-accent"
+                : "text-muted hover:text-foreground hover:bg-card-border/50"
+            }`}
+          >
+            Traces
+          </button>
+          <button
+            onClick={() => setGraphOpen(!graphOpen)}
+            className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+              graphOpen
+                ? "bg-accent-muted text-accent"
+                : "text-muted hover:text-foreground hover:bg-card-border/50"
+            }`}
+          >
+            Evidence Chain
+          </button>
         </header>
 
-        <ChatPanel />
+        {/* Remounted per conversation, so its tool cards don't leak into the next one */}
+        <ChatPanel key={conversationKey} />
       </main>
+
+      {/* Evidence chain graph */}
+      {graphOpen && <EvidenceGraphPanel onClose={() => setGraphOpen(false)} />}
+
+      {/* Run traces (debugging) */}
+      {tracesOpen && <TracePanel onClose={() => setTracesOpen(false)} />}
     </div>
   );
 }
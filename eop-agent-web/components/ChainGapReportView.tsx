@@ -0,0 +1,62 @@
+"use client";
+
+import type { ChainGapReport, GapSeverity } from "@/lib/types";
+
+const SEVERITY_STYLES: Record<GapSeverity, string> = {
+  error: "bg-danger/15 text-danger",
+  warning: "bg-amber-400/15 text-amber-300",
+  info: "bg-sky-400/15 text-sky-300",
+};
+
+/** Per-claim gap list for check_chain_completeness results. */
+export default function ChainGapReportView({ report }: { report: ChainGapReport }) {
+  if (report.claims.length === 0) {
+    return <p className="text-muted">No claims recorded yet.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1.5">
+        {(Object.keys(SEVERITY_STYLES) as GapSeverity[]).map((severity) => (
+          <span key={severity} className={`px-1.5 py-0.5 rounded ${SEVERITY_STYLES[severity]}`}>
+            {report.totals[severity]} {severity}
+          </span>
+        ))}
+      </div>
+
+      {report.claims.map((claim) => (
+        <div key={claim.claimId} className="rounded border border-card-border p-2 space-y-1">
+          <div className="flex items-start gap-2">
+            <span className="font-mono text-accent">{claim.claimId}</span>
+            <span className="flex-1 text-foreground/80">{claim.claimText}</span>
+            <span className={claim.complete ? "text-accent" : "text-danger/80"}>
+              {claim.complete ? "complete" : "incomplete"}
+            </span>
+          </div>
+          <div className="text-muted/70">
+            Present: {claim.presentStages.length > 0 ? claim.presentStages.join(" · ") : "none"}
+          </div>
+          {claim.gaps.length > 0 && (
+            <ul className="space-y-0.5">
+              {claim.gaps.map((gap, i) => (
+                <li key={i} className="flex items-start gap-1.5">
+                  <span className={`px-1 rounded text-[10px] uppercase ${SEVERITY_STYLES[gap.severity]}`}>
+                    {gap.severity}
+                  </span>
+                  <span className="text-foreground/70">
+                    {gap.stage && <span className="font-mono text-muted">{gap.stage}: </span>}
+                    {gap.message}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+
+      {report.unlinkedArtifacts.length > 0 && (
+        <p className="text-muted/70">Not linked to any claim: {report.unlinkedArtifacts.join(", ")}</p>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,68 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
-import { useApp } from "@/lib/context";
-import type { ChatMessage, ChatResponse, ToolResult } from "@/lib/types";
+import { isOfflineProvider, useApp } from "@/lib/context";
+import type { AgentEvent, ChatMessage, ChatResponse, SessionResponse, ToolResult, UploadResponse } from "@/lib/types";
+import { readSSE } from "@/lib/sse";
+import { activeHistory, insertSynopsis } from "@/lib/eop-agent/memory";
 import MessageBubble from "./MessageBubble";
 import ToolResultCard from "./ToolResultCard";
 
+/** Progress of the turn currently being streamed from /api/chat. */
+interface LiveTurn {
+  text: string; // assistant text of the current round
+  tools: ToolResult[]; // tool calls so far (result is empty while pending)
+  pending: string[]; // toolCallIds still running
+  notice?: string; // e.g. a model call being retried
+}
+
+const EMPTY_TURN: LiveTurn = { text: "", tools: [], pending: [] };
+
+function applyEvent(turn: LiveTurn, event: AgentEvent): LiveTurn {
+  switch (event.type) {
+    case "token":
+      return { ...turn, text: turn.text + event.delta, notice: undefined };
+    case "tool_call":
+      return {
+        ...turn,
+        tools: [
+          ...turn.tools,
+          {
+            toolName: event.toolName,
+            toolCallId: event.toolCallId,
+            arguments: event.arguments,
+            result: "",
+          },
+        ],
+        pending: [...turn.pending, event.toolCallId],
+      };
+    case "tool_result":
+      return {
+        ...turn,
+        tools: turn.tools.map((t) =>
+          t.toolCallId === event.result.toolCallId ? event.result : t
+        ),
+        pending: turn.pending.filter((id) => id !== event.result.toolCallId),
+      };
+    case "round_end":
+      // Text streamed before tool calls is intermediate; the next round starts fresh
+      return event.toolCalls > 0 ? { ...turn, text: "" } : turn;
+    case "retry":
+      // The failed attempt may have streamed part of an answer; the retry starts over
+      return {
+        ...turn,
+        text: "",
+        notice: `Model call failed (${event.error}); retrying in ${Math.round(event.delayMs / 1000)}s…`,
+      };
+    case "compaction":
+      return { ...turn, notice: `Summarized ${event.compaction.summarized} earlier messages to stay within the context budget…` };
+    case "fallback":
+      return { ...turn, text: "", notice: `${event.from} failed (${event.errorClass}); switching to ${event.to}…` };
+    default:
+      return turn;
+  }
+}
+
 export default function ChatPanel() {
   const {
     messages,
@@ -13,21 +70,33 @@ export default function ChatPanel() {
     isLoading,
     setIsLoading,
     provider,
-    model,
     currentApiKey,
+    currentModel,
+    currentEndpoint,
+    fallbackTargets,
     isConfigured,
+    evidenceGraph,
+    setEvidenceGraph,
+    repoTree,
+    setRepoTree,
+    sessionId,
+    setSessionId,
+    setMessages,
   } = useApp();
 
   const [input, setInput] = useState("");
-  const [toolResults, setToolResults] = useState<ToolResult[][]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [live, setLive] = useState<LiveTurn | null>(null);
+  const [answeredBy, setAnsweredBy] = useState<ChatResponse["answeredBy"] | null>(null); // set after a fallback
+  const [isUploading, setIsUploading] = useState(false);
   const bottomRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Auto-scroll to bottom on new messages
   useEffect(() => {
     bottomRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages, isLoading]);
+  }, [messages, isLoading, live]);
 
   // Auto-resize textarea
   useEffect(() => {
@@ -37,22 +106,43 @@ export default function ChatPanel() {
     }
   }, [input]);
 
+  // The conversation is stored server-side from its first message on. Without a
+  // writable session store, the full history is sent with every request instead.
+  const ensureSession = async (): Promise<string | null> => {
+    if (sessionId) return sessionId;
+    try {
+      const res = await fetch("/api/sessions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ messages }),
+      });
+      const data: SessionResponse = await res.json();
+      if (!res.ok || !data.session) return null;
+      setSessionId(data.session.id);
+      return data.session.id;
+    } catch {
+      return null;
+    }
+  };
+
   const handleSend = async (overrideText?: string) => {
     const text = (overrideText ?? input).trim();
     if (!text || isLoading || !isConfigured()) return;
 
     setInput("");
     setError(null);
+    setAnsweredBy(null);
 
     const userMsg: ChatMessage = { role: "user", content: text };
     addMessage(userMsg);
 
     setIsLoading(true);
+    setLive(EMPTY_TURN);
 
     try {
-      const allMessages = [...messages, userMsg];
       const apiKey = currentApiKey();
-      if (!apiKey) throw new Error("No API key configured.");
+      if (apiKey === undefined && !isOfflineProvider(provider)) throw new Error("No API key configured.");
+      const session = await ensureSession();
 
       const res = await fetch("/api/chat", {
         method: "POST",
@@ -60,27 +150,98 @@ export default function ChatPanel() {
         body: JSON.stringify({
           provider,
           apiKey,
-          messages: allMessages,
-          model: model || undefined,
+          ...(session
+            ? { sessionId: session, messages: [userMsg] }
+            : { messages: [...activeHistory(messages), userMsg] }),
+          model: currentModel(),
+          endpoint: currentEndpoint(),
+          stream: true,
+          evidenceGraph,
+          repoTree: repoTree ?? undefined,
+          fallback: fallbackTargets(),
         }),
       });
 
-      const data: ChatResponse = await res.json();
+      let data: ChatResponse;
+      const contentType = res.headers.get("content-type") || "";
 
-      if (!res.ok) {
-        throw new Error(data.error || `Request failed with status ${res.status}`);
+      if (res.ok && res.body && contentType.includes("text/event-stream")) {
+        data = await readAgentStream(res.body);
+      } else {
+        // Non-streaming fallback: a single JSON ChatResponse
+        data = await res.json();
+        if (res.status === 404 && session) setSessionId(null); // deleted elsewhere; the next send starts a new one
+        if (!res.ok) {
+          throw new Error(data.error || `Request failed with status ${res.status}`);
+        }
       }
 
-      addMessage(data.reply);
+      // The tool results and token usage are kept with the reply they led to
+      const reply: ChatMessage = {
+        ...data.reply,
+        ...(data.toolResults?.length ? { toolResults: data.toolResults } : {}),
+        ...(data.usage?.length ? { usage: data.usage } : {}),
+      };
+      const sent = [...messages, userMsg];
+      setMessages([...(data.compaction ? insertSynopsis(sent, data.compaction) : sent), reply]);
+      if (data.answeredBy && data.answeredBy.provider !== provider) setAnsweredBy(data.answeredBy);
 
-      if (data.toolResults && data.toolResults.length > 0) {
-        setToolResults((prev) => [...prev, data.toolResults!]);
+      if (data.evidenceGraph) {
+        setEvidenceGraph(data.evidenceGraph);
       }
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Something went wrong.";
       setError(msg);
+      // A failed turn is not stored (nor is it in the session): take the message
+      // back out and return its text to the input so it can be sent again
+      setMessages(messages);
+      setInput((current) => current || text);
     } finally {
       setIsLoading(false);
+      setLive(null);
+    }
+  };
+
+  // Render streamed progress live; resolve with the final response
+  const readAgentStream = async (body: ReadableStream<Uint8Array>): Promise<ChatResponse> => {
+    const outcome: { response?: ChatResponse; error?: string } = {};
+
+    await readSSE(body, (event) => {
+      if (event.type === "final") {
+        outcome.response = event.response;
+      } else if (event.type === "error") {
+        outcome.error = event.error;
+      } else {
+        setLive((prev) => applyEvent(prev ?? EMPTY_TURN, event));
+      }
+    });
+
+    if (outcome.error) throw new Error(outcome.error);
+    if (!outcome.response) throw new Error("The response stream ended unexpectedly.");
+    return outcome.response;
+  };
+
+  // The archive is unpacked server-side; only its file tree comes back
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setError(null);
+    setIsUploading(true);
+    try {
+      const form = new FormData();
+      form.append("file", file);
+      const res = await fetch("/api/upload", { method: "POST", body: form });
+      const data: UploadResponse = await res.json();
+      if (!res.ok || !data.tree) {
+        throw new Error(data.error || `Upload failed with status ${res.status}`);
+      }
+      setRepoTree(data.tree);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Upload failed.");
+    } finally {
+      setIsUploading(false);
     }
   };
 
@@ -91,13 +252,6 @@ export default function ChatPanel() {
     }
   };
 
-  // Find tool results for a given assistant message index
-  const getToolResultsForIndex = (assistantIndex: number): ToolResult[] | undefined => {
-    return toolResults[assistantIndex];
-  };
-
-  let assistantCount = 0;
-
   return (
     <div className="flex-1 flex flex-col min-h-0">
       {/* Messages area */}
@@ -106,33 +260,45 @@ export default function ChatPanel() {
           <WelcomeScreen onSelect={(text) => handleSend(text)} />
         ) : (
           <div className="max-w-3xl mx-auto space-y-4">
-            {messages.map((msg, i) => {
-              let trForThis: ToolResult[] | undefined;
-              if (msg.role === "assistant") {
-                trForThis = getToolResultsForIndex(assistantCount);
-                assistantCount++;
-              }
-              return (
-                <div key={i}>
-                  {trForThis && trForThis.length > 0 && (
-                    <div className="mb-2 space-y-2">
-                      {trForThis.map((tr, j) => (
-                        <ToolResultCard key={j} result={tr} />
-                      ))}
-                    </div>
-                  )}
-                  <MessageBubble message={msg} />
-                </div>
-              );
-            })}
-            {isLoading && (
+            {messages.map((msg, i) => (
+              <div key={i}>
+                {msg.toolResults && msg.toolResults.length > 0 && (
+                  <div className="mb-2 space-y-2">
+                    {msg.toolResults.map((tr, j) => (
+                      <ToolResultCard key={j} result={tr} />
+                    ))}
+                  </div>
+                )}
+                <MessageBubble message={msg} />
+              </div>
+            ))}
+            {answeredBy && (
+              <p className="text-xs text-muted pl-2">
+                Answered by {answeredBy.provider} ({answeredBy.model}) — {provider} was unavailable.
+              </p>
+            )}
+            {live && live.tools.length > 0 && (
+              <div className="space-y-2">
+                {live.tools.map((tr) => (
+                  <ToolResultCard
+                    key={tr.toolCallId}
+                    result={tr}
+                    pending={live.pending.includes(tr.toolCallId)}
+                  />
+                ))}
+              </div>
+            )}
+            {live && live.text && (
+              <MessageBubble message={{ role: "assistant", content: live.text }} />
+            )}
+            {isLoading && !live?.text && (
               <div className="flex items-center gap-2 text-muted text-sm pl-2">
                 <div className="flex gap-1">
                   <div className="w-1.5 h-1.5 bg-accent rounded-full animate-bounce" style={{ animationDelay: "0ms" }} />
                   <div className="w-1.5 h-1.5 bg-accent rounded-full animate-bounce" style={{ animationDelay: "150ms" }} />
                   <div className="w-1.5 h-1.5 bg-accent rounded-full animate-bounce" style={{ animationDelay: "300ms" }} />
                 </div>
-                Thinking...
+                {live?.notice ?? "Thinking..."}
               </div>
             )}
             {error && (
@@ -148,7 +314,47 @@ export default function ChatPanel() {
       {/* Input area */}
       <div className="border-t border-card-border bg-card/30 backdrop-blur-sm px-4 py-3">
         <div className="max-w-3xl mx-auto">
+          {repoTree && (
+            <div className="mb-2 inline-flex items-center gap-2 px-2.5 py-1 rounded-lg border border-card-border bg-card text-xs">
+              <span className="font-mono">{repoTree.archiveName}</span>
+              <span className="text-muted">
+                {repoTree.files.length} files
+                {repoTree.ignoredCount > 0 && ` · ${repoTree.ignoredCount} ignored`}
+                {repoTree.truncated && " · truncated"}
+              </span>
+              <button
+                onClick={() => setRepoTree(null)}
+                className="text-muted hover:text-danger transition-colors"
+                title="Remove uploaded repository"
+              >
+                &times;
+              </button>
+            </div>
+          )}
           <div className="flex items-end gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".zip,.tar.gz,.tgz,.tar"
+              onChange={handleUpload}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isUploading || isLoading}
+              title="Upload a repository archive (.zip, .tar.gz, .tgz, .tar)"
+              className="px-3 py-2.5 rounded-xl border border-card-border bg-card text-muted text-sm
+                         hover:text-foreground hover:border-accent/30 transition-all
+                         disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+              {isUploading ? (
+                "..."
+              ) : (
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5">
+                  <path d="M21 15v4a2 2 0 01-2 2H5a2 2 0 01-2-2v-4M17 8l-5-5-5 5M12 3v12" />
+                </svg>
+              )}
+            </button>
             <textarea
               ref={inputRef}
               value={input}
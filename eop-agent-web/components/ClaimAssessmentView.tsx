@@ -0,0 +1,92 @@
+"use client";
+
+import type { ClaimAssessment, ClaimCue } from "@/lib/types";
+
+const CUE_STYLES: Record<ClaimCue["indicates"], string> = {
+  existential: "bg-sky-400/15 text-sky-300",
+  distributional: "bg-accent/15 text-accent",
+  vague: "bg-amber-400/15 text-amber-300",
+  constraint: "bg-fuchsia-400/15 text-fuchsia-300",
+};
+
+/** The claim with each cue highlighted by the strength it points to. */
+function HighlightedClaim({ assessment }: { assessment: ClaimAssessment }) {
+  const parts: React.ReactNode[] = [];
+  let pos = 0;
+  for (const cue of assessment.cues) {
+    if (cue.start > pos) parts.push(assessment.claim.slice(pos, cue.start));
+    parts.push(
+      <span key={cue.start} className={`px-0.5 rounded ${CUE_STYLES[cue.indicates]}`} title={cue.label}>
+        {cue.text}
+      </span>
+    );
+    pos = cue.end;
+  }
+  parts.push(assessment.claim.slice(pos));
+  return <p className="text-foreground/80">&ldquo;{parts}&rdquo;</p>;
+}
+
+/** Claim strength, cues, recommended scope and required artifacts for advise_disclosure_scope. */
+export default function ClaimAssessmentView({ assessment }: { assessment: ClaimAssessment }) {
+  return (
+    <div className="space-y-2">
+      <HighlightedClaim assessment={assessment} />
+
+      <div className="flex flex-wrap gap-1.5">
+        <span
+          className={`px-1.5 py-0.5 rounded ${
+            assessment.strength ? CUE_STYLES[assessment.strength] : CUE_STYLES.vague
+          }`}
+        >
+          {assessment.strength ?? "unclear"}
+        </span>
+        <span className="px-1.5 py-0.5 rounded bg-card text-foreground/80">
+          scope: {assessment.scopeLabel}
+          {assessment.needsClarification && " (provisional)"}
+        </span>
+      </div>
+
+      <p className="text-foreground/70">{assessment.scopeExplanation}</p>
+      <p className="text-muted/80">{assessment.rationale}</p>
+
+      <ul className="flex flex-wrap gap-1">
+        {assessment.consideredScopes.map((c) => (
+          <li
+            key={c.id}
+            title={c.reason}
+            className={`px-1.5 py-0.5 rounded border ${
+              c.id === assessment.scope
+                ? "border-accent/50 text-accent"
+                : c.applies
+                  ? "border-card-border text-foreground/70"
+                  : "border-card-border text-muted/50 line-through"
+            }`}
+          >
+            {c.label}
+          </li>
+        ))}
+      </ul>
+
+      {assessment.needsClarification && (
+        <p className="px-2 py-1.5 rounded border border-amber-400/30 bg-amber-400/10 text-amber-200">
+          {assessment.clarifyingQuestion}
+        </p>
+      )}
+
+      <div>
+        <div className="text-muted mb-0.5">Required at {assessment.scopeLabel.toLowerCase()} scope</div>
+        <ul className="space-y-0.5">
+          {assessment.requiredArtifacts.map((req, i) => (
+            <li key={i} className="flex gap-1.5">
+              <span className="font-mono text-accent/80 shrink-0">{req.type}</span>
+              <span className="text-foreground/70">
+                {req.description}
+                {req.because && <span className="text-muted"> ({req.because})</span>}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
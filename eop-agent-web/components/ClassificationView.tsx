@@ -0,0 +1,40 @@
+"use client";
+
+import type { ClassificationReport } from "@/lib/types";
+
+/** Per-file ECF classification table; low-confidence rows are highlighted for review. */
+export default function ClassificationView({ report }: { report: ClassificationReport }) {
+  return (
+    <div className="space-y-1.5">
+      <div className="text-muted/70">
+        {report.items.length} files &middot; {report.needsReview} need review (confidence &lt;{" "}
+        {report.threshold})
+      </div>
+      <table className="w-full text-left">
+        <thead className="text-muted">
+          <tr>
+            <th className="font-medium py-0.5 pr-2">Path</th>
+            <th className="font-medium py-0.5 pr-2">Type</th>
+            <th className="font-medium py-0.5 text-right">Conf.</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.items.map((item) => (
+            <tr
+              key={item.path}
+              className={item.needsReview ? "bg-amber-400/10" : ""}
+              title={[...item.reasons, ...item.alternatives.map((a) => `alt: ${a.type} ${a.confidence}`)].join("\n")}
+            >
+              <td className="py-0.5 pr-2 font-mono text-[11px] break-all">{item.path}</td>
+              <td className="py-0.5 pr-2">
+                {item.type ?? <span className="text-muted">not evidence</span>}
+                {item.needsReview && <span className="ml-1 text-amber-300">review</span>}
+              </td>
+              <td className="py-0.5 text-right tabular-nums">{item.confidence.toFixed(2)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
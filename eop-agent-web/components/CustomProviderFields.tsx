@@ -0,0 +1,86 @@
+"use client";
+
+import { useApp } from "@/lib/context";
+
+const INPUT_CLASS =
+  "px-3 py-2 rounded-lg bg-input-bg border border-input-border text-sm placeholder:text-muted/50 " +
+  "focus:outline-none focus:border-accent/50 focus:ring-1 focus:ring-accent/20 transition-all";
+
+/** Base URL, model and extra headers of the "custom" provider (any OpenAI-compatible server). */
+export default function CustomProviderFields() {
+  const { customProvider, setCustomProvider } = useApp();
+  const { headers } = customProvider;
+
+  const editHeader = (index: number, changes: Partial<{ name: string; value: string }>) =>
+    setCustomProvider({ headers: headers.map((h, i) => (i === index ? { ...h, ...changes } : h)) });
+
+  return (
+    <section className="space-y-3">
+      <div>
+        <label className="block text-xs font-semibold text-muted uppercase tracking-wider mb-2">Base URL</label>
+        <input
+          type="url"
+          value={customProvider.baseUrl}
+          onChange={(e) => setCustomProvider({ baseUrl: e.target.value })}
+          placeholder="http://localhost:8000/v1"
+          className={`${INPUT_CLASS} w-full`}
+        />
+        <p className="mt-1.5 text-xs text-muted/60">
+          vLLM, llama.cpp, Ollama (…:11434/v1) or any OpenAI-compatible server. The model must support
+          function calling, and the server must list the host in EOP_CUSTOM_HOSTS.
+        </p>
+      </div>
+
+      <div>
+        <label className="block text-xs font-semibold text-muted uppercase tracking-wider mb-2">Model</label>
+        <input
+          type="text"
+          value={customProvider.model}
+          onChange={(e) => setCustomProvider({ model: e.target.value })}
+          placeholder="e.g. Qwen/Qwen2.5-7B-Instruct"
+          className={`${INPUT_CLASS} w-full`}
+        />
+      </div>
+
+      <div>
+        <label className="block text-xs font-semibold text-muted uppercase tracking-wider mb-2">Headers</label>
+        <div className="space-y-1.5">
+          {headers.map((header, i) => (
+            <div key={i} className="flex gap-1.5">
+              <input
+                type="text"
+                value={header.name}
+                onChange={(e) => editHeader(i, { name: e.target.value })}
+                placeholder="Name"
+                aria-label="Header name"
+                className={`${INPUT_CLASS} min-w-0 w-2/5`}
+              />
+              <input
+                type="password"
+                value={header.value}
+                onChange={(e) => editHeader(i, { value: e.target.value })}
+                placeholder="Value"
+                aria-label="Header value"
+                className={`${INPUT_CLASS} min-w-0 flex-1`}
+              />
+              <button
+                onClick={() => setCustomProvider({ headers: headers.filter((_, j) => j !== i) })}
+                className="px-2 text-xs text-muted hover:text-danger"
+                aria-label={`Remove header ${header.name}`}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => setCustomProvider({ headers: [...headers, { name: "", value: "" }] })}
+          className="mt-1.5 text-xs text-muted hover:text-foreground"
+        >
+          + Add header
+        </button>
+        <p className="mt-1 text-xs text-muted/60">Saved in this browser only with &ldquo;Remember API keys&rdquo;.</p>
+      </div>
+    </section>
+  );
+}
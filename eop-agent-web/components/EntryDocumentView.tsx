@@ -0,0 +1,46 @@
+"use client";
+
+import { useState } from "react";
+import type { EntryDocument } from "@/lib/types";
+import { downloadText } from "@/lib/download";
+import { SimpleMarkdown } from "./MessageBubble";
+
+/** Entry document from generate_entry_document: rendered preview or raw markdown, with download. */
+export default function EntryDocumentView({ document: doc }: { document: EntryDocument }) {
+  const [raw, setRaw] = useState(false);
+  const fileName = doc.fileName.slice(doc.fileName.lastIndexOf("/") + 1);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-1.5">
+        <span className="font-mono text-foreground/80">{doc.fileName}</span>
+        {doc.todos.length > 0 && (
+          <span className="px-1.5 py-0.5 rounded bg-amber-400/15 text-amber-300">{doc.todos.length} TODO</span>
+        )}
+        <span className="flex-1" />
+        <button
+          onClick={() => setRaw(!raw)}
+          className="px-2 py-0.5 rounded border border-card-border hover:border-accent/40 hover:text-accent transition-colors"
+        >
+          {raw ? "Preview" : "Markdown"}
+        </button>
+        <button
+          onClick={() => downloadText(fileName, doc.markdown, "text/markdown")}
+          className="px-2 py-0.5 rounded border border-card-border hover:border-accent/40 hover:text-accent transition-colors"
+        >
+          Download
+        </button>
+      </div>
+
+      <div className="max-h-96 overflow-auto rounded border border-card-border p-2">
+        {raw ? (
+          <pre className="font-mono text-[11px] whitespace-pre-wrap text-foreground/80">{doc.markdown}</pre>
+        ) : (
+          <div className="chat-markdown text-foreground/90">
+            <SimpleMarkdown text={doc.markdown} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
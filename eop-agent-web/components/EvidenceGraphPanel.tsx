@@ -0,0 +1,428 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useApp } from "@/lib/context";
+import type { EcfArtifactType, EvidenceGraph, EvidenceLinkType } from "@/lib/types";
+import { downloadText } from "@/lib/download";
+import HashControls from "./HashControls";
+import {
+  detectManifestFormat,
+  graphToManifest,
+  manifestToGraph,
+  parseManifest,
+  serializeManifest,
+  type ManifestFormat,
+  type ManifestIssue,
+} from "@/lib/eop-agent/manifest";
+import {
+  ECF_ARTIFACT_TYPES,
+  deleteNode,
+  findArtifact,
+  findClaim,
+  linksForArtifact,
+  linksForClaim,
+  updateArtifact,
+} from "@/lib/eop-agent/evidence-graph";
+
+// ── Layout: one horizontal lane per ECF stage (chain order, top → bottom), claims last ──
+
+const LANE_HEIGHT = 58;
+const LANE_LABEL = 16;
+const NODE_WIDTH = 124;
+const NODE_HEIGHT = 28;
+const NODE_GAP = 12;
+const PADDING = 12;
+
+const STAGE_LABELS: Record<EcfArtifactType, string> = {
+  input_data: "Input data",
+  experimental_process: "Experimental process",
+  output_data: "Output data",
+  visual_data: "Visual data",
+  plotting_process: "Plotting process",
+  visual_claims: "Visual claims",
+  documentation: "Documentation",
+};
+
+const LINK_COLORS: Record<EvidenceLinkType, string> = {
+  supports: "#76b900",
+  generates: "#38bdf8",
+  visualizes: "#c084fc",
+  documents: "#9ca3af",
+};
+
+interface NodeBox {
+  id: string;
+  isClaim: boolean;
+  label: string;
+  title: string;
+  x: number;
+  y: number;
+}
+
+function layoutGraph(graph: EvidenceGraph) {
+  const lanes = [...ECF_ARTIFACT_TYPES, "claims"] as const;
+  const boxes = new Map<string, NodeBox>();
+  let maxPerLane = 1;
+
+  lanes.forEach((lane, laneIndex) => {
+    const items =
+      lane === "claims"
+        ? graph.claims.map((c) => ({ id: c.id, label: c.text, isClaim: true }))
+        : graph.artifacts
+            .filter((a) => a.type === lane)
+            .map((a) => ({ id: a.id, label: a.name, isClaim: false }));
+    maxPerLane = Math.max(maxPerLane, items.length);
+
+    items.forEach((item, i) => {
+      boxes.set(item.id, {
+        id: item.id,
+        isClaim: item.isClaim,
+        label: item.label.length > 18 ? `${item.label.slice(0, 17)}…` : item.label,
+        title: `${item.id}: ${item.label}`,
+        x: PADDING + i * (NODE_WIDTH + NODE_GAP),
+        y: laneIndex * LANE_HEIGHT + LANE_LABEL + 4,
+      });
+    });
+  });
+
+  return {
+    lanes,
+    boxes,
+    width: PADDING * 2 + maxPerLane * (NODE_WIDTH + NODE_GAP) - NODE_GAP,
+    height: lanes.length * LANE_HEIGHT,
+  };
+}
+
+export default function EvidenceGraphPanel({ onClose }: { onClose: () => void }) {
+  const { evidenceGraph, setEvidenceGraph, isLoading } = useApp();
+  const [selected, setSelected] = useState<string | null>(null);
+  const [importIssues, setImportIssues] = useState<{ file: string; issues: ManifestIssue[] } | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const { lanes, boxes, width, height } = layoutGraph(evidenceGraph);
+  const isEmpty = evidenceGraph.artifacts.length === 0 && evidenceGraph.claims.length === 0;
+
+  // Edits go through the same helpers the tools use, on a copy of the graph.
+  // The updated graph is sent with the next request, so the agent sees them.
+  const edit = (change: (graph: EvidenceGraph) => void) => {
+    const next = structuredClone(evidenceGraph);
+    change(next);
+    setEvidenceGraph(next);
+  };
+
+  const exportManifest = (format: ManifestFormat) => {
+    const text = serializeManifest(graphToManifest(evidenceGraph), format);
+    downloadText(
+      `ecf-manifest.${format === "yaml" ? "yaml" : "json"}`,
+      text,
+      format === "yaml" ? "application/yaml" : "application/json"
+    );
+  };
+
+  // Import replaces the chain of the current scope with the manifest's entries
+  const importManifest = async (file: File) => {
+    const text = await file.text();
+    const parsed = parseManifest(text, detectManifestFormat(text, file.name));
+    if (!parsed.ok) {
+      setImportIssues({ file: file.name, issues: parsed.issues });
+      return;
+    }
+    setImportIssues(null);
+    setSelected(null);
+    setEvidenceGraph(manifestToGraph(parsed.manifest, evidenceGraph.scope));
+  };
+
+  return (
+    <aside className="w-[440px] flex-shrink-0 border-l border-card-border bg-card flex flex-col h-screen">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-card-border">
+        <div>
+          <span className="font-bold text-sm tracking-wider">EVIDENCE CHAIN</span>
+          <span className="ml-2 text-xs text-muted">
+            {evidenceGraph.scope.kind === "project" ? "project" : "conversation"} scope
+          </span>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1.5 rounded-lg hover:bg-card-border/50 transition-colors text-muted hover:text-foreground"
+          aria-label="Close evidence chain panel"
+        >
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M9 18l6-6-6-6" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {/* ECF manifest export / import */}
+        <div className="flex items-center gap-2 text-xs">
+          <span className="text-muted">Manifest</span>
+          <button
+            onClick={() => exportManifest("json")}
+            disabled={isEmpty}
+            className="px-2 py-1 rounded bg-card-border/30 hover:bg-card-border/50 transition-colors disabled:opacity-40"
+          >
+            Export JSON
+          </button>
+          <button
+            onClick={() => exportManifest("yaml")}
+            disabled={isEmpty}
+            className="px-2 py-1 rounded bg-card-border/30 hover:bg-card-border/50 transition-colors disabled:opacity-40"
+          >
+            Export YAML
+          </button>
+          <button
+            onClick={() => fileRef.current?.click()}
+            disabled={isLoading}
+            className="px-2 py-1 rounded bg-card-border/30 hover:bg-card-border/50 transition-colors disabled:opacity-40"
+          >
+            Import
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".json,.yaml,.yml,application/json,application/yaml"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) void importManifest(file);
+              e.target.value = "";
+            }}
+          />
+        </div>
+
+        {importIssues && (
+          <div className="px-3 py-2 rounded-lg bg-danger/10 border border-danger/20 text-xs space-y-1">
+            <div className="flex justify-between gap-2 text-danger">
+              <span>
+                {importIssues.file}: {importIssues.issues.length} problem(s), nothing imported
+              </span>
+              <button onClick={() => setImportIssues(null)} aria-label="Dismiss">
+                &times;
+              </button>
+            </div>
+            <ul className="space-y-0.5 font-mono text-[11px] text-foreground/70">
+              {importIssues.issues.map((issue, i) => (
+                <li key={i}>
+                  <span className="text-danger/80">{issue.path}</span>: {issue.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <HashControls />
+
+        {isEmpty ? (
+          <p className="text-xs text-muted/80">
+            Nothing recorded yet. Ask the agent to annotate an artifact or link it to a claim.
+          </p>
+        ) : (
+          <div className="overflow-x-auto rounded-lg border border-card-border bg-input-bg">
+            <svg width={width} height={height} className="block">
+              <defs>
+                {Object.entries(LINK_COLORS).map(([type, color]) => (
+                  <marker
+                    key={type}
+                    id={`arrow-${type}`}
+                    viewBox="0 0 10 10"
+                    refX="9"
+                    refY="5"
+                    markerWidth="6"
+                    markerHeight="6"
+                    orient="auto-start-reverse"
+                  >
+                    <path d="M0 0L10 5L0 10z" fill={color} />
+                  </marker>
+                ))}
+              </defs>
+
+              {lanes.map((lane, i) => (
+                <g key={lane}>
+                  {i > 0 && (
+                    <line x1={0} x2={width} y1={i * LANE_HEIGHT} y2={i * LANE_HEIGHT} stroke="var(--card-border)" />
+                  )}
+                  <text x={PADDING} y={i * LANE_HEIGHT + 12} fontSize="9" fill="var(--muted)">
+                    {lane === "claims" ? "Claims" : `${i + 1}. ${STAGE_LABELS[lane]}`}
+                  </text>
+                </g>
+              ))}
+
+              {evidenceGraph.links.map((link) => {
+                const from = boxes.get(link.artifactId);
+                const to = boxes.get(link.claimId);
+                if (!from || !to) return null;
+                const x1 = from.x + NODE_WIDTH / 2;
+                const y1 = from.y + NODE_HEIGHT;
+                const x2 = to.x + NODE_WIDTH / 2;
+                const y2 = to.y;
+                const mid = (y1 + y2) / 2;
+                const active = selected === link.artifactId || selected === link.claimId;
+                return (
+                  <path
+                    key={link.id}
+                    d={`M${x1} ${y1} C${x1} ${mid}, ${x2} ${mid}, ${x2} ${y2}`}
+                    fill="none"
+                    stroke={LINK_COLORS[link.type]}
+                    strokeWidth={active ? 2 : 1.2}
+                    strokeOpacity={selected && !active ? 0.25 : 0.9}
+                    markerEnd={`url(#arrow-${link.type})`}
+                  >
+                    <title>{`${link.id}: ${link.type}`}</title>
+                  </path>
+                );
+              })}
+
+              {[...boxes.values()].map((box) => {
+                const isSelected = selected === box.id;
+                return (
+                  <g
+                    key={box.id}
+                    onClick={() => setSelected(isSelected ? null : box.id)}
+                    className="cursor-pointer"
+                  >
+                    <title>{box.title}</title>
+                    <rect
+                      x={box.x}
+                      y={box.y}
+                      width={NODE_WIDTH}
+                      height={NODE_HEIGHT}
+                      rx={box.isClaim ? 14 : 6}
+                      fill={isSelected ? "var(--accent-muted)" : "var(--card)"}
+                      stroke={isSelected ? "var(--accent)" : "var(--card-border)"}
+                    />
+                    <text
+                      x={box.x + NODE_WIDTH / 2}
+                      y={box.y + NODE_HEIGHT / 2 + 3.5}
+                      fontSize="10"
+                      textAnchor="middle"
+                      fill="var(--foreground)"
+                    >
+                      {box.label}
+                    </text>
+                  </g>
+                );
+              })}
+            </svg>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-3 text-[10px] text-muted">
+          {Object.entries(LINK_COLORS).map(([type, color]) => (
+            <span key={type} className="flex items-center gap-1">
+              <span className="inline-block w-3 h-0.5" style={{ background: color }} />
+              {type}
+            </span>
+          ))}
+        </div>
+
+        {selected && (
+          <NodeDetails
+            graph={evidenceGraph}
+            nodeId={selected}
+            disabled={isLoading}
+            onEdit={edit}
+            onSelect={setSelected}
+          />
+        )}
+      </div>
+    </aside>
+  );
+}
+
+interface NodeDetailsProps {
+  graph: EvidenceGraph;
+  nodeId: string;
+  disabled: boolean;
+  onEdit: (change: (graph: EvidenceGraph) => void) => void;
+  onSelect: (id: string | null) => void;
+}
+
+/** Annotations and links of the selected node, with type correction and link deletion. */
+function NodeDetails({ graph, nodeId, disabled, onEdit, onSelect }: NodeDetailsProps) {
+  const artifact = findArtifact(graph, nodeId);
+  const claim = artifact ? undefined : findClaim(graph, nodeId);
+  if (!artifact && !claim) return null;
+
+  const links = artifact ? linksForArtifact(graph, artifact.id) : linksForClaim(graph, claim!.id);
+
+  return (
+    <section className="rounded-lg border border-card-border p-3 space-y-2 text-xs">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <span className="text-accent font-mono">{nodeId}</span>{" "}
+          <span className="break-words">{artifact ? artifact.name : claim!.text}</span>
+        </div>
+        <button
+          onClick={() => onSelect(null)}
+          className="text-muted hover:text-foreground"
+          aria-label="Close details"
+        >
+          &times;
+        </button>
+      </div>
+
+      {artifact && (
+        <>
+          <label className="block">
+            <span className="text-muted">ECF type</span>
+            <select
+              value={artifact.type}
+              disabled={disabled}
+              onChange={(e) =>
+                onEdit((g) => {
+                  const target = findArtifact(g, artifact.id);
+                  if (target) updateArtifact(target, { type: e.target.value as EcfArtifactType });
+                })
+              }
+              className="mt-1 w-full px-2 py-1.5 rounded bg-input-bg border border-input-border
+                         focus:outline-none focus:border-accent/50 disabled:opacity-50"
+            >
+              {ECF_ARTIFACT_TYPES.map((t) => (
+                <option key={t} value={t}>
+                  {t}
+                </option>
+              ))}
+            </select>
+          </label>
+          <p className="text-muted">
+            {artifact.description ? artifact.description : "No description."}
+          </p>
+        </>
+      )}
+
+      <div>
+        <span className="text-muted">Links ({links.length})</span>
+        {links.length === 0 ? (
+          <p className="text-muted/60 mt-1">{artifact ? "Not linked to any claim." : "No artifacts linked yet."}</p>
+        ) : (
+          <ul className="mt-1 space-y-1">
+            {links.map((link) => {
+              const otherId = artifact ? link.claimId : link.artifactId;
+              const other = artifact ? findClaim(graph, otherId)?.text : findArtifact(graph, otherId)?.name;
+              return (
+                <li key={link.id} className="flex items-center gap-2">
+                  <span className="font-mono text-muted/60">{link.id}</span>
+                  <span style={{ color: LINK_COLORS[link.type] }}>{link.type}</span>
+                  <button
+                    onClick={() => onSelect(otherId)}
+                    className="flex-1 min-w-0 truncate text-left hover:text-accent"
+                    title={other}
+                  >
+                    {otherId} {other}
+                  </button>
+                  <button
+                    onClick={() => onEdit((g) => void deleteNode(g, link.id, "link"))}
+                    disabled={disabled}
+                    className="px-1.5 py-0.5 rounded text-danger/80 hover:bg-danger/10 disabled:opacity-40"
+                  >
+                    delete
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useApp } from "@/lib/context";
+import type { FileHash, HashManifest, HashResponse, HashVerification } from "@/lib/types";
+import { parseHashManifest, verifyHashManifest } from "@/lib/eop-agent/hash-manifest";
+import HashManifestView from "./HashManifestView";
+import HashVerificationView from "./HashVerificationView";
+
+const BUTTON =
+  "px-2 py-1 rounded bg-card-border/30 hover:bg-card-border/50 transition-colors disabled:opacity-40";
+
+/**
+ * SHA-256 manifest of artifact files (for restricted artifacts that are not
+ * released), and verification of files against a saved manifest. Files are
+ * hashed by /api/hash; an uploaded repository already carries its digests.
+ */
+export default function HashControls() {
+  const { evidenceGraph, repoTree } = useApp();
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [against, setAgainst] = useState<{ name: string; text: string; manifest: HashManifest } | null>(null);
+  const [manifest, setManifest] = useState<HashManifest | null>(null);
+  const [verification, setVerification] = useState<HashVerification | null>(null);
+  const filesRef = useRef<HTMLInputElement>(null);
+  const archiveRef = useRef<HTMLInputElement>(null);
+  const manifestRef = useRef<HTMLInputElement>(null);
+
+  const uploadedHashes: FileHash[] = (repoTree?.files ?? [])
+    .filter((f) => f.sha256)
+    .map((f) => ({ path: f.path, size: f.size, sha256: f.sha256! }));
+
+  const show = (result: { manifest?: HashManifest; verification?: HashVerification }) => {
+    setError(null);
+    setManifest(result.manifest ?? null);
+    setVerification(result.verification ?? null);
+  };
+
+  // Creates a manifest, or verifies against `against` when one is loaded
+  const submit = async (field: "files" | "archive", files: File[]) => {
+    const form = new FormData();
+    for (const file of files) form.append(field, file, file.webkitRelativePath || file.name);
+    if (against) form.append("manifest", new Blob([against.text]), against.name);
+    else form.append("evidenceGraph", JSON.stringify(evidenceGraph));
+
+    setBusy(true);
+    try {
+      const res = await fetch("/api/hash", { method: "POST", body: form });
+      const data: HashResponse = await res.json();
+      if (!res.ok || (!data.manifest && !data.verification)) {
+        throw new Error(data.error || `Hashing failed with status ${res.status}`);
+      }
+      show(data);
+      setAgainst(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Hashing failed.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const loadManifest = async (file: File) => {
+    const text = await file.text();
+    const parsed = parseHashManifest(text, file.name);
+    if (!parsed.ok) {
+      setError(`${file.name}: ${parsed.issues.map((i) => `${i.path}: ${i.message}`).join("; ")}`);
+      return;
+    }
+    show({});
+    setAgainst({ name: file.name, text, manifest: parsed.manifest });
+  };
+
+  const pick = (ref: React.RefObject<HTMLInputElement | null>, field: "files" | "archive" | "manifest") => (
+    <input
+      ref={ref}
+      type="file"
+      multiple={field === "files"}
+      accept={
+        field === "archive"
+          ? ".zip,.tar.gz,.tgz,.tar"
+          : field === "manifest"
+            ? ".json,.yaml,.yml,application/json,application/yaml"
+            : undefined
+      }
+      className="hidden"
+      onChange={(e) => {
+        const files = [...(e.target.files ?? [])];
+        e.target.value = "";
+        if (files.length === 0) return;
+        if (field === "manifest") void loadManifest(files[0]);
+        else void submit(field, files);
+      }}
+    />
+  );
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-muted">{against ? `Verify against ${against.name}` : "Hashes"}</span>
+        <button onClick={() => filesRef.current?.click()} disabled={busy} className={BUTTON}>
+          {against ? "Files" : "Hash files"}
+        </button>
+        <button onClick={() => archiveRef.current?.click()} disabled={busy} className={BUTTON}>
+          {against ? "Archive" : "Hash archive"}
+        </button>
+        {against ? (
+          <>
+            <button
+              onClick={() => {
+                show({ verification: verifyHashManifest(against.manifest, uploadedHashes, repoTree!.archiveName) });
+                setAgainst(null);
+              }}
+              disabled={busy || uploadedHashes.length === 0}
+              title={uploadedHashes.length === 0 ? "Upload a repository archive first" : repoTree?.archiveName}
+              className={BUTTON}
+            >
+              Uploaded repo
+            </button>
+            <button onClick={() => setAgainst(null)} disabled={busy} className="text-muted hover:text-foreground">
+              Cancel
+            </button>
+          </>
+        ) : (
+          <button onClick={() => manifestRef.current?.click()} disabled={busy} className={BUTTON}>
+            Verify…
+          </button>
+        )}
+        {busy && <span className="text-muted">hashing…</span>}
+        {pick(filesRef, "files")}
+        {pick(archiveRef, "archive")}
+        {pick(manifestRef, "manifest")}
+      </div>
+
+      {error && <p className="px-3 py-2 rounded-lg bg-danger/10 border border-danger/20 text-danger">{error}</p>}
+      {manifest && <HashManifestView manifest={manifest} />}
+      {verification && <HashVerificationView verification={verification} />}
+    </div>
+  );
+}
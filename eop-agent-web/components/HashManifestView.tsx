@@ -0,0 +1,37 @@
+"use client";
+
+import type { HashManifest } from "@/lib/types";
+import { downloadText } from "@/lib/download";
+import { serializeHashManifest } from "@/lib/eop-agent/hash-manifest";
+
+/** SHA-256 manifest from create_hash_manifest (or the evidence chain panel), with download. */
+export default function HashManifestView({ manifest }: { manifest: HashManifest }) {
+  const tied = manifest.files.filter((f) => f.artifact).length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-1.5">
+        <span className="px-1.5 py-0.5 rounded bg-card text-foreground/80">{manifest.files.length} files</span>
+        <span className="px-1.5 py-0.5 rounded bg-accent/15 text-accent">{tied} tied to artifacts</span>
+        <span className="text-muted truncate">from {manifest.source}</span>
+        <span className="flex-1" />
+        <button
+          onClick={() => downloadText("ecf-hashes.json", serializeHashManifest(manifest), "application/json")}
+          className="px-2 py-0.5 rounded border border-card-border hover:border-accent/40 hover:text-accent transition-colors"
+        >
+          Download
+        </button>
+      </div>
+
+      <ul className="font-mono text-[11px] max-h-64 overflow-auto rounded border border-card-border p-1.5 space-y-0.5">
+        {manifest.files.map((f) => (
+          <li key={f.path} className="flex gap-2 whitespace-nowrap" title={f.sha256}>
+            <span className="text-muted">{f.sha256.slice(0, 12)}</span>
+            <span className="text-foreground/80">{f.path}</span>
+            {f.artifact && <span className="text-accent/80">{f.artifact.id}</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import type { HashCheckStatus, HashVerification } from "@/lib/types";
+
+const STATUS_STYLES: Record<HashCheckStatus, string> = {
+  match: "text-accent",
+  changed: "text-danger",
+  missing: "text-amber-300",
+};
+
+/** Result of checking files against a hash manifest. */
+export default function HashVerificationView({ verification }: { verification: HashVerification }) {
+  const problems = verification.checks.filter((c) => c.status !== "match");
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-1.5">
+        {(Object.keys(STATUS_STYLES) as HashCheckStatus[]).map((status) => (
+          <span key={status} className={`px-1.5 py-0.5 rounded bg-card ${STATUS_STYLES[status]}`}>
+            {verification.counts[status]} {status}
+          </span>
+        ))}
+        <span className="text-muted truncate">in {verification.source}</span>
+      </div>
+
+      {problems.length > 0 ? (
+        <ul className="font-mono text-[11px] max-h-48 overflow-auto space-y-0.5">
+          {problems.map((c) => (
+            <li key={c.path} className={STATUS_STYLES[c.status]} title={`expected ${c.expected}`}>
+              {c.status}: {c.path}
+              {c.artifactId && <span className="text-muted"> ({c.artifactId})</span>}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-accent">Every file in the manifest matches.</p>
+      )}
+
+      {verification.unexpected.length > 0 && (
+        <p className="text-muted/80">
+          Not in the manifest: <span className="font-mono">{verification.unexpected.join(", ")}</span>
+        </p>
+      )}
+    </div>
+  );
+}
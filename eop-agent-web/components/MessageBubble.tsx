@@ -1,6 +1,6 @@
 "use client";
 
-import type { ChatMessage } from "@/lib/types";
+import type { ChatMessage, Compaction } from "@/lib/types";
 
 interface MessageBubbleProps {
   message: ChatMessage;
@@ -10,6 +10,7 @@ export default function MessageBubble({ message }: MessageBubbleProps) {
   const isUser = message.role === "user";
   const isAssistant = message.role === "assistant";
 
+  if (message.compaction) return <CompactionNotice compaction={message.compaction} />;
   if (!message.content) return null;
 
   return (
@@ -35,8 +36,35 @@ export default function MessageBubble({ message }: MessageBubbleProps) {
   );
 }
 
-/** Very lightweight markdown renderer for chat messages. */
-function SimpleMarkdown({ text }: { text: string }) {
+/** Marks where older turns were summarized; expands to what the model now sees instead of them. */
+function CompactionNotice({ compaction }: { compaction: Compaction }) {
+  return (
+    <details className="text-xs text-muted border-y border-card-border/60 py-2">
+      <summary className="cursor-pointer select-none text-center">
+        The {compaction.summarized} messages above were summarized to save context (≈{compaction.tokensBefore} →{" "}
+        {compaction.tokensAfter} tokens)
+      </summary>
+      <div className="mt-2 px-2 space-y-2">
+        <div className="chat-markdown">
+          <SimpleMarkdown text={compaction.summary} />
+        </div>
+        {compaction.recorded.length > 0 && (
+          <div>
+            <p className="font-semibold text-foreground/70">Kept verbatim</p>
+            <ul className="mt-1 space-y-0.5 font-mono break-all">
+              {compaction.recorded.map((line, i) => (
+                <li key={i}>{line}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+}
+
+/** Very lightweight markdown renderer for chat messages (and the entry document preview). */
+export function SimpleMarkdown({ text }: { text: string }) {
   // Split into lines and process
   const lines = text.split("\n");
   const elements: React.ReactNode[] = [];
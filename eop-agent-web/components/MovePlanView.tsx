@@ -0,0 +1,121 @@
+"use client";
+
+import type { MovePlan, MoveStatus } from "@/lib/types";
+import { downloadText } from "@/lib/download";
+import { movePlanToScript, movePlanToTreeDiff } from "@/lib/eop-agent/restructure";
+
+const STATUS_STYLES: Record<MoveStatus, string> = {
+  move: "text-accent",
+  keep: "text-foreground/70",
+  conflict: "text-danger",
+  review: "text-amber-300",
+};
+
+interface TreeLine {
+  key: string;
+  depth: number;
+  name: string;
+  status?: MoveStatus; // files only
+}
+
+/** Indented folder/file lines for a sorted list of paths. */
+function treeLines(files: { path: string; status: MoveStatus }[]): TreeLine[] {
+  const lines: TreeLine[] = [];
+  const shown = new Set<string>();
+  for (const { path, status } of [...files].sort((a, b) => a.path.localeCompare(b.path))) {
+    const parts = path.split("/");
+    for (let depth = 0; depth < parts.length - 1; depth++) {
+      const dir = parts.slice(0, depth + 1).join("/");
+      if (shown.has(dir)) continue;
+      shown.add(dir);
+      lines.push({ key: `${dir}/`, depth, name: `${parts[depth]}/` });
+    }
+    lines.push({ key: path, depth: parts.length - 1, name: parts[parts.length - 1], status });
+  }
+  return lines;
+}
+
+function Tree({ title, lines }: { title: string; lines: TreeLine[] }) {
+  return (
+    <div className="min-w-0 flex-1">
+      <div className="text-muted mb-0.5">{title}</div>
+      <div className="font-mono text-[11px] max-h-64 overflow-auto rounded border border-card-border p-1.5">
+        {lines.map((line) => (
+          <div
+            key={line.key}
+            className={`whitespace-nowrap ${line.status ? STATUS_STYLES[line.status] : "text-muted"}`}
+            style={{ paddingLeft: `${line.depth * 12}px` }}
+          >
+            {line.name}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/** Move plan for suggest_directory_structure: before/after trees, problems, script download. */
+export default function MovePlanView({ plan }: { plan: MovePlan }) {
+  const before = treeLines(plan.entries.map((e) => ({ path: e.from, status: e.status })));
+  const after = treeLines(
+    plan.entries.map((e) => ({ path: e.status === "move" ? e.to : e.from, status: e.status }))
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-1.5">
+        {(Object.keys(STATUS_STYLES) as MoveStatus[]).map((status) => (
+          <span key={status} className={`px-1.5 py-0.5 rounded bg-card ${STATUS_STYLES[status]}`}>
+            {plan.counts[status]} {status}
+          </span>
+        ))}
+        <span className="flex-1" />
+        <button
+          onClick={() => downloadText("ecf-restructure.sh", movePlanToScript(plan), "text/x-shellscript")}
+          disabled={plan.counts.move === 0}
+          className="px-2 py-0.5 rounded border border-card-border hover:border-accent/40 hover:text-accent transition-colors disabled:opacity-30"
+        >
+          git mv script
+        </button>
+        <button
+          onClick={() => downloadText("ecf-restructure.diff", movePlanToTreeDiff(plan), "text/x-diff")}
+          className="px-2 py-0.5 rounded border border-card-border hover:border-accent/40 hover:text-accent transition-colors"
+        >
+          Tree diff
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        <Tree title="Before" lines={before} />
+        <Tree title="After" lines={after} />
+      </div>
+
+      {plan.conflicts.length > 0 && (
+        <ul className="space-y-0.5">
+          {plan.conflicts.map((c, i) => (
+            <li key={i} className="text-danger/90">
+              <span className="font-mono">{c.paths.join(", ")}</span>: {c.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {plan.referencesChecked ? (
+        plan.brokenReferences.length > 0 && (
+          <ul className="space-y-0.5">
+            {plan.brokenReferences.map((r, i) => (
+              <li key={i} className="text-amber-300/90">
+                <span className="font-mono">
+                  {r.file}:{r.line}
+                </span>{" "}
+                {r.message}
+              </li>
+            ))}
+          </ul>
+        )
+      ) : (
+        <p className="text-muted/70">Hard-coded paths not checked — upload the repository archive to detect them.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useApp } from "@/lib/context";
+import type { SessionResponse, SessionSummary } from "@/lib/types";
+
+async function request(url: string, init?: RequestInit): Promise<SessionResponse> {
+  const res = await fetch(url, init);
+  const data: SessionResponse = res.status === 204 ? {} : await res.json();
+  if (!res.ok) throw new Error(data.error || `Request failed with status ${res.status}`);
+  return data;
+}
+
+/**
+ * Conversations stored on the server (/api/sessions) that this browser has no
+ * thread for, e.g. ones started elsewhere: open, rename, delete.
+ */
+export default function SessionList() {
+  const { sessionId, messages, threads, isLoading, openSession, clearMessages } = useApp();
+  const [sessions, setSessions] = useState<SessionSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+
+  const refresh = useCallback(
+    () =>
+      request("/api/sessions")
+        .then((data) => {
+          setSessions(data.sessions ?? []);
+          setError(null);
+        })
+        .catch((err: Error) => setError(err.message)),
+    []
+  );
+
+  // Refetch when a turn is stored or another conversation is opened
+  useEffect(() => {
+    if (!isLoading) void refresh();
+  }, [refresh, sessionId, messages.length, isLoading]);
+
+  const open = async (id: string) => {
+    try {
+      const { session } = await request(`/api/sessions/${id}`);
+      if (session) openSession(session);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const rename = async () => {
+    if (!renaming) return;
+    const { id, title } = renaming;
+    setRenaming(null);
+    if (!title.trim()) return;
+    try {
+      await request(`/api/sessions/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title }),
+      });
+      await refresh();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const remove = async (session: SessionSummary) => {
+    if (!window.confirm(`Delete "${session.title}"? This cannot be undone.`)) return;
+    try {
+      await request(`/api/sessions/${session.id}`, { method: "DELETE" });
+      if (session.id === sessionId) clearMessages();
+      await refresh();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  // Sessions with a local thread are listed (and managed) as threads
+  const unlinked = sessions?.filter((s) => !threads.some((t) => t.sessionId === s.id));
+  if (!error && (!unlinked || unlinked.length === 0)) return null;
+
+  return (
+    <section>
+      <label className="block text-xs font-semibold text-muted uppercase tracking-wider mb-2">
+        Stored on the Server
+      </label>
+      {error && <p className="text-xs text-danger/80">{error}</p>}
+      <ul className="space-y-0.5">
+        {unlinked?.map((s) => (
+          <li key={s.id} className="group flex items-center gap-1 text-xs">
+            {renaming?.id === s.id ? (
+              <input
+                autoFocus
+                value={renaming.title}
+                onChange={(e) => setRenaming({ id: s.id, title: e.target.value })}
+                onBlur={rename}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") void rename();
+                  if (e.key === "Escape") setRenaming(null);
+                }}
+                className="flex-1 min-w-0 px-2 py-1 rounded bg-input-bg border border-input-border
+                           focus:outline-none focus:border-accent/50"
+              />
+            ) : (
+              <button
+                onClick={() => open(s.id)}
+                disabled={isLoading}
+                title={`${s.messageCount} messages · updated ${new Date(s.updatedAt).toLocaleString()}`}
+                className={`flex-1 min-w-0 truncate text-left px-2 py-1 rounded transition-colors ${
+                  s.id === sessionId ? "bg-accent-muted text-accent" : "text-foreground/70 hover:bg-card-border/30"
+                }`}
+              >
+                {s.title}
+              </button>
+            )}
+            <button
+              onClick={() => setRenaming({ id: s.id, title: s.title })}
+              className="hidden group-hover:block px-1 text-muted hover:text-foreground"
+              aria-label="Rename conversation"
+            >
+              Rename
+            </button>
+            <button
+              onClick={() => remove(s)}
+              disabled={isLoading && s.id === sessionId}
+              className="hidden group-hover:block px-1 text-muted hover:text-danger"
+              aria-label="Delete conversation"
+            >
+              Delete
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -1,7 +1,13 @@
 "use client";
 
-import { useApp } from "@/lib/context";
-import type { Provider } from "@/lib/types";
+import { useEffect, useState } from "react";
+import { isOfflineProvider, useApp } from "@/lib/context";
+import { requiredArtifactsFor } from "@/lib/eop-agent/scopes";
+import type { DisclosureScopeDefinition, Provider, ScopesResponse } from "@/lib/types";
+import SessionList from "./SessionList";
+import CustomProviderFields from "./CustomProviderFields";
+import ThreadList from "./ThreadList";
+import UsagePanel from "./UsagePanel";
 
 const PROVIDERS: { id: Provider; label: string; placeholder: string; models: string[] }[] = [
   {
@@ -26,6 +32,30 @@ const PROVIDERS: { id: Provider; label: string; placeholder: string; models: str
     placeholder: "AIza...",
     models: ["gemini-2.0-flash", "gemini-2.0-flash-lite", "gemini-1.5-pro"],
   },
+  {
+    id: "anthropic",
+    label: "Anthropic",
+    placeholder: "sk-ant-...",
+    models: ["claude-sonnet-4-6", "claude-haiku-4-5", "claude-opus-4-6"],
+  },
+  {
+    id: "custom",
+    label: "Custom (OpenAI-compatible)",
+    placeholder: "Optional",
+    models: [],
+  },
+  {
+    id: "replay",
+    label: "Replay (offline)",
+    placeholder: "",
+    models: ["default"],
+  },
+  {
+    id: "mock",
+    label: "Mock (offline)",
+    placeholder: "",
+    models: ["default"],
+  },
 ];
 
 interface SidebarProps {
@@ -34,8 +64,23 @@ interface SidebarProps {
 }
 
 export default function Sidebar({ isOpen, onToggle }: SidebarProps) {
-  const { apiKeys, provider, model, setApiKey, setProvider, setModel, clearMessages, isConfigured } =
-    useApp();
+  const {
+    apiKeys,
+    provider,
+    model,
+    setApiKey,
+    setProvider,
+    setModel,
+    clearMessages,
+    isConfigured,
+    fallbackEnabled,
+    setFallbackEnabled,
+    fallbackTargets,
+    rememberKeys,
+    setRememberKeys,
+    evidenceGraph,
+    setEvidenceScopeKind,
+  } = useApp();
 
   const currentProvider = PROVIDERS.find((p) => p.id === provider)!;
 
@@ -87,7 +132,7 @@ export default function Sidebar({ isOpen, onToggle }: SidebarProps) {
                 }`}
               >
                 {p.label}
-                {apiKeys[p.id] && (
+                {!isOfflineProvider(p.id) && apiKeys[p.id] && (
                   <span className="ml-2 text-xs text-accent/60">configured</span>
                 )}
               </button>
@@ -96,43 +141,66 @@ export default function Sidebar({ isOpen, onToggle }: SidebarProps) {
         </section>
 
         {/* API Key input */}
-        <section>
-          <label className="block text-xs font-semibold text-muted uppercase tracking-wider mb-2">
-            {currentProvider.label} API Key
-          </label>
-          <input
-            type="password"
-            value={apiKeys[provider] || ""}
-            onChange={(e) => setApiKey(provider, e.target.value)}
-            placeholder={currentProvider.placeholder}
-            className="w-full px-3 py-2 rounded-lg bg-input-bg border border-input-border text-sm
-                       placeholder:text-muted/50 focus:outline-none focus:border-accent/50
-                       focus:ring-1 focus:ring-accent/20 transition-all"
-          />
-          <p className="mt-1.5 text-xs text-muted/60">
-            Your key is only sent per request and never stored on the server.
-          </p>
-        </section>
+        {isOfflineProvider(provider) ? (
+          <section>
+            <p className="text-xs text-muted/60">
+              {provider === "replay"
+                ? "Answers from recorded fixtures; the model names the cassette. No API key or network needed."
+                : "Answers from a scripted mock; the model names the script. No API key or network needed."}
+            </p>
+          </section>
+        ) : (
+          <section>
+            <label className="block text-xs font-semibold text-muted uppercase tracking-wider mb-2">
+              {currentProvider.label} API Key
+            </label>
+            <input
+              type="password"
+              value={apiKeys[provider] || ""}
+              onChange={(e) => setApiKey(provider, e.target.value)}
+              placeholder={currentProvider.placeholder}
+              className="w-full px-3 py-2 rounded-lg bg-input-bg border border-input-border text-sm
+                         placeholder:text-muted/50 focus:outline-none focus:border-accent/50
+                         focus:ring-1 focus:ring-accent/20 transition-all"
+            />
+            <p className="mt-1.5 text-xs text-muted/60">
+              Your key is only sent per request and never stored on the server.
+            </p>
+            <label className="mt-2 flex items-center gap-2 text-xs text-muted/80 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={rememberKeys}
+                onChange={(e) => setRememberKeys(e.target.checked)}
+                className="accent-accent"
+              />
+              Remember API keys in this browser
+            </label>
+          </section>
+        )}
 
         {/* Model selection */}
-        <section>
-          <label className="block text-xs font-semibold text-muted uppercase tracking-wider mb-2">
-            Model
-          </label>
-          <select
-            value={model || currentProvider.models[0]}
-            onChange={(e) => setModel(e.target.value)}
-            className="w-full px-3 py-2 rounded-lg bg-input-bg border border-input-border text-sm
-                       focus:outline-none focus:border-accent/50 focus:ring-1 focus:ring-accent/20
-                       transition-all appearance-none cursor-pointer"
-          >
-            {currentProvider.models.map((m) => (
-              <option key={m} value={m}>
-                {m}
-              </option>
-            ))}
-          </select>
-        </section>
+        {provider === "custom" ? (
+          <CustomProviderFields />
+        ) : (
+          <section>
+            <label className="block text-xs font-semibold text-muted uppercase tracking-wider mb-2">
+              Model
+            </label>
+            <select
+              value={model || currentProvider.models[0]}
+              onChange={(e) => setModel(e.target.value)}
+              className="w-full px-3 py-2 rounded-lg bg-input-bg border border-input-border text-sm
+                         focus:outline-none focus:border-accent/50 focus:ring-1 focus:ring-accent/20
+                         transition-all appearance-none cursor-pointer"
+            >
+              {currentProvider.models.map((m) => (
+                <option key={m} value={m}>
+                  {m}
+                </option>
+              ))}
+            </select>
+          </section>
+        )}
 
         {/* Status */}
         <section>
@@ -150,10 +218,57 @@ export default function Sidebar({ isOpen, onToggle }: SidebarProps) {
             />
             {isConfigured()
               ? `Ready — ${currentProvider.label}`
-              : "Enter an API key to start"}
+              : provider === "custom"
+                ? "Enter the base URL and model to start"
+                : "Enter an API key to start"}
           </div>
+          <label className="mt-2 flex items-center gap-2 text-xs text-muted/80 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={fallbackEnabled}
+              onChange={(e) => setFallbackEnabled(e.target.checked)}
+              className="accent-accent"
+            />
+            Fall back to other configured providers
+          </label>
+          {fallbackEnabled && (
+            <p className="mt-1 text-xs text-muted/60">
+              {fallbackTargets().length > 0
+                ? `On rate limits or outages: ${fallbackTargets()
+                    .map((t) => PROVIDERS.find((p) => p.id === t.provider)!.label)
+                    .join(" → ")}`
+                : "Enter a key for another provider to enable."}
+            </p>
+          )}
         </section>
 
+        <UsagePanel />
+
+        <ThreadList />
+        <SessionList />
+
+        {/* Evidence chain */}
+        <section>
+          <label className="block text-xs font-semibold text-muted uppercase tracking-wider mb-2">
+            Evidence Chain
+          </label>
+          <p className="text-xs text-muted/80">
+            {evidenceGraph.artifacts.length} artifacts &middot; {evidenceGraph.claims.length} claims
+            &middot; {evidenceGraph.links.length} links
+          </p>
+          <label className="mt-2 flex items-center gap-2 text-xs text-muted/80 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={evidenceGraph.scope.kind === "project"}
+              onChange={(e) => setEvidenceScopeKind(e.target.checked ? "project" : "conversation")}
+              className="accent-accent"
+            />
+            Keep across conversations (project scope)
+          </label>
+        </section>
+
+        <DisclosureScopes />
+
         {/* Info card */}
         <section className="bg-card-border/20 rounded-lg p-3">
           <h3 className="text-xs font-semibold text-accent mb-1.5">EOP Agent Capabilities</h3>
@@ -161,9 +276,12 @@ export default function Sidebar({ isOpen, onToggle }: SidebarProps) {
             <li>Explain EOP/ECF concepts and handle objections</li>
             <li>Annotate artifacts in the evidence chain</li>
             <li>Link artifacts to scientific claims</li>
+            <li>Query, update and delete recorded evidence</li>
             <li>Classify repo files by ECF artifact types</li>
             <li>Advise on disclosure scope based on claim strength</li>
             <li>Suggest ECF-compliant directory structures</li>
+            <li>Write the entry document (README) for the evidence chain</li>
+            <li>Hash restricted artifacts for later verification</li>
           </ul>
         </section>
       </div>
@@ -184,3 +302,36 @@ export default function Sidebar({ isOpen, onToggle }: SidebarProps) {
     </aside>
   );
 }
+
+/** Disclosure scope levels advise_disclosure_scope can recommend (built-in + team levels). */
+function DisclosureScopes() {
+  const [scopes, setScopes] = useState<DisclosureScopeDefinition[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/scopes")
+      .then((res) => res.json() as Promise<ScopesResponse>)
+      .then((data) => (data.scopes ? setScopes(data.scopes) : setError(data.error ?? "Could not load scopes.")))
+      .catch(() => setError("Could not load scopes."));
+  }, []);
+
+  return (
+    <section>
+      <label className="block text-xs font-semibold text-muted uppercase tracking-wider mb-2">
+        Disclosure Scopes
+      </label>
+      {error && <p className="text-xs text-danger/80">{error}</p>}
+      <ul className="space-y-1.5">
+        {[...(scopes ?? [])]
+          .sort((a, b) => a.breadth - b.breadth || a.id.localeCompare(b.id))
+          .map((scope) => (
+            <li key={scope.id} className="text-xs" title={requiredArtifactsFor(scopes ?? [], scope.id).map((r) => `${r.type}: ${r.description}`).join("\n")}>
+              <span className="text-foreground/80 font-medium">{scope.label}</span>
+              {!scope.builtIn && <span className="ml-1 text-accent/70">custom</span>}
+              <p className="text-muted/70">{scope.explanation}</p>
+            </li>
+          ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import { useApp } from "@/lib/context";
+import { searchThreads } from "@/lib/thread-store";
+import type { ChatThreadSummary } from "@/lib/types";
+
+/** Keep a thread's server session (if it has one) in step with a rename or delete; failures are reported, not fatal. */
+async function syncSession(thread: ChatThreadSummary, init: RequestInit): Promise<string | null> {
+  if (!thread.sessionId) return null;
+  try {
+    const res = await fetch(`/api/sessions/${thread.sessionId}`, init);
+    return res.ok || res.status === 404 ? null : `The server copy could not be updated (status ${res.status}).`;
+  } catch {
+    return "The server copy could not be updated.";
+  }
+}
+
+/** Chat threads saved in this browser: new, search, open, rename, delete. */
+export default function ThreadList() {
+  const { threads, activeThreadId, storageError, isLoading, openThread, renameThread, deleteThread, clearMessages } =
+    useApp();
+  const [query, setQuery] = useState("");
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const shown = searchThreads(threads, query);
+
+  const rename = async () => {
+    if (!renaming) return;
+    const { id, title } = renaming;
+    setRenaming(null);
+    const thread = threads.find((t) => t.id === id);
+    if (!thread || !title.trim()) return;
+    renameThread(id, title.trim());
+    setError(
+      await syncSession(thread, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title }),
+      })
+    );
+  };
+
+  const remove = async (thread: ChatThreadSummary) => {
+    if (!window.confirm(`Delete "${thread.title}"? This cannot be undone.`)) return;
+    deleteThread(thread.id);
+    setError(await syncSession(thread, { method: "DELETE" }));
+  };
+
+  return (
+    <section>
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-xs font-semibold text-muted uppercase tracking-wider">Threads</label>
+        <button
+          onClick={clearMessages}
+          disabled={isLoading}
+          className="px-2 py-0.5 rounded text-xs text-accent hover:bg-accent-muted transition-colors"
+        >
+          New
+        </button>
+      </div>
+      {threads.length > 0 && (
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search threads"
+          className="w-full mb-2 px-2 py-1 rounded bg-input-bg border border-input-border text-xs
+                     placeholder:text-muted/50 focus:outline-none focus:border-accent/50"
+        />
+      )}
+      {(storageError || error) && <p className="text-xs text-danger/80">{storageError ?? error}</p>}
+      {threads.length === 0 && <p className="text-xs text-muted/60">None saved yet.</p>}
+      {threads.length > 0 && shown.length === 0 && <p className="text-xs text-muted/60">No matches.</p>}
+      <ul className="space-y-0.5">
+        {shown.map((t) => (
+          <li key={t.id} className="group flex items-center gap-1 text-xs">
+            {renaming?.id === t.id ? (
+              <input
+                autoFocus
+                value={renaming.title}
+                onChange={(e) => setRenaming({ id: t.id, title: e.target.value })}
+                onBlur={rename}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") void rename();
+                  if (e.key === "Escape") setRenaming(null);
+                }}
+                className="flex-1 min-w-0 px-2 py-1 rounded bg-input-bg border border-input-border
+                           focus:outline-none focus:border-accent/50"
+              />
+            ) : (
+              <button
+                onClick={() => openThread(t.id)}
+                disabled={isLoading}
+                title={`${t.messageCount} messages · updated ${new Date(t.updatedAt).toLocaleString()}`}
+                className={`flex-1 min-w-0 truncate text-left px-2 py-1 rounded transition-colors ${
+                  t.id === activeThreadId ? "bg-accent-muted text-accent" : "text-foreground/70 hover:bg-card-border/30"
+                }`}
+              >
+                {t.title}
+              </button>
+            )}
+            <button
+              onClick={() => setRenaming({ id: t.id, title: t.title })}
+              className="hidden group-hover:block px-1 text-muted hover:text-foreground"
+              aria-label="Rename thread"
+            >
+              Rename
+            </button>
+            <button
+              onClick={() => remove(t)}
+              disabled={isLoading && t.id === activeThreadId}
+              className="hidden group-hover:block px-1 text-muted hover:text-danger"
+              aria-label="Delete thread"
+            >
+              Delete
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -1,10 +1,18 @@
 "use client";
 
 import { useState } from "react";
-import type { ToolResult } from "@/lib/types";
+import type { ToolArgumentError, ToolResult, ToolResultData } from "@/lib/types";
+import ChainGapReportView from "./ChainGapReportView";
+import ClassificationView from "./ClassificationView";
+import MovePlanView from "./MovePlanView";
+import ClaimAssessmentView from "./ClaimAssessmentView";
+import EntryDocumentView from "./EntryDocumentView";
+import HashManifestView from "./HashManifestView";
 
 interface ToolResultCardProps {
   result: ToolResult;
+  /** The tool call has started but its result has not arrived yet (streaming). */
+  pending?: boolean;
 }
 
 const TOOL_LABELS: Record<string, string> = {
@@ -13,18 +21,103 @@ const TOOL_LABELS: Record<string, string> = {
   classify_repo_artifacts: "Classify Repo Artifacts",
   advise_disclosure_scope: "Advise Disclosure Scope",
   suggest_directory_structure: "Suggest Directory Structure",
+  query_evidence_chain: "Query Evidence Chain",
+  update_evidence_node: "Update Evidence Node",
+  delete_evidence_node: "Delete Evidence Node",
+  check_chain_completeness: "Check Chain Completeness",
+  generate_entry_document: "Generate Entry Document",
+  create_hash_manifest: "Create Hash Manifest",
 };
 
-export default function ToolResultCard({ result }: ToolResultCardProps) {
+/** Short status shown in the collapsed header, if the structured result has one. */
+function dataSummary(data: ToolResultData): string | null {
+  switch (data.kind) {
+    case "chain_gaps":
+      return data.report.totals.error + data.report.totals.warning > 0
+        ? `${data.report.totals.error} errors, ${data.report.totals.warning} warnings`
+        : "no gaps";
+    case "classification":
+      return data.report.needsReview > 0
+        ? `${data.report.items.length} files, ${data.report.needsReview} need review`
+        : `${data.report.items.length} files`;
+    case "move_plan": {
+      const problems = data.plan.counts.conflict + data.plan.brokenReferences.length;
+      return `${data.plan.counts.move} moves` + (problems > 0 ? `, ${problems} problems` : "");
+    }
+    case "claim_assessment":
+      return data.assessment.strength
+        ? `${data.assessment.strength} → ${data.assessment.scope}`
+        : "needs clarification";
+    case "entry_document":
+      return data.document.todos.length > 0
+        ? `${data.document.claimCount} claims, ${data.document.todos.length} TODOs`
+        : `${data.document.claimCount} claims`;
+    case "hash_manifest":
+      return `${data.manifest.files.length} files hashed`;
+    case "invalid_arguments":
+      return `rejected: ${data.errors.length} argument error${data.errors.length === 1 ? "" : "s"}`;
+    case "repeated_call":
+      return "skipped: repeated call";
+  }
+}
+
+/** Why a call was rejected before it ran; the model gets the same list and retries. */
+function ArgumentErrorsView({ errors }: { errors: ToolArgumentError[] }) {
+  return (
+    <ul className="px-2 py-1.5 rounded border border-danger/30 bg-danger/10 space-y-0.5">
+      {errors.map((e, i) => (
+        <li key={i} className="text-danger">
+          <span className="font-mono">{e.path}</span> {e.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function DataView({ data }: { data: ToolResultData }) {
+  switch (data.kind) {
+    case "chain_gaps":
+      return <ChainGapReportView report={data.report} />;
+    case "classification":
+      return <ClassificationView report={data.report} />;
+    case "move_plan":
+      return <MovePlanView plan={data.plan} />;
+    case "claim_assessment":
+      return <ClaimAssessmentView assessment={data.assessment} />;
+    case "entry_document":
+      return <EntryDocumentView document={data.document} />;
+    case "hash_manifest":
+      return <HashManifestView manifest={data.manifest} />;
+    case "invalid_arguments":
+      return <ArgumentErrorsView errors={data.errors} />;
+    case "repeated_call":
+      return (
+        <p className="text-muted">
+          Not run again: same arguments as call <span className="font-mono">{data.firstCallId}</span>, with no
+          change to the evidence chain since.
+        </p>
+      );
+  }
+}
+
+export default function ToolResultCard({ result, pending = false }: ToolResultCardProps) {
   const [expanded, setExpanded] = useState(false);
 
   const label = TOOL_LABELS[result.toolName] || result.toolName;
+  const summary = result.data ? dataSummary(result.data) : null;
+  const rejected = result.data?.kind === "invalid_arguments";
 
   return (
-    <div className="border border-accent/20 rounded-lg bg-accent-muted/30 overflow-hidden">
+    <div
+      className={`border rounded-lg overflow-hidden ${
+        rejected ? "border-danger/30 bg-danger/5" : "border-accent/20 bg-accent-muted/30"
+      }`}
+    >
       <button
         onClick={() => setExpanded(!expanded)}
-        className="w-full flex items-center gap-2 px-3 py-2 text-xs text-accent hover:bg-accent-muted/50 transition-colors"
+        className={`w-full flex items-center gap-2 px-3 py-2 text-xs transition-colors ${
+          rejected ? "text-danger hover:bg-danger/10" : "text-accent hover:bg-accent-muted/50"
+        }`}
       >
         <svg
           width="12"
@@ -41,6 +134,13 @@ export default function ToolResultCard({ result }: ToolResultCardProps) {
           <path d="M14.7 6.3a1 1 0 0 0 0 1.4l1.6 1.6a1 1 0 0 0 1.4 0l3.77-3.77a6 6 0 0 1-7.94 7.94l-6.91 6.91a2.12 2.12 0 0 1-3-3l6.91-6.91a6 6 0 0 1 7.94-7.94l-3.76 3.76z" />
         </svg>
         <span className="font-medium">{label}</span>
+        {summary && <span className={rejected ? "text-danger/80" : "text-accent/60"}>{summary}</span>}
+        {pending && (
+          <span className="flex items-center gap-1 text-accent/60">
+            <span className="w-1.5 h-1.5 bg-accent rounded-full animate-pulse" />
+            running...
+          </span>
+        )}
         <span className="text-accent/50 ml-auto">
           {expanded ? "collapse" : "expand"}
         </span>
@@ -53,9 +153,12 @@ export default function ToolResultCard({ result }: ToolResultCardProps) {
               {JSON.stringify(result.arguments, null, 2)}
             </code>
           </div>
-          <div className="text-foreground/70 whitespace-pre-wrap font-mono text-[11px] leading-relaxed bg-input-bg rounded p-2">
-            {result.result}
-          </div>
+          {!pending && result.data && <DataView data={result.data} />}
+          {!pending && (
+            <div className="text-foreground/70 whitespace-pre-wrap font-mono text-[11px] leading-relaxed bg-input-bg rounded p-2">
+              {result.result}
+            </div>
+          )}
         </div>
       )}
     </div>
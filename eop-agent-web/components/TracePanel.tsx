@@ -0,0 +1,207 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useApp } from "@/lib/context";
+import type { RunTrace, TraceEvent, TraceResponse, TraceSummary } from "@/lib/types";
+
+async function request(url: string): Promise<TraceResponse> {
+  const res = await fetch(url);
+  const data: TraceResponse = await res.json();
+  if (!res.ok) throw new Error(data.error || `Request failed with status ${res.status}`);
+  return data;
+}
+
+const STATUS_STYLES: Record<RunTrace["status"], string> = {
+  ok: "text-accent",
+  partial: "text-amber-300",
+  error: "text-danger",
+};
+
+function truncate(text: string | null, max = 120): string {
+  if (!text) return "";
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
+
+/** One line of the timeline: what happened, and the payload to expand. */
+function describe(event: TraceEvent): { label: string; text: string; detail?: unknown; failed?: boolean } {
+  switch (event.type) {
+    case "node":
+      return { label: "node", text: event.node };
+    case "llm_request":
+      return {
+        label: `llm #${event.callId} →`,
+        text: `${event.provider} ${event.model} · ${event.messages.length} messages · ${event.tools.length} tools`,
+        detail: event.messages,
+      };
+    case "llm_response":
+      return {
+        label: `llm #${event.callId} ←`,
+        text:
+          `${event.latencyMs} ms` +
+          (event.usage ? ` · ${event.usage.promptTokens} in / ${event.usage.completionTokens} out` : "") +
+          (event.toolCalls ? ` · calls ${event.toolCalls.map((tc) => tc.function.name).join(", ")}` : "") +
+          (event.content ? ` · ${truncate(event.content, 80)}` : ""),
+        detail: { content: event.content, toolCalls: event.toolCalls },
+      };
+    case "llm_error":
+      return { label: `llm #${event.callId} ✕`, text: `${event.latencyMs} ms · ${event.errorClass}: ${event.error}`, failed: true };
+    case "tool_call":
+      return { label: "tool →", text: event.toolName, detail: event.arguments };
+    case "tool_result":
+      return {
+        label: "tool ←",
+        text: `${event.toolName} · ${event.latencyMs} ms${event.dataKind ? ` · ${event.dataKind}` : ""} · ${truncate(event.result, 80)}`,
+        detail: event.result,
+      };
+    case "retry":
+      return { label: "retry", text: `${event.node} attempt ${event.attempt} failed, waiting ${event.delayMs} ms: ${event.error}`, failed: true };
+    case "fallback":
+      return { label: "fallback", text: `${event.from} → ${event.to} (${event.errorClass}): ${event.error}`, failed: true };
+    case "compaction":
+      return { label: "compaction", text: `${event.summarized} messages, ≈${event.tokensBefore} → ${event.tokensAfter} tokens` };
+    case "reply":
+      return { label: "reply", text: event.partial ? `partial: ${event.partial}` : truncate(event.content), detail: event.content };
+    case "error":
+      return { label: "error", text: event.error, failed: true };
+  }
+}
+
+function Timeline({ trace }: { trace: RunTrace }) {
+  return (
+    <ol className="space-y-1 text-xs">
+      {trace.events.map((event, i) => {
+        const { label, text, detail, failed } = describe(event);
+        const line = (
+          <>
+            <span className="w-14 flex-shrink-0 text-right text-muted/60 tabular-nums">+{event.at} ms</span>
+            <span className={`w-20 flex-shrink-0 font-mono ${failed ? "text-danger/80" : "text-accent/80"}`}>{label}</span>
+            <span className="min-w-0 break-words text-foreground/80">{text}</span>
+          </>
+        );
+        return (
+          <li key={i}>
+            {detail === undefined ? (
+              <div className="flex gap-2">{line}</div>
+            ) : (
+              <details>
+                <summary className="flex gap-2 cursor-pointer list-none">{line}</summary>
+                <pre className="mt-1 ml-16 p-2 rounded bg-input-bg text-[11px] overflow-x-auto whitespace-pre-wrap break-words">
+                  {typeof detail === "string" ? detail : JSON.stringify(detail, null, 2)}
+                </pre>
+              </details>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+/** Debug panel: recent agent runs (/api/traces) and the timeline of the selected one. */
+export default function TracePanel({ onClose }: { onClose: () => void }) {
+  const { sessionId, isLoading } = useApp();
+  const [traces, setTraces] = useState<TraceSummary[] | null>(null);
+  const [selected, setSelected] = useState<RunTrace | null>(null);
+  const [thisSessionOnly, setThisSessionOnly] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(() => {
+    const query = thisSessionOnly && sessionId ? `?sessionId=${sessionId}` : "";
+    return request(`/api/traces${query}`)
+      .then((data) => {
+        setTraces(data.traces ?? []);
+        setError(null);
+      })
+      .catch((err: Error) => setError(err.message));
+  }, [thisSessionOnly, sessionId]);
+
+  // Refetch after each run
+  useEffect(() => {
+    if (!isLoading) void refresh();
+  }, [refresh, isLoading]);
+
+  const open = async (id: string) => {
+    try {
+      const { trace } = await request(`/api/traces/${id}`);
+      setSelected(trace ?? null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <aside className="w-[520px] flex-shrink-0 border-l border-card-border bg-card flex flex-col h-screen">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-card-border">
+        <div>
+          <span className="font-bold text-sm tracking-wider">TRACES</span>
+          {selected && (
+            <button onClick={() => setSelected(null)} className="ml-2 text-xs text-muted hover:text-foreground">
+              ← all runs
+            </button>
+          )}
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1.5 rounded-lg hover:bg-card-border/50 transition-colors text-muted hover:text-foreground"
+          aria-label="Close trace panel"
+        >
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M9 18l6-6-6-6" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {error && <p className="text-xs text-danger/80">{error}</p>}
+        {selected ? (
+          <>
+            <div className="text-xs text-muted space-y-0.5">
+              <p>
+                <span className={STATUS_STYLES[selected.status]}>{selected.status}</span> &middot;{" "}
+                {new Date(selected.startedAt).toLocaleString()} &middot; {selected.durationMs} ms &middot;{" "}
+                {selected.provider} {selected.model}
+              </p>
+              <p className="font-mono">{selected.path.join(" → ")}</p>
+              <p className="text-muted/60">Trace {selected.id}</p>
+            </div>
+            {selected.userMessage && (
+              <p className="text-xs px-2 py-1.5 rounded bg-card-border/30 whitespace-pre-wrap">{selected.userMessage}</p>
+            )}
+            <Timeline trace={selected} />
+          </>
+        ) : (
+          <>
+            <label className="flex items-center gap-2 text-xs text-muted/80 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={thisSessionOnly}
+                onChange={(e) => setThisSessionOnly(e.target.checked)}
+                disabled={!sessionId}
+                className="accent-accent"
+              />
+              Only this conversation
+            </label>
+            {traces && traces.length === 0 && <p className="text-xs text-muted/60">No runs recorded yet.</p>}
+            <ul className="space-y-1">
+              {traces?.map((t) => (
+                <li key={t.id}>
+                  <button
+                    onClick={() => open(t.id)}
+                    className="w-full text-left px-2 py-1.5 rounded text-xs hover:bg-card-border/30 transition-colors"
+                  >
+                    <p className="truncate text-foreground/80">{t.userMessage ?? "(no user message)"}</p>
+                    <p className="text-muted/70">
+                      <span className={STATUS_STYLES[t.status]}>{t.status}</span> &middot;{" "}
+                      {new Date(t.startedAt).toLocaleTimeString()} &middot; {t.durationMs} ms &middot; {t.llmCalls} LLM
+                      &middot; {t.toolCalls} tools &middot; {t.provider}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import { useApp } from "@/lib/context";
+import { estimateCost, mergeUsage, totalTokens } from "@/lib/usage";
+import type { ModelPrice, ModelUsage } from "@/lib/types";
+
+function formatUsd(usd: number): string {
+  return usd > 0 && usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
+
+function UsageLine({ label, usage, prices }: { label: string; usage: ModelUsage[]; prices: Record<string, ModelPrice> }) {
+  const tokens = totalTokens(usage);
+  const cost = estimateCost(usage, prices);
+  return (
+    <p className="text-xs text-muted/80" title={usage.map((u) => `${u.model}: ${u.calls} call(s)`).join("\n")}>
+      <span className="text-foreground/70">{label}:</span> {tokens.promptTokens.toLocaleString()} in &middot;{" "}
+      {tokens.completionTokens.toLocaleString()} out &middot; ≈{formatUsd(cost.usd)}
+      {cost.unpriced.length > 0 && <span className="text-muted/60"> (no price for {cost.unpriced.join(", ")})</span>}
+    </p>
+  );
+}
+
+/** Token usage of the last turn and the whole conversation, with the editable price table. */
+export default function UsagePanel() {
+  const { messages, model, prices, setPrice, resetPrices } = useApp();
+
+  const turns = messages.filter((m) => m.usage).map((m) => m.usage!);
+  const session = mergeUsage(turns);
+  // Models with a price, plus any used or selected without one
+  const models = [...new Set([...Object.keys(prices), ...session.map((u) => u.model), ...(model ? [model] : [])])];
+
+  const edit = (name: string, field: keyof ModelPrice, value: number) => {
+    if (Number.isNaN(value) || value < 0) return;
+    setPrice(name, { ...(prices[name] ?? { input: 0, output: 0 }), [field]: value });
+  };
+
+  return (
+    <section>
+      <label className="block text-xs font-semibold text-muted uppercase tracking-wider mb-2">Usage</label>
+      {turns.length === 0 ? (
+        <p className="text-xs text-muted/60">No tokens used yet.</p>
+      ) : (
+        <div className="space-y-0.5">
+          <UsageLine label="Last turn" usage={turns[turns.length - 1]} prices={prices} />
+          <UsageLine label="Conversation" usage={session} prices={prices} />
+        </div>
+      )}
+      <details className="mt-2 text-xs text-muted/80">
+        <summary className="cursor-pointer select-none">Prices (USD per 1M tokens)</summary>
+        <table className="mt-1.5 w-full">
+          <thead>
+            <tr className="text-muted/60">
+              <th className="text-left font-normal">Model</th>
+              <th className="text-right font-normal">Input</th>
+              <th className="text-right font-normal">Output</th>
+            </tr>
+          </thead>
+          <tbody>
+            {models.map((name) => (
+              <tr key={name}>
+                <td className="pr-1 truncate max-w-[8rem]" title={name}>
+                  {name}
+                </td>
+                {(["input", "output"] as const).map((field) => (
+                  <td key={field} className="pl-1">
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={prices[name]?.[field] ?? ""}
+                      placeholder="—"
+                      onChange={(e) => edit(name, field, e.target.valueAsNumber)}
+                      aria-label={`${name} ${field} price`}
+                      className="w-16 px-1 py-0.5 rounded bg-input-bg border border-input-border text-right
+                                 focus:outline-none focus:border-accent/50"
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button onClick={resetPrices} className="mt-1.5 text-muted hover:text-foreground">
+          Reset to list prices
+        </button>
+      </details>
+    </section>
+  );
+}
@@ -1,38 +1,187 @@
 "use client";
 
-import React, { createContext, useContext, useState, useCallback, ReactNode } from "react";
-import type { Provider, ApiKeys, ChatMessage } from "./types";
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useCallback,
+  useEffect,
+  useSyncExternalStore,
+  ReactNode,
+} from "react";
+import type {
+  Provider,
+  ApiKeys,
+  ChatMessage,
+  ChatThread,
+  ChatThreadSummary,
+  CustomEndpoint,
+  CustomProviderSettings,
+  EvidenceGraph,
+  EvidenceScope,
+  LiveProvider,
+  LLMTarget,
+  ModelPrice,
+  OfflineProvider,
+  RepoTree,
+  Session,
+} from "./types";
+import { createEvidenceGraph } from "./eop-agent/evidence-graph";
+import * as threadStore from "./thread-store";
+import { DEFAULT_PRICES } from "./usage";
 
 interface AppState {
   apiKeys: ApiKeys;
   provider: Provider;
   model: string;
-  messages: ChatMessage[];
+  fallbackEnabled: boolean; // switch to other configured providers when the selected one fails
+  rememberKeys: boolean; // also save API keys in this browser
+  prices: Record<string, ModelPrice>; // per model, USD per million tokens, for cost estimates
+  customProvider: CustomProviderSettings; // base URL, model and headers of the "custom" provider
+  messages: ChatMessage[]; // assistant replies carry their toolResults
   isLoading: boolean;
+  evidenceGraph: EvidenceGraph;
+  repoTree: RepoTree | null;
+  sessionId: string | null; // stored session the conversation is appended to (/api/sessions)
+  conversationKey: number; // changes when another conversation is shown
+  threads: ChatThreadSummary[]; // conversations saved in this browser, newest first
+  activeThreadId: string | null; // null until the conversation's first message
+  storageError: string | null; // the last failed save to browser storage
 }
 
 interface AppContextValue extends AppState {
-  setApiKey: (provider: Provider, key: string) => void;
+  setApiKey: (provider: LiveProvider, key: string) => void;
   setProvider: (provider: Provider) => void;
   setModel: (model: string) => void;
+  setFallbackEnabled: (enabled: boolean) => void;
+  setRememberKeys: (remember: boolean) => void;
+  setPrice: (model: string, price: ModelPrice | null) => void; // null removes the model's price
+  resetPrices: () => void;
+  setCustomProvider: (changes: Partial<CustomProviderSettings>) => void;
   addMessage: (msg: ChatMessage) => void;
   setMessages: (msgs: ChatMessage[]) => void;
   setIsLoading: (loading: boolean) => void;
   clearMessages: () => void;
-  currentApiKey: () => string | undefined;
+  setEvidenceGraph: (graph: EvidenceGraph) => void;
+  setEvidenceScopeKind: (kind: EvidenceScope["kind"]) => void;
+  setRepoTree: (tree: RepoTree | null) => void;
+  setSessionId: (id: string | null) => void;
+  openSession: (session: Session) => void;
+  openThread: (id: string) => void;
+  renameThread: (id: string, title: string) => void;
+  deleteThread: (id: string) => void;
+  currentApiKey: () => string | undefined; // undefined for the offline providers, which take none
+  currentModel: () => string | undefined; // undefined: the provider's default
+  currentEndpoint: () => CustomEndpoint | undefined; // only for "custom"
+  fallbackTargets: () => LLMTarget[];
   isConfigured: () => boolean;
 }
 
 const AppContext = createContext<AppContextValue | null>(null);
 
+/** Order in which other configured providers are tried when the selected one fails (never a custom endpoint). */
+const FALLBACK_ORDER: LiveProvider[] = ["openai", "anthropic", "gemini", "nim"];
+
+const OFFLINE_PROVIDERS: Provider[] = ["replay", "mock"];
+
+export function isOfflineProvider(p: Provider): p is OfflineProvider {
+  return OFFLINE_PROVIDERS.includes(p);
+}
+
+const EMPTY_CUSTOM_PROVIDER: CustomProviderSettings = { baseUrl: "", model: "", headers: [] };
+
+// An external store that never changes: true on the client, false on the server and while hydrating
+const subscribeNothing = () => () => {};
+const onClientSnapshot = () => true;
+const onServerSnapshot = () => false;
+
+function newConversationGraph(): EvidenceGraph {
+  return createEvidenceGraph({ kind: "conversation", id: crypto.randomUUID() });
+}
+
 export function AppProvider({ children }: { children: ReactNode }) {
   const [apiKeys, setApiKeys] = useState<ApiKeys>({});
   const [provider, setProviderState] = useState<Provider>("openai");
   const [model, setModelState] = useState<string>("");
+  const [fallbackEnabled, setFallbackEnabled] = useState(true);
+  const [rememberKeys, setRememberKeys] = useState(false);
+  const [prices, setPrices] = useState<Record<string, ModelPrice>>(DEFAULT_PRICES);
+  const [customProvider, setCustomProviderState] = useState<CustomProviderSettings>(EMPTY_CUSTOM_PROVIDER);
   const [messages, setMessagesState] = useState<ChatMessage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [evidenceGraph, setEvidenceGraphState] = useState<EvidenceGraph>(newConversationGraph);
+  const [repoTree, setRepoTreeState] = useState<RepoTree | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [conversationKey, setConversationKey] = useState(0);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const { threads, error: storageError } = useSyncExternalStore(
+    threadStore.subscribeThreads,
+    threadStore.getThreadsSnapshot,
+    threadStore.getServerThreadsSnapshot
+  );
+
+  // Show a saved thread; a project-scoped chain outlives the conversation
+  const showThread = useCallback((thread: Pick<ChatThread, "id" | "messages" | "evidenceGraph" | "repoTree" | "sessionId">) => {
+    setMessagesState(thread.messages);
+    setRepoTreeState(thread.repoTree ?? null);
+    setEvidenceGraphState((prev) => (prev.scope.kind === "project" ? prev : thread.evidenceGraph));
+    setSessionId(thread.sessionId ?? null);
+    setActiveThreadId(thread.id);
+    setConversationKey((k) => k + 1);
+  }, []);
+
+  // Restore what this browser saved, once the page runs on the client. The
+  // server's render, which hydration must match, has no browser storage, so
+  // this can't happen in the state initializers; setting state here replaces
+  // the render before it is committed, and before anything is saved.
+  const onClient = useSyncExternalStore(subscribeNothing, onClientSnapshot, onServerSnapshot);
+  const [hydrated, setHydrated] = useState(false);
+  if (onClient && !hydrated) {
+    setHydrated(true);
+    const prefs = threadStore.loadPrefs();
+    if (prefs) {
+      setProviderState(prefs.provider);
+      setModelState(prefs.model);
+      setFallbackEnabled(prefs.fallbackEnabled);
+      setRememberKeys(prefs.rememberKeys);
+      if (prefs.apiKeys) setApiKeys(prefs.apiKeys);
+      if (prefs.prices) setPrices(prefs.prices);
+      if (prefs.customProvider) setCustomProviderState(prefs.customProvider);
+    }
+    const projectGraph = threadStore.loadProjectGraph();
+    if (projectGraph) setEvidenceGraphState(projectGraph);
+    const activeId = threadStore.loadActiveThreadId();
+    const thread = activeId ? threadStore.loadThread(activeId) : null;
+    if (thread) showThread(thread);
+  }
+
+  // ── Save to browser storage (after the restore, so defaults don't overwrite it) ──
+
+  useEffect(() => {
+    if (!hydrated) return;
+    threadStore.savePrefs({ provider, model, fallbackEnabled, rememberKeys, apiKeys, prices, customProvider });
+  }, [hydrated, provider, model, fallbackEnabled, rememberKeys, apiKeys, prices, customProvider]);
+
+  useEffect(() => {
+    if (!hydrated || !activeThreadId || messages.length === 0) return;
+    threadStore.saveThread({
+      id: activeThreadId,
+      messages,
+      evidenceGraph,
+      repoTree: repoTree ?? undefined,
+      sessionId: sessionId ?? undefined,
+    });
+  }, [hydrated, activeThreadId, messages, evidenceGraph, repoTree, sessionId]);
 
-  const setApiKey = useCallback((p: Provider, key: string) => {
+  useEffect(() => {
+    if (hydrated) threadStore.saveActiveThreadId(activeThreadId);
+  }, [hydrated, activeThreadId]);
+
+  useEffect(() => {
+    if (hydrated) threadStore.saveProjectGraph(evidenceGraph.scope.kind === "project" ? evidenceGraph : null);
+  }, [hydrated, evidenceGraph]);
+
+  const setApiKey = useCallback((p: LiveProvider, key: string) => {
     setApiKeys((prev) => ({ ...prev, [p]: key }));
   }, []);
 
@@ -45,8 +194,10 @@ export function AppProvider({ children }: { children: ReactNode }) {
     setModelState(m);
   }, []);
 
+  // The first message starts a saved thread
   const addMessage = useCallback((msg: ChatMessage) => {
     setMessagesState((prev) => [...prev, msg]);
+    setActiveThreadId((id) => id ?? crypto.randomUUID());
   }, []);
 
   const setMessages = useCallback((msgs: ChatMessage[]) => {
@@ -55,16 +206,110 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
   const clearMessages = useCallback(() => {
     setMessagesState([]);
+    setRepoTreeState(null);
+    setSessionId(null);
+    setActiveThreadId(null);
+    setConversationKey((k) => k + 1);
+    // A project-scoped evidence chain outlives the conversation
+    setEvidenceGraphState((prev) => (prev.scope.kind === "project" ? prev : newConversationGraph()));
+  }, []);
+
+  const setEvidenceGraph = useCallback((graph: EvidenceGraph) => {
+    setEvidenceGraphState(graph);
+  }, []);
+
+  const setEvidenceScopeKind = useCallback((kind: EvidenceScope["kind"]) => {
+    setEvidenceGraphState((prev) => ({ ...prev, scope: { ...prev.scope, kind } }));
+  }, []);
+
+  const setRepoTree = useCallback((tree: RepoTree | null) => {
+    setRepoTreeState(tree);
+  }, []);
+
+  // A server session opens as a thread: the one already linked to it, or a new one
+  const openSession = useCallback(
+    (session: Session) => {
+      const linked = threads.find((t) => t.sessionId === session.id);
+      showThread({
+        id: linked?.id ?? crypto.randomUUID(),
+        messages: session.messages,
+        evidenceGraph: session.evidenceGraph ?? newConversationGraph(),
+        repoTree: session.repoTree,
+        sessionId: session.id,
+      });
+    },
+    [threads, showThread]
+  );
+
+  const openThread = useCallback(
+    (id: string) => {
+      const thread = threadStore.loadThread(id);
+      if (thread) showThread(thread);
+    },
+    [showThread]
+  );
+
+  const renameThread = useCallback((id: string, title: string) => {
+    threadStore.renameThread(id, title);
+  }, []);
+
+  const deleteThread = useCallback(
+    (id: string) => {
+      threadStore.deleteThread(id);
+      if (id === activeThreadId) clearMessages();
+    },
+    [activeThreadId, clearMessages]
+  );
+
+  const setPrice = useCallback((model: string, price: ModelPrice | null) => {
+    setPrices((prev) => {
+      const next = { ...prev };
+      if (price) next[model] = price;
+      else delete next[model];
+      return next;
+    });
+  }, []);
+
+  const resetPrices = useCallback(() => setPrices(DEFAULT_PRICES), []);
+
+  const setCustomProvider = useCallback((changes: Partial<CustomProviderSettings>) => {
+    setCustomProviderState((prev) => ({ ...prev, ...changes }));
   }, []);
 
   const currentApiKey = useCallback(() => {
+    if (isOfflineProvider(provider)) return undefined; // calls no model
+    if (provider === "custom") return apiKeys.custom ?? ""; // optional
     return apiKeys[provider];
   }, [apiKeys, provider]);
 
+  const currentModel = useCallback(() => {
+    return (provider === "custom" ? customProvider.model.trim() : model) || undefined;
+  }, [provider, model, customProvider]);
+
+  const currentEndpoint = useCallback((): CustomEndpoint | undefined => {
+    if (provider !== "custom") return undefined;
+    const headers = customProvider.headers.filter((h) => h.name.trim());
+    return {
+      baseUrl: customProvider.baseUrl.trim(),
+      ...(headers.length > 0 ? { headers: Object.fromEntries(headers.map((h) => [h.name.trim(), h.value])) } : {}),
+    };
+  }, [provider, customProvider]);
+
+  // Fallback providers use their default model; the selected model belongs to the selected provider
+  const fallbackTargets = useCallback((): LLMTarget[] => {
+    if (!fallbackEnabled) return [];
+    return FALLBACK_ORDER.filter((p) => p !== provider && apiKeys[p]?.trim()).map((p) => ({
+      provider: p,
+      apiKey: apiKeys[p]!.trim(),
+    }));
+  }, [apiKeys, provider, fallbackEnabled]);
+
   const isConfigured = useCallback(() => {
+    if (isOfflineProvider(provider)) return true;
+    if (provider === "custom") return !!customProvider.baseUrl.trim() && !!customProvider.model.trim();
     const key = apiKeys[provider];
     return !!key && key.trim().length > 0;
-  }, [apiKeys, provider]);
+  }, [apiKeys, provider, customProvider]);
 
   return (
     <AppContext.Provider
@@ -72,16 +317,43 @@ export function AppProvider({ children }: { children: ReactNode }) {
         apiKeys,
         provider,
         model,
+        fallbackEnabled,
+        rememberKeys,
+        prices,
+        customProvider,
         messages,
         isLoading,
+        evidenceGraph,
+        repoTree,
+        sessionId,
+        conversationKey,
+        threads,
+        activeThreadId,
+        storageError,
         setApiKey,
         setProvider,
         setModel,
+        setFallbackEnabled,
+        setRememberKeys,
+        setPrice,
+        resetPrices,
+        setCustomProvider,
         addMessage,
         setMessages,
         setIsLoading,
         clearMessages,
+        setEvidenceGraph,
+        setEvidenceScopeKind,
+        setRepoTree,
+        setSessionId,
+        openSession,
+        openThread,
+        renameThread,
+        deleteThread,
         currentApiKey,
+        currentModel,
+        currentEndpoint,
+        fallbackTargets,
         isConfigured,
       }}
     >
@@ -0,0 +1,9 @@
+/** Offer a text file for download in the browser (client components only). */
+export function downloadText(fileName: string, text: string, mimeType = "text/plain"): void {
+  const url = URL.createObjectURL(new Blob([text], { type: `${mimeType};charset=utf-8` }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import { END, ERROR_OUTCOME, checkGraph, insertNode, runGraph, type AgentGraph, type AgentNode, type GraphState } from "./agent-graph";
+
+interface TestState extends GraphState {
+  log: string[];
+}
+
+const newState = (): TestState => ({ path: [], log: [] });
+
+const node = (name: string, run: (state: TestState) => Promise<string> | string, retry?: AgentNode<TestState>["retry"]): AgentNode<TestState> => ({
+  name,
+  run: async (state) => run(state),
+  retry,
+});
+
+/** A node that throws `failures` times, then returns "ok". */
+function flaky(name: string, failures: number, retry: AgentNode<TestState>["retry"], error = new Error("503 unavailable")) {
+  let calls = 0;
+  return node(
+    name,
+    () => {
+      calls++;
+      if (calls <= failures) throw error;
+      return "ok";
+    },
+    retry
+  );
+}
+
+const single = (n: AgentNode<TestState>, edges: Record<string, string> = { ok: END }): AgentGraph<TestState> => ({
+  start: n.name,
+  nodes: { [n.name]: n },
+  edges: { [n.name]: edges },
+});
+
+describe("runGraph", () => {
+  it("follows the edges until END and records the path", async () => {
+    const graph: AgentGraph<TestState> = {
+      start: "a",
+      nodes: {
+        a: node("a", (s) => (s.log.push("a"), s.log.length < 3 ? "again" : "next")),
+        b: node("b", () => "done"),
+      },
+      edges: { a: { again: "a", next: "b" }, b: { done: END } },
+    };
+    const state = newState();
+    const visited: string[] = [];
+    await runGraph(graph, state, { onNode: (n) => visited.push(n) });
+    expect(state.path).toEqual(["a", "a", "a", "b"]);
+    expect(visited).toEqual(state.path);
+  });
+
+  it("rejects a wiring mistake before running anything", async () => {
+    const graph: AgentGraph<TestState> = {
+      start: "a",
+      nodes: { a: node("a", () => "ok") },
+      edges: { a: { ok: "b" }, c: { ok: END } },
+    };
+    expect(checkGraph(graph)).toEqual(['"a" on "ok" leads to unknown node "b"', 'edges are defined for unknown node "c"']);
+    await expect(runGraph(graph, newState())).rejects.toThrow(/^Invalid agent graph: /);
+  });
+
+  it("fails on an outcome without an edge", async () => {
+    await expect(runGraph(single(node("a", () => "surprise")), newState())).rejects.toThrow(
+      'Agent graph has no edge from "a" on "surprise".'
+    );
+  });
+
+  it("stops a graph that never reaches END", async () => {
+    const state = newState();
+    await expect(runGraph(single(node("loop", () => "ok"), { ok: "loop" }), state)).rejects.toThrow(
+      'Agent graph did not finish within 200 steps (last node: "loop").'
+    );
+    expect(state.path).toHaveLength(200);
+  });
+});
+
+describe("retries", () => {
+  it("retries with exponential backoff, capped", async () => {
+    const retries: [number, number][] = [];
+    await runGraph(single(flaky("call", 3, { maxAttempts: 4, baseDelayMs: 1, maxDelayMs: 3 })), newState(), {
+      onRetry: (_node, attempt, delayMs) => retries.push([attempt, delayMs]),
+    });
+    expect(retries).toEqual([
+      [1, 1],
+      [2, 2],
+      [3, 3],
+    ]);
+  });
+
+  it("gives up after the last attempt and only retries the errors it is told to", async () => {
+    await expect(runGraph(single(flaky("call", 2, { maxAttempts: 2, baseDelayMs: 1, maxDelayMs: 1 })), newState())).rejects.toThrow(
+      "503 unavailable"
+    );
+
+    let retried = false;
+    const policy = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 1, retryOn: (err: unknown) => !/401/.test(String(err)) };
+    await expect(
+      runGraph(single(flaky("call", 1, policy, new Error("401 bad key"))), newState(), { onRetry: () => (retried = true) })
+    ).rejects.toThrow("401 bad key");
+    expect(retried).toBe(false);
+  });
+
+  it("does not retry once the run is cancelled", async () => {
+    const controller = new AbortController();
+    let calls = 0;
+    const cancelling = node(
+      "call",
+      () => {
+        calls++;
+        controller.abort(new Error("cancelled"));
+        throw new Error("connection reset");
+      },
+      { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 1 }
+    );
+    await expect(runGraph(single(cancelling), newState(), { signal: controller.signal })).rejects.toThrow("connection reset");
+    expect(calls).toBe(1);
+  });
+
+  it("ends a backoff wait as soon as the run is cancelled", async () => {
+    const controller = new AbortController();
+    const started = Date.now();
+    const run = runGraph(single(flaky("call", 1, { maxAttempts: 2, baseDelayMs: 60_000, maxDelayMs: 60_000 })), newState(), {
+      signal: controller.signal,
+      onRetry: () => setTimeout(() => controller.abort(new Error("client gone")), 10),
+    });
+    await expect(run).rejects.toThrow("client gone");
+    expect(Date.now() - started).toBeLessThan(5_000);
+  });
+});
+
+describe("error routing", () => {
+  it("follows the error edge once retries run out, keeping the failure", async () => {
+    const graph: AgentGraph<TestState> = {
+      start: "call",
+      nodes: {
+        call: flaky("call", 5, { maxAttempts: 2, baseDelayMs: 1, maxDelayMs: 1 }),
+        recover: node("recover", () => "done"),
+      },
+      edges: { call: { ok: END, [ERROR_OUTCOME]: "recover" }, recover: { done: END } },
+    };
+    const state = newState();
+    await runGraph(graph, state);
+    expect(state.path).toEqual(["call", "recover"]);
+    expect(state.failure).toEqual({ node: "call", error: new Error("503 unavailable") });
+  });
+});
+
+describe("insertNode", () => {
+  const base: AgentGraph<TestState> = {
+    start: "route",
+    nodes: { route: node("route", () => "answer"), respond: node("respond", () => "done") },
+    edges: { route: { answer: "respond" }, respond: { done: END } },
+  };
+
+  it("puts a node on an edge and hands it the old target", async () => {
+    const verify = node("verify", (s) => (s.log.push("verified"), "ok"));
+    const graph = insertNode(base, verify, { from: "route", on: "answer" }, (next) => ({ ok: next, revise: "route" }));
+
+    expect(graph.edges).toEqual({
+      route: { answer: "verify" },
+      verify: { ok: "respond", revise: "route" },
+      respond: { done: END },
+    });
+    expect(base.edges.route).toEqual({ answer: "respond" }); // the original is untouched
+    const state = newState();
+    await runGraph(graph, state);
+    expect(state.path).toEqual(["route", "verify", "respond"]);
+  });
+
+  it("refuses an edge that doesn't exist", () => {
+    expect(() => insertNode(base, node("x", () => "ok"), { from: "route", on: "tools" }, (next) => ({ ok: next }))).toThrow(
+      'Agent graph has no edge from "route" on "tools".'
+    );
+  });
+});
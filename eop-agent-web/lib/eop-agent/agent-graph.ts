@@ -0,0 +1,161 @@
+/**
+ * Agent graph — the agent loop as an explicit state graph (Lab 4).
+ *
+ * A run starts at the graph's start node. Each node does one step of work on
+ * the shared state and returns an outcome label; the edge table maps
+ * (node, outcome) to the next node, until an edge leads to END. A node can
+ * declare a retry policy: when it throws, it runs again after an exponential
+ * backoff. Once its attempts run out, the node's "error" edge is followed if
+ * it has one; otherwise the error ends the run.
+ *
+ * run-agent.ts builds the EOP graph from these pieces. Callers add their own
+ * steps with insertNode() instead of copying the runner.
+ */
+
+export const END = "end";
+
+/** Outcome label a node's failure is routed on, after its retries run out. */
+export const ERROR_OUTCOME = "error";
+
+export interface RetryPolicy {
+  maxAttempts: number; // including the first
+  baseDelayMs: number; // wait before the second attempt; doubles each time
+  maxDelayMs: number;
+  retryOn?: (err: unknown) => boolean; // every error when omitted
+}
+
+/** What every graph state carries: the nodes visited, and the last failure routed on "error". */
+export interface GraphState {
+  path: string[];
+  failure?: { node: string; error: unknown };
+}
+
+export interface AgentNode<S extends GraphState> {
+  name: string;
+  /** Do one step and return the outcome label that picks the next node. */
+  run: (state: S) => Promise<string>;
+  retry?: RetryPolicy;
+}
+
+export interface AgentGraph<S extends GraphState> {
+  start: string;
+  nodes: Record<string, AgentNode<S>>;
+  edges: Record<string, Record<string, string>>; // node → outcome → next node (or END)
+}
+
+export interface GraphRunHooks {
+  onNode?: (node: string) => void;
+  onRetry?: (node: string, attempt: number, delayMs: number, err: unknown) => void;
+  /** Cancels the run: no further retry, and a backoff wait ends with the signal's reason. */
+  signal?: AbortSignal;
+}
+
+/** Longest run allowed, in node visits; a guard against custom graphs that never reach END. */
+const MAX_STEPS = 200;
+
+/** Every problem with a graph's wiring: unknown start node or edge targets. */
+export function checkGraph<S extends GraphState>(graph: AgentGraph<S>): string[] {
+  const problems: string[] = [];
+  if (!graph.nodes[graph.start]) problems.push(`start node "${graph.start}" does not exist`);
+  for (const [from, outcomes] of Object.entries(graph.edges)) {
+    if (!graph.nodes[from]) problems.push(`edges are defined for unknown node "${from}"`);
+    for (const [outcome, to] of Object.entries(outcomes)) {
+      if (to !== END && !graph.nodes[to]) problems.push(`"${from}" on "${outcome}" leads to unknown node "${to}"`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Put `node` on the edge `from --on-->`. That edge now leads to the node; its
+ * own outcomes come from `edges`, which receives the edge's old target, e.g.
+ * `(next) => ({ ok: next, revise: "route" })`. Returns a new graph.
+ */
+export function insertNode<S extends GraphState>(
+  graph: AgentGraph<S>,
+  node: AgentNode<S>,
+  at: { from: string; on: string },
+  edges: (next: string) => Record<string, string>
+): AgentGraph<S> {
+  const next = graph.edges[at.from]?.[at.on];
+  if (next === undefined) throw new Error(`Agent graph has no edge from "${at.from}" on "${at.on}".`);
+  return {
+    start: graph.start,
+    nodes: { ...graph.nodes, [node.name]: node },
+    edges: {
+      ...graph.edges,
+      [at.from]: { ...graph.edges[at.from], [at.on]: node.name },
+      [node.name]: edges(next),
+    },
+  };
+}
+
+function backoff(policy: RetryPolicy, attempt: number): number {
+  return Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+}
+
+/** Wait `ms`, or reject with the signal's reason as soon as it is aborted. */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+async function runNode<S extends GraphState>(node: AgentNode<S>, state: S, hooks: GraphRunHooks): Promise<string> {
+  const policy = node.retry;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await node.run(state);
+    } catch (err) {
+      const retryable = policy && attempt < policy.maxAttempts && (policy.retryOn?.(err) ?? true);
+      if (!retryable || hooks.signal?.aborted) throw err;
+      const delay = backoff(policy, attempt);
+      hooks.onRetry?.(node.name, attempt, delay, err);
+      await wait(delay, hooks.signal);
+    }
+  }
+}
+
+/** Run the graph on `state` until an edge leads to END. The visited nodes are in `state.path`. */
+export async function runGraph<S extends GraphState>(
+  graph: AgentGraph<S>,
+  state: S,
+  hooks: GraphRunHooks = {}
+): Promise<void> {
+  const problems = checkGraph(graph);
+  if (problems.length > 0) throw new Error(`Invalid agent graph: ${problems.join("; ")}.`);
+
+  let current = graph.start;
+  while (current !== END) {
+    if (state.path.length >= MAX_STEPS) {
+      throw new Error(`Agent graph did not finish within ${MAX_STEPS} steps (last node: "${current}").`);
+    }
+    const node = graph.nodes[current];
+    state.path.push(current);
+    hooks.onNode?.(current);
+
+    let outcome: string;
+    try {
+      outcome = await runNode(node, state, hooks);
+    } catch (error) {
+      const fallback = graph.edges[current]?.[ERROR_OUTCOME];
+      if (!fallback) throw error;
+      state.failure = { node: current, error };
+      current = fallback;
+      continue;
+    }
+
+    const next = graph.edges[current]?.[outcome];
+    if (next === undefined) throw new Error(`Agent graph has no edge from "${current}" on "${outcome}".`);
+    current = next;
+  }
+}
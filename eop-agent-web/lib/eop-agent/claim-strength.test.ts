@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { assessClaim, formatClaimAssessment } from "./claim-strength";
+
+const cuesOf = (claim: string) => assessClaim(claim).cues.map((c) => `${c.text}: ${c.indicates}`);
+
+describe("assessClaim", () => {
+  it("reads a possibility claim as existential at minimal scope", () => {
+    const assessment = assessClaim("  We can generate valid molecules with our method. ");
+    expect(assessment).toMatchObject({
+      claim: "We can generate valid molecules with our method.",
+      strength: "existential",
+      scope: "minimal",
+      needsClarification: false,
+    });
+    expect(assessment.clarifyingQuestion).toBeUndefined();
+    expect(assessment.rationale).toBe(
+      '"We can" asserts that a result can be obtained, not how often. Minimal scope: fits an existential claim.'
+    );
+  });
+
+  it("reads reliability, spread and repeated runs as distributional at full scope", () => {
+    const assessment = assessClaim("Our model reliably outperforms the baseline across 5 datasets (mean ± std over 10 seeds).");
+    expect(assessment).toMatchObject({ strength: "distributional", scope: "full", needsClarification: false });
+    expect(cuesOf(assessment.claim)).toEqual([
+      "reliably: distributional",
+      "outperforms: vague",
+      "across: distributional",
+      "mean: distributional",
+      "±: distributional",
+      "std: distributional",
+      "10 seeds: distributional",
+    ]);
+    expect(assessment.rationale).toMatch(/ on more than one axis\. Full scope: /);
+  });
+
+  it("adds the artifacts a cue makes necessary, naming the cue", () => {
+    const extra = assessClaim("Results hold on average over 5 seeds.").requiredArtifacts.filter((r) => r.because);
+    expect(extra).toEqual([
+      { type: "output_data", description: "The individual values the average is computed from", because: '"on average"' },
+      {
+        type: "experimental_process",
+        description: "Seed list and split definitions, with the script that loops over them",
+        because: '"5 seeds"',
+      },
+      { type: "output_data", description: "Raw results for every seed / fold", because: '"5 seeds"' },
+    ]);
+  });
+
+  it("lets a single reported figure defer to distributional cues", () => {
+    expect(assessClaim("We reach 94% accuracy.").strength).toBe("existential");
+    expect(assessClaim("We reach 94% accuracy on average over 5 seeds.").strength).toBe("distributional");
+  });
+
+  it("asks which reading is meant when cues point both ways", () => {
+    const assessment = assessClaim("We demonstrate that the model can reliably solve the task across all benchmarks.");
+    expect(assessment).toMatchObject({ strength: null, scope: "full", needsClarification: true });
+    expect(assessment.clarifyingQuestion).toMatch(/^Is the claim that this result is possible/);
+    expect(assessment.rationale).toMatch(
+      /^Mixed cues: "demonstrate", "model can" read as existential, "reliably", "across", "all benchmarks" as distributional; /
+    );
+  });
+
+  it("asks about conditions when the wording is only evaluative", () => {
+    const assessment = assessClaim("Our approach works well.");
+    expect(assessment).toMatchObject({ strength: null, scope: "standard", needsClarification: true });
+    expect(cuesOf(assessment.claim)).toEqual(["works well: vague"]);
+    expect(assessment.clarifyingQuestion).toMatch(/^Do you claim this happened in the reported run/);
+    expect(assessment.rationale).toMatch(/^"works well" evaluate the result without stating how often/);
+    expect(assessClaim("The sky is blue.").rationale).toMatch(/^No strength cue found; the scope is provisional\./);
+  });
+});
+
+describe("formatClaimAssessment", () => {
+  it("ends with the question to ask when the claim is unclear", () => {
+    const text = formatClaimAssessment(assessClaim("Our approach works well."));
+    expect(text.split("\n").slice(0, 3)).toEqual([
+      '[EOP] Claim: "Our approach works well."',
+      "Strength: unclear — needs clarification",
+      expect.stringMatching(/^Recommended scope: standard \(provisional\) — /),
+    ]);
+    expect(text).toContain('\nCues:\n  - "works well" → vague (evaluative wording)\n');
+    expect(text.split("\n").at(-1)).toMatch(/^Ask the user before settling on a scope: Do you claim/);
+  });
+});
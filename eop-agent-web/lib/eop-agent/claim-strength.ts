@@ -0,0 +1,237 @@
+/**
+ * Claim-strength analyzer for advise_disclosure_scope (Lab 6).
+ *
+ * Looks for the linguistic cues that separate existential claims ("we can do
+ * X") from distributional ones ("we reliably do X across Y"), picks a level
+ * from the disclosure scope registry (scopes.ts) and lists the ECF artifacts
+ * that level requires. Claims with
+ * no usable cue, or with cues pointing both ways (Lab 6 Experiments 1 and 2),
+ * are flagged for the user to clarify rather than forced into one category.
+ */
+
+import type {
+  ClaimAssessment,
+  ClaimCue,
+  ClaimStrength,
+  DisclosureScopeDefinition,
+  RequiredArtifact,
+} from "@/lib/types";
+import { BUILT_IN_SCOPES, findScopeMentions, requiredArtifactsFor, selectScope } from "./scopes";
+
+interface CueRule {
+  label: string;
+  pattern: RegExp; // global, case-insensitive
+  indicates: ClaimCue["indicates"];
+  /** A weak existential cue (a single reported number) defers to any distributional cue. */
+  weak?: boolean;
+  /** Extra artifacts this cue makes necessary, beyond the scope's baseline. */
+  requires?: Omit<RequiredArtifact, "because">[];
+}
+
+const CUE_RULES: CueRule[] = [
+  // ── Existential ──
+  {
+    label: "possibility ('can', 'able to')",
+    pattern: /\b(we|it|this|one|they|model|method|approach) can\b|\bcan be\b|\b(is|are) able to\b|\bpossible to\b/gi,
+    indicates: "existential",
+  },
+  {
+    label: "demonstration / feasibility",
+    pattern: /\bdemonstrat(e|es|ed|ing)\b|\bproof[- ]of[- ]concept\b|\bfeasib(le|ility)\b/gi,
+    indicates: "existential",
+  },
+  {
+    label: "single instance",
+    pattern: /\b(a|one|single) (case|example|instance|run|trial)\b|\bonce\b/gi,
+    indicates: "existential",
+  },
+  {
+    label: "single reported figure",
+    pattern: /\b\d+(\.\d+)?\s?%(?!\s*(CI\b|confidence))/gi,
+    indicates: "existential",
+    weak: true,
+  },
+
+  // ── Distributional ──
+  {
+    label: "reliability wording",
+    pattern: /\b(reliabl[ey]|reliability|consistent(ly)?|robust(ly|ness)?|stabl[ey]|stability|repeatedly|systematically|always|invariably)\b/gi,
+    indicates: "distributional",
+    requires: [{ type: "output_data", description: "Results of every run, not only the best or reported one" }],
+  },
+  {
+    label: "generalization across conditions",
+    pattern: /\bacross\b|\bgenerali[sz](e|es|ed|ation|ing)\b|\b(all|every|each|multiple|several|many|various|diverse) (datasets?|benchmarks?|tasks?|domains?|settings?|conditions?|environments?)\b|\bunder (different|varying|various) \w+/gi,
+    indicates: "distributional",
+    requires: [
+      { type: "input_data", description: "Every dataset, split or condition the claim ranges over" },
+      { type: "output_data", description: "Per-condition results, not only the aggregate" },
+    ],
+  },
+  {
+    label: "average / aggregate",
+    pattern: /\bon average\b|\baverag(e|ed|es|ing)\b|\bmean\b|\bmedian\b/gi,
+    indicates: "distributional",
+    requires: [{ type: "output_data", description: "The individual values the average is computed from" }],
+  },
+  {
+    label: "spread / uncertainty",
+    pattern: /±|\+\/-|\b(std|s\.d\.|standard deviation|standard error|variance|error bars?)\b/gi,
+    indicates: "distributional",
+    requires: [{ type: "plotting_process", description: "Code that computes the reported spread from the per-run values" }],
+  },
+  {
+    label: "confidence interval / significance",
+    pattern: /\bconfidence intervals?\b|\bCI\b|\bp\s*[<=≤]\s*0?\.\d+|\bp-values?\b|\bstatistically significant(ly)?\b|\bsignificantly\b/gi,
+    indicates: "distributional",
+    requires: [{ type: "plotting_process", description: "The statistical test or interval computation, with its inputs" }],
+  },
+  {
+    label: "repeated runs / resampling",
+    pattern: /\b\d+\s+(random\s+)?(seeds?|runs|trials|repetitions|folds|splits)\b|\brandom seeds?\b|\bcross[- ]validat(ion|ed)\b|\bk-fold\b|\bbootstrap(ped|ping)?\b/gi,
+    indicates: "distributional",
+    requires: [
+      { type: "experimental_process", description: "Seed list and split definitions, with the script that loops over them" },
+      { type: "output_data", description: "Raw results for every seed / fold" },
+    ],
+  },
+  {
+    label: "frequency wording",
+    pattern: /\bin \d+(\.\d+)?\s?% of\b|\bmost (cases|instances|runs)\b|\btypically\b|\bgenerally\b|\busually\b/gi,
+    indicates: "distributional",
+  },
+
+  // ── Vague (evaluative, with no stated condition) ──
+  {
+    label: "evaluative wording",
+    pattern: /\b(works? well|performs? well|good|great|effective(ly)?|promising|strong|improv(e|es|ed|ing)|better|superior|outperforms?|state[- ]of[- ]the[- ]art|sota)\b/gi,
+    indicates: "vague",
+  },
+];
+
+function findCues(claim: string): (ClaimCue & { rule: CueRule })[] {
+  const cues: (ClaimCue & { rule: CueRule })[] = [];
+  for (const rule of CUE_RULES) {
+    for (const match of claim.matchAll(rule.pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      // A phrase already claimed by an earlier rule is not counted twice
+      if (cues.some((c) => start < c.end && end > c.start)) continue;
+      cues.push({ text: match[0], start, end, label: rule.label, indicates: rule.indicates, rule });
+    }
+  }
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+function requiredArtifacts(
+  scopes: DisclosureScopeDefinition[],
+  scopeId: string,
+  cues: (ClaimCue & { rule: CueRule })[]
+): RequiredArtifact[] {
+  const required = requiredArtifactsFor(scopes, scopeId);
+  for (const cue of cues) {
+    for (const req of cue.rule.requires ?? []) {
+      if (!required.some((r) => r.description === req.description)) {
+        required.push({ ...req, because: `"${cue.text}"` });
+      }
+    }
+  }
+  return required;
+}
+
+const quoteAll = (cues: ClaimCue[]) => cues.map((c) => `"${c.text}"`).join(", ");
+
+export function assessClaim(claim: string, scopes: DisclosureScopeDefinition[] = BUILT_IN_SCOPES): ClaimAssessment {
+  const text = claim.trim();
+  const cues = findCues(text);
+  const existential = cues.filter((c) => c.indicates === "existential");
+  const strongExistential = existential.filter((c) => !c.rule.weak);
+  const distributional = cues.filter((c) => c.indicates === "distributional");
+  const axes = new Set(distributional.map((c) => c.label)).size;
+
+  let strength: ClaimStrength | null;
+  let clarifyingQuestion: string | undefined;
+  let reading: string;
+
+  if (distributional.length > 0 && strongExistential.length > 0) {
+    strength = null;
+    clarifyingQuestion =
+      "Is the claim that this result is possible (one run is enough), or that it holds reliably " +
+      "(the repeated runs / statistics are part of what you claim)?";
+    reading =
+      `Mixed cues: ${quoteAll(strongExistential)} read as existential, ${quoteAll(distributional)} as distributional; ` +
+      "the provisional scope is sized for the distributional reading.";
+  } else if (distributional.length > 0) {
+    strength = "distributional";
+    reading =
+      `${quoteAll(distributional)} describe${distributional.length === 1 ? "s" : ""} behaviour over repeated runs or conditions` +
+      (axes >= 2 ? " on more than one axis." : ".");
+  } else if (existential.length > 0) {
+    strength = "existential";
+    reading = `${quoteAll(existential)} assert${existential.length === 1 ? "s" : ""} that a result can be obtained, not how often.`;
+  } else {
+    strength = null;
+    const vague = cues.filter((c) => c.indicates === "vague");
+    clarifyingQuestion =
+      "Do you claim this happened in the reported run, or that it holds consistently " +
+      "(across seeds, datasets or conditions)? Under which conditions?";
+    reading =
+      (vague.length > 0
+        ? `${quoteAll(vague)} evaluate the result without stating how often or under what conditions; `
+        : "No strength cue found; ") + "the scope is provisional.";
+  }
+
+  const { chosen, candidates } = selectScope(scopes, { claim: text, strength: strength ?? "unclear", axes });
+
+  // Phrases that triggered a scope level are highlighted alongside the strength cues
+  const constraintCues: ClaimCue[] = findScopeMentions(scopes, text)
+    .filter((m) => m.scopeId === chosen.id && !cues.some((c) => m.start < c.end && m.end > c.start))
+    .map((m) => ({ text: m.text, start: m.start, end: m.end, label: `${chosen.label} trigger`, indicates: "constraint" }));
+
+  return {
+    claim: text,
+    strength,
+    cues: [
+      ...cues.map(({ text, start, end, label, indicates }) => ({ text, start, end, label, indicates })),
+      ...constraintCues,
+    ].sort((a, b) => a.start - b.start),
+    scope: chosen.id,
+    scopeLabel: chosen.label,
+    scopeExplanation: chosen.explanation,
+    consideredScopes: candidates,
+    requiredArtifacts: requiredArtifacts(scopes, chosen.id, cues),
+    needsClarification: strength === null,
+    ...(clarifyingQuestion ? { clarifyingQuestion } : {}),
+    rationale: `${reading} ${chosen.label} scope: ${candidates.find((c) => c.id === chosen.id)?.reason ?? "no level fits, using the broadest"}.`,
+  };
+}
+
+/** Text form of an assessment, for the LLM. */
+export function formatClaimAssessment(assessment: ClaimAssessment): string {
+  const lines = [
+    `[EOP] Claim: "${assessment.claim}"`,
+    `Strength: ${assessment.strength ?? "unclear — needs clarification"}`,
+    `Recommended scope: ${assessment.scope}${assessment.needsClarification ? " (provisional)" : ""} — ${assessment.scopeExplanation}`,
+    `Rationale: ${assessment.rationale}`,
+  ];
+
+  if (assessment.cues.length > 0) {
+    lines.push("", "Cues:");
+    for (const cue of assessment.cues) lines.push(`  - "${cue.text}" → ${cue.indicates} (${cue.label})`);
+  }
+
+  lines.push("", "Scope levels considered:");
+  for (const c of assessment.consideredScopes) {
+    lines.push(`  - ${c.id}: ${c.applies ? "fits" : "does not fit"} (${c.reason})`);
+  }
+
+  lines.push("", `Required artifacts at ${assessment.scope} scope:`);
+  for (const req of assessment.requiredArtifacts) {
+    lines.push(`  - ${req.type}: ${req.description}${req.because ? ` [because of ${req.because}]` : ""}`);
+  }
+
+  if (assessment.needsClarification) {
+    lines.push("", `Ask the user before settling on a scope: ${assessment.clarifyingQuestion}`);
+  }
+  return lines.join("\n");
+}
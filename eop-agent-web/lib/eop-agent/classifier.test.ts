@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { classifyFile, classifyFiles, formatClassificationReport, parseFileList } from "./classifier";
+
+describe("classifyFile", () => {
+  it.each([
+    ["data/raw/survey.csv", "input_data"],
+    ["src/train.py", "experimental_process"],
+    ["results/metrics.json", "output_data"],
+    ["scripts/plot_results.py", "plotting_process"],
+    ["figures/fig1.png", "visual_claims"],
+    ["README.md", "documentation"],
+    ["tests/test_model.py", null],
+  ])("classifies %s as %s", (path, type) => {
+    const item = classifyFile({ path });
+    expect(item.type).toBe(type);
+    expect(item.needsReview).toBe(false);
+  });
+
+  it("gives the rules that matched and the runner-up types", () => {
+    expect(classifyFile({ path: "src/train.py" })).toEqual({
+      path: "src/train.py",
+      type: "experimental_process",
+      confidence: 0.81,
+      reasons: ["code file extension", "experiment script name", "source code directory"],
+      alternatives: [{ type: "plotting_process", confidence: 0.06 }],
+      needsReview: false,
+    });
+  });
+
+  it("flags weak and contested results for review", () => {
+    expect(classifyFile({ path: "src/utils.py" })).toMatchObject({ type: "experimental_process", confidence: 0.49, needsReview: true });
+    expect(classifyFile({ path: "data/table1.csv" })).toMatchObject({ type: "visual_claims", needsReview: true });
+    expect(classifyFile({ path: "notes.xyz" })).toMatchObject({ type: null, confidence: 0, reasons: ["no rule matched"], needsReview: true });
+  });
+
+  it("lets a description settle an ambiguous file", () => {
+    expect(classifyFile({ path: "src/utils.py", description: "plots the loss curves" })).toMatchObject({
+      type: "plotting_process",
+      description: "plots the loss curves",
+    });
+  });
+
+  it("uses the given threshold", () => {
+    expect(classifyFile({ path: "src/utils.py" }, 0.4).needsReview).toBe(false);
+    expect(classifyFile({ path: "src/train.py" }, 0.9).needsReview).toBe(true);
+  });
+
+  it("is deterministic and ignores case and backslashes", () => {
+    const first = classifyFile({ path: "Results\\Metrics.JSON" });
+    const second = classifyFile({ path: "results/metrics.json" });
+    expect({ ...first, path: "" }).toEqual({ ...second, path: "" });
+  });
+});
+
+describe("classifyFiles", () => {
+  it("counts only confident artifacts and lists the rest for review", () => {
+    const report = classifyFiles([{ path: "src/train.py" }, { path: "tests/test_model.py" }, { path: "notes.xyz" }]);
+    expect(report.counts).toEqual({ experimental_process: 1 });
+    expect(report.needsReview).toBe(1);
+    expect(formatClassificationReport(report).split("\n")).toEqual([
+      "[EOP] Rule-based ECF classification of 3 file(s) (2 confident, 1 need review; threshold 0.6).",
+      "",
+      "experimental_process:",
+      "  - src/train.py (0.81)",
+      "",
+      "Not evidence chain artifacts (tests/config):",
+      "  - tests/test_model.py",
+      "",
+      "Needs review (low confidence) — resolve from context or ask the user:",
+      "  - notes.xyz: no clear type",
+    ]);
+  });
+});
+
+describe("parseFileList", () => {
+  it("strips tree characters and bullets, keeps descriptions and skips directories", () => {
+    const listing = [
+      "repo/",
+      "├── data/raw.csv - raw survey answers",
+      "│   └── plot.py — draws figure 2",
+      "* README.md",
+      "- run.sh # runs it all",
+    ].join("\n");
+    expect(parseFileList(listing)).toEqual([
+      { path: "data/raw.csv", description: "raw survey answers" },
+      { path: "plot.py", description: "draws figure 2" },
+      { path: "README.md" },
+      { path: "run.sh", description: "runs it all" },
+    ]);
+  });
+});
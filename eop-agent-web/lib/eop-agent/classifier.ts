@@ -0,0 +1,244 @@
+/**
+ * Deterministic first-pass ECF classifier for repository files.
+ *
+ * Scores each file against a fixed rule table (extension, file name, directory
+ * names, one-line description) so the same listing always gets the same
+ * classification, whichever LLM provider is used — the Lab 1 stochasticity
+ * problem. Items whose best score is weak or contested are flagged
+ * `needsReview` for the LLM or the user to resolve.
+ */
+
+import type { ArtifactClassification, ClassificationReport, EcfArtifactType } from "@/lib/types";
+import { ECF_ARTIFACT_TYPES } from "./evidence-graph";
+
+/** Items below this confidence are flagged for review. */
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.6;
+
+/** One file to classify (from a pasted listing or an uploaded archive). */
+export interface RepoFileInput {
+  path: string;
+  description?: string;
+}
+
+// Tests, configs and similar are real files but not evidence chain artifacts
+type Category = EcfArtifactType | "not_evidence";
+
+interface ParsedFile {
+  path: string; // lower-cased, forward slashes
+  base: string; // file name without directories
+  stem: string; // file name without extension
+  ext: string; // ".csv"
+  dirs: string[]; // parent directory names
+  description: string; // lower-cased
+}
+
+interface Rule {
+  reason: string;
+  test: (f: ParsedFile) => boolean;
+  scores: Partial<Record<Category, number>>;
+}
+
+const DATA_EXT = [".csv", ".tsv", ".json", ".jsonl", ".parquet", ".feather", ".h5", ".hdf5", ".npy", ".npz", ".pkl", ".pickle", ".xlsx", ".xls", ".dat", ".mat", ".nc", ".arrow", ".sqlite", ".db"];
+const CODE_EXT = [".py", ".r", ".jl", ".m", ".ipynb", ".sh", ".c", ".cc", ".cpp", ".h", ".java", ".scala", ".js", ".ts", ".go", ".rs", ".f90", ".rmd", ".do", ".sas"];
+const IMAGE_EXT = [".png", ".jpg", ".jpeg", ".svg", ".pdf", ".eps", ".tif", ".tiff", ".gif"];
+const DOC_EXT = [".md", ".rst", ".txt", ".tex", ".adoc", ".html"];
+const MODEL_EXT = [".pt", ".pth", ".ckpt", ".onnx", ".safetensors", ".pb", ".joblib"];
+
+const hasExt = (list: string[]) => (f: ParsedFile) => list.includes(f.ext);
+const inDir = (pattern: RegExp) => (f: ParsedFile) => f.dirs.some((d) => pattern.test(d));
+const stemMatches = (pattern: RegExp) => (f: ParsedFile) => pattern.test(f.stem);
+const describes = (pattern: RegExp) => (f: ParsedFile) => pattern.test(f.description);
+const both =
+  (...tests: ((f: ParsedFile) => boolean)[]) =>
+  (f: ParsedFile) =>
+    tests.every((t) => t(f));
+
+const isData = hasExt(DATA_EXT);
+const isCode = hasExt(CODE_EXT);
+const isImage = hasExt(IMAGE_EXT);
+
+const RULES: Rule[] = [
+  // ── Extensions (weak on their own: a .csv can sit anywhere in the chain) ──
+  { reason: "data file extension", test: isData, scores: { input_data: 0.3, output_data: 0.3, visual_data: 0.2 } },
+  { reason: "code file extension", test: isCode, scores: { experimental_process: 0.4, plotting_process: 0.3 } },
+  { reason: "image/figure extension", test: isImage, scores: { visual_claims: 0.6 } },
+  { reason: "document extension", test: hasExt(DOC_EXT), scores: { documentation: 0.5 } },
+  { reason: "model checkpoint extension", test: hasExt(MODEL_EXT), scores: { output_data: 0.7 } },
+
+  // ── File names ──
+  { reason: "README/entry document name", test: stemMatches(/^(readme|index|entry|manual|guide|changelog|license|citation)\b/), scores: { documentation: 0.9 } },
+  { reason: "plotting script name", test: both(isCode, stemMatches(/(^|[_-])(plot|plots|plotting|viz|visuali[sz]e|draw|make_?fig|fig(ure)?s?)([_-]|\d|$)/)), scores: { plotting_process: 0.8 } },
+  { reason: "figure/table file name", test: both(isImage, stemMatches(/^(fig|figure|table|tab|plot|chart)[_-]?\w*/)), scores: { visual_claims: 0.4 } },
+  { reason: "table output name", test: both((f) => [".tex", ".csv", ".md"].includes(f.ext), stemMatches(/^(table|tab)[_-]?\d/)), scores: { visual_claims: 0.7 } },
+  { reason: "experiment script name", test: both(isCode, stemMatches(/(^|[_-])(train|run|main|experiment|exp|analy[sz]e|analysis|preprocess|process|simulate|simulation|eval|evaluate|fit|pipeline)([_-]|\d|$)/)), scores: { experimental_process: 0.6 } },
+  { reason: "results/output file name", test: both(isData, stemMatches(/(^|[_-])(results?|metrics|outputs?|predictions?|scores|summary_stats|logs?)([_-]|\d|$)/)), scores: { output_data: 0.6 } },
+  { reason: "plot-ready data name", test: both(isData, stemMatches(/(for_?plot|plot_?data|fig(ure)?_?data|fig\d+_data|to_plot)/)), scores: { visual_data: 0.8 } },
+  { reason: "test file name", test: both(isCode, stemMatches(/(^test_|_test$|^tests?$|\.test$|\.spec$)/)), scores: { not_evidence: 1.0 } },
+  { reason: "config/environment file", test: (f) => /^(requirements|environment|setup|pyproject|package|dockerfile|makefile|\.gitignore|conda)/.test(f.base), scores: { documentation: 0.3, not_evidence: 0.5 } },
+
+  // ── Directories ──
+  { reason: "raw/input data directory", test: both(isData, inDir(/^(raw|input|inputs|datasets?|raw_?data|source_?data)$/)), scores: { input_data: 0.7 } },
+  { reason: "data directory", test: both(isData, inDir(/^data$/)), scores: { input_data: 0.3 } },
+  { reason: "results/output directory", test: inDir(/^(results?|outputs?|out|checkpoints?|models?|runs|logs)$/), scores: { output_data: 0.6 } },
+  { reason: "figures directory (image)", test: both(isImage, inDir(/^(figures?|figs?|plots?|claims?|images?|paper)$/)), scores: { visual_claims: 0.4 } },
+  { reason: "figures directory (data)", test: both(isData, inDir(/^(figures?|figs?|plots?|plot_?data|visual_?data)$/)), scores: { visual_data: 0.6 } },
+  { reason: "plotting code directory", test: both(isCode, inDir(/^(plotting|plots?|viz|visuali[sz]ation|figures?)$/)), scores: { plotting_process: 0.6 } },
+  { reason: "source code directory", test: both(isCode, inDir(/^(src|source|scripts?|code|lib|work|analysis|experiments?)$/)), scores: { experimental_process: 0.3 } },
+  { reason: "documentation directory", test: inDir(/^(docs?|documents?|documentation)$/), scores: { documentation: 0.6 } },
+  { reason: "tests directory", test: inDir(/^(tests?|spec)$/), scores: { not_evidence: 0.8 } },
+
+  // ── One-line descriptions ──
+  { reason: "description mentions raw/input data", test: describes(/\b(raw|input|dataset|measurements?|collected|downloaded|survey)\b/), scores: { input_data: 0.5 } },
+  { reason: "description mentions an experiment/analysis", test: describes(/\b(trains?|training|analy[sz]es|analysis|preprocess\w*|simulat\w*|experiments?|fits?|computes?)\b/), scores: { experimental_process: 0.5 } },
+  { reason: "description mentions results/outputs", test: describes(/\b(results?|outputs?|metrics|checkpoints?|predictions?|scores)\b/), scores: { output_data: 0.5 } },
+  { reason: "description mentions plotting", test: both((f) => !isData(f), describes(/\b(plots?|plotting|draws?|visuali[sz]\w*|generates? (the )?fig\w*|makes? (the )?fig\w*)\b/)), scores: { plotting_process: 0.5 } },
+  { reason: "description mentions data for a figure", test: describes(/\b(data for (figure|fig|plot)|plot data|aggregated for plotting)\b/), scores: { visual_data: 0.6 } },
+  { reason: "description mentions a figure/table", test: describes(/\b(figure|fig\.?|table|chart)\s*\d*\b/), scores: { visual_claims: 0.3 } },
+  { reason: "description mentions documentation", test: describes(/\b(readme|documentation|describes|instructions|overview|how to)\b/), scores: { documentation: 0.5 } },
+];
+
+function parseFile(input: RepoFileInput): ParsedFile {
+  const path = input.path.replace(/\\/g, "/").toLowerCase();
+  const parts = path.split("/").filter(Boolean);
+  const base = parts[parts.length - 1] ?? path;
+  const dot = base.lastIndexOf(".");
+  return {
+    path,
+    base,
+    stem: dot > 0 ? base.slice(0, dot) : base,
+    ext: dot > 0 ? base.slice(dot) : "",
+    dirs: parts.slice(0, -1),
+    description: (input.description ?? "").toLowerCase(),
+  };
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Classify one file. Confidence is the winning score's strength (capped at 1)
+ * times its margin over the runner-up, so weak or contested results score low.
+ */
+export function classifyFile(
+  input: RepoFileInput,
+  threshold = DEFAULT_CONFIDENCE_THRESHOLD
+): ArtifactClassification {
+  const file = parseFile(input);
+  const scores = new Map<Category, number>();
+  const reasons: string[] = [];
+
+  for (const rule of RULES) {
+    if (!rule.test(file)) continue;
+    reasons.push(rule.reason);
+    for (const [category, score] of Object.entries(rule.scores) as [Category, number][]) {
+      scores.set(category, (scores.get(category) ?? 0) + score);
+    }
+  }
+
+  // Stable order: highest score first, ties broken by chain order
+  const order: Category[] = [...ECF_ARTIFACT_TYPES, "not_evidence"];
+  const ranked = [...scores.entries()].sort(
+    (a, b) => b[1] - a[1] || order.indexOf(a[0]) - order.indexOf(b[0])
+  );
+
+  const base = { path: input.path, ...(input.description ? { description: input.description } : {}) };
+
+  if (ranked.length === 0) {
+    return { ...base, type: null, confidence: 0, reasons: ["no rule matched"], alternatives: [], needsReview: true };
+  }
+
+  const strength = (score: number, against: number) =>
+    round2(Math.min(0.99, Math.min(1, score) * (score / (score + against))));
+
+  const [topCategory, topScore] = ranked[0];
+  const confidence = strength(topScore, ranked[1]?.[1] ?? 0);
+  const alternatives = ranked
+    .slice(1)
+    .filter(([category]) => category !== "not_evidence")
+    .slice(0, 2)
+    .map(([category, score]) => ({ type: category as EcfArtifactType, confidence: strength(score, topScore) }));
+
+  return {
+    ...base,
+    type: topCategory === "not_evidence" ? null : topCategory,
+    confidence,
+    reasons,
+    alternatives,
+    needsReview: confidence < threshold,
+  };
+}
+
+export function classifyFiles(
+  files: RepoFileInput[],
+  threshold = DEFAULT_CONFIDENCE_THRESHOLD
+): ClassificationReport {
+  return summarizeClassification(files.map((f) => classifyFile(f, threshold)), threshold);
+}
+
+/** The report for items already classified with `threshold` (classifyFile). */
+export function summarizeClassification(items: ArtifactClassification[], threshold: number): ClassificationReport {
+  const counts: Partial<Record<EcfArtifactType, number>> = {};
+  for (const item of items) {
+    if (item.type && !item.needsReview) counts[item.type] = (counts[item.type] ?? 0) + 1;
+  }
+  return {
+    items,
+    threshold,
+    counts,
+    needsReview: items.filter((i) => i.needsReview).length,
+  };
+}
+
+/**
+ * Parse a pasted listing: one file per line, optionally followed by a
+ * description after " - ", " — " or " # ". Tree drawing characters and list
+ * bullets are stripped; directory-only lines (ending in "/") are skipped.
+ */
+export function parseFileList(text: string): RepoFileInput[] {
+  const files: RepoFileInput[] = [];
+  for (const raw of text.split("\n")) {
+    const line = raw.replace(/^[\s│├└─|`*+-]+/, "").trim();
+    if (!line) continue;
+
+    const match = line.match(/^(\S+?)\s+(?:-|—|–|#)\s+(.+)$/);
+    const path = (match ? match[1] : line.split(/\s+/)[0]).trim();
+    if (!path || path.endsWith("/")) continue;
+
+    files.push(match ? { path, description: match[2].trim() } : { path });
+  }
+  return files;
+}
+
+/** Text form of a report, for the LLM. */
+export function formatClassificationReport(report: ClassificationReport): string {
+  const confident = report.items.filter((i) => !i.needsReview);
+  const flagged = report.items.filter((i) => i.needsReview);
+
+  const lines = [
+    `[EOP] Rule-based ECF classification of ${report.items.length} file(s) ` +
+      `(${confident.length} confident, ${flagged.length} need review; threshold ${report.threshold}).`,
+  ];
+
+  for (const type of ECF_ARTIFACT_TYPES) {
+    const items = confident.filter((i) => i.type === type);
+    if (items.length === 0) continue;
+    lines.push("", `${type}:`);
+    for (const item of items) lines.push(`  - ${item.path} (${item.confidence})`);
+  }
+
+  const excluded = confident.filter((i) => i.type === null);
+  if (excluded.length > 0) {
+    lines.push("", "Not evidence chain artifacts (tests/config):");
+    for (const item of excluded) lines.push(`  - ${item.path}`);
+  }
+
+  if (flagged.length > 0) {
+    lines.push("", "Needs review (low confidence) — resolve from context or ask the user:");
+    for (const item of flagged) {
+      const guess = item.type ? `best guess ${item.type} (${item.confidence})` : "no clear type";
+      const alts = item.alternatives.map((a) => `${a.type} ${a.confidence}`).join(", ");
+      lines.push(`  - ${item.path}: ${guess}${alts ? `; alternatives: ${alts}` : ""}`);
+    }
+  }
+
+  return lines.join("\n");
+}
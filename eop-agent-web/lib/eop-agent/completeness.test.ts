@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import type { EcfArtifactType, EvidenceGraph } from "@/lib/types";
+import { checkChainCompleteness, checkClaimCompleteness, formatGapReport } from "./completeness";
+import { annotateArtifact, createEvidenceGraph, linkArtifactToClaim, upsertClaim } from "./evidence-graph";
+
+/** One claim, C1, with an artifact of each given type linked to it. */
+function graphWith(types: EcfArtifactType[]): EvidenceGraph {
+  const graph = createEvidenceGraph({ kind: "conversation", id: "t" });
+  const { claim } = upsertClaim(graph, "Yield rises with temperature");
+  for (const type of types) {
+    const { artifact } = annotateArtifact(graph, `${type}.file`, type);
+    linkArtifactToClaim(graph, artifact, claim, "supports");
+  }
+  return graph;
+}
+
+describe("checkClaimCompleteness", () => {
+  it("reports a claim without evidence", () => {
+    const graph = graphWith([]);
+    const result = checkClaimCompleteness(graph, graph.claims[0]);
+    expect(result.complete).toBe(false);
+    expect(result.gaps).toEqual([
+      {
+        claimId: "C1",
+        stage: null,
+        requiredBy: null,
+        severity: "error",
+        message: "No artifacts are linked to this claim; it has no recorded evidence.",
+      },
+    ]);
+  });
+
+  it("walks upstream from the furthest stage recorded", () => {
+    const graph = graphWith(["input_data", "output_data", "plotting_process"]);
+    const result = checkClaimCompleteness(graph, graph.claims[0]);
+
+    expect(result.presentStages).toEqual(["input_data", "output_data", "plotting_process"]);
+    expect(result.gaps.map(({ stage, requiredBy, severity, message }) => ({ stage, requiredBy, severity, message }))).toEqual([
+      {
+        stage: "visual_data",
+        requiredBy: "plotting_process",
+        severity: "error",
+        message: "Plotting process is recorded but no visual data feeds it.",
+      },
+      {
+        stage: "experimental_process",
+        requiredBy: "output_data",
+        severity: "error",
+        message: "Output data is recorded but no experimental process feeds it.",
+      },
+      {
+        stage: "visual_claims",
+        requiredBy: null,
+        severity: "info",
+        message: "No figure, table or statistic (visual claim) is linked to this claim.",
+      },
+      {
+        stage: "documentation",
+        requiredBy: null,
+        severity: "warning",
+        message: "No documentation explains how this claim's evidence fits together.",
+      },
+    ]);
+  });
+
+  it("names the nearest recorded stage for a gap further up", () => {
+    const graph = graphWith(["output_data", "documentation"]);
+    const gaps = checkClaimCompleteness(graph, graph.claims[0]).gaps;
+    expect(gaps.find((g) => g.stage === "input_data")).toMatchObject({
+      requiredBy: "output_data",
+      severity: "warning", // missing raw inputs weaken the claim without breaking the chain
+      message: "No input data is recorded upstream of the output data.",
+    });
+  });
+
+  it("counts a chain with only info gaps as complete", () => {
+    const graph = graphWith(["input_data", "experimental_process", "output_data", "visual_data", "plotting_process", "documentation"]);
+    const result = checkClaimCompleteness(graph, graph.claims[0]);
+    expect(result.gaps.map((g) => g.severity)).toEqual(["info"]);
+    expect(result.complete).toBe(true);
+  });
+});
+
+describe("checkChainCompleteness", () => {
+  it("totals the gaps and lists unlinked artifacts", () => {
+    const graph = graphWith(["output_data"]);
+    annotateArtifact(graph, "notes.md", "documentation");
+    const report = checkChainCompleteness(graph);
+
+    expect(report.totals).toEqual({ error: 1, warning: 2, info: 1 });
+    expect(report.unlinkedArtifacts).toEqual(["A2"]);
+    expect(formatGapReport(graph, report).split("\n")).toEqual([
+      "[EOP] Evidence chain completeness: 1 claim(s), 1 error(s), 2 warning(s), 1 note(s).",
+      "",
+      'C1 "Yield rises with temperature" — incomplete',
+      "  Stages present: output_data",
+      "  [error] experimental_process: Output data is recorded but no experimental process feeds it.",
+      "  [warning] input_data: No input data is recorded upstream of the output data.",
+      "  [info] visual_claims: No figure, table or statistic (visual claim) is linked to this claim.",
+      "  [warning] documentation: No documentation explains how this claim's evidence fits together.",
+      "",
+      'Artifacts not linked to any claim: A2 "notes.md"',
+    ]);
+  });
+
+  it("has nothing to check without claims", () => {
+    const graph = createEvidenceGraph({ kind: "project", id: "p" });
+    expect(formatGapReport(graph, checkChainCompleteness(graph))).toMatch(/^\[EOP\] No claims are recorded yet/);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Evidence chain completeness — makes "evidentiary sufficiency" checkable.
+ *
+ * For each claim, collect the ECF stages of the artifacts linked to it and walk
+ * the chain upstream from the furthest stage recorded: every stage before it
+ * should be present too (a visual claim needs a plotting process, which needs
+ * visual data, ... back to input data). Each missing stage becomes a gap.
+ */
+
+import type {
+  ChainGap,
+  ChainGapReport,
+  ClaimCompleteness,
+  EcfArtifactType,
+  EvidenceClaim,
+  EvidenceGraph,
+  GapSeverity,
+} from "@/lib/types";
+import { ECF_ARTIFACT_TYPES, linksForClaim } from "./evidence-graph";
+
+/** The linear part of the chain; documentation applies to the chain as a whole. */
+export const CHAIN_STAGES = ECF_ARTIFACT_TYPES.filter((t) => t !== "documentation");
+
+/** Missing raw inputs weaken a claim; any other missing link breaks the chain. */
+const MISSING_STAGE_SEVERITY: Record<EcfArtifactType, GapSeverity> = {
+  input_data: "warning",
+  experimental_process: "error",
+  output_data: "error",
+  visual_data: "error",
+  plotting_process: "error",
+  visual_claims: "info",
+  documentation: "warning",
+};
+
+export const STAGE_NAMES: Record<EcfArtifactType, string> = {
+  input_data: "input data",
+  experimental_process: "experimental process",
+  output_data: "output data",
+  visual_data: "visual data",
+  plotting_process: "plotting process",
+  visual_claims: "visual claim",
+  documentation: "documentation",
+};
+
+export function checkClaimCompleteness(graph: EvidenceGraph, claim: EvidenceClaim): ClaimCompleteness {
+  const present = new Set<EcfArtifactType>();
+  for (const link of linksForClaim(graph, claim.id)) {
+    const artifact = graph.artifacts.find((a) => a.id === link.artifactId);
+    if (artifact) present.add(artifact.type);
+  }
+
+  const gaps: ChainGap[] = [];
+  const gap = (stage: EcfArtifactType | null, requiredBy: EcfArtifactType | null, message: string) =>
+    gaps.push({
+      claimId: claim.id,
+      stage,
+      requiredBy,
+      severity: stage ? MISSING_STAGE_SEVERITY[stage] : "error",
+      message,
+    });
+
+  if (present.size === 0) {
+    gap(null, null, "No artifacts are linked to this claim; it has no recorded evidence.");
+  } else {
+    // Walk upstream from the furthest recorded stage
+    let top = -1;
+    CHAIN_STAGES.forEach((stage, i) => {
+      if (present.has(stage)) top = i;
+    });
+
+    let requiredBy: EcfArtifactType | null = null;
+    for (let i = top; i >= 0; i--) {
+      const stage = CHAIN_STAGES[i];
+      if (present.has(stage)) {
+        requiredBy = stage;
+        continue;
+      }
+      const next = CHAIN_STAGES[i + 1];
+      gap(
+        stage,
+        requiredBy,
+        present.has(next)
+          ? `${capitalize(STAGE_NAMES[next])} is recorded but no ${STAGE_NAMES[stage]} feeds it.`
+          : `No ${STAGE_NAMES[stage]} is recorded upstream of the ${STAGE_NAMES[requiredBy!]}.`
+      );
+    }
+
+    if (!present.has("visual_claims")) {
+      gap("visual_claims", null, "No figure, table or statistic (visual claim) is linked to this claim.");
+    }
+    if (!present.has("documentation")) {
+      gap("documentation", null, "No documentation explains how this claim's evidence fits together.");
+    }
+  }
+
+  return {
+    claimId: claim.id,
+    claimText: claim.text,
+    presentStages: ECF_ARTIFACT_TYPES.filter((t) => present.has(t)),
+    gaps,
+    complete: gaps.every((g) => g.severity === "info"),
+  };
+}
+
+/** Check every claim (or only `claims`) and summarize the gaps. */
+export function checkChainCompleteness(
+  graph: EvidenceGraph,
+  claims: EvidenceClaim[] = graph.claims
+): ChainGapReport {
+  const results = claims.map((c) => checkClaimCompleteness(graph, c));
+  const totals: Record<GapSeverity, number> = { error: 0, warning: 0, info: 0 };
+  for (const result of results) {
+    for (const g of result.gaps) totals[g.severity]++;
+  }
+
+  const linked = new Set(graph.links.map((l) => l.artifactId));
+  return {
+    claims: results,
+    unlinkedArtifacts: graph.artifacts.filter((a) => !linked.has(a.id)).map((a) => a.id),
+    totals,
+  };
+}
+
+/** Text form of a report, for the LLM. */
+export function formatGapReport(graph: EvidenceGraph, report: ChainGapReport): string {
+  if (report.claims.length === 0) {
+    return "[EOP] No claims are recorded yet, so there is nothing to check. Link artifacts to claims first.";
+  }
+
+  const lines = [
+    `[EOP] Evidence chain completeness: ${report.claims.length} claim(s), ` +
+      `${report.totals.error} error(s), ${report.totals.warning} warning(s), ${report.totals.info} note(s).`,
+  ];
+
+  for (const result of report.claims) {
+    lines.push(
+      "",
+      `${result.claimId} "${result.claimText}" — ${result.complete ? "complete" : "incomplete"}`,
+      `  Stages present: ${result.presentStages.join(", ") || "none"}`
+    );
+    for (const g of result.gaps) {
+      lines.push(`  [${g.severity}] ${g.stage ?? "evidence"}: ${g.message}`);
+    }
+  }
+
+  if (report.unlinkedArtifacts.length > 0) {
+    const names = report.unlinkedArtifacts.map((id) => {
+      const artifact = graph.artifacts.find((a) => a.id === id);
+      return artifact ? `${id} "${artifact.name}"` : id;
+    });
+    lines.push("", `Artifacts not linked to any claim: ${names.join(", ")}`);
+  }
+
+  return lines.join("\n");
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
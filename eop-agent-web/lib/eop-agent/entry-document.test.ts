@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import type { EcfArtifactType, EvidenceGraph } from "@/lib/types";
+import { ENTRY_DOCUMENT_PATH, formatEntryDocument, generateEntryDocument } from "./entry-document";
+import { annotateArtifact, createEvidenceGraph, linkArtifactToClaim, upsertClaim } from "./evidence-graph";
+
+/** One claim, C1, with the given artifacts linked to it. */
+function graphWith(artifacts: [string, EcfArtifactType][]): EvidenceGraph {
+  const graph = createEvidenceGraph({ kind: "project", id: "p" });
+  const { claim } = upsertClaim(graph, "Yield rises with temperature");
+  for (const [name, type] of artifacts) {
+    linkArtifactToClaim(graph, annotateArtifact(graph, name, type).artifact, claim, "supports");
+  }
+  return graph;
+}
+
+const FULL_CHAIN: [string, EcfArtifactType][] = [
+  ["input/raw.csv", "input_data"],
+  ["work/train.py", "experimental_process"],
+  ["output/results.csv", "output_data"],
+  ["output/fig_data.csv", "visual_data"],
+  ["work/plot.R", "plotting_process"],
+  ["claim/fig2.png", "visual_claims"],
+];
+
+const section = (markdown: string, heading: string) => markdown.split(`${heading}\n\n`)[1].split("\n\n")[0].split("\n");
+
+describe("generateEntryDocument", () => {
+  it("traces each stage of the chain and writes a walk-through per figure", () => {
+    const doc = generateEntryDocument(graphWith(FULL_CHAIN), { title: "Yield study" });
+
+    expect(doc).toMatchObject({ fileName: ENTRY_DOCUMENT_PATH, title: "Yield study", claimCount: 1, figureCount: 1 });
+    expect(doc.markdown).toMatch(/^# Yield study\n/);
+    expect(section(doc.markdown, "## Claims")).toEqual(["1. **C1** — Yield rises with temperature (Figure 2)"]);
+    expect(section(doc.markdown, "### How to regenerate Figure 2")).toEqual([
+      "1. Get the input data: `input/raw.csv`.",
+      "2. Run the experiment: `python work/train.py`",
+      "3. Check that the experiment wrote `output/results.csv`.",
+      "4. Check that the plotted data is in place: `output/fig_data.csv`.",
+      "5. Draw the figure: `Rscript work/plot.R`",
+      "6. Compare the result with `claim/fig2.png`.",
+    ]);
+    expect(doc.markdown).toContain("```sh\npython work/train.py\nRscript work/plot.R\n```");
+  });
+
+  it("marks every missing stage with a TODO", () => {
+    const doc = generateEntryDocument(graphWith([["output/results.csv", "output_data"], ["run_all", "experimental_process"]]));
+
+    expect(section(doc.markdown, "**Evidence chain**")).toEqual([
+      "1. **Input data** — **TODO:** Experimental process is recorded but no input data feeds it. Record it with annotate_artifact and link it to C1.",
+      "2. **Experimental process** — `run_all` (A2)",
+      "3. **Output data** — `output/results.csv` (A1)",
+      "4. **Visual data** — **TODO:** No visual data is recorded for this claim. Record it with annotate_artifact and link it to C1.",
+      "5. **Plotting process** — **TODO:** No plotting process is recorded for this claim. Record it with annotate_artifact and link it to C1.",
+      "6. **Visual claim** — **TODO:** No figure, table or statistic (visual claim) is linked to this claim. Record it with annotate_artifact and link it to C1.",
+      "- **Documentation** — **TODO:** No documentation explains how this claim's evidence fits together. Record it with annotate_artifact and link it to C1.",
+    ]);
+    expect(doc.markdown).toContain("### How to regenerate the evidence for C1");
+    expect(doc.markdown).toContain("Run the experiment with `run_all`. **TODO:** write down the exact command for run_all.");
+    expect(doc.markdown).toContain("# TODO: draw the figure (no plotting process recorded)");
+    expect(doc.todos).toHaveLength(doc.markdown.match(/\*\*TODO:\*\*/g)!.length);
+  });
+
+  it("keeps figure numbers from file names and gives the rest the lowest free ones", () => {
+    const doc = generateEntryDocument(
+      graphWith([
+        ["claim/fig2.png", "visual_claims"],
+        ["claim/overview.png", "visual_claims"],
+        ["claim/Table 3.tex", "visual_claims"],
+        ["claim/summary.csv", "visual_claims"],
+      ])
+    );
+    expect(section(doc.markdown, "## Figures and tables")).toEqual([
+      "- **Figure 1** — `claim/overview.png` (A2) — supports C1",
+      "- **Figure 2** — `claim/fig2.png` (A1) — supports C1",
+      "- **Table 1** — `claim/summary.csv` (A4) — supports C1",
+      "- **Table 3** — `claim/Table 3.tex` (A3) — supports C1",
+    ]);
+    expect(doc.figureCount).toBe(4);
+  });
+
+  it("lists documentation and unlinked artifacts at the end", () => {
+    const graph = graphWith(FULL_CHAIN);
+    annotateArtifact(graph, "notes.md", "documentation", "lab notes");
+    annotateArtifact(graph, "scratch.py", "experimental_process");
+    const doc = generateEntryDocument(graph);
+
+    expect(doc.title).toBe("Evidence Chain Entry Document");
+    expect(section(doc.markdown, "## Further documentation")).toEqual(["- `notes.md` (A7) — lab notes"]);
+    expect(section(doc.markdown, "## Artifacts not linked to a claim")).toEqual(["- `scratch.py` (A8) — experimental process"]);
+    expect(doc.todos.at(-1)).toBe("link these to the claims they support, or drop them from the release.");
+  });
+
+  it("asks for claims when none are recorded", () => {
+    const doc = generateEntryDocument(createEvidenceGraph({ kind: "project", id: "p" }), { projectDescription: " A study. " });
+    expect(doc.markdown).toContain("\nA study.\n");
+    expect(doc.todos).toEqual(["no claims are recorded yet. Link artifacts to the claims they support with link_to_claim."]);
+    expect(formatEntryDocument(doc).split("\n")).toEqual([
+      '[EOP] Generated document/README.md ("Evidence Chain Entry Document"): 0 claim section(s), 0 regeneration walk-through(s), 1 TODO marker(s). The user can preview and download it from the tool result.',
+      "",
+      "TODO markers:",
+      "  - no claims are recorded yet. Link artifacts to the claims they support with link_to_claim.",
+    ]);
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * Entry document generator for generate_entry_document.
+ *
+ * The ECF layout keeps an entry document under document/ that a reader opens
+ * first. This builds one from the recorded evidence graph: an overview, one
+ * section per claim tracing its chain stage by stage, and a "how to
+ * regenerate" walk-through for every figure or table. Stages with nothing
+ * recorded become explicit TODO markers instead of being left out, so the
+ * document shows what is still missing as well as what is there.
+ */
+
+import type {
+  EcfArtifactType,
+  EntryDocument,
+  EvidenceArtifact,
+  EvidenceClaim,
+  EvidenceGraph,
+} from "@/lib/types";
+import { linksForArtifact, linksForClaim } from "./evidence-graph";
+import { CHAIN_STAGES, STAGE_NAMES, checkClaimCompleteness } from "./completeness";
+
+export const ENTRY_DOCUMENT_PATH = "document/README.md";
+
+export interface EntryDocumentOptions {
+  title?: string;
+  projectDescription?: string;
+}
+
+// ── Commands ──
+
+/** How to run a process artifact, guessed from its file name. */
+const RUN_COMMANDS: [RegExp, (path: string) => string][] = [
+  [/\.py$/i, (p) => `python ${p}`],
+  [/\.ipynb$/i, (p) => `jupyter nbconvert --to notebook --execute ${p}`],
+  [/\.(rmd|qmd)$/i, (p) => `quarto render ${p}`],
+  [/\.r$/i, (p) => `Rscript ${p}`],
+  [/\.jl$/i, (p) => `julia ${p}`],
+  [/\.(sh|bash)$/i, (p) => `bash ${p}`],
+  [/\.m$/i, (p) => `matlab -batch "run('${p}')"`],
+  [/\.do$/i, (p) => `stata -b do ${p}`],
+  [/(^|\/)(gnu)?makefile$/i, (p) => (p.includes("/") ? `make -C ${p.slice(0, p.lastIndexOf("/"))}` : "make")],
+];
+
+function runCommand(name: string): string | null {
+  const path = /\s/.test(name) ? `"${name}"` : name;
+  const rule = RUN_COMMANDS.find(([pattern]) => pattern.test(name));
+  return rule ? rule[1](path) : null;
+}
+
+// ── Figures ──
+
+interface Figure {
+  artifact: EvidenceArtifact;
+  label: string; // "Figure 2", "Table 1"
+}
+
+const FIGURE_NUMBER = /\b(fig(?:ure)?|tab(?:le)?)[\s_.-]*(\d+)/i;
+
+/**
+ * Number the visual claims. A name that already carries a number ("fig3.png",
+ * "Table 2") keeps it; the rest take the lowest numbers still free.
+ */
+function numberFigures(artifacts: EvidenceArtifact[]): Map<string, Figure> {
+  const figures = new Map<string, Figure>();
+  const used = { Figure: new Set<number>(), Table: new Set<number>() };
+  const unnumbered: EvidenceArtifact[] = [];
+
+  for (const artifact of artifacts) {
+    const match = artifact.name.match(FIGURE_NUMBER);
+    if (!match) {
+      unnumbered.push(artifact);
+      continue;
+    }
+    const kind = match[1].toLowerCase().startsWith("tab") ? "Table" : "Figure";
+    used[kind].add(Number(match[2]));
+    figures.set(artifact.id, { artifact, label: `${kind} ${Number(match[2])}` });
+  }
+
+  for (const artifact of unnumbered) {
+    const kind = /\btab(le)?\b|\.(csv|tsv|tex)$/i.test(artifact.name) ? "Table" : "Figure";
+    let n = 1;
+    while (used[kind].has(n)) n++;
+    used[kind].add(n);
+    figures.set(artifact.id, { artifact, label: `${kind} ${n}` });
+  }
+  return figures;
+}
+
+// ── Document ──
+
+const code = (text: string) => `\`${text.replace(/`/g, "'")}\``;
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function describeArtifact(artifact: EvidenceArtifact): string {
+  return `${code(artifact.name)} (${artifact.id})${artifact.description ? ` — ${artifact.description}` : ""}`;
+}
+
+/** Collects the document lines and counts the TODO markers as they are written. */
+interface Writer {
+  lines: string[];
+  todos: string[];
+  push: (...lines: string[]) => void;
+  todo: (text: string) => string; // records the marker and returns its markdown
+}
+
+function createWriter(): Writer {
+  const lines: string[] = [];
+  const todos: string[] = [];
+  return {
+    lines,
+    todos,
+    push: (...more) => lines.push(...more),
+    todo: (text) => {
+      todos.push(text);
+      return `**TODO:** ${text}`;
+    },
+  };
+}
+
+function claimArtifacts(graph: EvidenceGraph, claim: EvidenceClaim): Map<EcfArtifactType, EvidenceArtifact[]> {
+  const byStage = new Map<EcfArtifactType, EvidenceArtifact[]>();
+  for (const link of linksForClaim(graph, claim.id)) {
+    const artifact = graph.artifacts.find((a) => a.id === link.artifactId);
+    if (!artifact) continue;
+    const list = byStage.get(artifact.type) ?? [];
+    if (!list.includes(artifact)) list.push(artifact);
+    byStage.set(artifact.type, list);
+  }
+  return byStage;
+}
+
+function writeChain(
+  out: Writer,
+  graph: EvidenceGraph,
+  claim: EvidenceClaim,
+  byStage: Map<EcfArtifactType, EvidenceArtifact[]>
+): void {
+  const { gaps } = checkClaimCompleteness(graph, claim);
+  const hint = `Record it with annotate_artifact and link it to ${claim.id}.`;
+
+  out.push("**Evidence chain**", "");
+  [...CHAIN_STAGES, "documentation" as const].forEach((stage, i) => {
+    const artifacts = byStage.get(stage) ?? [];
+    const prefix = stage === "documentation" ? "-" : `${i + 1}.`;
+    const name = `**${capitalize(STAGE_NAMES[stage])}**`;
+    if (artifacts.length === 0) {
+      const gap = gaps.find((g) => g.stage === stage);
+      const reason = gap?.message ?? `No ${STAGE_NAMES[stage]} is recorded for this claim.`;
+      out.push(`${prefix} ${name} — ${out.todo(`${reason} ${hint}`)}`);
+    } else {
+      out.push(`${prefix} ${name} — ${artifacts.map(describeArtifact).join("; ")}`);
+    }
+  });
+  out.push("");
+}
+
+/** Step-by-step instructions from the raw inputs to `figure`, or to the furthest stage recorded. */
+function writeWalkthrough(
+  out: Writer,
+  claim: EvidenceClaim,
+  byStage: Map<EcfArtifactType, EvidenceArtifact[]>,
+  figure: Figure | undefined
+): void {
+  const steps: string[] = [];
+  const commands: string[] = [];
+  const names = (stage: EcfArtifactType) => (byStage.get(stage) ?? []).map((a) => code(a.name)).join(", ");
+  const missing = (stage: EcfArtifactType) =>
+    out.todo(`say where the ${STAGE_NAMES[stage]} for ${claim.id} comes from; none is recorded.`);
+
+  const run = (stage: EcfArtifactType, what: string) => {
+    const processes = byStage.get(stage) ?? [];
+    if (processes.length === 0) {
+      steps.push(out.todo(`record the ${STAGE_NAMES[stage]} for ${claim.id} and the command that runs it; none is recorded.`));
+      commands.push(`# TODO: ${what} (no ${STAGE_NAMES[stage]} recorded)`);
+      return;
+    }
+    for (const process of processes) {
+      const command = runCommand(process.name);
+      if (command) {
+        steps.push(`${capitalize(what)}: ${code(command)}`);
+        commands.push(command);
+      } else {
+        steps.push(`${capitalize(what)} with ${code(process.name)}. ${out.todo(`write down the exact command for ${process.name}.`)}`);
+        commands.push(`# TODO: run ${process.name}`);
+      }
+    }
+  };
+
+  steps.push(byStage.has("input_data") ? `Get the input data: ${names("input_data")}.` : missing("input_data"));
+  run("experimental_process", "run the experiment");
+  steps.push(
+    byStage.has("output_data") ? `Check that the experiment wrote ${names("output_data")}.` : missing("output_data")
+  );
+  steps.push(
+    byStage.has("visual_data") ? `Check that the plotted data is in place: ${names("visual_data")}.` : missing("visual_data")
+  );
+  run("plotting_process", "draw the figure");
+  steps.push(
+    figure
+      ? `Compare the result with ${code(figure.artifact.name)}.`
+      : out.todo(`link the figure, table or statistic that presents ${claim.id}.`)
+  );
+
+  out.push(figure ? `### How to regenerate ${figure.label}` : `### How to regenerate the evidence for ${claim.id}`, "");
+  steps.forEach((step, i) => out.push(`${i + 1}. ${step}`));
+  out.push("", "```sh", ...commands, "```", "");
+}
+
+/** Build the entry document for every claim in the graph. */
+export function generateEntryDocument(graph: EvidenceGraph, options: EntryDocumentOptions = {}): EntryDocument {
+  const title = options.title?.trim() || "Evidence Chain Entry Document";
+  const out = createWriter();
+  const figures = numberFigures(graph.artifacts.filter((a) => a.type === "visual_claims"));
+
+  out.push(`# ${title}`, "");
+  if (options.projectDescription?.trim()) out.push(options.projectDescription.trim(), "");
+  out.push(
+    `> Generated from the recorded evidence chain: ${graph.claims.length} claim(s), ${graph.artifacts.length} artifact(s). ` +
+      "**TODO** marks a stage with nothing recorded. Commands are inferred from file names; check them before publishing.",
+    ""
+  );
+
+  // ── Overview ──
+  out.push("## Claims", "");
+  if (graph.claims.length === 0) {
+    out.push(out.todo("no claims are recorded yet. Link artifacts to the claims they support with link_to_claim."), "");
+  }
+  graph.claims.forEach((claim, i) => {
+    const shown = (claimArtifacts(graph, claim).get("visual_claims") ?? []).map((a) => figures.get(a.id)!.label);
+    out.push(`${i + 1}. **${claim.id}** — ${claim.text}${shown.length > 0 ? ` (${shown.join(", ")})` : ""}`);
+  });
+  out.push("");
+
+  if (figures.size > 0) {
+    out.push("## Figures and tables", "");
+    const ordered = [...figures.values()].sort(
+      (a, b) => a.label.localeCompare(b.label, undefined, { numeric: true })
+    );
+    for (const { artifact, label } of ordered) {
+      const claims = linksForArtifact(graph, artifact.id).map((l) => l.claimId);
+      out.push(`- **${label}** — ${describeArtifact(artifact)}${claims.length > 0 ? ` — supports ${claims.join(", ")}` : ""}`);
+    }
+    out.push("");
+  }
+
+  // ── One section per claim ──
+  let walkthroughs = 0;
+  for (const claim of graph.claims) {
+    const byStage = claimArtifacts(graph, claim);
+    out.push(`## ${claim.id}: ${claim.text}`, "");
+    writeChain(out, graph, claim, byStage);
+
+    const shown = byStage.get("visual_claims") ?? [];
+    if (shown.length === 0) {
+      writeWalkthrough(out, claim, byStage, undefined);
+    } else {
+      for (const artifact of shown) writeWalkthrough(out, claim, byStage, figures.get(artifact.id));
+    }
+    walkthroughs += Math.max(shown.length, 1);
+  }
+
+  // ── Everything else ──
+  const documentation = graph.artifacts.filter((a) => a.type === "documentation");
+  if (documentation.length > 0) {
+    out.push("## Further documentation", "", ...documentation.map((a) => `- ${describeArtifact(a)}`), "");
+  }
+
+  const linked = new Set(graph.links.map((l) => l.artifactId));
+  const unlinked = graph.artifacts.filter((a) => !linked.has(a.id) && a.type !== "documentation");
+  if (unlinked.length > 0) {
+    out.push(
+      "## Artifacts not linked to a claim",
+      "",
+      ...unlinked.map((a) => `- ${describeArtifact(a)} — ${STAGE_NAMES[a.type]}`),
+      "",
+      out.todo("link these to the claims they support, or drop them from the release."),
+      ""
+    );
+  }
+
+  return {
+    fileName: ENTRY_DOCUMENT_PATH,
+    title,
+    markdown: out.lines.join("\n").trimEnd() + "\n",
+    claimCount: graph.claims.length,
+    figureCount: walkthroughs,
+    todos: out.todos,
+  };
+}
+
+/** Text form of the result, for the LLM. The document itself is shown to the user in the UI. */
+export function formatEntryDocument(doc: EntryDocument): string {
+  const lines = [
+    `[EOP] Generated ${doc.fileName} ("${doc.title}"): ${doc.claimCount} claim section(s), ` +
+      `${doc.figureCount} regeneration walk-through(s), ${doc.todos.length} TODO marker(s). ` +
+      "The user can preview and download it from the tool result.",
+  ];
+  if (doc.todos.length > 0) {
+    lines.push("", "TODO markers:");
+    for (const todo of doc.todos) lines.push(`  - ${todo}`);
+  }
+  return lines.join("\n");
+}
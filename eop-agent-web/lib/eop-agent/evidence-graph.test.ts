@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import type { EvidenceGraph } from "@/lib/types";
+import {
+  annotateArtifact,
+  createEvidenceGraph,
+  deleteNode,
+  describeEvidenceGraph,
+  findArtifact,
+  findClaim,
+  linkArtifactToClaim,
+  updateArtifact,
+  upsertClaim,
+} from "./evidence-graph";
+
+/** raw.csv —supports→ C1, fig.png —visualizes→ C1 */
+function sampleGraph(): EvidenceGraph {
+  const graph = createEvidenceGraph({ kind: "conversation", id: "t1" });
+  const { artifact: data } = annotateArtifact(graph, "raw.csv", "input_data");
+  const { artifact: figure } = annotateArtifact(graph, "fig.png", "visual_data");
+  const { claim } = upsertClaim(graph, "Yield rises with temperature");
+  linkArtifactToClaim(graph, data, claim, "supports");
+  linkArtifactToClaim(graph, figure, claim, "visualizes");
+  return graph;
+}
+
+describe("annotateArtifact", () => {
+  it("numbers new artifacts and updates one recorded under the same name", () => {
+    const graph = createEvidenceGraph({ kind: "project", id: "p" });
+
+    expect(annotateArtifact(graph, " raw.csv ", "input_data")).toMatchObject({ artifact: { id: "A1", name: "raw.csv" }, created: true });
+    expect(annotateArtifact(graph, "plot.py", "plotting_process").artifact.id).toBe("A2");
+
+    const again = annotateArtifact(graph, "RAW.CSV", "output_data", "after cleaning");
+    expect(again).toEqual({ artifact: { id: "A1", name: "raw.csv", type: "output_data", description: "after cleaning" }, created: false });
+    expect(graph.artifacts).toHaveLength(2);
+  });
+
+  it("continues after the highest id when earlier nodes were deleted", () => {
+    const graph = sampleGraph();
+    deleteNode(graph, "A1");
+    expect(annotateArtifact(graph, "new.csv", "input_data").artifact.id).toBe("A3");
+  });
+});
+
+describe("lookup", () => {
+  it("finds nodes by id or by name, ignoring case and spacing", () => {
+    const graph = sampleGraph();
+    expect(findArtifact(graph, "a2")?.name).toBe("fig.png");
+    expect(findArtifact(graph, "FIG.png")?.id).toBe("A2");
+    expect(findClaim(graph, "  yield rises   with temperature ")?.id).toBe("C1");
+    expect(findClaim(graph, "C2")).toBeUndefined();
+  });
+
+  it("reuses an identical claim and link", () => {
+    const graph = sampleGraph();
+    const { claim, created } = upsertClaim(graph, "Yield rises with temperature");
+    expect(created).toBe(false);
+    expect(linkArtifactToClaim(graph, graph.artifacts[0], claim, "supports")).toMatchObject({ link: { id: "L1" }, created: false });
+    expect(linkArtifactToClaim(graph, graph.artifacts[0], claim, "documents")).toMatchObject({ link: { id: "L3" }, created: true });
+  });
+});
+
+describe("updateArtifact", () => {
+  it("clears the description when given an empty one", () => {
+    const graph = sampleGraph();
+    const artifact = graph.artifacts[0];
+    updateArtifact(artifact, { description: "raw readings" });
+    expect(artifact.description).toBe("raw readings");
+    updateArtifact(artifact, { name: " raw_v2.csv ", description: "" });
+    expect(artifact).toEqual({ id: "A1", name: "raw_v2.csv", type: "input_data" });
+  });
+});
+
+describe("deleteNode", () => {
+  it("removes an artifact with its links", () => {
+    const graph = sampleGraph();
+    expect(deleteNode(graph, "raw.csv")).toMatchObject({ kind: "artifact", node: { id: "A1" }, removedLinks: 1 });
+    expect(graph.links.map((l) => l.id)).toEqual(["L2"]);
+  });
+
+  it("removes a claim with its links", () => {
+    const graph = sampleGraph();
+    expect(deleteNode(graph, "C1")).toMatchObject({ kind: "claim", removedLinks: 2 });
+    expect(graph.links).toEqual([]);
+    expect(graph.artifacts).toHaveLength(2);
+  });
+
+  it("looks up artifacts, then claims, then links", () => {
+    const graph = sampleGraph();
+    annotateArtifact(graph, "L2", "documentation"); // an artifact named like a link id
+
+    expect(deleteNode(graph, "L2")).toMatchObject({ kind: "artifact", node: { name: "L2" } });
+    expect(graph.links.map((l) => l.id)).toEqual(["L1", "L2"]);
+    expect(deleteNode(graph, "L2")).toMatchObject({ kind: "link", node: { id: "L2" }, removedLinks: 0 });
+    expect(graph.links.map((l) => l.id)).toEqual(["L1"]);
+  });
+
+  it("only looks at the given kind", () => {
+    const graph = sampleGraph();
+    annotateArtifact(graph, "L2", "documentation");
+
+    expect(deleteNode(graph, "L2", "link")).toMatchObject({ kind: "link", node: { id: "L2" } });
+    expect(findArtifact(graph, "L2")).toBeDefined();
+    expect(deleteNode(graph, "A1", "claim")).toBeUndefined();
+    expect(deleteNode(graph, "nothing")).toBeUndefined();
+  });
+});
+
+describe("describeEvidenceGraph", () => {
+  it("lists nodes by kind", () => {
+    expect(describeEvidenceGraph(createEvidenceGraph({ kind: "conversation", id: "t" }))).toBe("The evidence chain is empty.");
+    expect(describeEvidenceGraph(sampleGraph()).split("\n")).toEqual([
+      "Artifacts (2):",
+      '  A1 "raw.csv" [input_data]',
+      '  A2 "fig.png" [visual_data]',
+      "Claims (1):",
+      '  C1 "Yield rises with temperature"',
+      "Links (2):",
+      '  L1 "raw.csv" —supports→ C1',
+      '  L2 "fig.png" —visualizes→ C1',
+    ]);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Evidence graph — the recorded ECF evidence chain for one scope.
+ *
+ * Artifacts (typed with one of the seven ECF types) and claims are nodes;
+ * links connect an artifact to a claim. The graph is plain JSON so it can
+ * travel with each chat request and be kept by the client across turns,
+ * just like the conversation history (Lab 3).
+ *
+ * All mutating helpers change the graph in place.
+ */
+
+import type {
+  EcfArtifactType,
+  EvidenceArtifact,
+  EvidenceClaim,
+  EvidenceGraph,
+  EvidenceLink,
+  EvidenceLinkType,
+  EvidenceScope,
+} from "@/lib/types";
+
+/** ECF artifact types in evidence chain order (documentation last). */
+export const ECF_ARTIFACT_TYPES: readonly EcfArtifactType[] = [
+  "input_data",
+  "experimental_process",
+  "output_data",
+  "visual_data",
+  "plotting_process",
+  "visual_claims",
+  "documentation",
+];
+
+export const EVIDENCE_LINK_TYPES: readonly EvidenceLinkType[] = [
+  "supports",
+  "generates",
+  "visualizes",
+  "documents",
+];
+
+export function isEcfArtifactType(value: unknown): value is EcfArtifactType {
+  return ECF_ARTIFACT_TYPES.includes(value as EcfArtifactType);
+}
+
+export function isEvidenceLinkType(value: unknown): value is EvidenceLinkType {
+  return EVIDENCE_LINK_TYPES.includes(value as EvidenceLinkType);
+}
+
+export function createEvidenceGraph(scope: EvidenceScope): EvidenceGraph {
+  return { scope, artifacts: [], claims: [], links: [] };
+}
+
+export function isEvidenceGraphEmpty(graph: EvidenceGraph): boolean {
+  return graph.artifacts.length === 0 && graph.claims.length === 0;
+}
+
+// ── Lookup ──
+
+function normalize(text: string): string {
+  return text.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function nextId(prefix: string, existing: { id: string }[]): string {
+  let max = 0;
+  for (const item of existing) {
+    const n = Number(item.id.slice(prefix.length));
+    if (item.id.startsWith(prefix) && Number.isInteger(n) && n > max) max = n;
+  }
+  return `${prefix}${max + 1}`;
+}
+
+/** Find an artifact by id ("A1") or by name (case-insensitive). */
+export function findArtifact(graph: EvidenceGraph, ref: string): EvidenceArtifact | undefined {
+  const key = normalize(ref);
+  return (
+    graph.artifacts.find((a) => a.id.toLowerCase() === key) ??
+    graph.artifacts.find((a) => normalize(a.name) === key)
+  );
+}
+
+/** Find a claim by id ("C1") or by its text (case-insensitive). */
+export function findClaim(graph: EvidenceGraph, ref: string): EvidenceClaim | undefined {
+  const key = normalize(ref);
+  return (
+    graph.claims.find((c) => c.id.toLowerCase() === key) ??
+    graph.claims.find((c) => normalize(c.text) === key)
+  );
+}
+
+export function findLink(graph: EvidenceGraph, ref: string): EvidenceLink | undefined {
+  const key = normalize(ref);
+  return graph.links.find((l) => l.id.toLowerCase() === key);
+}
+
+export function linksForArtifact(graph: EvidenceGraph, artifactId: string): EvidenceLink[] {
+  return graph.links.filter((l) => l.artifactId === artifactId);
+}
+
+export function linksForClaim(graph: EvidenceGraph, claimId: string): EvidenceLink[] {
+  return graph.links.filter((l) => l.claimId === claimId);
+}
+
+// ── Mutations ──
+
+/** Add an artifact, or re-type / re-describe it if the name is already recorded. */
+export function annotateArtifact(
+  graph: EvidenceGraph,
+  name: string,
+  type: EcfArtifactType,
+  description?: string
+): { artifact: EvidenceArtifact; created: boolean } {
+  const existing = graph.artifacts.find((a) => normalize(a.name) === normalize(name));
+  if (existing) {
+    existing.type = type;
+    if (description) existing.description = description;
+    return { artifact: existing, created: false };
+  }
+
+  const artifact: EvidenceArtifact = {
+    id: nextId("A", graph.artifacts),
+    name: name.trim(),
+    type,
+    ...(description ? { description } : {}),
+  };
+  graph.artifacts.push(artifact);
+  return { artifact, created: true };
+}
+
+/** Find or create the claim with this text. */
+export function upsertClaim(
+  graph: EvidenceGraph,
+  text: string
+): { claim: EvidenceClaim; created: boolean } {
+  const existing = findClaim(graph, text);
+  if (existing) return { claim: existing, created: false };
+
+  const claim: EvidenceClaim = { id: nextId("C", graph.claims), text: text.trim() };
+  graph.claims.push(claim);
+  return { claim, created: true };
+}
+
+/** Link an artifact to a claim; an identical existing link is reused. */
+export function linkArtifactToClaim(
+  graph: EvidenceGraph,
+  artifact: EvidenceArtifact,
+  claim: EvidenceClaim,
+  type: EvidenceLinkType
+): { link: EvidenceLink; created: boolean } {
+  const existing = graph.links.find(
+    (l) => l.artifactId === artifact.id && l.claimId === claim.id && l.type === type
+  );
+  if (existing) return { link: existing, created: false };
+
+  const link: EvidenceLink = {
+    id: nextId("L", graph.links),
+    artifactId: artifact.id,
+    claimId: claim.id,
+    type,
+  };
+  graph.links.push(link);
+  return { link, created: true };
+}
+
+export function updateArtifact(
+  artifact: EvidenceArtifact,
+  changes: { name?: string; type?: EcfArtifactType; description?: string }
+): void {
+  if (changes.name) artifact.name = changes.name.trim();
+  if (changes.type) artifact.type = changes.type;
+  if (changes.description !== undefined) {
+    if (changes.description) artifact.description = changes.description;
+    else delete artifact.description;
+  }
+}
+
+export function updateClaim(claim: EvidenceClaim, text: string): void {
+  claim.text = text.trim();
+}
+
+export type DeletedNode =
+  | { kind: "artifact"; node: EvidenceArtifact; removedLinks: number }
+  | { kind: "claim"; node: EvidenceClaim; removedLinks: number }
+  | { kind: "link"; node: EvidenceLink; removedLinks: 0 };
+
+/**
+ * Delete an artifact, claim or link by id or name. Deleting a node also
+ * removes every link attached to it. Without a `kind`, artifacts and claims
+ * are looked up before links, so an artifact named like a link id ("L2")
+ * deletes the artifact.
+ */
+export function deleteNode(
+  graph: EvidenceGraph,
+  ref: string,
+  kind?: DeletedNode["kind"]
+): DeletedNode | undefined {
+  const artifact = !kind || kind === "artifact" ? findArtifact(graph, ref) : undefined;
+  if (artifact) {
+    const before = graph.links.length;
+    graph.artifacts = graph.artifacts.filter((a) => a.id !== artifact.id);
+    graph.links = graph.links.filter((l) => l.artifactId !== artifact.id);
+    return { kind: "artifact", node: artifact, removedLinks: before - graph.links.length };
+  }
+
+  const claim = !kind || kind === "claim" ? findClaim(graph, ref) : undefined;
+  if (claim) {
+    const before = graph.links.length;
+    graph.claims = graph.claims.filter((c) => c.id !== claim.id);
+    graph.links = graph.links.filter((l) => l.claimId !== claim.id);
+    return { kind: "claim", node: claim, removedLinks: before - graph.links.length };
+  }
+
+  const link = !kind || kind === "link" ? findLink(graph, ref) : undefined;
+  if (link) {
+    graph.links = graph.links.filter((l) => l.id !== link.id);
+    return { kind: "link", node: link, removedLinks: 0 };
+  }
+
+  return undefined;
+}
+
+// ── Text rendering (for tool results and the system context) ──
+
+export function formatArtifact(artifact: EvidenceArtifact): string {
+  const desc = artifact.description ? ` — ${artifact.description}` : "";
+  return `${artifact.id} "${artifact.name}" [${artifact.type}]${desc}`;
+}
+
+export function formatClaim(claim: EvidenceClaim): string {
+  return `${claim.id} "${claim.text}"`;
+}
+
+export function formatLink(graph: EvidenceGraph, link: EvidenceLink): string {
+  const artifact = graph.artifacts.find((a) => a.id === link.artifactId);
+  const claim = graph.claims.find((c) => c.id === link.claimId);
+  return `${link.id} ${artifact ? `"${artifact.name}"` : link.artifactId} —${link.type}→ ${
+    claim ? claim.id : link.claimId
+  }`;
+}
+
+/** Full listing of the graph, grouped by node kind. */
+export function describeEvidenceGraph(graph: EvidenceGraph): string {
+  if (isEvidenceGraphEmpty(graph)) {
+    return "The evidence chain is empty.";
+  }
+
+  const sections = [
+    `Artifacts (${graph.artifacts.length}):`,
+    ...graph.artifacts.map((a) => `  ${formatArtifact(a)}`),
+    `Claims (${graph.claims.length}):`,
+    ...graph.claims.map((c) => `  ${formatClaim(c)}`),
+    `Links (${graph.links.length}):`,
+    ...graph.links.map((l) => `  ${formatLink(graph, l)}`),
+  ];
+  return sections.join("\n");
+}
@@ -0,0 +1,133 @@
+import { createHash } from "crypto";
+import { describe, expect, it } from "vitest";
+import type { EvidenceGraph, FileHash } from "@/lib/types";
+import {
+  artifactForPath,
+  buildHashManifest,
+  formatHashManifest,
+  parseHashManifest,
+  serializeHashManifest,
+  verifyHashManifest,
+} from "./hash-manifest";
+
+const hashed = (path: string, content: string): FileHash => ({
+  path,
+  size: Buffer.byteLength(content),
+  sha256: createHash("sha256").update(content).digest("hex"),
+});
+
+const GRAPH: EvidenceGraph = {
+  scope: { kind: "project", id: "p" },
+  artifacts: [
+    { id: "A1", name: "input/", type: "input_data" },
+    { id: "A2", name: "input/patients.csv", type: "input_data" },
+    { id: "A3", name: "./work/train.py", type: "experimental_process" },
+  ],
+  claims: [],
+  links: [],
+};
+
+const FILES = [
+  hashed("work/train.py", "print('train')\n"),
+  hashed("input/patients.csv", "id,age\n1,54\n"),
+  hashed("input/sites.csv", "site\nA\n"),
+  hashed("README.md", "# Study\n"),
+];
+
+describe("artifactForPath", () => {
+  it("prefers the most specific artifact, by path or by folder", () => {
+    expect(artifactForPath(GRAPH.artifacts, "input/patients.csv")?.id).toBe("A2");
+    expect(artifactForPath(GRAPH.artifacts, "input/sites.csv")?.id).toBe("A1");
+    expect(artifactForPath(GRAPH.artifacts, "Work/Train.py")?.id).toBe("A3");
+    expect(artifactForPath(GRAPH.artifacts, "train.py")?.id).toBe("A3"); // a bare name from a file picker
+    expect(artifactForPath(GRAPH.artifacts, "README.md")).toBeUndefined();
+  });
+});
+
+describe("buildHashManifest", () => {
+  it("ties each file to its artifact, sorted by path", () => {
+    const manifest = buildHashManifest(FILES, GRAPH, "study.zip");
+    expect(manifest).toMatchObject({ ecf_hash_manifest_version: 1, algorithm: "sha256", source: "study.zip" });
+    expect(manifest.files.map((f) => [f.path, f.artifact?.id])).toEqual([
+      ["input/patients.csv", "A2"],
+      ["input/sites.csv", "A1"],
+      ["README.md", undefined],
+      ["work/train.py", "A3"],
+    ]);
+    expect(manifest.files[0]).toEqual({
+      path: "input/patients.csv",
+      size: 12,
+      sha256: FILES[1].sha256,
+      artifact: { id: "A2", name: "input/patients.csv", type: "input_data" },
+    });
+  });
+
+  it("keeps only the files of the given artifacts", () => {
+    const manifest = buildHashManifest(FILES, GRAPH, "study.zip", [GRAPH.artifacts[1]]);
+    expect(manifest.files.map((f) => f.path)).toEqual(["input/patients.csv"]);
+    expect(formatHashManifest(manifest).split("\n")).toEqual([
+      '[EOP] SHA-256 manifest of 1 file(s) from "study.zip", 1 tied to ECF artifacts. The user can download it from the tool result and verify files against it later from the evidence chain panel.',
+      "",
+      'A2 "input/patients.csv" (input_data): 1 file(s)',
+      `  ${FILES[1].sha256.slice(0, 16)}…  input/patients.csv`,
+    ]);
+  });
+});
+
+describe("parseHashManifest", () => {
+  it("reads back a serialized manifest", () => {
+    const manifest = buildHashManifest(FILES, GRAPH, "study.zip");
+    expect(parseHashManifest(serializeHashManifest(manifest), "hashes.json")).toEqual({ ok: true, manifest });
+  });
+
+  it("reports every malformed entry by path", () => {
+    const text = [
+      "ecf_hash_manifest_version: 1",
+      "algorithm: md5",
+      "source: study.zip",
+      "files:",
+      "  - { path: a.csv, size: 3, sha256: abc }",
+      `  - { path: a.csv, size: -1, sha256: "${"0".repeat(64)}", artifact: { id: A1, name: a, type: data } }`,
+    ].join("\n");
+    const result = parseHashManifest(text, "hashes.yaml");
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.issues.map((i) => i.path)).toEqual([
+      "algorithm",
+      "files[0].sha256",
+      "files[1].path",
+      "files[1].size",
+      "files[1].artifact.type",
+    ]);
+  });
+});
+
+describe("verifyHashManifest", () => {
+  const manifest = buildHashManifest(FILES, GRAPH, "study.zip");
+
+  it("sorts files into matching, changed, missing and unexpected", () => {
+    const later = [
+      FILES[0],
+      hashed("input/patients.csv", "id,age\n1,55\n"),
+      hashed("README.md", "# Study\n"),
+      hashed("notes.txt", "extra"),
+    ];
+    const result = verifyHashManifest(manifest, later, "release.zip");
+
+    expect(result.counts).toEqual({ match: 2, changed: 1, missing: 1 });
+    expect(result.checks.map((c) => `${c.status} ${c.path}`)).toEqual([
+      "changed input/patients.csv",
+      "missing input/sites.csv",
+      "match README.md",
+      "match work/train.py",
+    ]);
+    expect(result.checks[0]).toMatchObject({ expected: FILES[1].sha256, actual: later[1].sha256, artifactId: "A2" });
+    expect(result.unexpected).toEqual(["notes.txt"]);
+  });
+
+  it("matches individually uploaded files by a unique file name", () => {
+    const result = verifyHashManifest(manifest, [{ ...FILES[0], path: "train.py" }, { ...FILES[2], path: "sites.csv" }], "upload");
+    expect(result.counts).toEqual({ match: 2, changed: 0, missing: 2 });
+    expect(result.unexpected).toEqual([]);
+  });
+});
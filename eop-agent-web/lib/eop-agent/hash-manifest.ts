@@ -0,0 +1,267 @@
+/**
+ * Hash manifest — SHA-256 digests of artifact files, for auditable disclosure.
+ *
+ * When an artifact cannot be released (proprietary data, patient records),
+ * publishing its digest still lets an auditor who later receives the file
+ * confirm it is the one the paper used. Each hashed file is tied to the ECF
+ * artifact it belongs to, and a later set of files can be checked against the
+ * manifest: every listed file matches, has changed, or is missing.
+ *
+ * Hashing happens on the server (lib/repo/archive.ts, /api/hash); this module
+ * only works with digests, so it runs in the browser too.
+ */
+
+import YAML from "yaml";
+import type {
+  EvidenceArtifact,
+  EvidenceGraph,
+  FileHash,
+  HashCheck,
+  HashCheckStatus,
+  HashManifest,
+  HashManifestEntry,
+  HashVerification,
+} from "@/lib/types";
+import { ECF_ARTIFACT_TYPES, isEcfArtifactType } from "./evidence-graph";
+import { detectManifestFormat, type ManifestIssue } from "./manifest";
+
+export const HASH_MANIFEST_VERSION = 1;
+
+export type HashManifestParseResult =
+  | { ok: true; manifest: HashManifest }
+  | { ok: false; issues: ManifestIssue[] };
+
+const basename = (path: string) => path.slice(path.lastIndexOf("/") + 1);
+
+// ── Create ──
+
+/**
+ * The artifact a file belongs to: one named by the file's path, or by a folder
+ * that contains it (the most specific wins). A bare file name, as sent by a
+ * browser file picker, also matches an artifact recorded with its full path.
+ */
+export function artifactForPath(artifacts: EvidenceArtifact[], path: string): EvidenceArtifact | undefined {
+  const key = path.toLowerCase();
+  let best: EvidenceArtifact | undefined;
+  let bestLength = -1;
+
+  for (const artifact of artifacts) {
+    const name = artifact.name.trim().replace(/^\.\//, "").replace(/\/+$/, "").toLowerCase();
+    if (!name) continue;
+    const matches =
+      key === name || key.startsWith(`${name}/`) || (!key.includes("/") && name.endsWith(`/${key}`));
+    if (matches && name.length > bestLength) {
+      best = artifact;
+      bestLength = name.length;
+    }
+  }
+  return best;
+}
+
+/**
+ * Build a manifest for `files`. With `only`, files that belong to none of
+ * those artifacts are left out (e.g. to hash just the restricted ones).
+ */
+export function buildHashManifest(
+  files: FileHash[],
+  graph: EvidenceGraph,
+  source: string,
+  only?: EvidenceArtifact[]
+): HashManifest {
+  const entries = files.map((f) => hashManifestEntry(f, graph, only)).filter((e) => e !== undefined);
+  return assembleHashManifest(entries, source);
+}
+
+/** One file's manifest entry; undefined if `only` is given and the file belongs to none of them. */
+export function hashManifestEntry(
+  file: FileHash,
+  graph: EvidenceGraph,
+  only?: EvidenceArtifact[]
+): HashManifestEntry | undefined {
+  const artifact = artifactForPath(only ?? graph.artifacts, file.path);
+  if (only && !artifact) return undefined;
+  return {
+    path: file.path,
+    size: file.size,
+    sha256: file.sha256,
+    ...(artifact ? { artifact: { id: artifact.id, name: artifact.name, type: artifact.type } } : {}),
+  };
+}
+
+/** A manifest of the given entries, sorted by path. */
+export function assembleHashManifest(entries: HashManifestEntry[], source: string): HashManifest {
+  return {
+    ecf_hash_manifest_version: HASH_MANIFEST_VERSION,
+    algorithm: "sha256",
+    generated_at: new Date().toISOString(),
+    source,
+    files: entries.sort((a, b) => a.path.localeCompare(b.path)),
+  };
+}
+
+export function serializeHashManifest(manifest: HashManifest): string {
+  return `${JSON.stringify(manifest, null, 2)}\n`;
+}
+
+// ── Import ──
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+/** Parse and validate a hash manifest (JSON or YAML). */
+export function parseHashManifest(text: string, fileName?: string): HashManifestParseResult {
+  const format = detectManifestFormat(text, fileName);
+  let data: unknown;
+  try {
+    data = format === "yaml" ? YAML.parse(text) : JSON.parse(text);
+  } catch (err) {
+    return {
+      ok: false,
+      issues: [
+        {
+          path: "(document)",
+          message: `Not valid ${format.toUpperCase()}: ${err instanceof Error ? err.message : String(err)}`,
+        },
+      ],
+    };
+  }
+
+  const issues = validateHashManifest(data);
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, manifest: data as HashManifest };
+}
+
+/** Check a parsed document against the hash manifest schema; returns every issue found. */
+export function validateHashManifest(data: unknown): ManifestIssue[] {
+  const issues: ManifestIssue[] = [];
+  const issue = (path: string, message: string) => issues.push({ path, message });
+
+  if (!isRecord(data)) {
+    issue("(document)", "must be an object");
+    return issues;
+  }
+
+  if (data.ecf_hash_manifest_version !== HASH_MANIFEST_VERSION) {
+    issue(
+      "ecf_hash_manifest_version",
+      `unsupported version ${JSON.stringify(data.ecf_hash_manifest_version)} (expected ${HASH_MANIFEST_VERSION})`
+    );
+  }
+  if (data.algorithm !== "sha256") {
+    issue("algorithm", `unsupported algorithm ${JSON.stringify(data.algorithm)} (expected "sha256")`);
+  }
+  if (typeof data.source !== "string") issue("source", "must be a string");
+  if (!Array.isArray(data.files)) {
+    issue("files", "must be an array");
+    return issues;
+  }
+
+  const seen = new Set<string>();
+  data.files.forEach((entry: unknown, i: number) => {
+    const path = `files[${i}]`;
+    if (!isRecord(entry)) return issue(path, "must be an object");
+    if (!isNonEmptyString(entry.path)) {
+      issue(`${path}.path`, "must be a non-empty string");
+    } else if (seen.has(entry.path)) {
+      issue(`${path}.path`, `duplicate path "${entry.path}"`);
+    } else {
+      seen.add(entry.path);
+    }
+    if (typeof entry.sha256 !== "string" || !/^[0-9a-f]{64}$/i.test(entry.sha256)) {
+      issue(`${path}.sha256`, "must be a 64-character hex SHA-256 digest");
+    }
+    if (typeof entry.size !== "number" || !Number.isInteger(entry.size) || entry.size < 0) {
+      issue(`${path}.size`, "must be a non-negative integer");
+    }
+    if (entry.artifact !== undefined) {
+      if (!isRecord(entry.artifact)) {
+        issue(`${path}.artifact`, "must be an object with id, name and type");
+      } else {
+        if (!isNonEmptyString(entry.artifact.id)) issue(`${path}.artifact.id`, "must be a non-empty string");
+        if (!isNonEmptyString(entry.artifact.name)) issue(`${path}.artifact.name`, "must be a non-empty string");
+        if (!isEcfArtifactType(entry.artifact.type)) {
+          issue(
+            `${path}.artifact.type`,
+            `must be one of: ${ECF_ARTIFACT_TYPES.join(", ")} (got ${JSON.stringify(entry.artifact.type)})`
+          );
+        }
+      }
+    }
+  });
+
+  return issues;
+}
+
+// ── Verify ──
+
+/**
+ * Check supplied files against a manifest. Files are matched by path; when
+ * one side only has bare file names (individually uploaded files), a unique
+ * file name match counts too.
+ */
+export function verifyHashManifest(manifest: HashManifest, files: FileHash[], source: string): HashVerification {
+  const unused = new Map(files.map((f) => [f.path, f]));
+
+  const take = (path: string): FileHash | undefined => {
+    const exact = unused.get(path);
+    if (exact) {
+      unused.delete(path);
+      return exact;
+    }
+    const name = basename(path);
+    const candidates = [...unused.values()].filter(
+      (f) => basename(f.path) === name && (!f.path.includes("/") || !path.includes("/"))
+    );
+    if (candidates.length !== 1) return undefined;
+    unused.delete(candidates[0].path);
+    return candidates[0];
+  };
+
+  const counts: Record<HashCheckStatus, number> = { match: 0, changed: 0, missing: 0 };
+  const checks: HashCheck[] = manifest.files.map((entry) => {
+    const file = take(entry.path);
+    const expected = entry.sha256.toLowerCase();
+    const status: HashCheckStatus = !file ? "missing" : file.sha256 === expected ? "match" : "changed";
+    counts[status]++;
+    return {
+      path: entry.path,
+      status,
+      expected,
+      ...(file ? { actual: file.sha256 } : {}),
+      ...(entry.artifact ? { artifactId: entry.artifact.id } : {}),
+    };
+  });
+
+  return { source, checks, unexpected: [...unused.keys()].sort(), counts };
+}
+
+/** Text form of a manifest, for the LLM. */
+export function formatHashManifest(manifest: HashManifest): string {
+  const tied = manifest.files.filter((f) => f.artifact);
+  const lines = [
+    `[EOP] SHA-256 manifest of ${manifest.files.length} file(s) from "${manifest.source}", ` +
+      `${tied.length} tied to ECF artifacts. The user can download it from the tool result and ` +
+      "verify files against it later from the evidence chain panel.",
+  ];
+
+  const byArtifact = new Map<string, HashManifestEntry[]>();
+  for (const entry of tied) {
+    const list = byArtifact.get(entry.artifact!.id) ?? [];
+    list.push(entry);
+    byArtifact.set(entry.artifact!.id, list);
+  }
+  for (const entries of byArtifact.values()) {
+    const { id, name, type } = entries[0].artifact!;
+    lines.push("", `${id} "${name}" (${type}): ${entries.length} file(s)`);
+    for (const entry of entries.slice(0, 10)) lines.push(`  ${entry.sha256.slice(0, 16)}…  ${entry.path}`);
+    if (entries.length > 10) lines.push(`  … and ${entries.length - 10} more`);
+  }
+
+  const untied = manifest.files.length - tied.length;
+  if (untied > 0) lines.push("", `${untied} file(s) belong to no recorded artifact.`);
+  return lines.join("\n");
+}
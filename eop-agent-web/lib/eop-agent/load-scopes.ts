@@ -0,0 +1,32 @@
+/**
+ * Server-side loading of team disclosure scope levels.
+ *
+ * EOP_DISCLOSURE_SCOPES_FILE names a JSON or YAML file ({ scopes: [...] }, see
+ * lib/eop-agent/scopes.ts). It is read on every call so edits apply without a
+ * restart; without the variable only the built-in levels are used.
+ */
+
+import { readFileSync } from "fs";
+import YAML from "yaml";
+import type { DisclosureScopeDefinition } from "@/lib/types";
+import { parseScopeDefinitions, resolveScopes } from "./scopes";
+
+export function loadDisclosureScopes(env: Record<string, string | undefined> = process.env): DisclosureScopeDefinition[] {
+  const file = env.EOP_DISCLOSURE_SCOPES_FILE;
+  if (!file) return resolveScopes();
+
+  let data: unknown;
+  try {
+    const text = readFileSync(file, "utf8");
+    data = /\.ya?ml$/i.test(file) ? YAML.parse(text) : JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Could not read EOP_DISCLOSURE_SCOPES_FILE: ${(err as Error).message}`);
+  }
+
+  const parsed = parseScopeDefinitions(data);
+  if (!parsed.ok) {
+    const details = parsed.issues.map((i) => `${i.path}: ${i.message}`).join("; ");
+    throw new Error(`Invalid EOP_DISCLOSURE_SCOPES_FILE: ${details}`);
+  }
+  return resolveScopes(parsed.scopes);
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import type { EvidenceGraph } from "@/lib/types";
+import {
+  ECF_MANIFEST_VERSION,
+  detectManifestFormat,
+  graphToManifest,
+  manifestToGraph,
+  parseManifest,
+  serializeManifest,
+} from "./manifest";
+
+const GRAPH: EvidenceGraph = {
+  scope: { kind: "project", id: "thesis" },
+  artifacts: [
+    { id: "A1", name: "raw.csv", type: "input_data", description: "sensor readings" },
+    { id: "A2", name: "fig.png", type: "visual_data" },
+  ],
+  claims: [{ id: "C1", text: "Yield rises with temperature" }],
+  links: [
+    { id: "L1", artifactId: "A1", claimId: "C1", type: "supports" },
+    { id: "L2", artifactId: "A2", claimId: "C1", type: "visualizes" },
+  ],
+};
+
+describe("export", () => {
+  it("writes links by id with snake_case keys", () => {
+    const manifest = graphToManifest(GRAPH);
+    expect(manifest.ecf_manifest_version).toBe(ECF_MANIFEST_VERSION);
+    expect(manifest.links[1]).toEqual({ id: "L2", artifact: "A2", claim: "C1", type: "visualizes" });
+    expect(manifest.artifacts[1]).not.toHaveProperty("description");
+  });
+
+  it.each(["json", "yaml"] as const)("round-trips through %s", (format) => {
+    const text = serializeManifest(graphToManifest(GRAPH), format);
+    expect(detectManifestFormat(text)).toBe(format);
+
+    const parsed = parseManifest(text, format);
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) return;
+    expect(manifestToGraph(parsed.manifest, { kind: "conversation", id: "t2" })).toEqual({
+      ...GRAPH,
+      scope: { kind: "conversation", id: "t2" },
+    });
+  });
+});
+
+describe("detectManifestFormat", () => {
+  it("goes by the file extension before the content", () => {
+    expect(detectManifestFormat("{}", "chain.yml")).toBe("yaml");
+    expect(detectManifestFormat("a: 1", "chain.JSON")).toBe("json");
+    expect(detectManifestFormat("  {\n}", "chain.txt")).toBe("json");
+  });
+});
+
+describe("import validation", () => {
+  const issuesOf = (data: unknown) => {
+    const result = parseManifest(JSON.stringify(data), "json");
+    return result.ok ? [] : result.issues;
+  };
+
+  it("reports every malformed entry by path", () => {
+    const issues = issuesOf({
+      ecf_manifest_version: 2,
+      scope: { kind: "team", id: "" },
+      artifacts: [
+        { id: "A1", name: "raw.csv", type: "input_data" },
+        { id: "A1", name: "RAW.csv ", type: "dataset" },
+        "fig.png",
+      ],
+      claims: [{ id: "C1", text: " " }],
+      links: [{ id: "L1", artifact: "A9", claim: "C1", type: "proves" }],
+    });
+
+    expect(issues).toEqual([
+      { path: "ecf_manifest_version", message: "unsupported version 2 (expected 1)" },
+      { path: "scope.kind", message: 'must be "conversation" or "project"' },
+      { path: "scope.id", message: "must be a non-empty string" },
+      { path: "artifacts[1].id", message: 'duplicate id "A1"' },
+      { path: "artifacts[1].name", message: 'duplicate artifact name "RAW.csv "' },
+      {
+        path: "artifacts[1].type",
+        message: expect.stringMatching(/^must be one of: input_data, .* \(got "dataset"\)$/),
+      },
+      { path: "artifacts[2]", message: "must be an object" },
+      { path: "claims[0].text", message: "must be a non-empty string" },
+      { path: "links[0].artifact", message: 'unknown artifact id "A9"' },
+      {
+        path: "links[0].type",
+        message: 'must be one of: supports, generates, visualizes, documents (got "proves")',
+      },
+    ]);
+  });
+
+  it("requires the three sections and unique ids across them", () => {
+    expect(issuesOf({ ecf_manifest_version: 1, artifacts: [] })).toEqual([
+      { path: "claims", message: "must be an array" },
+      { path: "links", message: "must be an array" },
+    ]);
+    expect(
+      issuesOf({ ecf_manifest_version: 1, artifacts: [{ id: "X", name: "a", type: "documentation" }], claims: [{ id: "X", text: "t" }], links: [] })
+    ).toEqual([{ path: "claims[0].id", message: 'duplicate id "X"' }]);
+  });
+
+  it("reports a document that doesn't parse", () => {
+    const result = parseManifest("artifacts: [", "yaml");
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.issues).toHaveLength(1);
+    expect(result.issues[0]).toMatchObject({ path: "(document)", message: expect.stringMatching(/^Not valid YAML: /) });
+    expect(issuesOf([1, 2])).toEqual([{ path: "(document)", message: "must be an object" }]);
+  });
+});
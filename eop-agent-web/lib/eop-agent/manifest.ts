@@ -0,0 +1,231 @@
+/**
+ * ECF manifest — a versioned, machine-readable record of the evidence chain.
+ *
+ * The manifest lists artifacts (with their ECF type), claims and links, and can
+ * be written as JSON or YAML. Importing validates every entry and reports each
+ * malformed one by path (e.g. `artifacts[2].type`) instead of failing on the first.
+ */
+
+import YAML from "yaml";
+import type {
+  EcfArtifactType,
+  EvidenceGraph,
+  EvidenceLinkType,
+  EvidenceScope,
+} from "@/lib/types";
+import {
+  ECF_ARTIFACT_TYPES,
+  EVIDENCE_LINK_TYPES,
+  isEcfArtifactType,
+  isEvidenceLinkType,
+} from "./evidence-graph";
+
+export const ECF_MANIFEST_VERSION = 1;
+
+export type ManifestFormat = "json" | "yaml";
+
+/** On-disk shape (snake_case keys, links reference ids). */
+export interface EcfManifest {
+  ecf_manifest_version: number;
+  generated_at: string;
+  scope: EvidenceScope;
+  artifacts: { id: string; name: string; type: EcfArtifactType; description?: string }[];
+  claims: { id: string; text: string }[];
+  links: { id: string; artifact: string; claim: string; type: EvidenceLinkType }[];
+}
+
+/** One problem found while importing, located by a path into the document. */
+export interface ManifestIssue {
+  path: string;
+  message: string;
+}
+
+export type ManifestParseResult =
+  | { ok: true; manifest: EcfManifest }
+  | { ok: false; issues: ManifestIssue[] };
+
+// ── Export ──
+
+export function graphToManifest(graph: EvidenceGraph): EcfManifest {
+  return {
+    ecf_manifest_version: ECF_MANIFEST_VERSION,
+    generated_at: new Date().toISOString(),
+    scope: graph.scope,
+    artifacts: graph.artifacts.map((a) => ({
+      id: a.id,
+      name: a.name,
+      type: a.type,
+      ...(a.description ? { description: a.description } : {}),
+    })),
+    claims: graph.claims.map((c) => ({ id: c.id, text: c.text })),
+    links: graph.links.map((l) => ({
+      id: l.id,
+      artifact: l.artifactId,
+      claim: l.claimId,
+      type: l.type,
+    })),
+  };
+}
+
+export function serializeManifest(manifest: EcfManifest, format: ManifestFormat): string {
+  return format === "yaml" ? YAML.stringify(manifest) : `${JSON.stringify(manifest, null, 2)}\n`;
+}
+
+// ── Import ──
+
+/** Guess the format from a file name, falling back to the content. */
+export function detectManifestFormat(text: string, fileName?: string): ManifestFormat {
+  if (fileName && /\.ya?ml$/i.test(fileName)) return "yaml";
+  if (fileName && /\.json$/i.test(fileName)) return "json";
+  return text.trimStart().startsWith("{") ? "json" : "yaml";
+}
+
+/** Parse and validate a manifest document. */
+export function parseManifest(text: string, format: ManifestFormat): ManifestParseResult {
+  let data: unknown;
+  try {
+    data = format === "yaml" ? YAML.parse(text) : JSON.parse(text);
+  } catch (err) {
+    return {
+      ok: false,
+      issues: [
+        {
+          path: "(document)",
+          message: `Not valid ${format.toUpperCase()}: ${err instanceof Error ? err.message : String(err)}`,
+        },
+      ],
+    };
+  }
+
+  const issues = validateManifest(data);
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, manifest: data as EcfManifest };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+/** Check a parsed document against the manifest schema; returns every issue found. */
+export function validateManifest(data: unknown): ManifestIssue[] {
+  const issues: ManifestIssue[] = [];
+  const issue = (path: string, message: string) => issues.push({ path, message });
+
+  if (!isRecord(data)) {
+    issue("(document)", "must be an object");
+    return issues;
+  }
+
+  if (data.ecf_manifest_version !== ECF_MANIFEST_VERSION) {
+    issue(
+      "ecf_manifest_version",
+      `unsupported version ${JSON.stringify(data.ecf_manifest_version)} (expected ${ECF_MANIFEST_VERSION})`
+    );
+  }
+
+  if (data.scope !== undefined) {
+    if (!isRecord(data.scope)) {
+      issue("scope", "must be an object with kind and id");
+    } else {
+      if (data.scope.kind !== "conversation" && data.scope.kind !== "project") {
+        issue("scope.kind", 'must be "conversation" or "project"');
+      }
+      if (!isNonEmptyString(data.scope.id)) issue("scope.id", "must be a non-empty string");
+    }
+  }
+
+  const sections = ["artifacts", "claims", "links"] as const;
+  for (const section of sections) {
+    if (!Array.isArray(data[section])) issue(section, "must be an array");
+  }
+
+  const artifactIds = new Set<string>();
+  const artifactNames = new Set<string>();
+  const claimIds = new Set<string>();
+  const allIds = new Set<string>(); // ids are unique across artifacts, claims and links
+
+  const checkId = (path: string, id: unknown, seen: Set<string>) => {
+    if (!isNonEmptyString(id)) {
+      issue(`${path}.id`, "must be a non-empty string");
+    } else if (allIds.has(id)) {
+      issue(`${path}.id`, `duplicate id "${id}"`);
+    } else {
+      seen.add(id);
+      allIds.add(id);
+    }
+  };
+
+  const artifacts = Array.isArray(data.artifacts) ? data.artifacts : [];
+  artifacts.forEach((entry: unknown, i: number) => {
+    const path = `artifacts[${i}]`;
+    if (!isRecord(entry)) return issue(path, "must be an object");
+    checkId(path, entry.id, artifactIds);
+    if (!isNonEmptyString(entry.name)) {
+      issue(`${path}.name`, "must be a non-empty string");
+    } else if (artifactNames.has(entry.name.trim().toLowerCase())) {
+      issue(`${path}.name`, `duplicate artifact name "${entry.name}"`);
+    } else {
+      artifactNames.add(entry.name.trim().toLowerCase());
+    }
+    if (!isEcfArtifactType(entry.type)) {
+      issue(`${path}.type`, `must be one of: ${ECF_ARTIFACT_TYPES.join(", ")} (got ${JSON.stringify(entry.type)})`);
+    }
+    if (entry.description !== undefined && typeof entry.description !== "string") {
+      issue(`${path}.description`, "must be a string");
+    }
+  });
+
+  const claims = Array.isArray(data.claims) ? data.claims : [];
+  claims.forEach((entry: unknown, i: number) => {
+    const path = `claims[${i}]`;
+    if (!isRecord(entry)) return issue(path, "must be an object");
+    checkId(path, entry.id, claimIds);
+    if (!isNonEmptyString(entry.text)) issue(`${path}.text`, "must be a non-empty string");
+  });
+
+  const linkIds = new Set<string>();
+  const links = Array.isArray(data.links) ? data.links : [];
+  links.forEach((entry: unknown, i: number) => {
+    const path = `links[${i}]`;
+    if (!isRecord(entry)) return issue(path, "must be an object");
+    checkId(path, entry.id, linkIds);
+    if (!isNonEmptyString(entry.artifact)) {
+      issue(`${path}.artifact`, "must be an artifact id");
+    } else if (!artifactIds.has(entry.artifact)) {
+      issue(`${path}.artifact`, `unknown artifact id "${entry.artifact}"`);
+    }
+    if (!isNonEmptyString(entry.claim)) {
+      issue(`${path}.claim`, "must be a claim id");
+    } else if (!claimIds.has(entry.claim)) {
+      issue(`${path}.claim`, `unknown claim id "${entry.claim}"`);
+    }
+    if (!isEvidenceLinkType(entry.type)) {
+      issue(`${path}.type`, `must be one of: ${EVIDENCE_LINK_TYPES.join(", ")} (got ${JSON.stringify(entry.type)})`);
+    }
+  });
+
+  return issues;
+}
+
+/** Re-hydrate an evidence graph from a validated manifest into the given scope. */
+export function manifestToGraph(manifest: EcfManifest, scope: EvidenceScope): EvidenceGraph {
+  return {
+    scope,
+    artifacts: manifest.artifacts.map((a) => ({
+      id: a.id,
+      name: a.name.trim(),
+      type: a.type,
+      ...(a.description ? { description: a.description } : {}),
+    })),
+    claims: manifest.claims.map((c) => ({ id: c.id, text: c.text.trim() })),
+    links: manifest.links.map((l) => ({
+      id: l.id,
+      artifactId: l.artifact,
+      claimId: l.claim,
+      type: l.type,
+    })),
+  };
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import type { ChatMessage, ToolResult } from "@/lib/types";
+import { activeHistory, buildSynopsis, estimateTokens, insertSynopsis, planCompaction, recordedLines, transcript } from "./memory";
+
+const user = (content: string): ChatMessage => ({ role: "user", content });
+const assistant = (content: string): ChatMessage => ({ role: "assistant", content });
+const toolCall = (id: string, name: string, args: string): ChatMessage => ({
+  role: "assistant",
+  content: null,
+  tool_calls: [{ id, type: "function", function: { name, arguments: args } }],
+});
+const toolResult = (id: string, content: string): ChatMessage => ({ role: "tool", tool_call_id: id, content });
+
+/** Two plain turns, then a turn that records an artifact through a tool call. */
+const HISTORY: ChatMessage[] = [
+  user("What is ECF?"),
+  assistant("A folder layout for evidence."),
+  user("Record raw.csv as input data"),
+  toolCall("call_1", "annotate_artifact", '{"artifact_name":"raw.csv","artifact_type":"input_data"}'),
+  toolResult("call_1", "[EOP] Annotated A1"),
+  assistant("Recorded raw.csv as A1."),
+  user("Thanks"),
+  assistant("You're welcome."),
+];
+
+const budget = (keepRecent: number) => ({ maxTokens: 1_000, maxMessages: 4, keepRecent });
+
+describe("estimateTokens", () => {
+  it("counts the content and the tool calls, about 4 characters per token", () => {
+    expect(estimateTokens([user("12345678")])).toBe(2);
+    expect(estimateTokens([toolCall("c", "abcd", "{}")])).toBe(2);
+    expect(estimateTokens([])).toBe(0);
+  });
+});
+
+describe("planCompaction", () => {
+  it("leaves a history within budget alone", () => {
+    expect(planCompaction(HISTORY, { maxTokens: 1_000, maxMessages: 8, keepRecent: 2 })).toBeNull();
+  });
+
+  it("cuts at a user message", () => {
+    // Keeping 7 would start at an assistant reply, so the cut moves on to the next user message
+    const plan = planCompaction(HISTORY, budget(7));
+    expect(plan?.summarize).toEqual(HISTORY.slice(0, 2));
+    expect(plan?.keep[0]).toEqual(user("Record raw.csv as input data"));
+  });
+
+  it("never splits a tool call from its results", () => {
+    for (const keepRecent of [2, 3, 4, 5]) {
+      const plan = planCompaction(HISTORY, budget(keepRecent));
+      expect(plan?.keep[0].role).toBe("user");
+      const kept = new Set(plan?.keep.flatMap((m) => m.tool_calls?.map((tc) => tc.id) ?? []));
+      for (const msg of plan?.keep ?? []) {
+        if (msg.role === "tool") expect(kept.has(msg.tool_call_id!)).toBe(true);
+      }
+    }
+    // Keeping 4 lands on the tool result; the whole tool turn is summarized instead
+    expect(planCompaction(HISTORY, budget(4))?.keep).toEqual(HISTORY.slice(6));
+  });
+
+  it("has nothing to do when only an earlier synopsis is older than the recent turns", () => {
+    const synopsis = buildSynopsis(HISTORY.slice(0, 2), "Asked about ECF.", [], 20);
+    expect(planCompaction([synopsis, ...HISTORY.slice(2)], budget(6))).toBeNull();
+    expect(planCompaction(HISTORY, budget(8))).toBeNull();
+  });
+});
+
+describe("synopsis", () => {
+  const results: ToolResult[] = [
+    { toolName: "annotate_artifact", toolCallId: "call_1", arguments: { artifact_name: "raw.csv" }, result: "[EOP] Annotated A1" },
+    { toolName: "query_evidence_chain", toolCallId: "call_2", arguments: {}, result: "[EOP] 1 artifact" },
+    {
+      toolName: "annotate_artifact",
+      toolCallId: "call_3",
+      arguments: {},
+      result: "[EOP] Invalid arguments",
+      data: { kind: "invalid_arguments", errors: [] },
+    },
+  ];
+
+  it("keeps the results that changed the chain, verbatim", () => {
+    expect(recordedLines(results, (r) => r.toolName === "annotate_artifact")).toEqual([
+      'annotate_artifact {"artifact_name":"raw.csv"} → [EOP] Annotated A1',
+    ]);
+  });
+
+  it("carries the recorded lines of an earlier synopsis into the next one", () => {
+    const first = buildSynopsis(HISTORY.slice(0, 6), "Recorded raw.csv.", ["annotate_artifact → A1"], 60);
+    const second = buildSynopsis([first, ...HISTORY.slice(6)], "Said thanks.", ["link_to_claim → L1"], 30);
+
+    expect(second.compaction).toMatchObject({ summarized: 3, recorded: ["annotate_artifact → A1", "link_to_claim → L1"] });
+    expect(second.content).toBe(
+      "SUMMARY OF EARLIER CONVERSATION (3 messages):\nSaid thanks.\n\n" +
+        "EVIDENCE RECORDED IN THOSE TURNS (verbatim):\n- annotate_artifact → A1\n- link_to_claim → L1"
+    );
+    expect(second.compaction?.tokensAfter).toBe(estimateTokens([second]));
+    expect(transcript([first, HISTORY[3]])).toBe(
+      'EARLIER SUMMARY:\nRecorded raw.csv.\n\nASSISTANT: \n(calls annotate_artifact {"artifact_name":"raw.csv","artifact_type":"input_data"})'
+    );
+  });
+});
+
+describe("activeHistory and insertSynopsis", () => {
+  it("rebuild the context from the latest synopsis on, keeping every message", () => {
+    const plan = planCompaction(HISTORY, budget(2))!;
+    const first = buildSynopsis(plan.summarize, "Recorded raw.csv.", [], estimateTokens(plan.summarize));
+    const stored = insertSynopsis(HISTORY, first);
+
+    expect(stored).toEqual([...HISTORY.slice(0, 6), first, ...HISTORY.slice(6)]);
+    expect(activeHistory(stored)).toEqual([first, ...plan.keep]);
+
+    // A second compaction counts from the first synopsis, which it covers
+    const later = [...stored, user("Link it to the claim"), assistant("Done.")];
+    const next = planCompaction(activeHistory(later), budget(2))!;
+    expect(next.summarize[0]).toBe(first);
+    const second = buildSynopsis(next.summarize, "Linked.", [], 0);
+    const restored = insertSynopsis(later, second);
+    expect(activeHistory(restored)).toEqual([second, ...later.slice(-2)]);
+    expect(restored).toHaveLength(later.length + 1);
+  });
+
+  it("gives the whole history when nothing was compacted", () => {
+    expect(activeHistory(HISTORY)).toEqual(HISTORY);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Conversation memory (Lab 3) — compaction of long histories.
+ *
+ * Once the history passes a budget, the older turns are replaced by one
+ * synopsis message: a summary written by the model, followed by the evidence
+ * recorded in those turns, copied verbatim from their tool results. The
+ * evidence chain itself is never summarized; it is sent with every request.
+ *
+ * Compaction doesn't delete anything. The synopsis is inserted after the
+ * messages it covers, and only the history from the latest synopsis on (the
+ * active history) goes to the model, while the UI and the stores keep every
+ * message. Everything here is plain data, so the client uses it too.
+ */
+
+import type { ChatMessage, Compaction, ToolResult } from "@/lib/types";
+
+export interface MemoryBudget {
+  maxTokens: number; // estimated tokens of the active history before it is compacted
+  maxMessages: number; // messages of the active history before it is compacted
+  keepRecent: number; // messages kept as they are (from a user message on)
+}
+
+export const DEFAULT_MEMORY_BUDGET: MemoryBudget = {
+  maxTokens: 12_000,
+  maxMessages: 60,
+  keepRecent: 8,
+};
+
+/** Rough token count of what the model sees of the messages (about 4 characters per token). */
+export function estimateTokens(messages: ChatMessage[]): number {
+  let chars = 0;
+  for (const msg of messages) {
+    chars += msg.content?.length ?? 0;
+    for (const tc of msg.tool_calls ?? []) chars += tc.function.name.length + tc.function.arguments.length;
+  }
+  return Math.ceil(chars / 4);
+}
+
+function activeStart(messages: ChatMessage[]): number {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].compaction) return i;
+  }
+  return 0;
+}
+
+/** The messages from the latest synopsis on: what the model is given. */
+export function activeHistory(messages: ChatMessage[]): ChatMessage[] {
+  return messages.slice(activeStart(messages));
+}
+
+/**
+ * Split an active history that is over budget into the messages to summarize
+ * and the recent ones to keep. Null when it is within budget, or when there
+ * is nothing older than the recent turns to summarize.
+ */
+export function planCompaction(
+  history: ChatMessage[],
+  budget: MemoryBudget = DEFAULT_MEMORY_BUDGET
+): { summarize: ChatMessage[]; keep: ChatMessage[] } | null {
+  if (estimateTokens(history) <= budget.maxTokens && history.length <= budget.maxMessages) return null;
+
+  // Cut at a user message, so a reply (or tool call) is never kept without what led to it
+  let cut = Math.max(history.length - budget.keepRecent, 0);
+  while (cut < history.length && history[cut].role !== "user") cut++;
+  const summarize = history.slice(0, cut);
+  if (summarize.length === 0 || (summarize.length === 1 && summarize[0].compaction)) return null;
+  return { summarize, keep: history.slice(cut) };
+}
+
+/** One verbatim line per tool result that changed the evidence chain. */
+export function recordedLines(results: ToolResult[], changesEvidence: (result: ToolResult) => boolean): string[] {
+  return results
+    .filter(
+      (r) =>
+        changesEvidence(r) && r.data?.kind !== "invalid_arguments" && r.data?.kind !== "repeated_call"
+    )
+    .map((r) => `${r.toolName} ${JSON.stringify(r.arguments)} → ${r.result}`);
+}
+
+/** The conversation to summarize, as plain text (an earlier synopsis is included as is). */
+export function transcript(messages: ChatMessage[]): string {
+  return messages
+    .map((msg) => {
+      if (msg.compaction) return `EARLIER SUMMARY:\n${msg.compaction.summary}`;
+      const calls = (msg.tool_calls ?? []).map((tc) => `\n(calls ${tc.function.name} ${tc.function.arguments})`);
+      return `${msg.role.toUpperCase()}: ${msg.content ?? ""}${calls.join("")}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * The synopsis message for `summarized` messages. `recorded` lines of an
+ * earlier synopsis among them are carried over, so nothing recorded is lost
+ * to a second summary.
+ */
+export function buildSynopsis(
+  summarized: ChatMessage[],
+  summary: string,
+  recorded: string[],
+  tokensBefore: number // of the summarized messages
+): ChatMessage {
+  const carried = summarized.flatMap((m) => m.compaction?.recorded ?? []);
+  const allRecorded = [...carried, ...recorded];
+  const content =
+    `SUMMARY OF EARLIER CONVERSATION (${summarized.length} messages):\n${summary}` +
+    (allRecorded.length > 0
+      ? `\n\nEVIDENCE RECORDED IN THOSE TURNS (verbatim):\n${allRecorded.map((line) => `- ${line}`).join("\n")}`
+      : "");
+  const compaction: Compaction = {
+    summarized: summarized.length,
+    summary,
+    recorded: allRecorded,
+    tokensBefore,
+    tokensAfter: 0,
+  };
+  const message: ChatMessage = { role: "system", content, compaction };
+  compaction.tokensAfter = estimateTokens([message]);
+  return message;
+}
+
+/** Insert a synopsis after the messages it covers (counted from the start of the active history). */
+export function insertSynopsis(messages: ChatMessage[], synopsis: ChatMessage): ChatMessage[] {
+  const at = activeStart(messages) + (synopsis.compaction?.summarized ?? 0);
+  return [...messages.slice(0, at), synopsis, ...messages.slice(at)];
+}
+
+/** Instruction for the model call that writes the summary. */
+export const SUMMARY_PROMPT =
+  "You compact the memory of an assistant that helps researchers build Evidence-Oriented Programming (EOP) " +
+  "evidence chains. Summarize the conversation below for the assistant's own later use, in at most 250 words " +
+  "of plain prose or bullets. Keep: what the user is working on, their questions and what was answered, open " +
+  "questions and next steps. Quote verbatim, in double quotes, every decision the user stated (for example a " +
+  "chosen disclosure scope, a claim's wording, what to include or leave out). Don't list recorded artifacts, " +
+  "claims or links one by one; they are kept separately.";
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import type { EvidenceGraph, RepoPathReference } from "@/lib/types";
+import { buildMovePlan, formatMovePlan, movePlanToScript, movePlanToTreeDiff, type PlanInput } from "./restructure";
+
+const LISTING = [
+  "data/raw/survey.csv",
+  "src/train.py",
+  "results/metrics.json",
+  "scripts/plot_results.py",
+  "README.md",
+  "tests/test_model.py",
+  "src/utils.py",
+  "figures/fig1.png",
+];
+
+const TRAIN_REFERENCES: RepoPathReference[] = [
+  { target: "data/raw/survey.csv", kind: "file", base: "root", literal: "data/raw/survey.csv", line: 2 },
+  { target: "results/metrics.json", kind: "file", base: "file", literal: "../results/metrics.json", line: 3 },
+  { target: "results", kind: "dir", base: "root", literal: "results/", line: 5 },
+];
+
+const moves = (files: PlanInput[], graph?: EvidenceGraph) =>
+  buildMovePlan(files, graph).entries.map(({ from, to, status }) => `${status} ${from} → ${to}`);
+
+describe("buildMovePlan", () => {
+  it("moves each file into its ECF folder, dropping role folders", () => {
+    expect(moves(LISTING.map((path) => ({ path })))).toEqual([
+      "move data/raw/survey.csv → input/survey.csv",
+      "move figures/fig1.png → claim/fig1.png",
+      "keep README.md → README.md",
+      "move results/metrics.json → output/metrics.json",
+      "move scripts/plot_results.py → work/plot_results.py",
+      "move src/train.py → source/train.py",
+      "review src/utils.py → source/utils.py",
+      "move tests/test_model.py → test/test_model.py",
+    ]);
+  });
+
+  it("follows an artifact annotated in the evidence chain over the classifier", () => {
+    const graph: EvidenceGraph = {
+      scope: { kind: "conversation", id: "t" },
+      artifacts: [{ id: "A1", name: "src/utils.py", type: "plotting_process" }],
+      claims: [],
+      links: [],
+    };
+    expect(buildMovePlan([{ path: "src/utils.py" }], graph).entries).toEqual([
+      { from: "src/utils.py", to: "source/utils.py", type: "plotting_process", status: "move", note: "annotated as plotting_process (A1)" },
+    ]);
+  });
+
+  it("keeps files out of a move whose destination is taken", () => {
+    const plan = buildMovePlan([{ path: "input/x.csv" }, { path: "raw/x.csv" }]);
+    expect(plan.entries.map((e) => e.status)).toEqual(["keep", "conflict"]);
+    expect(plan.conflicts).toEqual([
+      { destination: "input/x.csv", paths: ["input/x.csv", "raw/x.csv"], message: "2 files would end up at input/x.csv" },
+    ]);
+  });
+
+  it("reports hard-coded paths the moves break, with their new form", () => {
+    const plan = buildMovePlan(LISTING.map((path) => ({ path, references: path === "src/train.py" ? TRAIN_REFERENCES : [] })));
+    expect(plan.referencesChecked).toBe(true);
+    expect(plan.brokenReferences.map((r) => `${r.file}:${r.line} ${r.literal} → ${r.replacement}`)).toEqual([
+      "src/train.py:2 data/raw/survey.csv → input/survey.csv",
+      "src/train.py:3 ../results/metrics.json → ../output/metrics.json",
+      "src/train.py:5 results/ → output/",
+    ]);
+  });
+
+  it("asks for a hand edit when a folder's files don't move together", () => {
+    const plan = buildMovePlan([
+      { path: "data/raw/a.csv" },
+      { path: "data/results/metrics.csv" },
+      { path: "src/run.py", references: [{ target: "data", kind: "dir", base: "root", literal: "./data/", line: 4 }] },
+    ]);
+    expect(plan.brokenReferences).toEqual([
+      {
+        file: "src/run.py",
+        line: 4,
+        literal: "./data/",
+        target: "data",
+        message: '"./data/" points to a folder whose files do not move together; update it by hand',
+      },
+    ]);
+  });
+});
+
+describe("plan exports", () => {
+  const plan = buildMovePlan(LISTING.map((path) => ({ path, references: path === "src/train.py" ? TRAIN_REFERENCES : [] })));
+
+  it("writes a git mv script with unconfirmed moves commented out", () => {
+    const script = movePlanToScript(plan);
+    expect(script).toMatch(/^#!\/bin\/sh\n/);
+    expect(script).toContain("mkdir -p 'input'\ngit mv -- 'data/raw/survey.csv' 'input/survey.csv'\n");
+    expect(script).toContain(
+      "# Needs review:\n# classified experimental_process with confidence 0.49; confirm before moving\n# git mv -- 'src/utils.py' 'source/utils.py'\n"
+    );
+    expect(script).toContain('#   src/train.py:5 "results/" should become "output/"\n');
+  });
+
+  it("writes a tree diff of the moved files", () => {
+    expect(movePlanToTreeDiff(plan).split("\n").slice(0, 6)).toEqual([
+      "--- before",
+      "+++ after",
+      "-data/raw/survey.csv",
+      "+input/survey.csv",
+      "-figures/fig1.png",
+      "+claim/fig1.png",
+    ]);
+    expect(movePlanToTreeDiff(plan)).toContain("\n README.md\n");
+  });
+
+  it("summarizes the plan for the model", () => {
+    const text = formatMovePlan(plan);
+    expect(text.split("\n")[0]).toBe("[EOP] ECF restructuring plan: 6 move(s), 1 file(s) stay, 0 conflict(s), 1 need review.");
+    expect(text).toContain("\nReferences that will break:\n  src/train.py:2 ");
+    expect(formatMovePlan(buildMovePlan([{ path: "src/train.py" }]))).toContain("Hard-coded paths were not checked");
+  });
+});
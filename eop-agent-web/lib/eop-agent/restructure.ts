@@ -0,0 +1,389 @@
+/**
+ * ECF restructuring planner — turns a repository listing into a concrete move
+ * plan (current path → ECF folder), flags destination conflicts and hard-coded
+ * paths that the moves would break, and renders the plan as a `git mv` script
+ * and a before/after tree diff.
+ *
+ * Destinations come from the rule-based classifier, overridden by any artifact
+ * already annotated in the evidence chain under the same path. Files the
+ * classifier is unsure about are proposed but not moved.
+ */
+
+import type {
+  BrokenReference,
+  EcfArtifactType,
+  EvidenceGraph,
+  MoveConflict,
+  MovePlan,
+  MoveStatus,
+  PlannedMove,
+  RepoPathReference,
+} from "@/lib/types";
+import { classifyFile, type RepoFileInput } from "./classifier";
+import { joinRepoPath, parentDir, relativeRepoPath } from "@/lib/repo/references";
+
+/** A file to place, with the path literals found in it (uploaded archives only). */
+export interface PlanInput extends RepoFileInput {
+  references?: RepoPathReference[];
+}
+
+export const ECF_DIRECTORIES: { dir: string; description: string }[] = [
+  { dir: "work", description: "Working files and scripts" },
+  { dir: "input", description: "Raw input data" },
+  { dir: "output", description: "Computed results" },
+  { dir: "claim", description: "Visual claims (figures, tables)" },
+  { dir: "source", description: "Source code" },
+  { dir: "test", description: "Tests" },
+  { dir: "case", description: "Case studies / examples" },
+  { dir: "document", description: "Entry document and per-step docs" },
+];
+
+const TYPE_DIRECTORY: Record<EcfArtifactType, string> = {
+  input_data: "input",
+  experimental_process: "work",
+  output_data: "output",
+  plotting_process: "work",
+  visual_data: "output",
+  visual_claims: "claim",
+  documentation: "document",
+};
+
+// Folder names that only say what a file is; dropped when the file moves into
+// its ECF folder so "data/raw/x.csv" becomes "input/x.csv", not "input/data/raw/x.csv"
+const ROLE_DIRS = new Set([
+  "data", "raw", "raw_data", "rawdata", "input", "inputs", "dataset", "datasets",
+  "results", "result", "output", "outputs", "out",
+  "scripts", "script", "src", "source", "code", "lib", "work", "analysis", "experiments", "experiment", "notebooks",
+  "figures", "figure", "figs", "fig", "plots", "plot", "plotting", "viz", "claim", "claims", "paper", "images",
+  "plot_data", "visual_data",
+  "docs", "doc", "documents", "document", "documentation",
+  "tests", "test", "spec",
+  "examples", "example", "cases", "case", "demos", "demo", "tutorials",
+]);
+
+const LIBRARY_DIR = /^(src|source|lib|pkg|package)$/i;
+const TEST_FILE = /(^|\/)(tests?|spec)\/|(^|\/)(test_[^/]*|[^/]*_test\.[^/.]+|[^/]*\.(test|spec)\.[^/.]+)$/i;
+const CASE_DIR = /(^|\/)(examples?|cases?|demos?|tutorials)\//i;
+const ROOT_FILE = /^(readme|license|licence|citation|changelog|contributing|code_of_conduct)(\.[^/]*)?$/i;
+
+function stripRoleDirs(path: string): string {
+  const parts = path.split("/");
+  let i = 0;
+  while (i < parts.length - 1 && ROLE_DIRS.has(parts[i].toLowerCase())) i++;
+  return parts.slice(i).join("/");
+}
+
+/** Where a file belongs, or undefined if it should stay where it is. */
+function destinationFor(path: string, type: EcfArtifactType | null): { dir: string; type: EcfArtifactType | null } | undefined {
+  const isRoot = !path.includes("/");
+  if (TEST_FILE.test(path)) return { dir: "test", type: null };
+  if (CASE_DIR.test(path)) return { dir: "case", type };
+  if (type === null) return undefined; // config files and the like
+  if (isRoot && ROOT_FILE.test(path)) return undefined; // the repository's own front page
+  if ((type === "experimental_process" || type === "plotting_process") && LIBRARY_DIR.test(path.split("/")[0])) {
+    return { dir: "source", type };
+  }
+  return { dir: TYPE_DIRECTORY[type], type };
+}
+
+/** Where one file should go; an annotated artifact's type wins over the classifier's. */
+export function proposeMove(file: PlanInput, graph?: EvidenceGraph): PlannedMove {
+  const annotated = graph?.artifacts.find((a) => a.name.toLowerCase() === file.path.toLowerCase());
+  const classification = annotated ? undefined : classifyFile(file);
+  const type = annotated ? annotated.type : classification!.type;
+
+  const destination = destinationFor(file.path, type);
+  if (!destination) {
+    return { from: file.path, to: file.path, type, status: "keep" };
+  }
+
+  const to = `${destination.dir}/${stripRoleDirs(file.path)}`;
+  if (file.path.split("/")[0] === destination.dir || to === file.path) {
+    return { from: file.path, to: file.path, type: destination.type, status: "keep" };
+  }
+
+  if (classification?.needsReview) {
+    return {
+      from: file.path,
+      to,
+      type: destination.type,
+      status: "review",
+      note: `classified ${type ?? "as not evidence"} with confidence ${classification.confidence}; confirm before moving`,
+    };
+  }
+  return {
+    from: file.path,
+    to,
+    type: destination.type,
+    status: "move",
+    ...(annotated ? { note: `annotated as ${annotated.type} (${annotated.id})` } : {}),
+  };
+}
+
+// ── Conflicts ──
+
+/** Mark moves whose destination is taken, nested under a file, or part of a swap. */
+function findConflicts(entries: PlannedMove[]): MoveConflict[] {
+  const conflicts: MoveConflict[] = [];
+
+  // Repeat until stable: unmarking a move puts its file back at its old path
+  for (;;) {
+    const finalPath = (e: PlannedMove) => (e.status === "move" ? e.to : e.from);
+    const byKey = new Map<string, PlannedMove[]>();
+    for (const e of entries) {
+      const key = finalPath(e).toLowerCase();
+      byKey.set(key, [...(byKey.get(key) ?? []), e]);
+    }
+    const finals = new Set(byKey.keys());
+
+    const found: MoveConflict[] = [];
+    for (const [, group] of byKey) {
+      if (group.length < 2) continue;
+      const movers = group.filter((e) => e.status === "move");
+      if (movers.length === 0) continue;
+      const exact = group.every((e) => finalPath(e) === finalPath(group[0]));
+      found.push({
+        destination: finalPath(movers[0]),
+        paths: group.map((e) => e.from),
+        message: exact
+          ? `${group.length} files would end up at ${finalPath(movers[0])}`
+          : `${group.map(finalPath).join(" and ")} differ only by case (clash on case-insensitive file systems)`,
+      });
+      for (const e of movers) e.status = "conflict";
+    }
+
+    for (const e of entries) {
+      if (e.status !== "move") continue;
+      const lower = e.to.toLowerCase();
+      const blockingFile = ancestors(lower).find((dir) => finals.has(dir));
+      const nested = [...finals].some((p) => p.startsWith(`${lower}/`));
+      if (blockingFile || nested) {
+        found.push({
+          destination: e.to,
+          paths: [e.from],
+          message: blockingFile
+            ? `${e.to} needs a folder where the file ${blockingFile} would be`
+            : `${e.to} is already a folder`,
+        });
+        e.status = "conflict";
+      }
+    }
+
+    if (found.length === 0) break;
+    conflicts.push(...found);
+  }
+
+  return conflicts;
+}
+
+function ancestors(path: string): string[] {
+  const dirs: string[] = [];
+  for (let dir = parentDir(path); dir; dir = parentDir(dir)) dirs.push(dir);
+  return dirs;
+}
+
+/**
+ * Order moves so that no destination is still occupied by a file that has yet
+ * to move away. Moves left in a cycle (A → B while B → A) become conflicts.
+ */
+function orderMoves(entries: PlannedMove[], conflicts: MoveConflict[]): PlannedMove[] {
+  const ordered: PlannedMove[] = [];
+  let pending = entries.filter((e) => e.status === "move");
+
+  while (pending.length > 0) {
+    const occupied = new Set(pending.map((e) => e.from));
+    const ready = pending.filter((e) => !occupied.has(e.to));
+    if (ready.length === 0) {
+      for (const e of pending) e.status = "conflict";
+      conflicts.push({
+        destination: pending[0].to,
+        paths: pending.map((e) => e.from),
+        message: "these moves swap places with each other; move one of them by hand first",
+      });
+      break;
+    }
+    ordered.push(...ready);
+    pending = pending.filter((e) => !ready.includes(e));
+  }
+  return ordered;
+}
+
+// ── Broken references ──
+
+function checkReferences(files: PlanInput[], entries: PlannedMove[]): BrokenReference[] {
+  const movedTo = new Map(entries.filter((e) => e.status === "move").map((e) => [e.from, e.to]));
+  const newPath = (path: string) => movedTo.get(path) ?? path;
+  const broken: BrokenReference[] = [];
+
+  for (const file of files) {
+    const scriptNewDir = parentDir(newPath(file.path));
+
+    for (const ref of file.references ?? []) {
+      const withPrefix = (p: string) => (ref.literal.startsWith("./") && !p.startsWith("../") ? `./${p}` : p);
+      const trailing = ref.kind === "dir" && ref.literal.endsWith("/") ? "/" : "";
+      const express = (target: string) =>
+        withPrefix(ref.base === "root" ? target : relativeRepoPath(scriptNewDir, target)) + trailing;
+
+      let newTarget: string | undefined;
+      if (ref.kind === "file") {
+        newTarget = newPath(ref.target);
+      } else {
+        // A folder keeps working only if everything under it moved together
+        const inside = files.filter((f) => f.path.startsWith(`${ref.target}/`));
+        const roots = new Set(
+          inside.map((f) => {
+            const to = newPath(f.path);
+            const rest = f.path.slice(ref.target.length);
+            return to.endsWith(rest) ? to.slice(0, to.length - rest.length) : "";
+          })
+        );
+        newTarget = roots.size === 1 && !roots.has("") ? [...roots][0] : undefined;
+      }
+
+      // Still resolves to the same place from the script's new location?
+      if (newTarget !== undefined) {
+        const resolvesTo = joinRepoPath(ref.base === "root" ? "" : scriptNewDir, ref.literal);
+        if (resolvesTo === newTarget) continue;
+      }
+
+      const replacement = newTarget !== undefined ? express(newTarget) : undefined;
+      broken.push({
+        file: file.path,
+        line: ref.line,
+        literal: ref.literal,
+        target: ref.target,
+        ...(replacement ? { replacement } : {}),
+        message: replacement
+          ? `"${ref.literal}" should become "${replacement}"`
+          : `"${ref.literal}" points to a folder whose files do not move together; update it by hand`,
+      });
+    }
+  }
+  return broken;
+}
+
+// ── Plan ──
+
+export function buildMovePlan(files: PlanInput[], graph?: EvidenceGraph): MovePlan {
+  const sorted = [...files].sort((a, b) => a.path.localeCompare(b.path));
+  return assembleMovePlan(sorted, sorted.map((f) => proposeMove(f, graph)));
+}
+
+/** The plan for `sorted` (files sorted by path) from their proposeMove entries, in the same order. */
+export function assembleMovePlan(sorted: PlanInput[], entries: PlannedMove[]): MovePlan {
+  const conflicts = findConflicts(entries);
+  orderMoves(entries, conflicts);
+
+  const counts: Record<MoveStatus, number> = { move: 0, keep: 0, conflict: 0, review: 0 };
+  for (const e of entries) counts[e.status]++;
+
+  const referencesChecked = sorted.some((f) => f.references !== undefined);
+  return {
+    entries,
+    conflicts,
+    brokenReferences: referencesChecked ? checkReferences(sorted, entries) : [],
+    referencesChecked,
+    counts,
+  };
+}
+
+/** Text form of a plan, for the LLM. */
+export function formatMovePlan(plan: MovePlan): string {
+  const lines = [
+    `[EOP] ECF restructuring plan: ${plan.counts.move} move(s), ${plan.counts.keep} file(s) stay, ` +
+      `${plan.counts.conflict} conflict(s), ${plan.counts.review} need review.`,
+    "",
+    "ECF directories:",
+    ...ECF_DIRECTORIES.map((d) => `  ${`${d.dir}/`.padEnd(10)} — ${d.description}`),
+  ];
+
+  const section = (title: string, items: string[]) => {
+    if (items.length > 0) lines.push("", title, ...items.map((i) => `  ${i}`));
+  };
+
+  section(
+    "Moves:",
+    plan.entries.filter((e) => e.status === "move").map((e) => `${e.from} → ${e.to}${e.note ? ` (${e.note})` : ""}`)
+  );
+  section(
+    "Conflicts (not moved):",
+    plan.conflicts.map((c) => `${c.paths.join(", ")}: ${c.message}`)
+  );
+  section(
+    "Needs review (proposed, not moved) — confirm with the user or annotate the artifact, then re-run:",
+    plan.entries.filter((e) => e.status === "review").map((e) => `${e.from} → ${e.to} (${e.note})`)
+  );
+
+  if (!plan.referencesChecked) {
+    lines.push("", "Hard-coded paths were not checked (script contents are only available for uploaded archives).");
+  } else {
+    section(
+      "References that will break:",
+      plan.brokenReferences.map((r) => `${r.file}:${r.line} ${r.message}`)
+    );
+  }
+
+  lines.push("", "The user can download the plan as a git mv script or a tree diff from the tool result card.");
+  return lines.join("\n");
+}
+
+// ── Exports ──
+
+const shellQuote = (s: string) => `'${s.replace(/'/g, `'\\''`)}'`;
+
+/** POSIX shell script that performs the moves with `git mv`, run from the repository root. */
+export function movePlanToScript(plan: MovePlan): string {
+  const lines = [
+    "#!/bin/sh",
+    "# ECF restructuring plan. Review, then run from the repository root.",
+    "# Conflicting and unconfirmed moves are commented out.",
+    "set -e",
+    "",
+  ];
+
+  const created = new Set<string>();
+  for (const e of orderMoves(plan.entries.map((e) => ({ ...e })), [])) {
+    const dir = parentDir(e.to);
+    if (dir && !created.has(dir)) {
+      lines.push(`mkdir -p ${shellQuote(dir)}`);
+      created.add(dir);
+    }
+    lines.push(`git mv -- ${shellQuote(e.from)} ${shellQuote(e.to)}`);
+  }
+
+  const commented = (title: string, entries: PlannedMove[], why: (e: PlannedMove) => string | undefined) => {
+    if (entries.length === 0) return;
+    lines.push("", `# ${title}`);
+    for (const e of entries) {
+      const reason = why(e);
+      if (reason) lines.push(`# ${reason}`);
+      lines.push(`# git mv -- ${shellQuote(e.from)} ${shellQuote(e.to)}`);
+    }
+  };
+  commented(
+    "Conflicts:",
+    plan.entries.filter((e) => e.status === "conflict"),
+    (e) => plan.conflicts.find((c) => c.paths.includes(e.from))?.message
+  );
+  commented("Needs review:", plan.entries.filter((e) => e.status === "review"), (e) => e.note);
+
+  if (plan.brokenReferences.length > 0) {
+    lines.push("", "# Update these hard-coded paths after moving:");
+    for (const r of plan.brokenReferences) lines.push(`#   ${r.file}:${r.line} ${r.message}`);
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/** Unified-diff style listing of the file tree: "-old" / "+new" per moved file. */
+export function movePlanToTreeDiff(plan: MovePlan): string {
+  const lines = ["--- before", "+++ after"];
+  for (const e of plan.entries) {
+    if (e.status === "move") {
+      lines.push(`-${e.from}`, `+${e.to}`);
+    } else {
+      lines.push(` ${e.from}`);
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
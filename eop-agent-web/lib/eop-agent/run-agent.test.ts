@@ -0,0 +1,171 @@
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { MockScript } from "@/lib/llm/mock-client";
+import type { AgentEvent } from "@/lib/types";
+import { runAgent } from "./run-agent";
+
+let dir: string;
+const savedDir = process.env.EOP_FIXTURES_DIR;
+
+async function writeScript(name: string, script: MockScript): Promise<void> {
+  await writeFile(path.join(dir, `${name}.mock.json`), JSON.stringify(script));
+}
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "eop-run-agent-"));
+  process.env.EOP_FIXTURES_DIR = dir;
+
+  // Asks for the same listing after every result
+  await writeScript("repeat", {
+    rules: [{ respond: { toolCalls: [{ name: "query_evidence_chain", arguments: {} }] } }],
+  });
+  // Records an artifact, links it to a claim and checks what the chain still lacks
+  await writeScript("annotate-link-check", {
+    rules: [
+      {
+        match: { user: "record" },
+        respond: {
+          toolCalls: [{ name: "annotate_artifact", arguments: { artifact_name: "input/raw.csv", artifact_type: "input_data" } }],
+        },
+      },
+      {
+        match: { tool: "annotate_artifact" },
+        respond: {
+          toolCalls: [
+            { name: "link_to_claim", arguments: { artifact_name: "input/raw.csv", claim_text: "Yield rises with temperature" } },
+          ],
+        },
+      },
+      { match: { tool: "link_to_claim" }, respond: { toolCalls: [{ name: "check_chain_completeness", arguments: {} }] } },
+      { match: { tool: "check_chain_completeness" }, respond: { content: "Recorded and linked; {{tool}} ran." } },
+    ],
+  });
+  // Records an artifact, then has no rule for the tool result: the second LLM call fails
+  await writeScript("fail-after-tool", {
+    rules: [
+      {
+        match: { user: "record" },
+        respond: {
+          toolCalls: [{ name: "annotate_artifact", arguments: { artifact_name: "raw.csv", artifact_type: "input_data" } }],
+        },
+      },
+    ],
+  });
+});
+
+afterAll(async () => {
+  if (savedDir === undefined) delete process.env.EOP_FIXTURES_DIR;
+  else process.env.EOP_FIXTURES_DIR = savedDir;
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("runAgent", () => {
+  it("runs a scripted tool loop end to end", async () => {
+    const events: AgentEvent[] = [];
+    const result = await runAgent(
+      "mock",
+      "",
+      [{ role: "user", content: "Please record input/raw.csv for the yield claim" }],
+      "annotate-link-check",
+      { memory: false, onEvent: (event) => events.push(event) }
+    );
+
+    expect(result.reply.content).toBe("Recorded and linked; check_chain_completeness ran.");
+    expect(result.path).toEqual([
+      "compact",
+      "route",
+      "execute",
+      "validate",
+      "route",
+      "execute",
+      "validate",
+      "route",
+      "execute",
+      "validate",
+      "route",
+      "respond",
+    ]);
+    expect(result.evidenceGraph).toMatchObject({
+      artifacts: [{ id: "A1", name: "input/raw.csv", type: "input_data" }],
+      claims: [{ id: "C1", text: "Yield rises with temperature" }],
+      links: [{ id: "L1", artifactId: "A1", claimId: "C1", type: "supports" }],
+    });
+    expect(result.toolResults.map((r) => [r.toolCallId, r.toolName])).toEqual([
+      ["mock_0_0", "annotate_artifact"],
+      ["mock_1_0", "link_to_claim"],
+      ["mock_2_0", "check_chain_completeness"],
+    ]);
+    expect(result.toolResults[2].data).toMatchObject({ kind: "chain_gaps", report: { totals: { error: 0, warning: 1, info: 1 } } });
+    expect(result.usage).toEqual([
+      { provider: "mock", model: "annotate-link-check", calls: 4, promptTokens: 0, completionTokens: 0 },
+    ]);
+
+    // Each round streams its tool call and result, then ends; the last one streams the answer
+    const progress = events
+      .filter((e) => e.type !== "node")
+      .map((e) =>
+        e.type === "tool_call" ? `call ${e.toolName}` : e.type === "round_end" ? `end ${e.round} (${e.toolCalls})` : e.type
+      );
+    expect(progress).toEqual([
+      "call annotate_artifact",
+      "tool_result",
+      "end 1 (1)",
+      "call link_to_claim",
+      "tool_result",
+      "end 2 (1)",
+      "call check_chain_completeness",
+      "tool_result",
+      "end 3 (1)",
+      "token",
+      "end 4 (0)",
+    ]);
+    expect(events.filter((e) => e.type === "node").map((e) => e.node)).toEqual(result.path);
+  });
+
+  it("blocks a repeated call and stops once no call can run", async () => {
+    const result = await runAgent("mock", "", [{ role: "user", content: "Show the chain" }], "repeat", { memory: false });
+
+    expect(result.toolResults.map((r) => r.data?.kind ?? "ran")).toEqual(["ran", "repeated_call", "repeated_call"]);
+    expect(result.toolResults[1].result).toMatch(/^\[EOP\] Repeated call: query_evidence_chain already ran with these arguments this turn \(call mock_0_0\)/);
+    expect(result.partial).toBe("no tool call could run in the last 2 rounds (rejected or repeated calls)");
+    expect(result.path).toEqual([
+      "compact",
+      "route",
+      "execute",
+      "validate",
+      "route",
+      "execute",
+      "validate",
+      "route",
+      "execute",
+      "validate",
+      "partial",
+    ]);
+    // Blocked calls are not listed as work done
+    expect(result.reply.content).toMatch(/^I had to stop before finishing: no tool call could run/);
+    expect(result.reply.content?.match(/\*\*query_evidence_chain\*\*/g)).toHaveLength(1);
+  });
+
+  it("ends a run whose model call fails mid-run with a partial answer", async () => {
+    const events: string[] = [];
+    const result = await runAgent("mock", "", [{ role: "user", content: "Please record raw.csv" }], "fail-after-tool", {
+      memory: false,
+      onEvent: (event) => events.push(event.type),
+    });
+
+    expect(result.partial).toBe("the model call failed (Mock provider: no rule of the script matches this request.)");
+    expect(result.path).toEqual(["compact", "route", "execute", "validate", "route", "partial"]);
+    expect(result.reply.content).toMatch(/\n\n- \*\*annotate_artifact\*\*: /);
+    // What was recorded before the failure is kept
+    expect(result.evidenceGraph.artifacts).toMatchObject([{ id: "A1", name: "raw.csv", type: "input_data" }]);
+    expect(events).not.toContain("retry"); // not a transient error
+  });
+
+  it("reports a failure before anything was done as an error", async () => {
+    await expect(
+      runAgent("mock", "", [{ role: "user", content: "Hello" }], "fail-after-tool", { memory: false })
+    ).rejects.toThrow("Mock provider: no rule of the script matches this request.");
+  });
+});
@@ -1,21 +1,424 @@
 /**
- * EOP Agent runner — the main agent loop.
+ * EOP Agent runner — the agent loop as an explicit state graph (Lab 4).
  *
- * Implements the Lab 0/4 pattern: prompt → LLM → parse tool_calls → execute → respond.
- * Supports multi-turn (Lab 3) by receiving full conversation history.
- * Includes retry on tool failure (simplified Lab 4 graph: route → execute → respond).
+ *   compact ──▶ route ──tools──▶ execute ──▶ validate ──ok──▶ route
+ *                 │                              └──stuck──▶ partial
+ *                 ├──answer──▶ respond
+ *                 └──limit / error──▶ partial
+ *
+ * compact replaces older turns with a synopsis once the history is over its
+ * budget (see memory.ts); route calls the LLM (falling back to the next configured provider, then
+ * retried with backoff, on transient errors); execute runs
+ * the tool calls (concurrently where they don't change the evidence chain),
+ * rejecting those that break their schema and those repeating
+ * an earlier identical call with nothing changed since (a cycle); validate
+ * decides whether another round is worth it; respond returns the answer and
+ * partial summarizes what was done when the run has to stop early.
+ * Supports multi-turn (Lab 3) by receiving the conversation history; only
+ * the active history (from the latest synopsis on) is sent to the model.
+ * Progress can be observed through `onEvent` (used by the streaming API route),
+ * and every run produces a trace of its LLM and tool calls (see trace.ts).
+ * The evidence chain recorded in earlier turns comes in with the request and the
+ * updated graph is returned, so the chain persists across turns.
  */
 
-import type { ChatMessage, Provider, ToolResult } from "@/lib/types";
-import { callLLM } from "@/lib/llm/adapter";
-import { EOP_SYSTEM_PROMPT } from "./system-prompt";
-import { TOOL_DEFINITIONS, executeTool } from "./tools";
+import type {
+  AgentEvent,
+  ChatMessage,
+  CustomEndpoint,
+  DisclosureScopeDefinition,
+  EvidenceGraph,
+  LLMErrorClass,
+  LLMTarget,
+  ModelUsage,
+  Provider,
+  RepoTree,
+  RunTrace,
+  ToolResult,
+} from "@/lib/types";
+import { TRANSIENT_ERROR_CLASSES, callLLM, classifyLLMError, resolveModel, type LLMResponse } from "@/lib/llm/adapter";
+import { addUsage } from "@/lib/usage";
+import { buildSystemPrompt } from "./system-prompt";
+import { loadDisclosureScopes } from "./load-scopes";
+import { TOOL_DEFINITIONS, changesEvidence, type ToolContext, type ToolOutput } from "./tools";
+import { DEFAULT_TOOL_CONCURRENCY, batchToolCalls, mapConcurrent, runTool } from "./tool-runner";
+import { checkToolCall, formatToolArgumentErrors } from "./tool-schema";
+import { createEvidenceGraph, describeEvidenceGraph, isEvidenceGraphEmpty } from "./evidence-graph";
+import {
+  DEFAULT_MEMORY_BUDGET,
+  SUMMARY_PROMPT,
+  activeHistory,
+  buildSynopsis,
+  estimateTokens,
+  planCompaction,
+  recordedLines,
+  transcript,
+  type MemoryBudget,
+} from "./memory";
+import { createTraceRecorder, type TraceRecorder } from "./trace";
+import { END, ERROR_OUTCOME, runGraph, type AgentGraph, type AgentNode, type GraphState, type RetryPolicy } from "./agent-graph";
+
+const DEFAULT_MAX_ROUNDS = 5; // prevent infinite tool-call loops (Lab 4: termination)
+const MAX_STALLED_ROUNDS = 2; // rounds in a row in which no tool call ran
 
-const MAX_TOOL_ROUNDS = 5; // prevent infinite tool-call loops (Lab 4: termination)
+/** LLM calls are retried on rate limits, server errors and dropped connections, not on bad keys. */
+const LLM_RETRY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 8000,
+  retryOn: (err) => TRANSIENT_ERROR_CLASSES.includes(classifyLLMError(err)),
+};
 
 export interface AgentRunResult {
   reply: ChatMessage;
   toolResults: ToolResult[];
+  evidenceGraph: EvidenceGraph;
+  path: string[]; // nodes visited, in order
+  partial?: string; // why the run stopped early, when the reply is a partial answer
+  answeredBy?: { provider: Provider; model: string }; // provider of the last LLM response
+  compaction?: ChatMessage; // synopsis that replaced older turns in this run
+  usage: ModelUsage[]; // tokens of every LLM call in the run, per provider and model
+  trace: RunTrace;
+}
+
+/** Fixed for the whole run; custom nodes can use it to call the LLM themselves. */
+export interface AgentRuntime {
+  provider: Provider;
+  apiKey: string;
+  model?: string;
+  endpoint?: CustomEndpoint; // of the "custom" provider
+  fallback: LLMTarget[]; // tried in order when the provider fails with a `fallbackOn` error
+  fallbackOn?: LLMErrorClass[];
+  maxRounds: number;
+  toolConcurrency: number;
+  memory: MemoryBudget | null; // null: never compact
+  signal?: AbortSignal;
+  onEvent: (event: AgentEvent) => void; // the caller's onEvent and the trace
+  streamTokens: boolean; // the caller passed onEvent: LLM responses are streamed
+  trace: TraceRecorder;
+}
+
+/** State shared by the nodes of one run. */
+export interface AgentState extends GraphState {
+  runtime: AgentRuntime;
+  messages: ChatMessage[];
+  historyStart: number; // index of the first history message (after the system messages)
+  compaction?: ChatMessage;
+  ctx: ToolContext;
+  toolResults: ToolResult[];
+  round: number; // LLM calls made
+  response?: LLMResponse; // of the latest LLM call
+  usage: ModelUsage[];
+  answeredBy?: LLMTarget; // after a fallback, later rounds start with this provider
+  executedThisRound: number; // tool calls that actually ran in the latest round
+  stalledRounds: number;
+  seenCalls: Map<string, { toolCallId: string; graphAfter: string }>; // call signature → earlier run
+  reply?: ChatMessage;
+  partial?: string;
+}
+
+export interface RunAgentOptions {
+  /** Receives progress events; when set, LLM responses are streamed token by token. */
+  onEvent?: (event: AgentEvent) => void;
+  /** Evidence chain recorded so far; a fresh conversation-scoped graph if omitted. */
+  evidenceGraph?: EvidenceGraph;
+  /** File tree of an uploaded repository archive, for the classification tools. */
+  repoTree?: RepoTree;
+  /** Disclosure scope registry; loaded from EOP_DISCLOSURE_SCOPES_FILE if omitted. */
+  scopes?: DisclosureScopeDefinition[];
+  /** Base URL and headers of the "custom" provider (an OpenAI-compatible server of your own). */
+  endpoint?: CustomEndpoint;
+  /** Other providers to try, in order, when the provider fails (rate limit, server error, …). */
+  fallback?: LLMTarget[];
+  /** Error classes that switch to the next provider; default rate_limit, server, timeout, network. */
+  fallbackOn?: LLMErrorClass[];
+  /** Tool calls from one assistant message that may run at the same time (default 4). */
+  toolConcurrency?: number;
+  /** Cancels the run: running tools are stopped and no further LLM call is made. */
+  signal?: AbortSignal;
+  /** When to summarize older turns (default DEFAULT_MEMORY_BUDGET); false never compacts. */
+  memory?: Partial<MemoryBudget> | false;
+  /** LLM calls that may request tools before the run stops with a partial answer (default 5). */
+  maxRounds?: number;
+  /** Change the default graph, e.g. insertNode() a verification step before respond. */
+  customizeGraph?: (graph: AgentGraph<AgentState>) => AgentGraph<AgentState>;
+  /** Receives the run's trace (keys redacted) when the run ends, whether it succeeded or failed. */
+  onTrace?: (trace: RunTrace) => void | Promise<void>;
+}
+
+// ── Nodes ──
+
+/** Tool name plus arguments with sorted keys, so key order doesn't hide a repeat. */
+function callSignature(toolName: string, args: Record<string, unknown>): string {
+  const sorted = Object.fromEntries(Object.entries(args).sort(([a], [b]) => a.localeCompare(b)));
+  return `${toolName}:${JSON.stringify(sorted)}`;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/** The fallback chain for the next LLM call: after a fallback, the provider that answered comes first. */
+function llmChain(state: AgentState): LLMTarget[] {
+  const { runtime } = state;
+  const primary: LLMTarget = {
+    provider: runtime.provider,
+    apiKey: runtime.apiKey,
+    model: runtime.model,
+    ...(runtime.endpoint ? { endpoint: runtime.endpoint } : {}),
+  };
+  return [...(state.answeredBy ? [state.answeredBy] : []), primary, ...runtime.fallback];
+}
+
+const compact: AgentNode<AgentState> = {
+  name: "compact",
+  run: async (state) => {
+    const { runtime } = state;
+    const history = state.messages.slice(state.historyStart);
+    const plan = runtime.memory && planCompaction(history, runtime.memory);
+    if (!plan) return "kept";
+
+    // Without a summary the run goes on with the full history, as it would without compaction
+    let summary: string;
+    try {
+      const [first, ...rest] = llmChain(state);
+      const response = await callLLM({
+        ...first,
+        messages: [
+          { role: "system", content: SUMMARY_PROMPT },
+          { role: "user", content: transcript(plan.summarize) },
+        ],
+        signal: runtime.signal,
+        fallback: { targets: rest, switchOn: runtime.fallbackOn },
+        hooks: runtime.trace.llmHooks,
+      });
+      state.usage = addUsage(state.usage, response);
+      summary = response.content?.trim() || "(The model returned no summary.)";
+    } catch {
+      return "kept";
+    }
+
+    const recorded = recordedLines(
+      plan.summarize.flatMap((m) => m.toolResults ?? []),
+      (result) => changesEvidence(result.toolName, result.arguments)
+    );
+    const synopsis = buildSynopsis(plan.summarize, summary, recorded, estimateTokens(plan.summarize));
+    state.messages.splice(state.historyStart, plan.summarize.length, synopsis);
+    state.compaction = synopsis;
+    runtime.onEvent({ type: "compaction", round: state.round, compaction: synopsis.compaction! });
+    return "compacted";
+  },
+};
+
+const route: AgentNode<AgentState> = {
+  name: "route",
+  retry: LLM_RETRY,
+  run: async (state) => {
+    const { runtime } = state;
+    runtime.signal?.throwIfAborted();
+    if (state.round >= runtime.maxRounds) {
+      state.partial = `reached the limit of ${runtime.maxRounds} tool rounds`;
+      return "limit";
+    }
+
+    const round = state.round + 1; // committed only once the call succeeds, so a retry reuses it
+    const chain = llmChain(state); // callLLM skips the duplicate when answeredBy is the primary
+    const [first, ...rest] = chain;
+    const response = await callLLM({
+      ...first,
+      messages: state.messages,
+      tools: TOOL_DEFINITIONS,
+      onDelta: runtime.streamTokens ? (delta) => runtime.onEvent({ type: "token", round, delta }) : undefined,
+      signal: runtime.signal,
+      hooks: runtime.trace.llmHooks,
+      fallback: {
+        targets: rest,
+        switchOn: runtime.fallbackOn,
+        onSwitch: (from, to, errorClass, err) =>
+          runtime.onEvent({
+            type: "fallback",
+            round,
+            from: from.provider,
+            to: to.provider,
+            errorClass,
+            error: errorMessage(err),
+          }),
+      },
+    });
+    state.round = round;
+    state.response = response;
+    state.usage = addUsage(state.usage, response);
+    state.answeredBy = chain.find(
+      (t) => t.provider === response.provider && resolveModel(t.provider, t.model) === response.model
+    );
+
+    if (!response.toolCalls || response.toolCalls.length === 0) {
+      runtime.onEvent({ type: "round_end", round, toolCalls: 0 });
+      return "answer";
+    }
+
+    // The assistant message with tool_calls (add to messages for next round)
+    state.messages.push({ role: "assistant", content: response.content, tool_calls: response.toolCalls });
+    return "tools";
+  },
+};
+
+const execute: AgentNode<AgentState> = {
+  name: "execute",
+  run: async (state) => {
+    const { runtime, ctx } = state;
+    state.executedThisRound = 0;
+
+    // Calls that break the tool's schema are not run; the errors go back to the model
+    const calls = (state.response?.toolCalls ?? []).map((tc) => ({
+      tc,
+      ...checkToolCall(TOOL_DEFINITIONS, tc.function.name, tc.function.arguments),
+    }));
+
+    for (const batch of batchToolCalls(calls, (call) => ({ toolName: call.tc.function.name, args: call.args }))) {
+      // Decide what runs before the batch starts: only a lone mutating call changes the chain
+      const graphBefore = JSON.stringify(ctx.graph);
+      const planned = batch.map(({ tc, args, errors }) => {
+        runtime.onEvent({
+          type: "tool_call",
+          round: state.round,
+          toolCallId: tc.id,
+          toolName: tc.function.name,
+          arguments: args,
+        });
+
+        const signature = callSignature(tc.function.name, args);
+        const earlier = state.seenCalls.get(signature);
+        let output: ToolOutput | undefined;
+        if (errors.length > 0) {
+          output = {
+            content: formatToolArgumentErrors(TOOL_DEFINITIONS, tc.function.name, errors),
+            data: { kind: "invalid_arguments", errors },
+          };
+        } else if (earlier && earlier.graphAfter === graphBefore) {
+          // Same call, same evidence chain: it would return the same result again
+          output = {
+            content:
+              `[EOP] Repeated call: ${tc.function.name} already ran with these arguments this turn ` +
+              `(call ${earlier.toolCallId}) and nothing has changed since, so it was not run again. ` +
+              "Use that result, or answer the user.",
+            data: { kind: "repeated_call", firstCallId: earlier.toolCallId },
+          };
+        } else {
+          state.seenCalls.set(signature, { toolCallId: tc.id, graphAfter: graphBefore });
+        }
+        return { tc, args, signature, output };
+      });
+
+      const results = await mapConcurrent(planned, runtime.toolConcurrency, async (call) => {
+        let output = call.output;
+        if (!output) {
+          output = await runTool(call.tc.function.name, call.args, ctx, { signal: runtime.signal });
+          state.executedThisRound++;
+        }
+        const toolResult: ToolResult = {
+          toolName: call.tc.function.name,
+          toolCallId: call.tc.id,
+          arguments: call.args,
+          result: output.content,
+          ...(output.data ? { data: output.data } : {}),
+        };
+        runtime.onEvent({ type: "tool_result", round: state.round, result: toolResult });
+        return toolResult;
+      });
+
+      const graphAfter = JSON.stringify(ctx.graph);
+      for (const call of planned) {
+        if (!call.output) state.seenCalls.set(call.signature, { toolCallId: call.tc.id, graphAfter });
+      }
+
+      // Results go back in call order, whatever order the calls finished in
+      for (const toolResult of results) {
+        state.toolResults.push(toolResult);
+        // Add tool result message (Lab 4: pass result back for next LLM turn)
+        state.messages.push({
+          role: "tool",
+          content: toolResult.result,
+          tool_call_id: toolResult.toolCallId,
+          name: toolResult.toolName,
+        });
+      }
+    }
+    return "done";
+  },
+};
+
+const validate: AgentNode<AgentState> = {
+  name: "validate",
+  run: async (state) => {
+    state.runtime.onEvent({
+      type: "round_end",
+      round: state.round,
+      toolCalls: state.response?.toolCalls?.length ?? 0,
+    });
+
+    // A round in which every call was rejected or repeated made no progress
+    state.stalledRounds = state.executedThisRound === 0 ? state.stalledRounds + 1 : 0;
+    if (state.stalledRounds >= MAX_STALLED_ROUNDS) {
+      state.partial = `no tool call could run in the last ${state.stalledRounds} rounds (rejected or repeated calls)`;
+      return "stuck";
+    }
+    return "ok";
+  },
+};
+
+const respond: AgentNode<AgentState> = {
+  name: "respond",
+  run: async (state) => {
+    state.reply = {
+      role: "assistant",
+      content: state.response?.content || "I'm not sure how to respond to that. Could you rephrase?",
+    };
+    return "done";
+  },
+};
+
+const partial: AgentNode<AgentState> = {
+  name: "partial",
+  run: async (state) => {
+    // With nothing done yet there is nothing to salvage: report the failure itself
+    if (state.failure && state.toolResults.length === 0) throw state.failure.error;
+    if (state.runtime.signal?.aborted) state.partial = "the run was cancelled";
+    else if (state.failure) state.partial = `the model call failed (${errorMessage(state.failure.error)})`;
+
+    const done = state.toolResults.filter(
+      (r) => r.data?.kind !== "invalid_arguments" && r.data?.kind !== "repeated_call"
+    );
+    state.reply = {
+      role: "assistant",
+      content:
+        `I had to stop before finishing: ${state.partial ?? "the run ended early"}. ` +
+        (done.length > 0
+          ? `Here's a summary of what was done:\n\n${done.map((r) => `- **${r.toolName}**: ${r.result}`).join("\n")}`
+          : "No tool call completed, so nothing was changed."),
+    };
+    return "done";
+  },
+};
+
+/** The default EOP agent graph. */
+export function createAgentGraph(): AgentGraph<AgentState> {
+  return {
+    start: "compact",
+    nodes: { compact, route, execute, validate, respond, partial },
+    edges: {
+      compact: { kept: "route", compacted: "route" },
+      route: { tools: "execute", answer: "respond", limit: "partial", [ERROR_OUTCOME]: "partial" },
+      execute: { done: "validate" },
+      validate: { ok: "route", stuck: "partial" },
+      respond: { done: END },
+      partial: { done: END },
+    },
+  };
+}
+
+function headerValues(endpoint: CustomEndpoint | undefined): string[] {
+  return Object.values(endpoint?.headers ?? {});
 }
 
 /**
@@ -23,97 +426,120 @@ export interface AgentRunResult {
  *
  * @param provider  - which LLM provider to use
  * @param apiKey    - the API key for that provider
- * @param history   - conversation history (user + assistant turns, no system)
+ * @param history   - conversation history (user + assistant turns and earlier synopses, no system prompt)
  * @param model     - optional model override
+ * @param options   - optional progress callback, evidence chain, repo tree, scope registry,
+ *                    fallback providers, memory budget, graph changes and a trace callback
  */
 export async function runAgent(
   provider: Provider,
   apiKey: string,
   history: ChatMessage[],
-  model?: string
+  model?: string,
+  options: RunAgentOptions = {}
 ): Promise<AgentRunResult> {
+  const trace = createTraceRecorder({
+    provider,
+    model: resolveModel(provider, model),
+    history,
+    secrets: [
+      apiKey,
+      ...headerValues(options.endpoint), // endpoint headers often carry credentials too
+      ...(options.fallback ?? []).flatMap((t) => [t.apiKey, ...headerValues(t.endpoint)]),
+    ],
+  });
+  const onEvent = (event: AgentEvent) => {
+    trace.onEvent(event);
+    options.onEvent?.(event);
+  };
+
+  const scopes = options.scopes ?? loadDisclosureScopes();
+
+  // Work on a copy so the caller's graph is untouched if the run fails
+  const ctx: ToolContext = {
+    graph: options.evidenceGraph
+      ? structuredClone(options.evidenceGraph)
+      : createEvidenceGraph({ kind: "conversation", id: crypto.randomUUID() }),
+    repoTree: options.repoTree,
+    scopes,
+  };
+
   // Build the full message list with system prompt
   const messages: ChatMessage[] = [
-    { role: "system", content: EOP_SYSTEM_PROMPT },
-    ...history,
+    { role: "system", content: buildSystemPrompt(scopes) },
   ];
+  if (!isEvidenceGraphEmpty(ctx.graph)) {
+    // Let the model see the chain as it stands, including edits made in the UI
+    messages.push({
+      role: "system",
+      content: `CURRENT EVIDENCE CHAIN (use these ids with the evidence tools):\n${describeEvidenceGraph(ctx.graph)}`,
+    });
+  }
+  if (ctx.repoTree) {
+    messages.push({
+      role: "system",
+      content:
+        `UPLOADED REPOSITORY: "${ctx.repoTree.archiveName}" with ${ctx.repoTree.files.length} file(s). ` +
+        "To work on it, call classify_repo_artifacts or suggest_directory_structure without a file listing.",
+    });
+  }
+  const historyStart = messages.length;
+  messages.push(...activeHistory(history));
 
-  const toolResults: ToolResult[] = [];
-  let rounds = 0;
-
-  while (rounds < MAX_TOOL_ROUNDS) {
-    rounds++;
-
-    const response = await callLLM({
+  const state: AgentState = {
+    path: [],
+    runtime: {
       provider,
       apiKey,
-      messages,
-      tools: TOOL_DEFINITIONS,
       model,
-    });
-
-    // If no tool calls, return the text response
-    if (!response.toolCalls || response.toolCalls.length === 0) {
-      return {
-        reply: {
-          role: "assistant",
-          content: response.content || "I'm not sure how to respond to that. Could you rephrase?",
-        },
-        toolResults,
-      };
-    }
-
-    // The assistant message with tool_calls (add to messages for next round)
-    const assistantMsg: ChatMessage = {
-      role: "assistant",
-      content: response.content,
-      tool_calls: response.toolCalls,
-    };
-    messages.push(assistantMsg);
-
-    // Execute each tool call and add results as tool messages
-    for (const tc of response.toolCalls) {
-      let args: Record<string, unknown> = {};
-      try {
-        args = JSON.parse(tc.function.arguments);
-      } catch {
-        args = { _raw: tc.function.arguments };
-      }
-
-      let result: string;
-      try {
-        result = executeTool(tc.function.name, args);
-      } catch (err) {
-        result = `[EOP] Tool execution error: ${err instanceof Error ? err.message : String(err)}`;
-      }
-
-      toolResults.push({
-        toolName: tc.function.name,
-        toolCallId: tc.id,
-        arguments: args,
-        result,
-      });
-
-      // Add tool result message (Lab 4: pass result back for next LLM turn)
-      messages.push({
-        role: "tool",
-        content: result,
-        tool_call_id: tc.id,
-        name: tc.function.name,
-      });
-    }
+      endpoint: options.endpoint,
+      fallback: options.fallback ?? [],
+      fallbackOn: options.fallbackOn,
+      maxRounds: options.maxRounds ?? DEFAULT_MAX_ROUNDS,
+      toolConcurrency: options.toolConcurrency ?? DEFAULT_TOOL_CONCURRENCY,
+      memory: options.memory === false ? null : { ...DEFAULT_MEMORY_BUDGET, ...options.memory },
+      signal: options.signal,
+      onEvent,
+      streamTokens: options.onEvent !== undefined,
+      trace,
+    },
+    messages,
+    historyStart,
+    ctx,
+    toolResults: [],
+    usage: [],
+    round: 0,
+    executedThisRound: 0,
+    stalledRounds: 0,
+    seenCalls: new Map(),
+  };
 
-    // Loop: the LLM will see the tool results and either call more tools or respond
+  const graph = options.customizeGraph ? options.customizeGraph(createAgentGraph()) : createAgentGraph();
+  try {
+    await runGraph(graph, state, {
+      onNode: (node) => onEvent({ type: "node", round: state.round, node }),
+      onRetry: (node, attempt, delayMs, err) =>
+        onEvent({ type: "retry", round: state.round + 1, node, attempt, delayMs, error: errorMessage(err) }),
+      signal: options.signal,
+    });
+  } catch (error) {
+    await options.onTrace?.(trace.finish({ error, path: state.path, usage: state.usage }));
+    throw error;
   }
 
-  // If we exhausted rounds, return whatever we have
+  const reply = state.reply ?? { role: "assistant", content: "The agent finished without a reply." };
+  const runTrace = trace.finish({ reply, partial: state.partial, path: state.path, usage: state.usage });
+  await options.onTrace?.(runTrace);
+
   return {
-    reply: {
-      role: "assistant",
-      content:
-        "I've completed the maximum number of tool operations. Here's a summary of what was done:\n\n" +
-        toolResults.map((r) => `- **${r.toolName}**: ${r.result}`).join("\n"),
-    },
-    toolResults,
+    reply,
+    toolResults: state.toolResults,
+    evidenceGraph: ctx.graph,
+    path: state.path,
+    ...(state.partial ? { partial: state.partial } : {}),
+    ...(state.compaction ? { compaction: state.compaction } : {}),
+    usage: state.usage,
+    trace: runTrace,
+    ...(state.response ? { answeredBy: { provider: state.response.provider, model: state.response.model } } : {}),
   };
 }
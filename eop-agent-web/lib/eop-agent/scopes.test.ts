@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import type { DisclosureScopeDefinition } from "@/lib/types";
+import {
+  BUILT_IN_SCOPES,
+  parseScopeDefinitions,
+  requiredArtifactsFor,
+  resolveScopes,
+  selectScope,
+  type ScopeSituation,
+} from "./scopes";
+
+const situation = (claim: string, strength: ScopeSituation["strength"], axes = 0): ScopeSituation => ({ claim, strength, axes });
+
+describe("parseScopeDefinitions", () => {
+  it("converts a snake_case file", () => {
+    const result = parseScopeDefinitions({
+      scopes: [
+        {
+          id: "regulated",
+          label: "Regulated",
+          explanation: "What a regulator asks for.",
+          breadth: 4,
+          extends: "full",
+          required_artifacts: [{ type: "documentation", description: "Validation report" }],
+          applicability: { strengths: ["distributional"], min_axes: 1, when_claim_mentions: ["\\bFDA\\b"] },
+        },
+      ],
+    });
+    expect(result).toEqual({
+      ok: true,
+      scopes: [
+        {
+          id: "regulated",
+          label: "Regulated",
+          explanation: "What a regulator asks for.",
+          breadth: 4,
+          extends: "full",
+          requiredArtifacts: [{ type: "documentation", description: "Validation report" }],
+          applicability: { strengths: ["distributional"], minAxes: 1, whenClaimMentions: ["\\bFDA\\b"] },
+        },
+      ],
+    });
+  });
+
+  it("reports every problem by path", () => {
+    const result = parseScopeDefinitions({
+      scopes: [
+        {
+          id: "Team-Level",
+          label: "",
+          explanation: "x",
+          breadth: "wide",
+          extends: "nowhere",
+          required_artifacts: [{ type: "dataset", description: "" }, "code"],
+          applicability: { strengths: ["sometimes"], max_axes: -1, when_claim_mentions: ["(unclosed", 3] },
+        },
+        { id: "minimal_plus", label: "M+", explanation: "x", breadth: 1, required_artifacts: {} },
+        { id: "minimal_plus", label: "M+", explanation: "x", breadth: 1, required_artifacts: [] },
+      ],
+    });
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.issues.map((i) => i.path)).toEqual([
+      "scopes[0].id",
+      "scopes[0].label",
+      "scopes[0].breadth",
+      "scopes[0].required_artifacts[0].type",
+      "scopes[0].required_artifacts[0].description",
+      "scopes[0].required_artifacts[1]",
+      "scopes[0].applicability.strengths",
+      "scopes[0].applicability.max_axes",
+      "scopes[0].applicability.when_claim_mentions[0]",
+      "scopes[0].applicability.when_claim_mentions[1]",
+      "scopes[1].required_artifacts",
+      "scopes[2].id",
+      "scopes[0].extends",
+    ]);
+    expect(result.issues.find((i) => i.path === "scopes[0].extends")?.message).toBe('unknown scope "nowhere"');
+    expect(result.issues.find((i) => i.path === "scopes[2].id")?.message).toBe('duplicate id "minimal_plus"');
+    expect(result.issues.find((i) => i.path === "scopes[0].applicability.when_claim_mentions[0]")?.message).toMatch(
+      /^invalid regular expression \(/
+    );
+  });
+
+  it("rejects a document without a scopes array", () => {
+    expect(parseScopeDefinitions({ levels: [] })).toEqual({
+      ok: false,
+      issues: [{ path: "(document)", message: "must be an object with a scopes array" }],
+    });
+  });
+});
+
+describe("requiredArtifactsFor", () => {
+  it("collects the extends chain, narrowest level first", () => {
+    const descriptions = requiredArtifactsFor(BUILT_IN_SCOPES, "full").map((r) => r.description);
+    expect(descriptions).toHaveLength(3 + 5 + 3);
+    expect(descriptions[0]).toBe("Key code for one runnable path that produces the claimed result");
+    expect(descriptions.at(-1)).toBe("Exact environment (lock file or container) and hardware notes");
+  });
+
+  it("stops at a cycle", () => {
+    const scopes: DisclosureScopeDefinition[] = [
+      { id: "a", label: "A", explanation: "", breadth: 1, extends: "b", requiredArtifacts: [{ type: "input_data", description: "a" }], applicability: {} },
+      { id: "b", label: "B", explanation: "", breadth: 2, extends: "a", requiredArtifacts: [{ type: "output_data", description: "b" }], applicability: {} },
+    ];
+    expect(requiredArtifactsFor(scopes, "a").map((r) => r.description)).toEqual(["b", "a"]);
+    expect(requiredArtifactsFor(scopes, "missing")).toEqual([]);
+  });
+});
+
+describe("selectScope", () => {
+  it("picks the broadest level that fits the strength and axes", () => {
+    expect(selectScope(BUILT_IN_SCOPES, situation("We can do X.", "existential")).chosen.id).toBe("minimal");
+    expect(selectScope(BUILT_IN_SCOPES, situation("X holds across datasets.", "distributional", 1)).chosen.id).toBe("standard");
+    expect(selectScope(BUILT_IN_SCOPES, situation("X holds across datasets, on average.", "distributional", 2)).chosen.id).toBe("full");
+  });
+
+  it("prefers audit_only when the claim mentions a constraint it covers", () => {
+    const { chosen, candidates } = selectScope(
+      BUILT_IN_SCOPES,
+      situation("X holds across datasets, on average, but the data is proprietary.", "distributional", 2)
+    );
+    expect(chosen.id).toBe("audit_only");
+    expect(candidates.find((c) => c.id === "audit_only")).toEqual({
+      id: "audit_only",
+      label: "Audit only",
+      applies: true,
+      reason: 'claim mentions "proprietary"',
+    });
+    expect(candidates.find((c) => c.id === "full")?.applies).toBe(true);
+  });
+
+  it("leaves audit_only out without a constraint", () => {
+    const { candidates } = selectScope(BUILT_IN_SCOPES, situation("We can do X.", "existential"));
+    expect(candidates.find((c) => c.id === "audit_only")).toMatchObject({
+      applies: false,
+      reason: "the claim mentions no constraint it covers",
+    });
+  });
+});
+
+describe("resolveScopes", () => {
+  it("lets a team level replace a built-in and orders broadest first", () => {
+    const custom: DisclosureScopeDefinition = {
+      id: "minimal",
+      label: "Team minimal",
+      explanation: "Ours.",
+      breadth: 1,
+      requiredArtifacts: [],
+      applicability: { strengths: ["existential"] },
+    };
+    const scopes = resolveScopes([custom]);
+    expect(scopes.map((s) => s.id)).toEqual(["full", "audit_only", "standard", "minimal"]);
+    expect(scopes.at(-1)).toMatchObject({ label: "Team minimal", builtIn: false });
+  });
+});
@@ -0,0 +1,328 @@
+/**
+ * Disclosure scope registry — the levels advise_disclosure_scope can
+ * recommend, each with its required artifacts, applicability rules and
+ * explanation text. The same registry drives the tool, the system prompt's
+ * scope section and the UI.
+ *
+ * minimal / standard / full and Lab 6's audit_only ship built in. Teams add or
+ * override levels with a JSON/YAML file (see lib/eop-agent/load-scopes.ts); the
+ * file format is snake_case, like the ECF manifest.
+ */
+
+import type {
+  ClaimStrength,
+  DisclosureScopeDefinition,
+  RequiredArtifact,
+  ScopeApplicability,
+  ScopeCandidate,
+} from "@/lib/types";
+import { isEcfArtifactType } from "./evidence-graph";
+
+export const BUILT_IN_SCOPES: DisclosureScopeDefinition[] = [
+  {
+    id: "minimal",
+    label: "Minimal",
+    explanation: "One runnable path, key code and one reported result; enough to verify the claim exists.",
+    breadth: 1,
+    requiredArtifacts: [
+      { type: "experimental_process", description: "Key code for one runnable path that produces the claimed result" },
+      { type: "output_data", description: "The reported result itself" },
+      { type: "documentation", description: "Entry document with the command that reproduces it" },
+    ],
+    applicability: { strengths: ["existential"] },
+    builtIn: true,
+  },
+  {
+    id: "standard",
+    label: "Standard",
+    explanation: "Code, data (or access) and documentation, so an independent party can reproduce and slightly vary the setup.",
+    breadth: 2,
+    extends: "minimal",
+    requiredArtifacts: [
+      { type: "input_data", description: "Input data (or access instructions) used for the result" },
+      { type: "plotting_process", description: "Code that turns outputs into the reported figures/tables" },
+      { type: "visual_data", description: "Data behind each figure/table" },
+      { type: "visual_claims", description: "The figures/tables the claim is read from" },
+      { type: "documentation", description: "Environment and dependency specification" },
+    ],
+    applicability: { strengths: ["distributional", "unclear"], maxAxes: 1 },
+    builtIn: true,
+  },
+  {
+    id: "full",
+    label: "Full",
+    explanation: "Everything needed to assess reliability: multiple runs, seeds/splits, environment and dependencies.",
+    breadth: 3,
+    extends: "standard",
+    requiredArtifacts: [
+      { type: "experimental_process", description: "Configuration for every run (seeds, splits, hyperparameters), ablations" },
+      { type: "output_data", description: "Results of all runs, including failed or discarded ones" },
+      { type: "documentation", description: "Exact environment (lock file or container) and hardware notes" },
+    ],
+    applicability: { strengths: ["distributional", "unclear"], minAxes: 2 },
+    builtIn: true,
+  },
+  {
+    id: "audit_only",
+    label: "Audit only",
+    explanation: "Code and configuration available for audit or under NDA, not public; for legal or proprietary constraints.",
+    breadth: 2,
+    requiredArtifacts: [
+      { type: "experimental_process", description: "Code and configuration, deposited with auditors or available under NDA" },
+      { type: "input_data", description: "Auditable intermediate data, or a restricted functional-equivalent implementation" },
+      { type: "output_data", description: "Reported results with hash values, so withheld materials can be verified later" },
+      { type: "documentation", description: "What is withheld and why, and how auditors request access" },
+    ],
+    applicability: {
+      whenClaimMentions: [
+        "\\bproprietary\\b",
+        "\\b(cannot|can't|can ?not|unable to) (be )?(publicly )?(release|share|disclose|publish)",
+        "\\bnot (be )?(publicly )?(released|shared|disclosed|available)",
+        "\\bNDA\\b|non-disclosure",
+        "\\bconfidential\\b|\\btrade secrets?\\b",
+        "\\bexport[- ]control",
+        "\\b(patient|clinical|personal|private) data\\b|\\bprivacy\\b",
+        "\\blicen[cs]e (restrictions?|terms) (prevent|forbid|prohibit)",
+      ],
+    },
+    builtIn: true,
+  },
+];
+
+/**
+ * Merge team levels into the built-ins: a custom level with a built-in id
+ * replaces it, any other id is added. Ordered broadest first.
+ */
+export function resolveScopes(custom: DisclosureScopeDefinition[] = []): DisclosureScopeDefinition[] {
+  const byId = new Map(BUILT_IN_SCOPES.map((s) => [s.id, s]));
+  for (const scope of custom) byId.set(scope.id, { ...scope, builtIn: false });
+  return [...byId.values()].sort((a, b) => b.breadth - a.breadth || a.id.localeCompare(b.id));
+}
+
+export function findScope(scopes: DisclosureScopeDefinition[], id: string): DisclosureScopeDefinition | undefined {
+  return scopes.find((s) => s.id === id);
+}
+
+/** A level's own artifacts after everything it extends, narrowest level first. */
+export function requiredArtifactsFor(scopes: DisclosureScopeDefinition[], id: string): RequiredArtifact[] {
+  const chain: DisclosureScopeDefinition[] = [];
+  for (let scope = findScope(scopes, id); scope && !chain.includes(scope); scope = scope.extends ? findScope(scopes, scope.extends) : undefined) {
+    chain.unshift(scope);
+  }
+  return chain.flatMap((s) => s.requiredArtifacts);
+}
+
+// ── Applicability ──
+
+/** What the claim analysis found, as seen by the applicability rules. */
+export interface ScopeSituation {
+  claim: string;
+  strength: ClaimStrength | "unclear";
+  axes: number; // distinct kinds of distributional cue
+}
+
+export interface ScopeMention {
+  scopeId: string;
+  text: string;
+  start: number;
+  end: number;
+}
+
+/** Phrases in the claim that trigger a level's whenClaimMentions rule. */
+export function findScopeMentions(scopes: DisclosureScopeDefinition[], claim: string): ScopeMention[] {
+  const mentions: ScopeMention[] = [];
+  for (const scope of scopes) {
+    for (const source of scope.applicability.whenClaimMentions ?? []) {
+      for (const match of claim.matchAll(new RegExp(source, "gi"))) {
+        const start = match.index ?? 0;
+        mentions.push({ scopeId: scope.id, text: match[0], start, end: start + match[0].length });
+      }
+    }
+  }
+  return mentions;
+}
+
+function checkApplicability(
+  rules: ScopeApplicability,
+  situation: ScopeSituation,
+  mentions: ScopeMention[]
+): { applies: boolean; reason: string } {
+  if (rules.strengths && !rules.strengths.includes(situation.strength)) {
+    return { applies: false, reason: `for ${rules.strengths.join(" or ")} claims` };
+  }
+  if (rules.minAxes !== undefined && situation.axes < rules.minAxes) {
+    return { applies: false, reason: `needs ${rules.minAxes}+ kinds of distributional cue (found ${situation.axes})` };
+  }
+  if (rules.maxAxes !== undefined && situation.axes > rules.maxAxes) {
+    return { applies: false, reason: `for at most ${rules.maxAxes} kind(s) of distributional cue (found ${situation.axes})` };
+  }
+  if (rules.whenClaimMentions) {
+    if (mentions.length === 0) return { applies: false, reason: "the claim mentions no constraint it covers" };
+    return { applies: true, reason: `claim mentions ${mentions.map((m) => `"${m.text}"`).join(", ")}` };
+  }
+  return {
+    applies: true,
+    reason: rules.strengths ? `fits a${/^[aeiou]/.test(situation.strength) ? "n" : ""} ${situation.strength} claim` : "always applies",
+  };
+}
+
+/**
+ * Evaluate every level. Levels triggered by something the claim mentions win
+ * over general ones; otherwise the broadest fitting level is chosen. When
+ * nothing fits, the broadest level is used.
+ */
+export function selectScope(
+  scopes: DisclosureScopeDefinition[],
+  situation: ScopeSituation
+): { chosen: DisclosureScopeDefinition; candidates: ScopeCandidate[] } {
+  const mentions = findScopeMentions(scopes, situation.claim);
+  const evaluated = scopes.map((scope) => ({
+    scope,
+    ...checkApplicability(scope.applicability, situation, mentions.filter((m) => m.scopeId === scope.id)),
+  }));
+
+  const fitting = evaluated.filter((e) => e.applies);
+  const triggered = fitting.filter((e) => e.scope.applicability.whenClaimMentions);
+  const pool = triggered.length > 0 ? triggered : fitting;
+  const chosen =
+    pool.sort((a, b) => b.scope.breadth - a.scope.breadth)[0]?.scope ??
+    [...scopes].sort((a, b) => b.breadth - a.breadth)[0];
+
+  return {
+    chosen,
+    candidates: evaluated.map((e) => ({ id: e.scope.id, label: e.scope.label, applies: e.applies, reason: e.reason })),
+  };
+}
+
+/** The scope section of the system prompt. */
+export function describeScopesForPrompt(scopes: DisclosureScopeDefinition[]): string {
+  const lines = scopes
+    .slice()
+    .sort((a, b) => a.breadth - b.breadth || a.id.localeCompare(b.id))
+    .map((s) => `- **${s.label}** (\`${s.id}\`): ${s.explanation}`);
+  return `Disclosure scope levels:\n${lines.join("\n")}`;
+}
+
+// ── Custom level files ──
+
+export interface ScopeIssue {
+  path: string; // e.g. "scopes[2].required_artifacts[0].type"
+  message: string;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+/**
+ * Validate a parsed scope file ({ scopes: [...] }, snake_case) and convert it
+ * to definitions. `extends` may name a built-in level or another level in the file.
+ */
+export function parseScopeDefinitions(
+  data: unknown
+): { ok: true; scopes: DisclosureScopeDefinition[] } | { ok: false; issues: ScopeIssue[] } {
+  const issues: ScopeIssue[] = [];
+  const issue = (path: string, message: string) => issues.push({ path, message });
+
+  if (!isRecord(data) || !Array.isArray(data.scopes)) {
+    return { ok: false, issues: [{ path: "(document)", message: "must be an object with a scopes array" }] };
+  }
+
+  const scopes: DisclosureScopeDefinition[] = [];
+  const seen = new Set<string>();
+
+  data.scopes.forEach((entry: unknown, i: number) => {
+    const path = `scopes[${i}]`;
+    if (!isRecord(entry)) return issue(path, "must be an object");
+
+    if (!isNonEmptyString(entry.id) || !/^[a-z][a-z0-9_]*$/.test(entry.id)) {
+      issue(`${path}.id`, "must be a snake_case identifier");
+    } else if (seen.has(entry.id)) {
+      issue(`${path}.id`, `duplicate id "${entry.id}"`);
+    } else {
+      seen.add(entry.id);
+    }
+    if (!isNonEmptyString(entry.label)) issue(`${path}.label`, "must be a non-empty string");
+    if (!isNonEmptyString(entry.explanation)) issue(`${path}.explanation`, "must be a non-empty string");
+    if (typeof entry.breadth !== "number" || !Number.isFinite(entry.breadth)) {
+      issue(`${path}.breadth`, "must be a number (minimal = 1, standard = 2, full = 3)");
+    }
+    if (entry.extends !== undefined && !isNonEmptyString(entry.extends)) {
+      issue(`${path}.extends`, "must be a scope id");
+    }
+
+    const required: RequiredArtifact[] = [];
+    if (!Array.isArray(entry.required_artifacts)) {
+      issue(`${path}.required_artifacts`, "must be an array");
+    } else {
+      entry.required_artifacts.forEach((req: unknown, j: number) => {
+        const reqPath = `${path}.required_artifacts[${j}]`;
+        if (!isRecord(req)) return issue(reqPath, "must be an object with type and description");
+        if (!isEcfArtifactType(req.type)) issue(`${reqPath}.type`, `unknown ECF artifact type ${JSON.stringify(req.type)}`);
+        if (!isNonEmptyString(req.description)) issue(`${reqPath}.description`, "must be a non-empty string");
+        if (isEcfArtifactType(req.type) && isNonEmptyString(req.description)) {
+          required.push({ type: req.type, description: req.description });
+        }
+      });
+    }
+
+    const applicability: ScopeApplicability = {};
+    const rules = entry.applicability ?? {};
+    if (!isRecord(rules)) {
+      issue(`${path}.applicability`, "must be an object");
+    } else {
+      if (rules.strengths !== undefined) {
+        const valid = ["existential", "distributional", "unclear"];
+        if (!Array.isArray(rules.strengths) || !rules.strengths.every((s) => valid.includes(s as string))) {
+          issue(`${path}.applicability.strengths`, `must be a list of ${valid.join(", ")}`);
+        } else {
+          applicability.strengths = rules.strengths as ScopeApplicability["strengths"];
+        }
+      }
+      for (const [key, field] of [["min_axes", "minAxes"], ["max_axes", "maxAxes"]] as const) {
+        if (rules[key] === undefined) continue;
+        if (typeof rules[key] !== "number" || rules[key] < 0) issue(`${path}.applicability.${key}`, "must be a non-negative number");
+        else applicability[field] = rules[key];
+      }
+      if (rules.when_claim_mentions !== undefined) {
+        if (!Array.isArray(rules.when_claim_mentions)) {
+          issue(`${path}.applicability.when_claim_mentions`, "must be a list of regular expressions");
+        } else {
+          applicability.whenClaimMentions = [];
+          rules.when_claim_mentions.forEach((source: unknown, j: number) => {
+            try {
+              if (typeof source !== "string") throw new Error("not a string");
+              new RegExp(source, "gi");
+              applicability.whenClaimMentions!.push(source);
+            } catch (err) {
+              issue(`${path}.applicability.when_claim_mentions[${j}]`, `invalid regular expression (${(err as Error).message})`);
+            }
+          });
+        }
+      }
+    }
+
+    scopes.push({
+      id: String(entry.id),
+      label: String(entry.label),
+      explanation: String(entry.explanation),
+      breadth: Number(entry.breadth),
+      ...(isNonEmptyString(entry.extends) ? { extends: entry.extends } : {}),
+      requiredArtifacts: required,
+      applicability,
+    });
+  });
+
+  const known = new Set([...BUILT_IN_SCOPES.map((s) => s.id), ...seen]);
+  scopes.forEach((scope, i) => {
+    if (scope.extends && !known.has(scope.extends)) {
+      issue(`scopes[${i}].extends`, `unknown scope "${scope.extends}"`);
+    }
+  });
+
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, scopes };
+}
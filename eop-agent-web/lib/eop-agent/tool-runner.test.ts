@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import type { RepoTree } from "@/lib/types";
+import { createEvidenceGraph } from "./evidence-graph";
+import { batchToolCalls, mapConcurrent, runTool } from "./tool-runner";
+import type { ToolContext } from "./tools";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** A context with an uploaded tree of `count` input files. */
+function contextWithFiles(count: number): ToolContext {
+  const repoTree: RepoTree = {
+    archiveName: "study.zip",
+    files: Array.from({ length: count }, (_, i) => ({ path: `data/raw/sample_${i}.csv`, size: 10, sha256: "0".repeat(64) })),
+    totalBytes: count * 10,
+    ignoredCount: 0,
+    truncated: false,
+  };
+  return { graph: createEvidenceGraph({ kind: "project", id: "p" }), repoTree };
+}
+
+describe("mapConcurrent", () => {
+  it("keeps at most `limit` calls in flight and returns results in input order", async () => {
+    let inFlight = 0;
+    let most = 0;
+    const results = await mapConcurrent([40, 10, 30, 0, 20], 2, async (ms, i) => {
+      inFlight++;
+      most = Math.max(most, inFlight);
+      await sleep(ms);
+      inFlight--;
+      return `${i}:${ms}`;
+    });
+    expect(most).toBe(2);
+    expect(results).toEqual(["0:40", "1:10", "2:30", "3:0", "4:20"]);
+  });
+
+  it("handles no items and a limit below one", async () => {
+    expect(await mapConcurrent([], 4, async () => 1)).toEqual([]);
+    expect(await mapConcurrent([1, 2], 0, async (n) => n * 2)).toEqual([2, 4]);
+  });
+});
+
+describe("batchToolCalls", () => {
+  const call = (toolName: string, args: Record<string, unknown> = {}) => ({ toolName, args });
+  const names = (batches: ReturnType<typeof call>[][]) => batches.map((b) => b.map((c) => c.toolName));
+
+  it("runs each mutating call alone, between the read-only runs around it", () => {
+    const calls = [
+      call("query_evidence_chain"),
+      call("check_chain_completeness"),
+      call("annotate_artifact"),
+      call("link_to_claim"),
+      call("advise_disclosure_scope"),
+    ];
+    expect(names(batchToolCalls(calls, (c) => c))).toEqual([
+      ["query_evidence_chain", "check_chain_completeness"],
+      ["annotate_artifact"],
+      ["link_to_claim"],
+      ["advise_disclosure_scope"],
+    ]);
+  });
+
+  it("asks the tool whether these arguments change the chain", () => {
+    const calls = [
+      call("classify_repo_artifacts"),
+      call("classify_repo_artifacts", { record_in_chain: "true" }),
+      call("query_evidence_chain"),
+    ];
+    expect(batchToolCalls(calls, (c) => c)).toEqual([[calls[0]], [calls[1]], [calls[2]]]);
+  });
+});
+
+describe("runTool", () => {
+  it("walks a large tree in chunks and keeps the file order", async () => {
+    const ctx = contextWithFiles(450);
+    const output = await runTool("create_hash_manifest", {}, ctx);
+    expect(output.data?.kind).toBe("hash_manifest");
+    if (output.data?.kind !== "hash_manifest") return;
+    expect(output.data.manifest.files).toHaveLength(450);
+    expect(output.data.manifest.files.slice(0, 3).map((f) => f.path)).toEqual([
+      "data/raw/sample_0.csv",
+      "data/raw/sample_1.csv",
+      "data/raw/sample_10.csv",
+    ]);
+  });
+
+  it("stops a walk when the run is cancelled, before anything is recorded", async () => {
+    const ctx = contextWithFiles(450);
+    const controller = new AbortController();
+    const output = runTool("classify_repo_artifacts", { record_in_chain: "true" }, ctx, { signal: controller.signal });
+    controller.abort(new Error("client gone"));
+
+    expect(await output).toEqual({ content: "[EOP] classify_repo_artifacts was cancelled." });
+    await sleep(20); // the executor notices at its next chunk
+    expect(ctx.graph.artifacts).toEqual([]);
+  });
+
+  it("reports a timeout, and skips a call whose run is already cancelled", async () => {
+    const ctx = contextWithFiles(450);
+    expect(await runTool("suggest_directory_structure", {}, ctx, { timeoutMs: 0 })).toEqual({
+      content: "[EOP] suggest_directory_structure timed out after 0s and was stopped.",
+    });
+    expect(await runTool("query_evidence_chain", {}, ctx, { signal: AbortSignal.abort() })).toEqual({
+      content: "[EOP] query_evidence_chain was cancelled.",
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Tool runner — timeouts, cancellation and concurrency for tool calls.
+ *
+ * Each call runs with its own AbortSignal, which aborts when the tool's
+ * timeout passes or the whole run is cancelled; the call then resolves with
+ * an [EOP] message saying so instead of hanging the loop. Calls from one
+ * assistant message run concurrently, up to a limit, except tools that change
+ * the evidence chain: each of those runs alone, after the calls before it and
+ * before the calls after it. Results always come back in call order, so the
+ * tool messages line up with their tool_call_ids.
+ *
+ * A timeout can only stop a tool that yields: it ends the wait for an async
+ * executor (which should also stop its own work on the signal), but a
+ * synchronous executor, or a CPU-bound stretch of an async one, holds the
+ * event loop and always runs to the end; its result is then used even if the
+ * timeout has passed. Executors run in-process because they change the
+ * evidence chain in place, so the ones that walk the file tree (classify,
+ * restructure, hash manifest) work through it in chunks and check
+ * `signal.aborted` between them.
+ */
+
+import { DEFAULT_TOOL_TIMEOUT_MS, TOOL_SPECS, changesEvidence, executeTool, type ToolContext, type ToolOutput } from "./tools";
+
+export const DEFAULT_TOOL_CONCURRENCY = 4;
+
+export interface ToolRunOptions {
+  signal?: AbortSignal; // cancels every call of the run
+  timeoutMs?: number; // overrides the tool's own timeout
+}
+
+/**
+ * Run one tool call; never throws; errors, timeouts and cancellation become
+ * the output. The timeout can't interrupt synchronous work (see above).
+ */
+export async function runTool(
+  toolName: string,
+  args: Record<string, unknown>,
+  ctx: ToolContext,
+  options: ToolRunOptions = {}
+): Promise<ToolOutput> {
+  const timeoutMs = options.timeoutMs ?? TOOL_SPECS[toolName]?.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS;
+  const timeout = AbortSignal.timeout(timeoutMs);
+  const signal = options.signal ? AbortSignal.any([options.signal, timeout]) : timeout;
+
+  const stopped = (): ToolOutput =>
+    timeout.aborted
+      ? { content: `[EOP] ${toolName} timed out after ${timeoutMs / 1000}s and was stopped.` }
+      : { content: `[EOP] ${toolName} was cancelled.` };
+  if (signal.aborted) return stopped();
+
+  let onAbort = () => {};
+  const aborted = new Promise<ToolOutput>((resolve) => {
+    onAbort = () => resolve(stopped());
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+  try {
+    return await Promise.race([executeTool(toolName, args, ctx, signal), aborted]);
+  } catch (err) {
+    return { content: `[EOP] Tool execution error: ${err instanceof Error ? err.message : String(err)}` };
+  } finally {
+    signal.removeEventListener("abort", onAbort);
+  }
+}
+
+/** Map `items` through `fn` with at most `limit` calls in flight; results keep the input order. */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i], i);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
+/**
+ * Split calls into batches that may run concurrently: a run of read-only
+ * calls forms one batch, and each call to a tool that changes the evidence
+ * chain is a batch of its own. Batches run one after the other.
+ */
+export function batchToolCalls<T>(
+  calls: T[],
+  describe: (call: T) => { toolName: string; args: Record<string, unknown> }
+): T[][] {
+  const batches: T[][] = [];
+  let readOnly: T[] = [];
+  for (const call of calls) {
+    const { toolName, args } = describe(call);
+    if (changesEvidence(toolName, args)) {
+      if (readOnly.length > 0) batches.push(readOnly);
+      batches.push([call]);
+      readOnly = [];
+    } else {
+      readOnly.push(call);
+    }
+  }
+  if (readOnly.length > 0) batches.push(readOnly);
+  return batches;
+}
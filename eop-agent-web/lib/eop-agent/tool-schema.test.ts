@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import type { ToolDefinition } from "@/lib/types";
+import { checkToolCall, formatToolArgumentErrors } from "./tool-schema";
+
+const TOOLS: ToolDefinition[] = [
+  {
+    type: "function",
+    function: {
+      name: "annotate_artifact",
+      description: "Record an artifact",
+      parameters: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          type: { type: "string", enum: ["input_data", "output_data"] },
+          tags: { type: "array", items: { type: "string" } },
+          weight: { type: "integer" },
+        },
+        required: ["name", "type"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: { name: "query_evidence_chain", description: "List the chain", parameters: { type: "object", properties: {} } },
+  },
+];
+
+describe("checkToolCall", () => {
+  it("accepts a valid call and drops optional nulls", () => {
+    expect(checkToolCall(TOOLS, "annotate_artifact", '{"name":"raw.csv","type":"input_data","weight":null}')).toEqual({
+      args: { name: "raw.csv", type: "input_data" },
+      errors: [],
+    });
+    expect(checkToolCall(TOOLS, "query_evidence_chain", "  ")).toEqual({ args: {}, errors: [] });
+  });
+
+  it("reports each broken rule by path", () => {
+    const { errors } = checkToolCall(
+      TOOLS,
+      "annotate_artifact",
+      '{"type":"dataset","tags":["a",2],"weight":1.5,"colour":"red","name":null}'
+    );
+    expect(errors).toEqual([
+      { path: "name", message: "is required" },
+      { path: "type", message: 'must be one of: input_data, output_data (got "dataset")' },
+      { path: "tags[1]", message: "must be a string (got number)" },
+      { path: "weight", message: "must be an integer (got number)" },
+      { path: "colour", message: "is not an argument of this tool (expected: name, type, tags, weight)" },
+    ]);
+  });
+
+  it("keeps arguments that aren't a JSON object raw", () => {
+    expect(checkToolCall(TOOLS, "annotate_artifact", '{"name": "raw.csv"')).toEqual({
+      args: { _raw: '{"name": "raw.csv"' },
+      errors: [{ path: "(arguments)", message: expect.stringMatching(/^not valid JSON: /) }],
+    });
+    expect(checkToolCall(TOOLS, "annotate_artifact", '["raw.csv"]').errors).toEqual([
+      { path: "(arguments)", message: "must be a JSON object (got array)" },
+    ]);
+  });
+
+  it("names the available tools for an unknown one", () => {
+    expect(checkToolCall(TOOLS, "delete_everything", "{}").errors).toEqual([
+      { path: "(tool)", message: 'unknown tool "delete_everything" (available: annotate_artifact, query_evidence_chain)' },
+    ]);
+  });
+});
+
+describe("formatToolArgumentErrors", () => {
+  it("tells the model what to fix and lists the tool's arguments", () => {
+    const { errors } = checkToolCall(TOOLS, "annotate_artifact", '{"name":"raw.csv","type":"dataset"}');
+    expect(formatToolArgumentErrors(TOOLS, "annotate_artifact", errors)).toBe(
+      [
+        "[EOP] Invalid arguments for annotate_artifact; the call was not executed. Fix the following and call the tool again:",
+        '  - type: must be one of: input_data, output_data (got "dataset")',
+        "",
+        "Arguments of annotate_artifact:",
+        "  - name (string, required)",
+        "  - type (one of: input_data, output_data, required)",
+        "  - tags (array)",
+        "  - weight (integer)",
+      ].join("\n")
+    );
+  });
+
+  it("leaves out the argument list for an unknown tool", () => {
+    const { errors } = checkToolCall(TOOLS, "delete_everything", "{}");
+    expect(formatToolArgumentErrors(TOOLS, "delete_everything", errors).split("\n")).toHaveLength(2);
+    expect(formatToolArgumentErrors(TOOLS, "query_evidence_chain", [{ path: "x", message: "is not an argument" }])).toMatch(
+      /\n {2}\(no arguments\)$/
+    );
+  });
+});
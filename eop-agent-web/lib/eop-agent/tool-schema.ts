@@ -0,0 +1,166 @@
+/**
+ * Tool-call argument validation — the "contract of a tool" from Lab 2.
+ *
+ * Every call the model makes is checked against the JSON Schema `parameters`
+ * of its definition in TOOL_DEFINITIONS before anything runs. A call that
+ * breaks the contract (arguments that aren't JSON, a missing required field,
+ * a value outside an enum, an argument the tool doesn't have) is not executed;
+ * the errors go back to the model as the tool result so it can fix the call.
+ *
+ * Only the part of JSON Schema the tool definitions use is supported: type,
+ * properties, required, enum and items.
+ */
+
+import type { ToolArgumentError, ToolDefinition } from "@/lib/types";
+
+interface JsonSchema {
+  type?: "object" | "string" | "boolean" | "number" | "integer" | "array";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  enum?: unknown[];
+  items?: JsonSchema;
+}
+
+export interface CheckedToolCall {
+  args: Record<string, unknown>; // parsed arguments, or { _raw } when they are not JSON
+  errors: ToolArgumentError[]; // empty when the call may run
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function matchesType(type: JsonSchema["type"], value: unknown): boolean {
+  switch (type) {
+    case "object":
+      return typeOf(value) === "object";
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case undefined:
+      return true;
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+function validateValue(schema: JsonSchema, value: unknown, path: string, errors: ToolArgumentError[]): void {
+  if (!matchesType(schema.type, value)) {
+    errors.push({ path, message: `must be ${schema.type === "integer" ? "an" : "a"} ${schema.type} (got ${typeOf(value)})` });
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({ path, message: `must be one of: ${schema.enum.join(", ")} (got ${JSON.stringify(value)})` });
+    return;
+  }
+
+  if (schema.type === "array" && schema.items && Array.isArray(value)) {
+    value.forEach((item, i) => validateValue(schema.items!, item, `${path}[${i}]`, errors));
+  }
+
+  if (schema.type === "object" && schema.properties) {
+    const record = value as Record<string, unknown>;
+    const join = (key: string) => (path ? `${path}.${key}` : key);
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined || record[key] === null) {
+        errors.push({ path: join(key), message: "is required" });
+      }
+    }
+    for (const [key, item] of Object.entries(record)) {
+      const property = schema.properties[key];
+      if (!property) {
+        errors.push({
+          path: join(key),
+          message: `is not an argument of this tool (expected: ${Object.keys(schema.properties).join(", ")})`,
+        });
+      } else if (item !== null) {
+        validateValue(property, item, join(key), errors);
+      }
+    }
+  }
+}
+
+/**
+ * Parse a tool call's raw arguments and check them against the tool's schema.
+ * An optional argument sent as null counts as omitted and is dropped.
+ */
+export function checkToolCall(
+  definitions: ToolDefinition[],
+  toolName: string,
+  rawArguments: string
+): CheckedToolCall {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(rawArguments.trim() || "{}");
+  } catch (err) {
+    return {
+      args: { _raw: rawArguments },
+      errors: [
+        {
+          path: "(arguments)",
+          message: `not valid JSON: ${err instanceof Error ? err.message : String(err)}`,
+        },
+      ],
+    };
+  }
+  if (typeOf(parsed) !== "object") {
+    return {
+      args: { _raw: rawArguments },
+      errors: [{ path: "(arguments)", message: `must be a JSON object (got ${typeOf(parsed)})` }],
+    };
+  }
+
+  const args = parsed as Record<string, unknown>;
+  const definition = definitions.find((d) => d.function.name === toolName);
+  if (!definition) {
+    return {
+      args,
+      errors: [
+        {
+          path: "(tool)",
+          message: `unknown tool "${toolName}" (available: ${definitions.map((d) => d.function.name).join(", ")})`,
+        },
+      ],
+    };
+  }
+
+  const schema = definition.function.parameters as JsonSchema;
+  const errors: ToolArgumentError[] = [];
+  validateValue(schema, args, "", errors);
+
+  const required = new Set(schema.required ?? []);
+  for (const key of Object.keys(args)) {
+    if (args[key] === null && !required.has(key)) delete args[key];
+  }
+  return { args, errors };
+}
+
+/** One line per argument: name, type or allowed values, and whether it is required. */
+export function describeToolParameters(definition: ToolDefinition): string {
+  const schema = definition.function.parameters as JsonSchema;
+  const required = new Set(schema.required ?? []);
+  const lines = Object.entries(schema.properties ?? {}).map(([name, property]) => {
+    const type = property.enum ? `one of: ${property.enum.join(", ")}` : (property.type ?? "any");
+    return `  - ${name} (${type}${required.has(name) ? ", required" : ""})`;
+  });
+  return lines.length > 0 ? lines.join("\n") : "  (no arguments)";
+}
+
+/** The tool result the model sees for a call that broke its contract. */
+export function formatToolArgumentErrors(
+  definitions: ToolDefinition[],
+  toolName: string,
+  errors: ToolArgumentError[]
+): string {
+  const lines = [
+    `[EOP] Invalid arguments for ${toolName}; the call was not executed. Fix the following and call the tool again:`,
+    ...errors.map((e) => `  - ${e.path}: ${e.message}`),
+  ];
+  const definition = definitions.find((d) => d.function.name === toolName);
+  if (definition) lines.push("", `Arguments of ${toolName}:`, describeToolParameters(definition));
+  return lines.join("\n");
+}
@@ -6,7 +6,48 @@
  * approach, translated to TypeScript.
  */
 
-import { ToolDefinition } from "@/lib/types";
+import {
+  DisclosureScopeDefinition,
+  EvidenceArtifact,
+  EvidenceGraph,
+  FileHash,
+  RepoTree,
+  ToolDefinition,
+  ToolResultData,
+} from "@/lib/types";
+import {
+  ECF_ARTIFACT_TYPES,
+  EVIDENCE_LINK_TYPES,
+  annotateArtifact,
+  deleteNode,
+  type DeletedNode,
+  describeEvidenceGraph,
+  findArtifact,
+  findClaim,
+  formatArtifact,
+  formatClaim,
+  formatLink,
+  isEcfArtifactType,
+  isEvidenceLinkType,
+  linkArtifactToClaim,
+  linksForArtifact,
+  linksForClaim,
+  updateArtifact,
+  updateClaim,
+  upsertClaim,
+} from "./evidence-graph";
+import { checkChainCompleteness, formatGapReport } from "./completeness";
+import {
+  DEFAULT_CONFIDENCE_THRESHOLD,
+  classifyFile,
+  formatClassificationReport,
+  parseFileList,
+  summarizeClassification,
+} from "./classifier";
+import { assembleMovePlan, formatMovePlan, proposeMove, type PlanInput } from "./restructure";
+import { assessClaim, formatClaimAssessment } from "./claim-strength";
+import { formatEntryDocument, generateEntryDocument } from "./entry-document";
+import { assembleHashManifest, formatHashManifest, hashManifestEntry } from "./hash-manifest";
 
 // ═══════════════════════════════════════════
 // Tool Definitions (OpenAI function calling format)
@@ -30,15 +71,7 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
           },
           artifact_type: {
             type: "string",
-            enum: [
-              "input_data",
-              "experimental_process",
-              "output_data",
-              "visual_data",
-              "plotting_process",
-              "visual_claims",
-              "documentation",
-            ],
+            enum: [...ECF_ARTIFACT_TYPES],
             description:
               "ECF artifact type: one of the seven basic evidence chain types.",
           },
@@ -59,7 +92,7 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
     function: {
       name: "link_to_claim",
       description:
-        "Link an artifact or process to a scientific claim. Use when the user wants to associate evidence with a claim or figure/table with a scientific statement.",
+        "Link an annotated artifact or process to a scientific claim. Use when the user wants to associate evidence with a claim or figure/table with a scientific statement. The artifact must already be in the evidence chain (annotate_artifact first).",
       parameters: {
         type: "object",
         properties: {
@@ -75,7 +108,7 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
           },
           link_type: {
             type: "string",
-            enum: ["supports", "generates", "visualizes", "documents"],
+            enum: [...EVIDENCE_LINK_TYPES],
             description:
               "How this artifact relates to the claim: supports (evidence), generates (produces the result), visualizes (presents it), documents (explains it).",
           },
@@ -91,17 +124,21 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
     function: {
       name: "classify_repo_artifacts",
       description:
-        "Given a list of files/directories from a research repository, classify each into one of the seven ECF artifact types. Use when the user provides a repo layout and wants to understand which files serve which evidence chain roles.",
+        "Given a list of files/directories from a research repository, classify each into one of the seven ECF artifact types. A deterministic rule-based pass returns a type and confidence per file; low-confidence items are flagged for you or the user to resolve. Use when the user provides a repo layout and wants to understand which files serve which evidence chain roles.",
       parameters: {
         type: "object",
         properties: {
           file_list: {
             type: "string",
             description:
-              "A text listing of file paths and optional one-line descriptions, one per line. Example:\n  data/raw/samples.csv - Raw measurement data\n  scripts/train_model.py - Trains the model",
+              "A text listing of file paths and optional one-line descriptions, one per line. Omit to classify the uploaded repository archive. Example:\n  data/raw/samples.csv - Raw measurement data\n  scripts/train_model.py - Trains the model",
+          },
+          record_in_chain: {
+            type: "boolean",
+            description:
+              "If true, confidently classified files are annotated in the evidence chain. Only set when the user asks to record them.",
           },
         },
-        required: ["file_list"],
       },
     },
   },
@@ -112,14 +149,14 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
     function: {
       name: "advise_disclosure_scope",
       description:
-        "Given a scientific claim, determine its strength (existential vs. distributional) and recommend an appropriate disclosure scope (minimal, standard, or full). Use when the user describes what they claim in their paper and wants advice on how much to disclose.",
+        "Given a scientific claim, determine its strength (existential vs. distributional) from its wording, recommend a disclosure scope level (the levels are listed in the system prompt, e.g. minimal, standard, full, audit_only) and list the artifacts that level requires. Vague or mixed claims are flagged for clarification. Use when the user describes what they claim in their paper and wants advice on how much to disclose.",
       parameters: {
         type: "object",
         properties: {
           claim_description: {
             type: "string",
             description:
-              "A short description of the scientific claim (e.g. 'We trained a model that reaches 95% accuracy on the test set.').",
+              "The scientific claim, worded as in the paper (e.g. 'We trained a model that reaches 95% accuracy on the test set.'). Keep qualifiers such as 'reliably', 'across', 'on average' — they decide the strength.",
           },
         },
         required: ["claim_description"],
@@ -133,14 +170,14 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
     function: {
       name: "suggest_directory_structure",
       description:
-        "Suggest an ECF-compliant directory structure reorganization for a research repository. Use when the user has a messy repo and wants it restructured following ECF conventions (work/, input/, output/, claim/, source/, test/, case/, document/).",
+        "Plan an ECF-compliant reorganization of a research repository: maps each current path to its ECF folder (work/, input/, output/, claim/, source/, test/, case/, document/), flags destination conflicts and hard-coded paths the moves would break. The user can download the plan as a git mv script. Use when the user has a messy repo and wants it restructured.",
       parameters: {
         type: "object",
         properties: {
           current_structure: {
             type: "string",
             description:
-              "The current directory structure or file listing, one item per line.",
+              "The current directory structure or file listing, one item per line. Omit to use the uploaded repository archive.",
           },
           project_description: {
             type: "string",
@@ -148,120 +185,554 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
               "Optional short description of the research project to guide the suggestion.",
           },
         },
-        required: ["current_structure"],
+      },
+    },
+  },
+
+  // ── Evidence chain: query_evidence_chain ──
+  {
+    type: "function",
+    function: {
+      name: "query_evidence_chain",
+      description:
+        "Look up what is recorded in the evidence chain. With no arguments, lists every artifact, claim and link. Use before answering questions about what has been annotated or linked.",
+      parameters: {
+        type: "object",
+        properties: {
+          node: {
+            type: "string",
+            description:
+              "Optional artifact id/name (e.g. 'A2', 'data/raw.csv') or claim id/text (e.g. 'C1') to show with its links.",
+          },
+          artifact_type: {
+            type: "string",
+            enum: [...ECF_ARTIFACT_TYPES],
+            description: "Optional filter: only list artifacts of this ECF type.",
+          },
+        },
+      },
+    },
+  },
+
+  // ── Evidence chain: update_evidence_node ──
+  {
+    type: "function",
+    function: {
+      name: "update_evidence_node",
+      description:
+        "Change a recorded artifact (rename, re-type, re-describe) or claim (reword). Use when the user corrects something already in the evidence chain.",
+      parameters: {
+        type: "object",
+        properties: {
+          node: {
+            type: "string",
+            description: "Id or name of the artifact (e.g. 'A2') or id/text of the claim (e.g. 'C1') to update.",
+          },
+          new_name: {
+            type: "string",
+            description: "Artifacts only: new name or path.",
+          },
+          artifact_type: {
+            type: "string",
+            enum: [...ECF_ARTIFACT_TYPES],
+            description: "Artifacts only: corrected ECF artifact type.",
+          },
+          description: {
+            type: "string",
+            description: "Artifacts only: new description (empty string clears it).",
+          },
+          claim_text: {
+            type: "string",
+            description: "Claims only: new wording of the claim.",
+          },
+        },
+        required: ["node"],
+      },
+    },
+  },
+
+  // ── Evidence chain: delete_evidence_node ──
+  {
+    type: "function",
+    function: {
+      name: "delete_evidence_node",
+      description:
+        "Remove an artifact, claim or link from the evidence chain. Removing an artifact or claim also removes its links.",
+      parameters: {
+        type: "object",
+        properties: {
+          node: {
+            type: "string",
+            description:
+              "Id or name of the artifact ('A2'), id or text of the claim ('C1'), or id of the link ('L3') to delete.",
+          },
+          kind: {
+            type: "string",
+            enum: ["artifact", "claim", "link"],
+            description:
+              "What the node is. Optional; without it artifacts, then claims, then links are searched.",
+          },
+        },
+        required: ["node"],
+      },
+    },
+  },
+
+  // ── Evidence chain: check_chain_completeness ──
+  {
+    type: "function",
+    function: {
+      name: "check_chain_completeness",
+      description:
+        "Check whether each recorded claim is backed by a complete evidence chain (input data → experimental process → output data → visual data → plotting process → visual claims, plus documentation). Returns the missing stages per claim with a severity. Use when the user asks whether their evidence is sufficient or what is still missing.",
+      parameters: {
+        type: "object",
+        properties: {
+          claim: {
+            type: "string",
+            description: "Optional claim id or text to check; checks every claim if omitted.",
+          },
+        },
+      },
+    },
+  },
+
+  // ── Evidence chain: generate_entry_document ──
+  {
+    type: "function",
+    function: {
+      name: "generate_entry_document",
+      description:
+        "Write the ECF entry document (document/README.md) from the artifacts, claims and links recorded so far: one section per claim tracing its evidence chain, a 'how to regenerate Figure N' walk-through with the commands to run, and TODO markers for every missing stage. The user can preview and download the document. Use when the user asks for a README or entry document, or once the evidence chain is recorded.",
+      parameters: {
+        type: "object",
+        properties: {
+          title: {
+            type: "string",
+            description: "Document title, e.g. the paper title.",
+          },
+          project_description: {
+            type: "string",
+            description: "Optional one-paragraph summary of the project, placed under the title.",
+          },
+        },
+      },
+    },
+  },
+
+  // ── Auditable disclosure: create_hash_manifest ──
+  {
+    type: "function",
+    function: {
+      name: "create_hash_manifest",
+      description:
+        "Create a SHA-256 hash manifest of the uploaded repository archive, with each file tied to its ECF artifact. Publishing the digests of artifacts that cannot be released (proprietary or private data) lets auditors verify later that files they receive are the ones used. The user can download the manifest and verify files against it in the evidence chain panel. Requires an uploaded archive.",
+      parameters: {
+        type: "object",
+        properties: {
+          artifacts: {
+            type: "string",
+            description:
+              "Optional comma-separated artifact ids or names (e.g. the restricted ones) to limit the manifest to; every uploaded file if omitted.",
+          },
+        },
       },
     },
   },
 ];
 
 // ═══════════════════════════════════════════
-// Tool Executors (Lab 0 style: placeholder / simulation)
+// Tool Executors
 // ═══════════════════════════════════════════
 
-interface ToolArgs {
+export interface ToolArgs {
   [key: string]: string | undefined;
 }
 
-export function executeAnnotateArtifact(args: ToolArgs): string {
-  const name = args.artifact_name || "(unspecified)";
-  const type = args.artifact_type || "(unspecified)";
-  const desc = args.description ? ` — ${args.description}` : "";
-  return `[EOP] Annotated artifact "${name}" as ${type}${desc}. Recorded in evidence chain.`;
+/** State the executors can read and change; owned by the agent run. */
+export interface ToolContext {
+  graph: EvidenceGraph;
+  repoTree?: RepoTree; // uploaded archive, used when no file listing is given
+  scopes?: DisclosureScopeDefinition[]; // disclosure scope registry; built-in levels when omitted
 }
 
-export function executeLinkToClaim(args: ToolArgs): string {
-  const artifact = args.artifact_name || "(artifact)";
-  const claim = args.claim_text || "(claim)";
-  const linkType = args.link_type || "supports";
-  return `[EOP] Linked "${artifact}" → claim: "${claim}" (relationship: ${linkType}). Evidence link recorded.`;
+/** What a tool returns: text for the LLM, plus optional structured data for the UI. */
+export interface ToolOutput {
+  content: string;
+  data?: ToolResultData;
 }
 
-export function executeClassifyRepoArtifacts(args: ToolArgs): string {
-  const fileList = args.file_list || "";
-  const lines = fileList
-    .split("\n")
-    .map((l) => l.trim())
-    .filter(Boolean);
+const FILE_CHUNK_SIZE = 200; // files handled between two checks of the signal
+
+/**
+ * `items.map(fn)` a chunk at a time, yielding to the event loop between
+ * chunks so a timeout or cancellation can stop a walk over a large file tree;
+ * throws the abort reason once `signal` aborts.
+ */
+async function mapInChunks<T, R>(items: T[], signal: AbortSignal, fn: (item: T) => R): Promise<R[]> {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += FILE_CHUNK_SIZE) {
+    signal.throwIfAborted();
+    for (const item of items.slice(i, i + FILE_CHUNK_SIZE)) results.push(fn(item));
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+  signal.throwIfAborted();
+  return results;
+}
 
-  if (lines.length === 0) {
-    return "[EOP] No files provided to classify. Please provide a list of file paths.";
+export function executeAnnotateArtifact(args: ToolArgs, ctx: ToolContext): string {
+  const name = args.artifact_name?.trim();
+  if (!name) {
+    return "[EOP] No artifact name provided. Nothing was recorded.";
+  }
+  if (!isEcfArtifactType(args.artifact_type)) {
+    return `[EOP] Invalid artifact type "${args.artifact_type ?? ""}". Must be one of: ${ECF_ARTIFACT_TYPES.join(", ")}. Nothing was recorded.`;
   }
 
-  // Return a structured prompt for the LLM to fill in via its response
+  const { artifact, created } = annotateArtifact(ctx.graph, name, args.artifact_type, args.description);
   return (
-    `[EOP] Classifying ${lines.length} items against ECF artifact types:\n\n` +
-    `The seven ECF types are:\n` +
-    `1. input_data — Raw or preprocessed inputs\n` +
-    `2. experimental_process — Code that transforms input → output\n` +
-    `3. output_data — Intermediate or final computed results\n` +
-    `4. visual_data — Data prepared for visualization\n` +
-    `5. plotting_process — Code producing figures/tables/stats\n` +
-    `6. visual_claims — Figures/tables/statistics in papers\n` +
-    `7. documentation — README, entry doc, descriptions\n\n` +
-    `Files to classify:\n${lines.map((l) => `  - ${l}`).join("\n")}\n\n` +
-    `Please provide classification results based on the file names and descriptions above.`
+    `[EOP] ${created ? "Annotated" : "Updated"} artifact ${formatArtifact(artifact)}. ` +
+    `Evidence chain now has ${ctx.graph.artifacts.length} artifact(s).`
   );
 }
 
-export function executeAdviseDisclosureScope(args: ToolArgs): string {
-  const claim = args.claim_description || "(no claim provided)";
+export function executeLinkToClaim(args: ToolArgs, ctx: ToolContext): string {
+  const artifactName = args.artifact_name?.trim();
+  const claimText = args.claim_text?.trim();
+  if (!artifactName || !claimText) {
+    return "[EOP] Both artifact_name and claim_text are required. Nothing was recorded.";
+  }
+
+  const linkType = args.link_type || "supports";
+  if (!isEvidenceLinkType(linkType)) {
+    return `[EOP] Invalid link type "${linkType}". Must be one of: ${EVIDENCE_LINK_TYPES.join(", ")}. Nothing was recorded.`;
+  }
+
+  const artifact = findArtifact(ctx.graph, artifactName);
+  if (!artifact) {
+    return `[EOP] Artifact "${artifactName}" is not in the evidence chain. Annotate it with annotate_artifact first, then link it.`;
+  }
+
+  const { claim, created: claimCreated } = upsertClaim(ctx.graph, claimText);
+  const { link, created } = linkArtifactToClaim(ctx.graph, artifact, claim, linkType);
+
+  if (!created) {
+    return `[EOP] Link already recorded: ${formatLink(ctx.graph, link)} (claim ${formatClaim(claim)}).`;
+  }
   return (
-    `[EOP] Analyzing disclosure scope for claim: "${claim}"\n\n` +
-    `Claim strength categories:\n` +
-    `- Existential: "We can do X" — single instance or possibility\n` +
-    `- Distributional: "We reliably do X" — generalization, stability, repeated results\n\n` +
-    `Disclosure scope levels:\n` +
-    `- Minimal: One runnable path, key code, one reported result\n` +
-    `- Standard: Code + data + docs for independent reproduction\n` +
-    `- Full: Everything for reliability assessment (multiple runs, seeds, environment)\n\n` +
-    `Rule: Stronger claims → broader disclosure.\n\n` +
-    `Please analyze the claim strength and recommend appropriate disclosure scope.`
+    `[EOP] Linked ${formatArtifact(artifact)} → ${claimCreated ? "new " : ""}claim ${formatClaim(claim)} ` +
+    `(relationship: ${linkType}, link ${link.id}). Claim ${claim.id} now has ${linksForClaim(ctx.graph, claim.id).length} link(s).`
   );
 }
 
-export function executeSuggestDirectoryStructure(args: ToolArgs): string {
-  const structure = args.current_structure || "(none provided)";
-  const desc = args.project_description
-    ? `\nProject: ${args.project_description}`
-    : "";
+export async function executeClassifyRepoArtifacts(
+  args: ToolArgs,
+  ctx: ToolContext,
+  signal: AbortSignal
+): Promise<ToolOutput> {
+  const files = args.file_list?.trim()
+    ? parseFileList(args.file_list)
+    : (ctx.repoTree?.files.map((f) => ({ path: f.path })) ?? []);
+
+  if (files.length === 0) {
+    return {
+      content: "[EOP] No files provided to classify. Please provide a list of file paths or upload a repository archive.",
+    };
+  }
+
+  const items = await mapInChunks(files, signal, (f) => classifyFile(f));
+  const report = summarizeClassification(items, DEFAULT_CONFIDENCE_THRESHOLD);
+  let content = formatClassificationReport(report);
+
+  if (args.record_in_chain === "true") {
+    const recorded = report.items.filter((i) => i.type && !i.needsReview);
+    for (const item of recorded) {
+      annotateArtifact(ctx.graph, item.path, item.type!, item.description);
+    }
+    content += `\n\nRecorded ${recorded.length} confident classification(s) in the evidence chain; flagged items were not recorded.`;
+  }
+
+  return { content, data: { kind: "classification", report } };
+}
+
+export function executeAdviseDisclosureScope(args: ToolArgs, ctx: ToolContext): ToolOutput {
+  const claim = args.claim_description?.trim();
+  if (!claim) {
+    return { content: "[EOP] claim_description is required: quote the claim as it appears in the paper." };
+  }
+  const assessment = assessClaim(claim, ctx.scopes);
+  return {
+    content: formatClaimAssessment(assessment),
+    data: { kind: "claim_assessment", assessment },
+  };
+}
+
+export async function executeSuggestDirectoryStructure(
+  args: ToolArgs,
+  ctx: ToolContext,
+  signal: AbortSignal
+): Promise<ToolOutput> {
+  const files: PlanInput[] | undefined = args.current_structure
+    ? parseFileList(args.current_structure)
+    : ctx.repoTree?.files.map((f) => ({ path: f.path, references: f.references ?? [] }));
+
+  if (!files || files.length === 0) {
+    return {
+      content:
+        "[EOP] No files to restructure. Paste the repository listing as current_structure " +
+        "(one path per line) or upload the repository archive first.",
+    };
+  }
+
+  const sorted = [...files].sort((a, b) => a.path.localeCompare(b.path));
+  const plan = assembleMovePlan(sorted, await mapInChunks(sorted, signal, (f) => proposeMove(f, ctx.graph)));
+  const desc = args.project_description ? `Project: ${args.project_description}\n` : "";
+  return {
+    content: desc + formatMovePlan(plan),
+    data: { kind: "move_plan", plan },
+  };
+}
+
+export function executeQueryEvidenceChain(args: ToolArgs, ctx: ToolContext): string {
+  const graph = ctx.graph;
+
+  if (args.node) {
+    const artifact = findArtifact(graph, args.node);
+    if (artifact) {
+      const links = linksForArtifact(graph, artifact.id);
+      return (
+        `[EOP] ${formatArtifact(artifact)}\n` +
+        (links.length > 0
+          ? `Links (${links.length}):\n${links.map((l) => `  ${formatLink(graph, l)} ${formatClaim(findClaim(graph, l.claimId)!)}`).join("\n")}`
+          : "Not linked to any claim.")
+      );
+    }
+    const claim = findClaim(graph, args.node);
+    if (claim) {
+      const links = linksForClaim(graph, claim.id);
+      return (
+        `[EOP] Claim ${formatClaim(claim)}\n` +
+        (links.length > 0
+          ? `Supporting artifacts (${links.length}):\n${links.map((l) => `  ${l.id} ${l.type}: ${formatArtifact(findArtifact(graph, l.artifactId)!)}`).join("\n")}`
+          : "No artifacts linked yet.")
+      );
+    }
+    return `[EOP] No artifact or claim matches "${args.node}".\n\n${describeEvidenceGraph(graph)}`;
+  }
+
+  if (args.artifact_type) {
+    const matches = graph.artifacts.filter((a) => a.type === args.artifact_type);
+    return matches.length > 0
+      ? `[EOP] ${matches.length} ${args.artifact_type} artifact(s):\n${matches.map((a) => `  ${formatArtifact(a)}`).join("\n")}`
+      : `[EOP] No ${args.artifact_type} artifacts recorded.`;
+  }
+
+  return `[EOP] Current evidence chain:\n${describeEvidenceGraph(graph)}`;
+}
+
+export function executeUpdateEvidenceNode(args: ToolArgs, ctx: ToolContext): string {
+  const ref = args.node?.trim();
+  if (!ref) {
+    return "[EOP] No node given. Provide an artifact or claim id/name.";
+  }
+
+  const artifact = findArtifact(ctx.graph, ref);
+  if (artifact) {
+    if (args.artifact_type !== undefined && !isEcfArtifactType(args.artifact_type)) {
+      return `[EOP] Invalid artifact type "${args.artifact_type}". Must be one of: ${ECF_ARTIFACT_TYPES.join(", ")}. Nothing was changed.`;
+    }
+    const sameName = args.new_name ? findArtifact(ctx.graph, args.new_name) : undefined;
+    if (sameName && sameName !== artifact) {
+      return `[EOP] Another artifact is already named "${args.new_name}". Nothing was changed.`;
+    }
+    updateArtifact(artifact, {
+      name: args.new_name,
+      type: isEcfArtifactType(args.artifact_type) ? args.artifact_type : undefined,
+      description: args.description,
+    });
+    return `[EOP] Updated artifact ${formatArtifact(artifact)}.`;
+  }
+
+  const claim = findClaim(ctx.graph, ref);
+  if (claim) {
+    if (!args.claim_text?.trim()) {
+      return `[EOP] Provide claim_text to reword claim ${claim.id}. Nothing was changed.`;
+    }
+    updateClaim(claim, args.claim_text);
+    return `[EOP] Updated claim ${formatClaim(claim)}.`;
+  }
+
+  return `[EOP] No artifact or claim matches "${ref}". Nothing was changed.`;
+}
+
+export function executeDeleteEvidenceNode(args: ToolArgs, ctx: ToolContext): string {
+  const ref = args.node?.trim();
+  if (!ref) {
+    return "[EOP] No node given. Provide an artifact, claim or link id/name.";
+  }
+
+  const kind = args.kind as DeletedNode["kind"] | undefined;
+  const deleted = deleteNode(ctx.graph, ref, kind);
+  if (!deleted) {
+    return `[EOP] No ${kind ?? "artifact, claim or link"} matches "${ref}". Nothing was deleted.`;
+  }
+
+  const what =
+    deleted.kind === "artifact"
+      ? `artifact ${formatArtifact(deleted.node)}`
+      : deleted.kind === "claim"
+        ? `claim ${formatClaim(deleted.node)}`
+        : `link ${deleted.node.id}`;
+  const cascade = deleted.removedLinks > 0 ? ` and ${deleted.removedLinks} attached link(s)` : "";
   return (
-    `[EOP] Suggesting ECF-compliant directory structure.${desc}\n\n` +
-    `Current structure:\n${structure}\n\n` +
-    `ECF recommended directories:\n` +
-    `  work/     — Working files and scripts\n` +
-    `  input/    — Raw input data\n` +
-    `  output/   — Computed results\n` +
-    `  claim/    — Visual claims (figures, tables)\n` +
-    `  source/   — Source code\n` +
-    `  test/     — Tests\n` +
-    `  case/     — Case studies / examples\n` +
-    `  document/ — Entry document and per-step docs\n\n` +
-    `Please suggest how to reorganize the files into this structure.`
+    `[EOP] Deleted ${what}${cascade}. Evidence chain now has ${ctx.graph.artifacts.length} artifact(s), ` +
+    `${ctx.graph.claims.length} claim(s), ${ctx.graph.links.length} link(s).`
   );
 }
 
+export function executeCheckChainCompleteness(args: ToolArgs, ctx: ToolContext): ToolOutput {
+  let claims = ctx.graph.claims;
+  if (args.claim) {
+    const claim = findClaim(ctx.graph, args.claim);
+    if (!claim) {
+      return { content: `[EOP] No claim matches "${args.claim}".\n\n${describeEvidenceGraph(ctx.graph)}` };
+    }
+    claims = [claim];
+  }
+
+  const report = checkChainCompleteness(ctx.graph, claims);
+  return {
+    content: formatGapReport(ctx.graph, report),
+    data: { kind: "chain_gaps", report },
+  };
+}
+
+export function executeGenerateEntryDocument(args: ToolArgs, ctx: ToolContext): ToolOutput {
+  if (ctx.graph.artifacts.length === 0 && ctx.graph.claims.length === 0) {
+    return {
+      content:
+        "[EOP] The evidence chain is empty, so there is nothing to document yet. " +
+        "Record artifacts with annotate_artifact and link them to claims first.",
+    };
+  }
+
+  const doc = generateEntryDocument(ctx.graph, {
+    title: args.title,
+    projectDescription: args.project_description,
+  });
+  return {
+    content: formatEntryDocument(doc),
+    data: { kind: "entry_document", document: doc },
+  };
+}
+
+export async function executeCreateHashManifest(
+  args: ToolArgs,
+  ctx: ToolContext,
+  signal: AbortSignal
+): Promise<ToolOutput> {
+  const tree = ctx.repoTree;
+  const files: FileHash[] = (tree?.files ?? [])
+    .filter((f) => f.sha256)
+    .map((f) => ({ path: f.path, size: f.size, sha256: f.sha256! }));
+  if (!tree || files.length === 0) {
+    return {
+      content:
+        "[EOP] No hashed files are available. Ask the user to upload the repository archive, " +
+        "or to hash the files directly from the evidence chain panel.",
+    };
+  }
+
+  let only: EvidenceArtifact[] | undefined;
+  if (args.artifacts?.trim()) {
+    only = [];
+    const unknown: string[] = [];
+    for (const ref of args.artifacts.split(",").map((r) => r.trim()).filter(Boolean)) {
+      const artifact = findArtifact(ctx.graph, ref);
+      if (artifact) only.push(artifact);
+      else unknown.push(ref);
+    }
+    if (unknown.length > 0) {
+      return {
+        content: `[EOP] No artifact matches ${unknown.map((r) => `"${r}"`).join(", ")}.\n\n${describeEvidenceGraph(ctx.graph)}`,
+      };
+    }
+  }
+
+  const entries = await mapInChunks(files, signal, (f) => hashManifestEntry(f, ctx.graph, only));
+  const manifest = assembleHashManifest(entries.filter((e) => e !== undefined), tree.archiveName);
+  if (manifest.files.length === 0) {
+    return {
+      content:
+        `[EOP] None of the uploaded files belong to ${only!.map((a) => a.id).join(", ")}. ` +
+        "Artifact names must match repository paths (a file, or a folder containing files). " +
+        "Files excluded by .gitignore are not part of the upload; they can be hashed from the evidence chain panel.",
+    };
+  }
+
+  let content = formatHashManifest(manifest);
+  if (tree.truncated) content += "\n\nThe uploaded file list was truncated at the file limit, so some files are not covered.";
+  return { content, data: { kind: "hash_manifest", manifest } };
+}
+
+/**
+ * Runs one tool call. Executors may be synchronous; an async executor should
+ * stop its work once `signal` aborts (the call timed out or the run was cancelled).
+ * Synchronous work can't be stopped, so an executor that walks the file tree
+ * does it in chunks (mapInChunks) and checks the signal in between.
+ */
+export type ToolExecutor = (
+  args: ToolArgs,
+  ctx: ToolContext,
+  signal: AbortSignal
+) => string | ToolOutput | Promise<string | ToolOutput>;
+
+export interface ToolSpec {
+  execute: ToolExecutor;
+  mutates?: boolean | ((args: Record<string, unknown>) => boolean); // changes the evidence chain (a function: with these arguments): runs alone, in call order
+  timeoutMs?: number; // default DEFAULT_TOOL_TIMEOUT_MS
+}
+
+export const DEFAULT_TOOL_TIMEOUT_MS = 30_000;
+
+/** Executor registry; a new tool needs an entry here and in TOOL_DEFINITIONS. */
+export const TOOL_SPECS: Record<string, ToolSpec> = {
+  annotate_artifact: { execute: executeAnnotateArtifact, mutates: true },
+  link_to_claim: { execute: executeLinkToClaim, mutates: true },
+  classify_repo_artifacts: {
+    execute: executeClassifyRepoArtifacts,
+    mutates: (args) => String(args.record_in_chain) === "true", // annotates the confident classifications
+  },
+  advise_disclosure_scope: { execute: executeAdviseDisclosureScope },
+  suggest_directory_structure: { execute: executeSuggestDirectoryStructure },
+  query_evidence_chain: { execute: executeQueryEvidenceChain },
+  update_evidence_node: { execute: executeUpdateEvidenceNode, mutates: true },
+  delete_evidence_node: { execute: executeDeleteEvidenceNode, mutates: true },
+  check_chain_completeness: { execute: executeCheckChainCompleteness },
+  generate_entry_document: { execute: executeGenerateEntryDocument },
+  create_hash_manifest: { execute: executeCreateHashManifest },
+};
+
+/** Whether a call to the tool with these (parsed) arguments changes the evidence chain. */
+export function changesEvidence(toolName: string, args: Record<string, unknown>): boolean {
+  const mutates = TOOL_SPECS[toolName]?.mutates;
+  return typeof mutates === "function" ? mutates(args) : mutates === true;
+}
+
 /** Execute a tool by name with the given parsed arguments. */
-export function executeTool(
+export async function executeTool(
   toolName: string,
-  args: Record<string, unknown>
-): string {
+  args: Record<string, unknown>,
+  ctx: ToolContext,
+  signal: AbortSignal = new AbortController().signal
+): Promise<ToolOutput> {
   const strArgs: ToolArgs = {};
   for (const [k, v] of Object.entries(args)) {
     strArgs[k] = typeof v === "string" ? v : JSON.stringify(v);
   }
 
-  switch (toolName) {
-    case "annotate_artifact":
-      return executeAnnotateArtifact(strArgs);
-    case "link_to_claim":
-      return executeLinkToClaim(strArgs);
-    case "classify_repo_artifacts":
-      return executeClassifyRepoArtifacts(strArgs);
-    case "advise_disclosure_scope":
-      return executeAdviseDisclosureScope(strArgs);
-    case "suggest_directory_structure":
-      return executeSuggestDirectoryStructure(strArgs);
-    default:
-      return `[EOP] Unknown tool: ${toolName}`;
-  }
+  const spec = TOOL_SPECS[toolName];
+  if (!spec) return { content: `[EOP] Unknown tool: ${toolName}` };
+  const output = await spec.execute(strArgs, ctx, signal);
+  return typeof output === "string" ? { content: output } : output;
 }
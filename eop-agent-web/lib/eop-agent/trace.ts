@@ -0,0 +1,175 @@
+/**
+ * Run traces — a structured record of one runAgent call.
+ *
+ * The recorder collects every LLM request and response (with latency), the
+ * tool calls with their arguments and results, retries, fallbacks and the
+ * final reply. runAgent feeds it from the agent events and the callLLM hooks;
+ * custom nodes reach it through `state.runtime.trace`.
+ *
+ * API keys never enter the trace on purpose (calls are recorded by provider
+ * and model), and finish() also replaces any key that turns up in a message or
+ * an error text, so a trace can be stored and shown as is.
+ */
+
+import type { AgentEvent, ChatMessage, Provider, RunTrace, TraceEvent } from "@/lib/types";
+import { classifyLLMError, type LLMCallHooks } from "@/lib/llm/adapter";
+
+export const REDACTED = "[REDACTED]";
+
+// Key formats of the supported providers, caught even when the key itself wasn't passed in
+const KEY_PATTERNS = [/sk-[A-Za-z0-9_-]{8,}/g, /nvapi-[A-Za-z0-9_-]{8,}/g, /AIza[A-Za-z0-9_-]{20,}/g];
+
+/** Replace the given secrets, and anything shaped like a provider key, in every string of `value`. */
+export function redactSecrets<T>(value: T, secrets: string[]): T {
+  const known = secrets.filter((s) => s.length >= 8);
+  return JSON.parse(
+    JSON.stringify(value, (_key, v) => {
+      if (typeof v !== "string") return v;
+      let text = v;
+      for (const secret of known) text = text.split(secret).join(REDACTED);
+      for (const pattern of KEY_PATTERNS) text = text.replace(pattern, REDACTED);
+      return text;
+    })
+  ) as T;
+}
+
+/** The chat fields of a message, as a provider receives them. */
+function chatFields({ role, content, tool_calls, tool_call_id, name }: ChatMessage): ChatMessage {
+  return {
+    role,
+    content,
+    ...(tool_calls ? { tool_calls } : {}),
+    ...(tool_call_id ? { tool_call_id } : {}),
+    ...(name ? { name } : {}),
+  };
+}
+
+function errorText(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+export interface TraceRecorder {
+  /** Record an agent event (tool calls and results, retries, fallbacks, nodes). */
+  onEvent: (event: AgentEvent) => void;
+  /** Hooks to pass to callLLM so each provider call is recorded. */
+  llmHooks: LLMCallHooks;
+  /** Add an event of your own; `at` is filled in. */
+  record: (event: DistributiveOmit<TraceEvent, "at">) => void;
+  /** Close the trace and return it with secrets redacted. */
+  finish: (outcome: { path: string[]; usage: RunTrace["usage"] } & (
+    | { reply: ChatMessage; partial?: string }
+    | { error: unknown }
+  )) => RunTrace;
+}
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+export function createTraceRecorder(run: {
+  provider: Provider;
+  model: string;
+  history: ChatMessage[];
+  secrets: string[]; // the run's API keys
+}): TraceRecorder {
+  const started = Date.now();
+  const startedAt = new Date(started).toISOString();
+  const events: TraceEvent[] = [];
+  const toolStarts = new Map<string, number>();
+  let callId = 0;
+  let pendingCall = 0; // callId of the request awaiting its response
+
+  const record = (event: DistributiveOmit<TraceEvent, "at">) => {
+    events.push({ ...event, at: Date.now() - started } as TraceEvent);
+  };
+
+  const lastUser = [...run.history].reverse().find((m) => m.role === "user");
+
+  return {
+    record,
+
+    onEvent: (event) => {
+      switch (event.type) {
+        case "node":
+          record({ type: "node", node: event.node });
+          break;
+        case "tool_call":
+          toolStarts.set(event.toolCallId, Date.now());
+          record({ type: "tool_call", toolCallId: event.toolCallId, toolName: event.toolName, arguments: event.arguments });
+          break;
+        case "tool_result": {
+          const { result } = event;
+          record({
+            type: "tool_result",
+            toolCallId: result.toolCallId,
+            toolName: result.toolName,
+            latencyMs: Date.now() - (toolStarts.get(result.toolCallId) ?? Date.now()),
+            result: result.result,
+            ...(result.data ? { dataKind: result.data.kind } : {}),
+          });
+          break;
+        }
+        case "retry":
+          record({ type: "retry", node: event.node, attempt: event.attempt, delayMs: event.delayMs, error: event.error });
+          break;
+        case "fallback":
+          record({ type: "fallback", from: event.from, to: event.to, errorClass: event.errorClass, error: event.error });
+          break;
+        case "compaction":
+          record({
+            type: "compaction",
+            summarized: event.compaction.summarized,
+            tokensBefore: event.compaction.tokensBefore,
+            tokensAfter: event.compaction.tokensAfter,
+          });
+          break;
+        default:
+          break; // tokens and round ends add nothing the LLM records don't have
+      }
+    },
+
+    llmHooks: {
+      onRequest: (call) => {
+        pendingCall = ++callId;
+        record({ type: "llm_request", callId: pendingCall, ...call, messages: call.messages.map(chatFields) });
+      },
+      onResponse: (response, latencyMs) =>
+        record({
+          type: "llm_response",
+          callId: pendingCall,
+          provider: response.provider,
+          model: response.model,
+          latencyMs,
+          content: response.content,
+          ...(response.toolCalls ? { toolCalls: response.toolCalls } : {}),
+          ...(response.usage ? { usage: response.usage } : {}),
+        }),
+      onError: (call, err, latencyMs) =>
+        record({
+          type: "llm_error",
+          callId: pendingCall,
+          ...call,
+          latencyMs,
+          errorClass: classifyLLMError(err),
+          error: errorText(err),
+        }),
+    },
+
+    finish: (outcome) => {
+      if ("error" in outcome) record({ type: "error", error: errorText(outcome.error) });
+      else record({ type: "reply", content: outcome.reply.content, ...(outcome.partial ? { partial: outcome.partial } : {}) });
+
+      const trace: RunTrace = {
+        id: crypto.randomUUID(),
+        startedAt,
+        durationMs: Date.now() - started,
+        status: "error" in outcome ? "error" : outcome.partial ? "partial" : "ok",
+        provider: run.provider,
+        model: run.model,
+        userMessage: lastUser?.content ?? null,
+        path: outcome.path,
+        usage: outcome.usage,
+        events,
+      };
+      return redactSecrets(trace, run.secrets);
+    },
+  };
+}
@@ -1,17 +1,67 @@
 /**
- * LLM Adapter — unified interface across OpenAI, NIM, and Gemini.
+ * LLM Adapter — unified interface across OpenAI, NIM, Gemini, Anthropic and
+ * custom OpenAI-compatible endpoints.
  *
  * Returns a consistent shape regardless of provider so the agent
  * runner (run-agent.ts) uses a single code path.
+ *
+ * With a fallback policy, a call that fails with a switching error class
+ * (by default rate limits, server errors, timeouts and network errors) is sent
+ * to the next provider in the list. Messages stay in the OpenAI format and
+ * each client converts them, so a conversation with pending tool calls can
+ * move between the OpenAI-, Gemini- and Anthropic-format backends mid-run.
+ *
+ * The offline providers answer without a network: "replay" from recorded
+ * fixtures and "mock" from a script, the model naming the cassette or script
+ * (see fixtures.ts). With EOP_RECORD_FIXTURES set, live answers are recorded.
  */
 
-import type { ChatMessage, ToolDefinition, ToolCall, Provider } from "@/lib/types";
-import { callOpenAICompatible } from "./openai-client";
-import { callGemini } from "./gemini-client";
+import type {
+  ChatMessage,
+  CustomEndpoint,
+  ToolDefinition,
+  ToolCall,
+  Provider,
+  LLMErrorClass,
+  LLMTarget,
+  TokenUsage,
+} from "@/lib/types";
+import {
+  DEFAULT_MODELS,
+  callOpenAICompatible,
+  isTextToolCall,
+  streamOpenAICompatible,
+  textToolCallError,
+  usageFromCompletion,
+} from "./openai-client";
+import { DEFAULT_MODEL as DEFAULT_GEMINI_MODEL, callGemini } from "./gemini-client";
+import { DEFAULT_MODEL as DEFAULT_ANTHROPIC_MODEL, callAnthropic } from "./anthropic-client";
+import { callMock } from "./mock-client";
+import { loadMockScript, recordCassetteFromEnv, recordExchange, replayExchange } from "./fixtures";
 
 export interface LLMResponse {
   content: string | null;
   toolCalls: ToolCall[] | undefined;
+  provider: Provider; // the provider that answered
+  model: string; // the model that answered, defaults resolved
+  usage?: TokenUsage; // undefined when the provider reported none
+}
+
+/** Error classes worth another attempt: the request itself was fine. */
+export const TRANSIENT_ERROR_CLASSES: LLMErrorClass[] = ["rate_limit", "server", "timeout", "network"];
+
+export interface FallbackPolicy {
+  targets: LLMTarget[]; // tried in order after the primary provider
+  switchOn?: LLMErrorClass[]; // default TRANSIENT_ERROR_CLASSES
+  /** Called before each switch; text streamed by the failed provider should be discarded. */
+  onSwitch?: (from: LLMTarget, to: LLMTarget, errorClass: LLMErrorClass, err: unknown) => void;
+}
+
+/** Observes each provider call callLLM makes (one per fallback step), e.g. for a run trace. */
+export interface LLMCallHooks {
+  onRequest?: (call: { provider: Provider; model: string; messages: ChatMessage[]; tools: string[] }) => void;
+  onResponse?: (response: LLMResponse, latencyMs: number) => void;
+  onError?: (call: { provider: Provider; model: string }, err: unknown, latencyMs: number) => void;
 }
 
 export interface LLMCallOptions {
@@ -20,20 +70,150 @@ export interface LLMCallOptions {
   messages: ChatMessage[];
   tools?: ToolDefinition[];
   model?: string;
+  endpoint?: CustomEndpoint; // base URL and headers of the "custom" provider
   temperature?: number;
   maxTokens?: number;
+  /** When set, the provider streams its response and text deltas are forwarded here. */
+  onDelta?: (text: string) => void;
+  /** Aborts the request in flight, a stream included; an aborted call does not fall back. */
+  signal?: AbortSignal;
+  fallback?: FallbackPolicy;
+  hooks?: LLMCallHooks;
+}
+
+/** The model a provider uses for `model` (its default when omitted). */
+export function resolveModel(provider: Provider, model?: string): string {
+  if (model) return model;
+  if (provider === "replay" || provider === "mock") return "default";
+  if (provider === "custom") throw new Error("The custom provider needs a model name.");
+  if (provider === "anthropic") return DEFAULT_ANTHROPIC_MODEL;
+  return provider === "gemini" ? DEFAULT_GEMINI_MODEL : DEFAULT_MODELS[provider];
+}
+
+/**
+ * Classify an error from any provider SDK. The SDKs put the HTTP status on
+ * the error; connection failures and timeouts are recognized by message.
+ */
+export function classifyLLMError(err: unknown): LLMErrorClass {
+  const status = (err as { status?: unknown } | null)?.status;
+  const message = err instanceof Error ? err.message : String(err);
+
+  if (typeof status === "number") {
+    if (status === 429) return "rate_limit";
+    if (status === 401 || status === 403) return "auth";
+    if (status === 408) return "timeout";
+    if (status >= 500) return "server";
+    if (status >= 400) return "invalid_request";
+  }
+  if (/\b429\b|rate limit|quota|resource.?exhausted/i.test(message)) return "rate_limit";
+  if (/timed? ?out|ETIMEDOUT|deadline/i.test(message)) return "timeout";
+  if (/connection error|fetch failed|ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|socket hang up|network/i.test(message)) {
+    return "network";
+  }
+  if (/\b(500|502|503|504)\b|overloaded|unavailable|internal error/i.test(message)) return "server";
+  if (/\b(401|403)\b|unauthorized|api key/i.test(message)) return "auth";
+  return "unknown";
 }
 
+/**
+ * Call the LLM, falling back through `opts.fallback.targets` on switching
+ * errors. Throws the last provider's error when none of them answers.
+ */
 export async function callLLM(opts: LLMCallOptions): Promise<LLMResponse> {
-  if (opts.provider === "openai" || opts.provider === "nim") {
+  const primary: LLMTarget = { provider: opts.provider, apiKey: opts.apiKey, model: opts.model, endpoint: opts.endpoint };
+  const chain = [primary];
+  for (const target of opts.fallback?.targets ?? []) {
+    const model = resolveModel(target.provider, target.model);
+    if (!chain.some((t) => t.provider === target.provider && resolveModel(t.provider, t.model) === model)) {
+      chain.push(target);
+    }
+  }
+  const switchOn = opts.fallback?.switchOn ?? TRANSIENT_ERROR_CLASSES;
+
+  for (let i = 0; ; i++) {
+    const target = chain[i];
+    const call = { provider: target.provider, model: resolveModel(target.provider, target.model) };
+    opts.hooks?.onRequest?.({ ...call, messages: opts.messages, tools: (opts.tools ?? []).map((t) => t.function.name) });
+    const started = Date.now();
+    let response: LLMResponse;
+    try {
+      response = { ...(await callProvider({ ...opts, ...target })), ...call };
+    } catch (err) {
+      opts.hooks?.onError?.(call, err, Date.now() - started);
+      const errorClass = classifyLLMError(err);
+      if (opts.signal?.aborted || i + 1 >= chain.length || !switchOn.includes(errorClass)) throw err;
+      opts.fallback?.onSwitch?.(target, chain[i + 1], errorClass, err);
+      continue;
+    }
+    opts.hooks?.onResponse?.(response, Date.now() - started);
+    await record(opts, response); // a failed write fails the call: a cassette with gaps won't replay
+    return response;
+  }
+}
+
+/** Append a live exchange to the EOP_RECORD_FIXTURES cassette, if recording. */
+async function record(opts: LLMCallOptions, response: LLMResponse): Promise<void> {
+  const cassette = recordCassetteFromEnv();
+  if (!cassette || response.provider === "replay" || response.provider === "mock") return;
+  await recordExchange(
+    cassette,
+    {
+      provider: response.provider,
+      model: response.model,
+      messages: opts.messages,
+      tools: (opts.tools ?? []).map((t) => t.function.name),
+    },
+    response
+  );
+}
+
+/** A custom endpoint that writes tool calls as text can't run the agent's tools; fail with the reason. */
+function checkToolCalls(
+  opts: LLMCallOptions,
+  response: Omit<LLMResponse, "provider" | "model">
+): Omit<LLMResponse, "provider" | "model"> {
+  const toolNames = (opts.tools ?? []).map((t) => t.function.name);
+  if (opts.provider === "custom" && !response.toolCalls && isTextToolCall(response.content, toolNames)) {
+    throw textToolCallError(opts);
+  }
+  return response;
+}
+
+async function callProvider(opts: LLMCallOptions): Promise<Omit<LLMResponse, "provider" | "model">> {
+  if ((opts.provider === "openai" || opts.provider === "nim" || opts.provider === "custom") && opts.onDelta) {
+    const streamed = await streamOpenAICompatible(
+      {
+        provider: opts.provider,
+        apiKey: opts.apiKey,
+        endpoint: opts.endpoint,
+        messages: opts.messages,
+        tools: opts.tools,
+        model: opts.model,
+        temperature: opts.temperature,
+        maxTokens: opts.maxTokens,
+        signal: opts.signal,
+      },
+      opts.onDelta
+    );
+
+    return checkToolCalls(opts, {
+      content: streamed.content,
+      toolCalls: streamed.toolCalls.length > 0 ? streamed.toolCalls : undefined,
+      usage: streamed.usage,
+    });
+  }
+
+  if (opts.provider === "openai" || opts.provider === "nim" || opts.provider === "custom") {
     const completion = await callOpenAICompatible({
       provider: opts.provider,
       apiKey: opts.apiKey,
+      endpoint: opts.endpoint,
       messages: opts.messages,
       tools: opts.tools,
       model: opts.model,
       temperature: opts.temperature,
       maxTokens: opts.maxTokens,
+      signal: opts.signal,
     });
 
     const choice = completion.choices[0];
@@ -54,10 +234,11 @@ export async function callLLM(opts: LLMCallOptions): Promise<LLMResponse> {
         };
       });
 
-    return {
+    return checkToolCalls(opts, {
       content: msg?.content ?? null,
       toolCalls: toolCalls && toolCalls.length > 0 ? toolCalls : undefined,
-    };
+      usage: usageFromCompletion(completion.usage),
+    });
   }
 
   if (opts.provider === "gemini") {
@@ -68,13 +249,59 @@ export async function callLLM(opts: LLMCallOptions): Promise<LLMResponse> {
       model: opts.model,
       temperature: opts.temperature,
       maxTokens: opts.maxTokens,
+      signal: opts.signal,
+      onDelta: opts.onDelta,
     });
 
     return {
       content: result.content,
       toolCalls: result.tool_calls,
+      usage: result.usage,
     };
   }
 
+  if (opts.provider === "anthropic") {
+    const result = await callAnthropic({
+      apiKey: opts.apiKey,
+      messages: opts.messages,
+      tools: opts.tools,
+      model: opts.model,
+      temperature: opts.temperature,
+      maxTokens: opts.maxTokens,
+      signal: opts.signal,
+      onDelta: opts.onDelta,
+    });
+
+    return {
+      content: result.content,
+      toolCalls: result.tool_calls,
+      usage: result.usage,
+    };
+  }
+
+  if (opts.provider === "replay") {
+    const recorded = await replayExchange({
+      name: resolveModel("replay", opts.model),
+      messages: opts.messages,
+      tools: opts.tools,
+      onDelta: opts.onDelta,
+    });
+
+    return {
+      content: recorded.content,
+      toolCalls: recorded.toolCalls,
+      usage: recorded.usage,
+    };
+  }
+
+  if (opts.provider === "mock") {
+    return callMock({
+      script: await loadMockScript(resolveModel("mock", opts.model)),
+      messages: opts.messages,
+      tools: opts.tools,
+      onDelta: opts.onDelta,
+    });
+  }
+
   throw new Error(`Unknown provider: ${opts.provider}`);
 }
@@ -0,0 +1,185 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { ChatMessage, ToolDefinition } from "@/lib/types";
+import { callAnthropic, messagesToAnthropic, toolDefsToAnthropic } from "./anthropic-client";
+
+const TOOLS: ToolDefinition[] = [
+  {
+    type: "function",
+    function: {
+      name: "query_evidence_chain",
+      description: "List the chain",
+      parameters: { type: "object", properties: { node: { type: "string" } } },
+    },
+  },
+];
+
+const call = (id: string, name: string, args: string) => ({ id, type: "function" as const, function: { name, arguments: args } });
+
+describe("messagesToAnthropic", () => {
+  it("joins system messages and merges tool results of one turn into a user turn", () => {
+    const messages: ChatMessage[] = [
+      { role: "system", content: "You are the EOP agent." },
+      { role: "system", content: "Context: empty chain." },
+      { role: "user", content: "Check A1 and A2" },
+      {
+        role: "assistant",
+        content: "Checking.",
+        tool_calls: [call("call_1", "query_evidence_chain", '{"node":"A1"}'), call("call_2", "query_evidence_chain", '{"node":"A2"}')],
+      },
+      { role: "tool", tool_call_id: "call_1", content: "[EOP] A1" },
+      { role: "tool", tool_call_id: "call_2", content: "[EOP] A2" },
+      { role: "user", content: "Thanks" },
+    ];
+
+    const { system, messages: turns } = messagesToAnthropic(messages);
+
+    expect(system).toBe("You are the EOP agent.\n\nContext: empty chain.");
+    expect(turns).toEqual([
+      { role: "user", content: [{ type: "text", text: "Check A1 and A2" }] },
+      {
+        role: "assistant",
+        content: [
+          { type: "text", text: "Checking." },
+          { type: "tool_use", id: "call_1", name: "query_evidence_chain", input: { node: "A1" } },
+          { type: "tool_use", id: "call_2", name: "query_evidence_chain", input: { node: "A2" } },
+        ],
+      },
+      {
+        role: "user",
+        content: [
+          { type: "tool_result", tool_use_id: "call_1", content: "[EOP] A1" },
+          { type: "tool_result", tool_use_id: "call_2", content: "[EOP] A2" },
+          { type: "text", text: "Thanks" },
+        ],
+      },
+    ]);
+  });
+
+  it("maps ids from other providers to valid tool use ids and sends invalid arguments as {}", () => {
+    const { messages: turns } = messagesToAnthropic([
+      { role: "user", content: "hi" },
+      { role: "assistant", content: null, tool_calls: [call("call.abc:1", "query_evidence_chain", "not json")] },
+      { role: "tool", tool_call_id: "call.abc:1", content: "[EOP] Error" },
+    ]);
+
+    expect(turns[1].content).toEqual([{ type: "tool_use", id: "call_abc_1", name: "query_evidence_chain", input: {} }]);
+    expect(turns[2].content).toEqual([{ type: "tool_result", tool_use_id: "call_abc_1", content: "[EOP] Error" }]);
+  });
+
+  it("leaves out empty text blocks", () => {
+    const { messages: turns } = messagesToAnthropic([
+      { role: "user", content: "hi" },
+      { role: "assistant", content: "" },
+    ]);
+
+    expect(turns).toEqual([{ role: "user", content: [{ type: "text", text: "hi" }] }]);
+  });
+});
+
+describe("toolDefsToAnthropic", () => {
+  it("passes the JSON schema through as input_schema", () => {
+    expect(toolDefsToAnthropic(TOOLS)).toEqual([
+      { name: "query_evidence_chain", description: "List the chain", input_schema: TOOLS[0].function.parameters },
+    ]);
+  });
+});
+
+// ── Against a stub of the Messages API ──
+
+interface Received {
+  apiKey: string | undefined;
+  body: { model: string; stream?: boolean; system?: string; tools?: unknown[]; messages: unknown[] };
+}
+
+const received: Received[] = [];
+
+const REPLY = {
+  id: "msg_1",
+  type: "message",
+  role: "assistant",
+  content: [
+    { type: "text", text: "Let me look." },
+    { type: "tool_use", id: "toolu_01", name: "query_evidence_chain", input: { node: "A1" } },
+  ],
+  stop_reason: "tool_use",
+  stop_sequence: null,
+  usage: { input_tokens: 100, output_tokens: 20, cache_creation_input_tokens: 3, cache_read_input_tokens: 5 },
+};
+
+function sendStream(res: http.ServerResponse, model: string) {
+  res.writeHead(200, { "content-type": "text/event-stream" });
+  const event = (type: string, data: object) => res.write(`event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`);
+  event("message_start", { message: { ...REPLY, model, content: [], usage: { ...REPLY.usage, output_tokens: 0 } } });
+  event("content_block_start", { index: 0, content_block: { type: "text", text: "" } });
+  event("content_block_delta", { index: 0, delta: { type: "text_delta", text: "Let me " } });
+  event("content_block_delta", { index: 0, delta: { type: "text_delta", text: "look." } });
+  event("content_block_stop", { index: 0 });
+  event("content_block_start", { index: 1, content_block: { ...REPLY.content[1], input: {} } });
+  event("content_block_delta", { index: 1, delta: { type: "input_json_delta", partial_json: '{"node":"A1"}' } });
+  event("content_block_stop", { index: 1 });
+  event("message_delta", { delta: { stop_reason: "tool_use", stop_sequence: null }, usage: { output_tokens: 20 } });
+  event("message_stop", {});
+  res.end();
+}
+
+const server = http.createServer((req, res) => {
+  let data = "";
+  req.on("data", (chunk) => (data += chunk));
+  req.on("end", () => {
+    const body = JSON.parse(data) as Received["body"];
+    received.push({ apiKey: req.headers["x-api-key"] as string | undefined, body });
+    if (body.stream) return sendStream(res, body.model);
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify({ ...REPLY, model: body.model }));
+  });
+});
+
+describe("callAnthropic", () => {
+  let baseUrl: string | undefined;
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = process.env.ANTHROPIC_BASE_URL;
+    process.env.ANTHROPIC_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    if (baseUrl === undefined) delete process.env.ANTHROPIC_BASE_URL;
+    else process.env.ANTHROPIC_BASE_URL = baseUrl;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const messages: ChatMessage[] = [
+    { role: "system", content: "You are the EOP agent." },
+    { role: "user", content: "What is recorded for A1?" },
+  ];
+
+  it("sends the converted request and returns text, tool calls and usage", async () => {
+    const result = await callAnthropic({ apiKey: "sk-ant-test", messages, tools: TOOLS });
+
+    const { apiKey, body } = received.at(-1)!;
+    expect(apiKey).toBe("sk-ant-test");
+    expect(body.model).toBe("claude-sonnet-4-6");
+    expect(body.system).toBe("You are the EOP agent.");
+    expect(body.tools).toEqual(toolDefsToAnthropic(TOOLS));
+    expect(body.messages).toEqual([{ role: "user", content: [{ type: "text", text: "What is recorded for A1?" }] }]);
+
+    expect(result).toEqual({
+      content: "Let me look.",
+      tool_calls: [call("toolu_01", "query_evidence_chain", '{"node":"A1"}')],
+      usage: { promptTokens: 108, completionTokens: 20 },
+    });
+  });
+
+  it("streams text deltas and returns the final message", async () => {
+    const deltas: string[] = [];
+    const result = await callAnthropic({ apiKey: "sk-ant-test", messages, model: "claude-haiku-4-5", onDelta: (d) => deltas.push(d) });
+
+    expect(received.at(-1)!.body).toMatchObject({ model: "claude-haiku-4-5", stream: true });
+    expect(deltas).toEqual(["Let me ", "look."]);
+    expect(result.content).toBe("Let me look.");
+    expect(result.tool_calls).toEqual([call("toolu_01", "query_evidence_chain", '{"node":"A1"}')]);
+  });
+});
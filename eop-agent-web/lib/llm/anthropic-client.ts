@@ -0,0 +1,156 @@
+/**
+ * Anthropic client — uses the @anthropic-ai/sdk Messages API.
+ *
+ * Converts OpenAI-format messages and tool definitions to Messages API
+ * content blocks (tool calls become tool_use blocks, tool results
+ * tool_result blocks in a user turn), then converts the response back to an
+ * OpenAI-compatible shape so the rest of run-agent.ts can use a single code path.
+ *
+ * The SDK reads ANTHROPIC_BASE_URL, so the client can be pointed at a local
+ * stub server for tests.
+ */
+
+import Anthropic from "@anthropic-ai/sdk";
+import type { ChatMessage, ToolDefinition, ToolCall, TokenUsage } from "@/lib/types";
+import { parseToolArguments } from "./tool-arguments";
+
+export const DEFAULT_MODEL = "claude-sonnet-4-6";
+
+// ── Format converters ──
+
+/** Tool use ids may only hold letters, digits, _ and -; ids from other providers are mapped the same way on both sides. */
+function toToolUseId(id: string): string {
+  return id.replace(/[^A-Za-z0-9_-]/g, "_");
+}
+
+export function toolDefsToAnthropic(tools: ToolDefinition[]): Anthropic.Tool[] {
+  return tools.map((t) => ({
+    name: t.function.name,
+    description: t.function.description,
+    input_schema: t.function.parameters as Anthropic.Tool.InputSchema,
+  }));
+}
+
+export function messagesToAnthropic(messages: ChatMessage[]): {
+  system: string | undefined;
+  messages: Anthropic.MessageParam[];
+} {
+  let system: string | undefined;
+  const turns: Anthropic.MessageParam[] = [];
+
+  // Turns alternate between user and assistant; consecutive blocks of one role share a turn
+  const push = (role: "user" | "assistant", blocks: Anthropic.ContentBlockParam[]) => {
+    if (blocks.length === 0) return;
+    const last = turns[turns.length - 1];
+    if (last?.role === role) (last.content as Anthropic.ContentBlockParam[]).push(...blocks);
+    else turns.push({ role, content: blocks });
+  };
+  // The API rejects empty text blocks
+  const text = (content: string | null): Anthropic.TextBlockParam[] =>
+    content ? [{ type: "text", text: content }] : [];
+
+  for (const msg of messages) {
+    if (msg.role === "system") {
+      // Several system messages (prompt + context) are joined into one system prompt
+      system = system ? `${system}\n\n${msg.content || ""}` : msg.content || "";
+    } else if (msg.role === "user") {
+      push("user", text(msg.content));
+    } else if (msg.role === "assistant") {
+      push("assistant", [
+        ...text(msg.content),
+        ...(msg.tool_calls ?? []).map(
+          (tc): Anthropic.ToolUseBlockParam => ({
+            type: "tool_use",
+            id: toToolUseId(tc.id),
+            name: tc.function.name,
+            input: parseToolArguments(tc.function.arguments),
+          })
+        ),
+      ]);
+    } else if (msg.role === "tool") {
+      // Results of one turn's parallel calls go back together, in a single user turn
+      push("user", [
+        {
+          type: "tool_result",
+          tool_use_id: toToolUseId(msg.tool_call_id ?? ""),
+          content: msg.content || "",
+        },
+      ]);
+    }
+  }
+
+  return { system, messages: turns };
+}
+
+// ── Main call function ──
+
+export interface AnthropicCompletionOptions {
+  apiKey: string;
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  /** When set, the response is streamed and text deltas are forwarded here. */
+  onDelta?: (text: string) => void;
+  /** Aborts the request, or the stream while it is read. */
+  signal?: AbortSignal;
+}
+
+/** Result shaped like a simplified OpenAI completion for consistency. */
+export interface AnthropicResult {
+  content: string | null;
+  tool_calls: ToolCall[] | undefined;
+  usage?: TokenUsage;
+}
+
+export async function callAnthropic(opts: AnthropicCompletionOptions): Promise<AnthropicResult> {
+  const client = new Anthropic({ apiKey: opts.apiKey });
+  const { system, messages } = messagesToAnthropic(opts.messages);
+
+  const params: Anthropic.MessageCreateParamsNonStreaming = {
+    model: opts.model || DEFAULT_MODEL,
+    max_tokens: opts.maxTokens ?? 2048,
+    temperature: opts.temperature ?? 0.3,
+    messages,
+    ...(system ? { system } : {}),
+    ...(opts.tools && opts.tools.length > 0 ? { tools: toolDefsToAnthropic(opts.tools) } : {}),
+  };
+
+  if (opts.onDelta) {
+    const stream = client.messages.stream(params, { signal: opts.signal });
+    stream.on("text", (delta) => opts.onDelta!(delta));
+    // The final message carries the complete text and tool calls.
+    return messageToResult(await stream.finalMessage());
+  }
+
+  return messageToResult(await client.messages.create(params, { signal: opts.signal }));
+}
+
+function messageToResult(message: Anthropic.Message): AnthropicResult {
+  let textContent = "";
+  const toolCalls: ToolCall[] = [];
+
+  for (const block of message.content) {
+    if (block.type === "text") {
+      textContent += block.text;
+    } else if (block.type === "tool_use") {
+      toolCalls.push({
+        id: block.id,
+        type: "function",
+        function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+      });
+    }
+  }
+
+  // Cached prompt tokens are reported apart from input_tokens
+  const { input_tokens, output_tokens, cache_creation_input_tokens, cache_read_input_tokens } = message.usage;
+  return {
+    content: textContent || null,
+    tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+    usage: {
+      promptTokens: input_tokens + (cache_creation_input_tokens ?? 0) + (cache_read_input_tokens ?? 0),
+      completionTokens: output_tokens,
+    },
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * Checks for the endpoint of the "custom" provider (server only).
+ *
+ * A custom endpoint makes the server send requests to a URL from the request
+ * body, so on a shared deployment it could be used to reach internal hosts.
+ * Only hosts listed in EOP_CUSTOM_HOSTS (comma-separated) are accepted:
+ * "gpu-box.lan" matches that host, "*.example.com" its subdomains and "*" any
+ * host. Without the variable, no host is allowed and the provider is off:
+ * not even localhost, whose services may be reachable only from the server.
+ */
+
+import type { CustomEndpoint } from "@/lib/types";
+
+const MAX_HEADERS = 20;
+const HEADER_NAME = /^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/;
+// Set by the HTTP client itself
+const RESERVED_HEADERS = ["host", "content-length", "content-type", "connection", "transfer-encoding"];
+
+export function customHostsFromEnv(env: Record<string, string | undefined> = process.env): string[] {
+  return (env.EOP_CUSTOM_HOSTS ?? "")
+    .split(",")
+    .map((h) => h.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function isHostAllowed(hostname: string, allowed: string[]): boolean {
+  const host = hostname.toLowerCase();
+  return allowed.some((pattern) =>
+    pattern === "*" ? true : pattern.startsWith("*.") ? host.endsWith(pattern.slice(1)) : host === pattern
+  );
+}
+
+/** Why `endpoint` can't be used, or null if it can. */
+export function customEndpointError(endpoint: unknown, allowedHosts = customHostsFromEnv()): string | null {
+  const { baseUrl, headers } = (endpoint ?? {}) as Partial<CustomEndpoint>;
+  if (typeof endpoint !== "object" || endpoint === null || typeof baseUrl !== "string") {
+    return "The custom provider needs an endpoint: { baseUrl, headers? }.";
+  }
+
+  let url: URL;
+  try {
+    url = new URL(baseUrl);
+  } catch {
+    return `endpoint.baseUrl "${baseUrl}" is not a URL.`;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return "endpoint.baseUrl must be an http or https URL.";
+  if (url.username || url.password) return "Put credentials in endpoint.headers, not in the base URL.";
+  if (allowedHosts.length === 0) {
+    return "Custom endpoints are off on this server. Set EOP_CUSTOM_HOSTS to the hosts it may call (e.g. localhost).";
+  }
+  if (!isHostAllowed(url.hostname, allowedHosts)) {
+    return `The host "${url.hostname}" is not allowed for custom endpoints (allowed: ${allowedHosts.join(", ")}; set EOP_CUSTOM_HOSTS).`;
+  }
+
+  if (headers === undefined) return null;
+  if (typeof headers !== "object" || headers === null || Array.isArray(headers)) {
+    return "endpoint.headers must be an object of header names to values.";
+  }
+  const entries = Object.entries(headers);
+  if (entries.length > MAX_HEADERS) return `endpoint.headers has too many headers (max ${MAX_HEADERS}).`;
+  for (const [name, value] of entries) {
+    if (!HEADER_NAME.test(name) || RESERVED_HEADERS.includes(name.toLowerCase())) {
+      return `endpoint.headers: "${name}" can't be set.`;
+    }
+    if (typeof value !== "string" || /[\r\n]/.test(value)) {
+      return `endpoint.headers: the value of "${name}" must be a single-line string.`;
+    }
+  }
+  return null;
+}
+
+/** The endpoint's base URL and headers only, without anything else the client may have sent along. */
+export function toCustomEndpoint(endpoint: CustomEndpoint): CustomEndpoint {
+  return {
+    baseUrl: endpoint.baseUrl.trim(),
+    ...(endpoint.headers && Object.keys(endpoint.headers).length > 0 ? { headers: endpoint.headers } : {}),
+  };
+}
@@ -0,0 +1,106 @@
+import { mkdtemp, readFile, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { ChatMessage, ToolDefinition } from "@/lib/types";
+import { DEFAULT_MOCK_SCRIPT } from "./mock-client";
+import { type Cassette, loadMockScript, recordExchange, replayExchange, requestKeys } from "./fixtures";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "eop-fixtures-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+const TOOLS: ToolDefinition[] = [
+  { type: "function", function: { name: "query_evidence_chain", description: "List the chain", parameters: { type: "object", properties: {} } } },
+];
+
+/** A turn that called query_evidence_chain and got `result` back. */
+const afterTool = (result: string): ChatMessage[] => [
+  { role: "user", content: "Show the chain" },
+  {
+    role: "assistant",
+    content: null,
+    tool_calls: [{ id: "call_1", type: "function", function: { name: "query_evidence_chain", arguments: "{}" } }],
+  },
+  { role: "tool", tool_call_id: "call_1", name: "query_evidence_chain", content: result },
+];
+
+const record = (messages: ChatMessage[], content: string) =>
+  recordExchange("demo", { provider: "openai", model: "gpt-4o-mini", messages, tools: ["query_evidence_chain"] }, { content }, dir);
+
+describe("recordExchange and replayExchange", () => {
+  it("replay a recorded answer to the same request", async () => {
+    const messages = afterTool("[EOP] 1 artifact (recorded 10:02)");
+    await record(messages, "The chain has one artifact.");
+
+    const deltas: string[] = [];
+    const response = await replayExchange({ name: "demo", messages, tools: TOOLS, onDelta: (d) => deltas.push(d) }, dir);
+    expect(response).toEqual({ content: "The chain has one artifact." });
+    expect(deltas).toEqual(["The chain has one artifact."]);
+    expect(await readdir(dir)).toEqual(["demo.json"]); // no temporary file left behind
+  });
+
+  it("store only the chat fields, and replace an exchange recorded again", async () => {
+    const messages: ChatMessage[] = [{ role: "user", content: "Hi", usage: [] }];
+    await record(messages, "first");
+    await record([{ role: "user", content: "Hi" }], "second");
+
+    const cassette = JSON.parse(await readFile(path.join(dir, "demo.json"), "utf8")) as Cassette;
+    expect(cassette.exchanges).toHaveLength(1);
+    expect(cassette.exchanges[0].request.messages).toEqual([{ role: "user", content: "Hi" }]);
+    expect(cassette.exchanges[0].response).toEqual({ content: "second" });
+  });
+
+  it("fall back to the loose key when only a tool result differs", async () => {
+    await record(afterTool("[EOP] 1 artifact (recorded 10:02)"), "exact");
+    const later = afterTool("[EOP] 1 artifact (recorded 11:45)");
+
+    expect(requestKeys(later, ["query_evidence_chain"])).toMatchObject({
+      looseKey: requestKeys(afterTool("other"), ["query_evidence_chain"]).looseKey,
+    });
+    expect(await replayExchange({ name: "demo", messages: later, tools: TOOLS }, dir)).toEqual({ content: "exact" });
+    // The exact key wins over an earlier loose match
+    await record(later, "exact for the later run");
+    expect(await replayExchange({ name: "demo", messages: later, tools: TOOLS }, dir)).toEqual({
+      content: "exact for the later run",
+    });
+  });
+
+  it("report a request the cassette doesn't cover, and a missing cassette", async () => {
+    await record(afterTool("result"), "answer");
+    await expect(
+      replayExchange({ name: "demo", messages: [{ role: "user", content: "Something else" }], tools: TOOLS }, dir)
+    ).rejects.toThrow('Fixture cassette "demo" has no exchange matching this request (1 messages).');
+    // Without the tools it was recorded with, it is another request
+    await expect(replayExchange({ name: "demo", messages: afterTool("result") }, dir)).rejects.toThrow(/no exchange matching/);
+    await expect(replayExchange({ name: "absent", messages: [] }, dir)).rejects.toThrow(
+      `No fixture cassette "absent" in ${dir}. Record one with EOP_RECORD_FIXTURES=absent.`
+    );
+  });
+});
+
+describe("fixture names", () => {
+  it("refuse a name that could point outside the fixtures directory", async () => {
+    for (const name of ["../outside", "a/b", ".hidden", ""]) {
+      await expect(
+        recordExchange(name, { provider: "openai", model: "m", messages: [], tools: [] }, { content: null }, dir)
+      ).rejects.toThrow(`Invalid fixture name "${name}".`);
+      await expect(replayExchange({ name, messages: [] }, dir)).rejects.toThrow(`Invalid fixture name "${name}".`);
+      await expect(loadMockScript(name, dir)).rejects.toThrow(`Invalid fixture name "${name}".`);
+    }
+    expect(await readdir(path.dirname(dir))).not.toContain("outside.json");
+  });
+
+  it("load the built-in mock script and name a missing one", async () => {
+    expect(await loadMockScript("default", dir)).toBe(DEFAULT_MOCK_SCRIPT);
+    await expect(loadMockScript("walkthrough", dir)).rejects.toThrow(
+      `No mock script "walkthrough" in ${dir} (expected walkthrough.mock.json).`
+    );
+  });
+});
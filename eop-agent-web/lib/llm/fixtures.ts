@@ -0,0 +1,162 @@
+/**
+ * LLM fixtures — recorded exchanges for the offline "replay" provider (server only).
+ *
+ * A cassette is one JSON file, <EOP_FIXTURES_DIR>/<name>.json (default
+ * ./fixtures/llm), holding request/response pairs. With
+ * EOP_RECORD_FIXTURES=<name>, callLLM appends every exchange a live provider
+ * answers to that cassette; the "replay" provider, with the cassette name as
+ * its model, then answers the same requests without a network.
+ *
+ * A request is matched by a hash of its messages and tool names first, then
+ * loosely by its role sequence, last user message and tool names, so
+ * replays survive tool results that differ between runs (timestamps, ids).
+ * Only messages and responses are written, never API keys.
+ *
+ * Mock scripts for the "mock" provider (see mock-client.ts) live in the same
+ * directory as <name>.mock.json.
+ */
+
+import { createHash } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import type { ChatMessage, Provider, TokenUsage, ToolCall, ToolDefinition } from "@/lib/types";
+import { DEFAULT_MOCK_SCRIPT, type MockScript } from "./mock-client";
+
+const CASSETTE_NAME = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+export interface FixtureExchange {
+  key: string;
+  looseKey: string;
+  request: { provider: Provider; model: string; messages: ChatMessage[]; tools: string[] };
+  response: { content: string | null; toolCalls?: ToolCall[]; usage?: TokenUsage };
+}
+
+export interface Cassette {
+  version: 1;
+  exchanges: FixtureExchange[];
+}
+
+export function fixturesDirFromEnv(env: Record<string, string | undefined> = process.env): string {
+  return path.resolve(env.EOP_FIXTURES_DIR || "fixtures/llm");
+}
+
+/** The cassette live exchanges are recorded to, or null when recording is off. */
+export function recordCassetteFromEnv(env: Record<string, string | undefined> = process.env): string | null {
+  return env.EOP_RECORD_FIXTURES || null;
+}
+
+function fixtureFile(dir: string, name: string, suffix = ".json"): string {
+  // Names come from the request's model field; anything path-like could point outside the directory
+  if (!CASSETTE_NAME.test(name)) throw new Error(`Invalid fixture name "${name}".`);
+  return path.join(dir, `${name}${suffix}`);
+}
+
+/** The chat fields of a message, as a provider receives them. */
+function chatFields({ role, content, tool_calls, tool_call_id, name }: ChatMessage): ChatMessage {
+  return {
+    role,
+    content,
+    ...(tool_calls ? { tool_calls } : {}),
+    ...(tool_call_id ? { tool_call_id } : {}),
+    ...(name ? { name } : {}),
+  };
+}
+
+/** The exact and loose match keys of a request. */
+export function requestKeys(messages: ChatMessage[], tools: string[]): { key: string; looseKey: string } {
+  const key = createHash("sha256")
+    .update(JSON.stringify({ messages: messages.map(chatFields), tools }))
+    .digest("hex");
+  const lastUser = [...messages].reverse().find((m) => m.role === "user");
+  const looseKey = createHash("sha256")
+    .update(JSON.stringify({ roles: messages.map((m) => m.role), user: lastUser?.content ?? null, tools }))
+    .digest("hex");
+  return { key, looseKey };
+}
+
+/** The cassette, or null if there is none with this name. */
+export async function loadCassette(name: string, dir = fixturesDirFromEnv()): Promise<Cassette | null> {
+  try {
+    return JSON.parse(await readFile(fixtureFile(dir, name), "utf8")) as Cassette;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+/** Answer a request from cassette `name`; throws when it has no matching exchange. */
+export async function replayExchange(
+  opts: { name: string; messages: ChatMessage[]; tools?: ToolDefinition[]; onDelta?: (text: string) => void },
+  dir = fixturesDirFromEnv()
+): Promise<FixtureExchange["response"]> {
+  const cassette = await loadCassette(opts.name, dir);
+  if (!cassette) {
+    throw new Error(`No fixture cassette "${opts.name}" in ${dir}. Record one with EOP_RECORD_FIXTURES=${opts.name}.`);
+  }
+  const { key, looseKey } = requestKeys(opts.messages, (opts.tools ?? []).map((t) => t.function.name));
+  const exchange =
+    cassette.exchanges.find((e) => e.key === key) ?? cassette.exchanges.find((e) => e.looseKey === looseKey);
+  if (!exchange) {
+    throw new Error(`Fixture cassette "${opts.name}" has no exchange matching this request (${opts.messages.length} messages).`);
+  }
+  if (exchange.response.content) opts.onDelta?.(exchange.response.content);
+  return exchange.response;
+}
+
+// Pending write per cassette; each append waits for the one before it
+const locks = new Map<string, Promise<unknown>>();
+
+async function withLock<T>(file: string, fn: () => Promise<T>): Promise<T> {
+  const previous = locks.get(file) ?? Promise.resolve();
+  const current = previous.catch(() => {}).then(fn);
+  locks.set(file, current);
+  try {
+    return await current;
+  } finally {
+    if (locks.get(file) === current) locks.delete(file);
+  }
+}
+
+/** Append an exchange to cassette `name`, replacing an earlier one with the same key. */
+export async function recordExchange(
+  name: string,
+  request: FixtureExchange["request"],
+  response: FixtureExchange["response"],
+  dir = fixturesDirFromEnv()
+): Promise<void> {
+  const file = fixtureFile(dir, name);
+  await withLock(file, async () => {
+    const cassette: Cassette = (await loadCassette(name, dir)) ?? { version: 1, exchanges: [] };
+    const messages = request.messages.map(chatFields);
+    const { key, looseKey } = requestKeys(messages, request.tools);
+    const exchange: FixtureExchange = {
+      key,
+      looseKey,
+      request: { ...request, messages },
+      response: {
+        content: response.content,
+        ...(response.toolCalls ? { toolCalls: response.toolCalls } : {}),
+        ...(response.usage ? { usage: response.usage } : {}),
+      },
+    };
+    cassette.exchanges = [...cassette.exchanges.filter((e) => e.key !== key), exchange];
+
+    await mkdir(dir, { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(cassette, null, 2));
+    await rename(tmp, file);
+  });
+}
+
+/** Mock script `name`: the built-in one for "default", else <dir>/<name>.mock.json. */
+export async function loadMockScript(name: string, dir = fixturesDirFromEnv()): Promise<MockScript> {
+  if (name === "default") return DEFAULT_MOCK_SCRIPT;
+  try {
+    return JSON.parse(await readFile(fixtureFile(dir, name, ".mock.json"), "utf8")) as MockScript;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(`No mock script "${name}" in ${dir} (expected ${name}.mock.json).`);
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,69 @@
+import { readFileSync, readdirSync } from "fs";
+import path from "path";
+import type { EnhancedGenerateContentResponse } from "@google/generative-ai";
+import { describe, expect, it } from "vitest";
+import type { ChatMessage, ToolDefinition } from "@/lib/types";
+import { messagesToGeminiContents, responseToResult, toolDefsToGemini } from "./gemini-convert";
+
+const FIXTURES_DIR = path.join(__dirname, "../../fixtures/gemini-conversion");
+
+/** A case of fixtures/gemini-conversion: the input of one conversion and its output or error message. */
+type Fixture = {
+  description: string;
+  expected?: unknown;
+  error?: string;
+} & (
+  | { kind: "messages"; input: ChatMessage[] }
+  | { kind: "tools"; input: ToolDefinition[] }
+  | { kind: "response"; input: { callIds: string[]; response: object } } // callIds: handed out to calls without an id
+);
+
+function asResponse(response: object): EnhancedGenerateContentResponse {
+  return { ...response, text: () => "" } as unknown as EnhancedGenerateContentResponse;
+}
+
+function convert(fixture: Fixture): unknown {
+  switch (fixture.kind) {
+    case "messages":
+      return messagesToGeminiContents(fixture.input);
+    case "tools":
+      return toolDefsToGemini(fixture.input);
+    case "response": {
+      const ids: string[] = [...fixture.input.callIds];
+      return responseToResult(asResponse(fixture.input.response), () => ids.shift()!);
+    }
+  }
+}
+
+const fixtures = readdirSync(FIXTURES_DIR)
+  .filter((name) => name.endsWith(".json"))
+  .map((name) => ({ name, fixture: JSON.parse(readFileSync(path.join(FIXTURES_DIR, name), "utf8")) as Fixture }));
+
+describe("Gemini conversion fixtures", () => {
+  it.each(fixtures)("$name", ({ fixture }) => {
+    if (fixture.error !== undefined) {
+      expect(() => convert(fixture)).toThrow(fixture.error);
+    } else {
+      // As sent over the wire: undefined fields are left out
+      expect(JSON.parse(JSON.stringify(convert(fixture)))).toEqual(fixture.expected);
+    }
+  });
+});
+
+describe("responseToResult", () => {
+  it("gives calls without an id a new id each time", () => {
+    const response = asResponse({
+      candidates: [
+        {
+          index: 0,
+          content: { role: "model", parts: [{ functionCall: { name: "query_evidence_chain", args: {} } }] },
+        },
+      ],
+    });
+
+    const ids = Array.from({ length: 3 }, () => responseToResult(response).tool_calls![0].id);
+
+    expect(new Set(ids).size).toBe(3);
+    for (const id of ids) expect(id).toMatch(/^gemini_[0-9a-f-]{36}$/);
+  });
+});
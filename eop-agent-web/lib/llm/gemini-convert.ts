@@ -0,0 +1,298 @@
+/**
+ * Gemini conversion — OpenAI-format messages, tool definitions and responses
+ * to and from the shapes of the Gemini API.
+ *
+ * - Tool results that answer one model turn go back together in a single
+ *   function turn, in the order of the calls, as Gemini matches them by
+ *   name and position.
+ * - JSON schemas map onto Gemini's subset: a type or anyOf that allows null
+ *   becomes `nullable`, other anyOf/oneOf branches become `anyOf`, and
+ *   formats, bounds and lengths are kept where Gemini has them. Constructs it
+ *   can't express ($ref, allOf, not, tuples, free-form objects, …) throw an
+ *   error naming the tool and the parameter.
+ * - Gemini needs no call ids. A call keeps the id Gemini sent, if any, or
+ *   gets a random gemini_<uuid>, unique in the conversation even after
+ *   compaction has dropped earlier turns. Recorded runs still replay: the
+ *   cassette holds the responses with their ids. An id that wasn't made up
+ *   here goes back on the call and on its result, so Gemini can pair them.
+ *
+ * The cases are pinned by the fixtures in fixtures/gemini-conversion, which
+ * gemini-convert.test.ts runs.
+ */
+
+import type { Content, EnhancedGenerateContentResponse, FunctionDeclaration, Part } from "@google/generative-ai";
+import type { ChatMessage, ToolCall, ToolDefinition, TokenUsage } from "@/lib/types";
+import { parseToolArguments } from "./tool-arguments";
+
+type JsonSchema = Record<string, unknown>;
+type GeminiSchema = Record<string, unknown>;
+
+// Gemini's SchemaType values
+const TYPES = ["string", "number", "integer", "boolean", "array", "object"];
+
+const FORMATS: Record<string, string[]> = {
+  string: ["date-time"], // "enum" is set from `enum`
+  number: ["float", "double"],
+  integer: ["int32", "int64"],
+};
+
+// Keywords Gemini takes as they are
+const KEPT = [
+  "description",
+  "title",
+  "minItems",
+  "maxItems",
+  "minimum",
+  "maximum",
+  "minLength",
+  "maxLength",
+  "pattern",
+  "minProperties",
+  "maxProperties",
+  "default",
+  "example",
+];
+
+// Annotations with no bearing on what the model generates; left out
+const IGNORED = ["$schema", "$id", "$comment", "examples", "readOnly", "writeOnly", "deprecated", "additionalProperties"];
+
+// Handled below
+const MAPPED = ["type", "format", "enum", "const", "nullable", "anyOf", "oneOf", "items", "properties", "required"];
+
+// Prefix of the ids given to calls Gemini sent without one; these are never sent to Gemini
+const GENERATED_ID_PREFIX = "gemini_";
+
+/** `path` is the tool name, then the parameter: find_claims.filters[].status */
+function unsupported(path: string, what: string): Error {
+  const [tool, ...parameter] = path.split(/(?=[.[<])/);
+  const where = parameter.length > 0 ? `Tool "${tool}", parameter "${parameter.join("").replace(/^\./, "")}"` : `Tool "${tool}"`;
+  return new Error(`${where}: ${what} — Gemini can't express this in a function declaration.`);
+}
+
+function convertSchema(schema: unknown, path: string): GeminiSchema {
+  if (typeof schema !== "object" || schema === null || Array.isArray(schema)) {
+    throw unsupported(path, "a schema must be an object");
+  }
+  const s = schema as JsonSchema;
+  for (const key of Object.keys(s)) {
+    if (!KEPT.includes(key) && !IGNORED.includes(key) && !MAPPED.includes(key)) {
+      throw unsupported(path, `the keyword "${key}" is not supported`);
+    }
+  }
+
+  // anyOf / oneOf: a null branch makes the rest nullable; a single other branch is merged in
+  const branches = (s.anyOf ?? s.oneOf) as unknown[] | undefined;
+  if (branches !== undefined) {
+    if (!Array.isArray(branches) || branches.length === 0) throw unsupported(path, "anyOf/oneOf must be a non-empty list");
+    if (s.anyOf && s.oneOf) throw unsupported(path, "anyOf and oneOf together");
+    const rest = Object.fromEntries(Object.entries(s).filter(([k]) => k !== "anyOf" && k !== "oneOf"));
+    const isNull = (b: unknown) => (b as JsonSchema | null)?.type === "null";
+    const nullable = branches.some(isNull) || s.nullable === true;
+    const others = branches.filter((b) => !isNull(b));
+    if (others.length === 0) throw unsupported(path, "a value that can only be null");
+    if (others.length === 1) {
+      return { ...convertSchema({ ...(others[0] as JsonSchema), ...rest }, path), ...(nullable ? { nullable } : {}) };
+    }
+    return {
+      ...convertKept(rest),
+      anyOf: others.map((b, i) => convertSchema(b, `${path}<${i}>`)),
+      ...(nullable ? { nullable } : {}),
+    };
+  }
+
+  // type: "x" or ["x", "null"]
+  let type = s.type;
+  let nullable = s.nullable === true;
+  if (Array.isArray(type)) {
+    const types = type.filter((t) => t !== "null");
+    if (types.length !== 1) throw unsupported(path, `a value of several types (${type.join(", ")}); use anyOf`);
+    nullable ||= types.length < type.length;
+    type = types[0];
+  }
+  const values = s.const !== undefined ? [s.const] : (s.enum as unknown[] | undefined);
+  if (type === undefined && values?.every((v) => typeof v === "string")) type = "string";
+  if (typeof type !== "string" || !TYPES.includes(type)) {
+    throw unsupported(path, type === undefined ? "a schema without a type" : `the type "${String(type)}"`);
+  }
+
+  const result: GeminiSchema = { type, ...convertKept(s), ...(nullable ? { nullable } : {}) };
+
+  if (values !== undefined) {
+    // Gemini enums are lists of strings
+    if (type !== "string" || !values.every((v) => typeof v === "string")) {
+      throw unsupported(path, "an enum or const of non-string values");
+    }
+    result.format = "enum";
+    result.enum = values;
+  } else if (typeof s.format === "string") {
+    // A format Gemini lacks (uri, email, …) still tells the model what to write
+    if (FORMATS[type]?.includes(s.format)) result.format = s.format;
+    else result.description = [s.description, `(format: ${s.format})`].filter(Boolean).join(" ");
+  }
+
+  if (type === "array") {
+    if (s.items === undefined) throw unsupported(path, "an array without an items schema");
+    if (Array.isArray(s.items)) throw unsupported(path, "a tuple (items as a list)");
+    result.items = convertSchema(s.items, `${path}[]`);
+  }
+
+  if (type === "object") {
+    const properties = (s.properties ?? {}) as Record<string, unknown>;
+    if (Object.keys(properties).length === 0) {
+      throw unsupported(path, "an object without properties (a free-form map)");
+    }
+    result.properties = Object.fromEntries(
+      Object.entries(properties).map(([name, prop]) => [name, convertSchema(prop, `${path}.${name}`)])
+    );
+    if (Array.isArray(s.required) && s.required.length > 0) result.required = s.required;
+  }
+
+  return result;
+}
+
+function convertKept(s: JsonSchema): GeminiSchema {
+  return Object.fromEntries(Object.entries(s).filter(([k, v]) => KEPT.includes(k) && v !== undefined));
+}
+
+/** Gemini function declarations for the tools; throws when a schema can't be expressed. */
+export function toolDefsToGemini(tools: ToolDefinition[]): FunctionDeclaration[] {
+  return tools.map((t) => {
+    const params = t.function.parameters;
+    const hasParams = Object.keys((params.properties ?? {}) as object).length > 0;
+    if (params.type !== "object") throw unsupported(t.function.name, "parameters must be an object schema");
+    return {
+      name: t.function.name,
+      description: t.function.description,
+      // A function without parameters has none declared; Gemini rejects an empty object
+      ...(hasParams ? { parameters: convertSchema(params, t.function.name) as unknown as FunctionDeclaration["parameters"] } : {}),
+    };
+  });
+}
+
+/** `{ id }` for a call id Gemini can be given back (the SDK's types don't have it yet); nothing for one made up here. */
+function callIdField(id: string | undefined): { id?: string } {
+  return id && !id.startsWith(GENERATED_ID_PREFIX) ? { id } : {};
+}
+
+export function messagesToGeminiContents(messages: ChatMessage[]): {
+  systemInstruction: string | undefined;
+  contents: Content[];
+} {
+  let systemInstruction: string | undefined;
+  const contents: Content[] = [];
+  const calls = new Map<string, { name: string; index: number }>(); // tool_call_id → function and position in its turn
+  let answering: { content: Content; order: number[] } | undefined; // the function turn answering the latest model turn
+
+  for (const msg of messages) {
+    if (msg.role === "system") {
+      // Several system messages (prompt + context) are joined into one instruction
+      systemInstruction = systemInstruction
+        ? `${systemInstruction}\n\n${msg.content || ""}`
+        : msg.content || "";
+      continue;
+    }
+
+    if (msg.role === "user") {
+      answering = undefined;
+      contents.push({
+        role: "user",
+        parts: [{ text: msg.content || "" }],
+      });
+    } else if (msg.role === "assistant") {
+      answering = undefined;
+      const parts: Part[] = [];
+      if (msg.content) {
+        parts.push({ text: msg.content });
+      }
+      for (const [index, tc] of (msg.tool_calls ?? []).entries()) {
+        calls.set(tc.id, { name: tc.function.name, index });
+        parts.push({
+          functionCall: {
+            name: tc.function.name,
+            args: parseToolArguments(tc.function.arguments),
+            ...callIdField(tc.id),
+          },
+        });
+      }
+      if (parts.length > 0) {
+        contents.push({ role: "model", parts });
+      }
+    } else if (msg.role === "tool") {
+      // Gemini names a result by its function (and by its id, if the call has one); the name may only be on the call
+      const call = calls.get(msg.tool_call_id ?? "");
+      const part: Part = {
+        functionResponse: {
+          name: msg.name || call?.name || "unknown",
+          response: { result: msg.content || "" },
+          ...callIdField(msg.tool_call_id),
+        },
+      };
+      // Results of one turn's calls go back together, in a single content, in the order of the calls
+      if (!answering) {
+        answering = { content: { role: "function", parts: [] }, order: [] };
+        contents.push(answering.content);
+      }
+      const index = call?.index ?? Infinity;
+      let at = answering.order.findIndex((i) => i > index);
+      if (at === -1) at = answering.order.length;
+      answering.order.splice(at, 0, index);
+      answering.content.parts.splice(at, 0, part);
+    }
+  }
+
+  return { systemInstruction, contents };
+}
+
+/** Result shaped like a simplified OpenAI completion for consistency. */
+export interface GeminiResult {
+  content: string | null;
+  tool_calls: ToolCall[] | undefined;
+  usage?: TokenUsage;
+}
+
+function randomCallId(): string {
+  return `${GENERATED_ID_PREFIX}${crypto.randomUUID()}`;
+}
+
+/** The response as text and OpenAI-format tool calls; `newCallId` names calls Gemini sent without an id. */
+export function responseToResult(
+  response: EnhancedGenerateContentResponse,
+  newCallId: () => string = randomCallId
+): GeminiResult {
+  const candidate = response.candidates?.[0];
+  const usage: TokenUsage | undefined = response.usageMetadata && {
+    promptTokens: response.usageMetadata.promptTokenCount,
+    completionTokens: response.usageMetadata.candidatesTokenCount,
+  };
+
+  if (!candidate || !candidate.content) {
+    return { content: response.text() || null, tool_calls: undefined, usage };
+  }
+
+  let textContent = "";
+  const toolCalls: ToolCall[] = [];
+
+  for (const part of candidate.content.parts) {
+    if (part.text) {
+      textContent += part.text;
+    }
+    if (part.functionCall) {
+      // Newer models send an id with the call; the SDK's types don't have it yet
+      const { id } = part.functionCall as { id?: string };
+      toolCalls.push({
+        id: id || newCallId(),
+        type: "function",
+        function: {
+          name: part.functionCall.name,
+          arguments: JSON.stringify(part.functionCall.args ?? {}),
+        },
+      });
+    }
+  }
+
+  return {
+    content: textContent || null,
+    tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+    usage,
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * Mock provider — scripted responses chosen by matching the request, for
+ * running the agent and the UI offline.
+ *
+ * A script is a list of rules; the first rule whose `match` fits the request
+ * answers it. A rule can return text, tool calls, or both, so a script can
+ * walk the agent through a whole tool loop. Text may use {{user}} (the latest
+ * user message), {{tool}} and {{result}} (the latest tool call's name and result).
+ *
+ * The built-in DEFAULT_MOCK_SCRIPT records an artifact, queries the chain and
+ * checks its completeness on request; scripts of your own live next to the
+ * replay fixtures (see fixtures.ts).
+ */
+
+import type { ChatMessage, ToolCall, ToolDefinition } from "@/lib/types";
+
+export interface MockRule {
+  match?: {
+    user?: string; // regex (case-insensitive) on the latest message, which must be the user's
+    tool?: string; // the latest message is this tool's result ("*": any tool)
+    withoutTools?: boolean; // the request offers no tools (e.g. a compaction summary)
+  };
+  respond: {
+    content?: string;
+    toolCalls?: { name: string; arguments: Record<string, unknown> }[];
+  };
+}
+
+export interface MockScript {
+  rules: MockRule[];
+}
+
+export const DEFAULT_MOCK_SCRIPT: MockScript = {
+  rules: [
+    {
+      match: { withoutTools: true },
+      respond: { content: "The user explored the EOP agent with the offline mock provider." },
+    },
+    {
+      match: { tool: "*" },
+      respond: { content: "(mock) {{tool}} returned:\n\n{{result}}" },
+    },
+    {
+      match: { user: "\\b(record|annotate)\\b" },
+      respond: {
+        toolCalls: [
+          {
+            name: "annotate_artifact",
+            arguments: {
+              artifact_name: "data/measurements.csv",
+              artifact_type: "input_data",
+              description: "Raw measurements (recorded by the mock provider)",
+            },
+          },
+        ],
+      },
+    },
+    {
+      match: { user: "\\b(complete|completeness|gaps?)\\b" },
+      respond: { toolCalls: [{ name: "check_chain_completeness", arguments: {} }] },
+    },
+    {
+      match: { user: "\\b(chain|evidence|recorded)\\b" },
+      respond: { toolCalls: [{ name: "query_evidence_chain", arguments: {} }] },
+    },
+    {
+      respond: {
+        content:
+          "This is the offline mock provider: no model is called. Ask me to \"record an artifact\", " +
+          "\"show the evidence chain\" or \"check completeness\" to run the tools.\n\nYou said: {{user}}",
+      },
+    },
+  ],
+};
+
+export interface MockResult {
+  content: string | null;
+  toolCalls: ToolCall[] | undefined;
+}
+
+function matches(rule: MockRule, messages: ChatMessage[], tools: ToolDefinition[]): boolean {
+  const m = rule.match;
+  if (!m) return true;
+  const last = messages[messages.length - 1];
+  if (m.withoutTools !== undefined && m.withoutTools !== (tools.length === 0)) return false;
+  if (m.user !== undefined && !(last?.role === "user" && new RegExp(m.user, "i").test(last.content ?? ""))) {
+    return false;
+  }
+  if (m.tool !== undefined && !(last?.role === "tool" && (m.tool === "*" || last.name === m.tool))) return false;
+  return true;
+}
+
+function fill(template: string, messages: ChatMessage[]): string {
+  const lastUser = [...messages].reverse().find((m) => m.role === "user");
+  const lastTool = [...messages].reverse().find((m) => m.role === "tool");
+  return template
+    .replaceAll("{{user}}", lastUser?.content ?? "")
+    .replaceAll("{{tool}}", lastTool?.name ?? "")
+    .replaceAll("{{result}}", lastTool?.content ?? "");
+}
+
+/** Answer from the first matching rule; an error if none matches. */
+export function callMock(opts: {
+  script: MockScript;
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+  onDelta?: (text: string) => void;
+}): MockResult {
+  const tools = opts.tools ?? [];
+  const rule = opts.script.rules.find((r) => matches(r, opts.messages, tools));
+  if (!rule) throw new Error("Mock provider: no rule of the script matches this request.");
+
+  // Ids only need to be unique within a run; assistant messages so far number the rounds
+  const round = opts.messages.filter((m) => m.role === "assistant").length;
+  const toolCalls = rule.respond.toolCalls?.map((call, i) => ({
+    id: `mock_${round}_${i}`,
+    type: "function" as const,
+    function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+  }));
+  const content = rule.respond.content !== undefined ? fill(rule.respond.content, opts.messages) : null;
+  if (content) opts.onDelta?.(content);
+  return { content, toolCalls: toolCalls && toolCalls.length > 0 ? toolCalls : undefined };
+}
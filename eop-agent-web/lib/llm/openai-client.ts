@@ -1,12 +1,17 @@
 /**
  * OpenAI + NVIDIA NIM client — both use the openai SDK;
  * NIM simply sets a different baseURL.
+ *
+ * The "custom" provider is any other OpenAI-compatible server (vLLM,
+ * llama.cpp, Ollama, LM Studio) at a base URL of the user's choosing. Not all
+ * of them do function calling; when one rejects the tools or writes a tool
+ * call as plain text, the error says so instead of failing obscurely.
  */
 
 import OpenAI from "openai";
-import type { ChatMessage, ToolDefinition } from "@/lib/types";
+import type { ChatMessage, CustomEndpoint, ToolDefinition, ToolCall, TokenUsage } from "@/lib/types";
 
-const DEFAULT_MODELS: Record<string, string> = {
+export const DEFAULT_MODELS: Record<string, string> = {
   openai: "gpt-4o-mini",
   nim: "nvidia/llama-3.3-nemotron-super-49b-v1",
 };
@@ -17,28 +22,86 @@ const BASE_URLS: Record<string, string | undefined> = {
 };
 
 export interface OpenAICompletionOptions {
-  provider: "openai" | "nim";
+  provider: "openai" | "nim" | "custom";
   apiKey: string;
+  endpoint?: CustomEndpoint; // the base URL and headers of "custom"
   messages: ChatMessage[];
   tools?: ToolDefinition[];
   model?: string;
   temperature?: number;
   maxTokens?: number;
+  signal?: AbortSignal; // aborts the request, or the stream while it is read
 }
 
-export async function callOpenAICompatible(
-  opts: OpenAICompletionOptions
-): Promise<OpenAI.Chat.ChatCompletion> {
-  const client = new OpenAI({
+function createClient(opts: OpenAICompletionOptions): OpenAI {
+  if (opts.provider === "custom") {
+    if (!opts.endpoint) throw new Error("The custom provider needs an endpoint base URL.");
+    return new OpenAI({
+      apiKey: opts.apiKey || "none", // the SDK insists on a key; keyless servers ignore it
+      baseURL: opts.endpoint.baseUrl,
+      defaultHeaders: opts.endpoint.headers,
+    });
+  }
+  return new OpenAI({
     apiKey: opts.apiKey,
     baseURL: BASE_URLS[opts.provider],
   });
+}
 
+const ENABLE_TOOLS_HINT =
+  "Enable tool calling on the server (vLLM: --enable-auto-tool-choice --tool-call-parser; llama.cpp: --jinja) " +
+  "or pick a model that supports tools.";
+
+// How OpenAI-compatible servers without function calling reject the `tools` field
+const TOOLS_REJECTED =
+  /does not support tools|tools? (is|are) not supported|not support(ed)? (for )?(tools|function calling)|enable-auto-tool-choice|tool-call-parser|--jinja|unrecognized.{0,40}\btools\b|extra.{0,20}\btools\b/i;
+
+/** The server's error, explained when it comes from a custom endpoint refusing the tools. */
+function explainToolsError(opts: OpenAICompletionOptions, err: unknown): unknown {
+  if (opts.provider !== "custom" || !opts.tools?.length) return err;
+  const message = err instanceof Error ? err.message : String(err);
+  if (!TOOLS_REJECTED.test(message)) return err;
+  return new Error(
+    `The custom endpoint ${opts.endpoint?.baseUrl} does not support function calling, which the agent needs ` +
+      `for its tools (${message}). ${ENABLE_TOOLS_HINT}`
+  );
+}
+
+/**
+ * True when `content` looks like a call of one of `toolNames` written out as
+ * text, as models do when the server doesn't parse tool calls.
+ */
+export function isTextToolCall(content: string | null, toolNames: string[]): boolean {
+  if (!content) return false;
+  if (/<tool_call>|<\|python_tag\|>|\[TOOL_CALLS\]/.test(content)) return true;
+  return toolNames.some((name) =>
+    new RegExp(`"(name|function)"\\s*:\\s*"${name}"[\\s\\S]*"(arguments|parameters)"\\s*:`).test(content)
+  );
+}
+
+/** The error for a custom endpoint that answered with a tool call as text. */
+export function textToolCallError(opts: Pick<OpenAICompletionOptions, "endpoint">): Error {
+  return new Error(
+    `The custom endpoint ${opts.endpoint?.baseUrl} returned a tool call as plain text: the server doesn't parse ` +
+      `function calls for this model. ${ENABLE_TOOLS_HINT}`
+  );
+}
+
+function buildRequestBody(
+  opts: OpenAICompletionOptions
+): OpenAI.Chat.ChatCompletionCreateParamsNonStreaming {
   const model = opts.model || DEFAULT_MODELS[opts.provider] || "gpt-4o-mini";
 
   const requestBody: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming = {
     model,
-    messages: opts.messages as OpenAI.Chat.ChatCompletionMessageParam[],
+    // Only the chat fields: the API rejects unknown ones such as the UI's toolResults
+    messages: opts.messages.map(({ role, content, tool_calls, tool_call_id, name }) => ({
+      role,
+      content,
+      ...(tool_calls ? { tool_calls } : {}),
+      ...(tool_call_id ? { tool_call_id } : {}),
+      ...(name ? { name } : {}),
+    })) as OpenAI.Chat.ChatCompletionMessageParam[],
     temperature: opts.temperature ?? 0.3,
     max_tokens: opts.maxTokens ?? 2048,
   };
@@ -48,5 +111,86 @@ export async function callOpenAICompatible(
     requestBody.tools = opts.tools as any;
   }
 
-  return client.chat.completions.create(requestBody);
+  return requestBody;
+}
+
+export async function callOpenAICompatible(
+  opts: OpenAICompletionOptions
+): Promise<OpenAI.Chat.ChatCompletion> {
+  const client = createClient(opts);
+  try {
+    return await client.chat.completions.create(buildRequestBody(opts), { signal: opts.signal });
+  } catch (err) {
+    throw explainToolsError(opts, err);
+  }
+}
+
+/** Accumulated result of a streamed completion. */
+export interface OpenAIStreamResult {
+  content: string | null;
+  toolCalls: ToolCall[];
+  usage?: TokenUsage; // from the final chunk, when the server sends one
+}
+
+export function usageFromCompletion(usage: OpenAI.CompletionUsage | null | undefined): TokenUsage | undefined {
+  return usage ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens } : undefined;
+}
+
+/**
+ * Streaming variant of callOpenAICompatible — forwards text deltas to
+ * `onDelta` as they arrive and reassembles tool calls, which the API sends
+ * as fragments keyed by `index`. Token usage comes in a last chunk without choices.
+ */
+export async function streamOpenAICompatible(
+  opts: OpenAICompletionOptions,
+  onDelta: (text: string) => void
+): Promise<OpenAIStreamResult> {
+  const client = createClient(opts);
+  const stream = await client.chat.completions
+    .create(
+      {
+        ...buildRequestBody(opts),
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      { signal: opts.signal }
+    )
+    .catch((err) => {
+      throw explainToolsError(opts, err);
+    });
+
+  let content = "";
+  const toolCalls: ToolCall[] = [];
+  let usage: TokenUsage | undefined;
+
+  for await (const chunk of stream) {
+    usage = usageFromCompletion(chunk.usage) ?? usage;
+    const delta = chunk.choices[0]?.delta;
+    if (!delta) continue;
+
+    if (delta.content) {
+      content += delta.content;
+      onDelta(delta.content);
+    }
+
+    for (const fragment of delta.tool_calls ?? []) {
+      const call = (toolCalls[fragment.index] ??= {
+        id: "",
+        type: "function",
+        function: { name: "", arguments: "" },
+      });
+      if (fragment.id) call.id = fragment.id;
+      if (fragment.function?.name) call.function.name += fragment.function.name;
+      if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+    }
+  }
+  // The SDK ends an aborted stream without an error; a cut-off reply must not pass for a whole one
+  opts.signal?.throwIfAborted();
+
+  return {
+    content: content || null,
+    // Sparse indexes are possible in theory; drop the holes.
+    toolCalls: toolCalls.filter(Boolean),
+    usage,
+  };
 }
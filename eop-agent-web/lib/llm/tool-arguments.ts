@@ -0,0 +1,20 @@
+/**
+ * Tool call arguments for providers that take them as an object rather than
+ * OpenAI's JSON string (Gemini, Anthropic).
+ */
+
+/**
+ * The arguments of a call as an object. A call whose arguments weren't valid
+ * JSON (already answered with an error by the agent) is sent back as {}, since
+ * these APIs reject anything but an object.
+ */
+export function parseToolArguments(args: string): Record<string, unknown> {
+  try {
+    const parsed: unknown = JSON.parse(args);
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : {};
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * In-memory archive reader for uploaded research repositories.
+ *
+ * Supports .zip, .tar.gz / .tgz and plain .tar. Nothing is written to disk:
+ * the upload is read into memory, walked once, and dropped when the request ends.
+ * File contents are only decompressed when `wantContent` asks for them, so a
+ * large archive costs little more than its listing. With `hash`, every file is
+ * decompressed once more to compute its SHA-256, a bounded batch at a time.
+ */
+
+import { createHash } from "node:crypto";
+import { Gunzip, unzipSync } from "fflate";
+
+export interface ArchiveEntry {
+  path: string; // as stored in the archive
+  size: number; // uncompressed bytes
+  data?: Uint8Array; // only for entries selected by wantContent
+  sha256?: string; // only when reading with `hash`
+}
+
+export interface UploadLimits {
+  maxArchiveBytes: number; // size of the uploaded file
+  maxUnpackedBytes: number; // total uncompressed size of the archive
+  maxFiles: number; // files kept in the tree; the rest are dropped
+  maxContentBytes: number; // largest single file whose content is read
+}
+
+export const DEFAULT_UPLOAD_LIMITS: UploadLimits = {
+  maxArchiveBytes: 50 * 1024 * 1024,
+  maxUnpackedBytes: 500 * 1024 * 1024,
+  maxFiles: 5000,
+  maxContentBytes: 1024 * 1024,
+};
+
+/** Limits from EOP_UPLOAD_* environment variables, falling back to the defaults. */
+export function uploadLimitsFromEnv(env: Record<string, string | undefined> = process.env): UploadLimits {
+  const read = (name: string, fallback: number) => {
+    const value = Number(env[name]);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+  return {
+    maxArchiveBytes: read("EOP_UPLOAD_MAX_ARCHIVE_BYTES", DEFAULT_UPLOAD_LIMITS.maxArchiveBytes),
+    maxUnpackedBytes: read("EOP_UPLOAD_MAX_UNPACKED_BYTES", DEFAULT_UPLOAD_LIMITS.maxUnpackedBytes),
+    maxFiles: read("EOP_UPLOAD_MAX_FILES", DEFAULT_UPLOAD_LIMITS.maxFiles),
+    maxContentBytes: read("EOP_UPLOAD_MAX_CONTENT_BYTES", DEFAULT_UPLOAD_LIMITS.maxContentBytes),
+  };
+}
+
+export interface ReadArchiveOptions {
+  limits: UploadLimits;
+  /** Whether to keep the content of this file (called for regular files only). */
+  wantContent: (path: string, size: number) => boolean;
+  /** Compute the SHA-256 of every file. */
+  hash?: boolean;
+}
+
+/** Largest amount of zip content inflated at once while hashing. */
+const HASH_BATCH_BYTES = 64 * 1024 * 1024;
+
+export function sha256Hex(data: Uint8Array): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+type ArchiveFormat = "zip" | "tar.gz" | "tar";
+
+function detectFormat(bytes: Uint8Array, fileName: string): ArchiveFormat | null {
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04) return "zip";
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) return "tar.gz";
+  if (/\.tar$/i.test(fileName) || String.fromCharCode(...bytes.subarray(257, 262)) === "ustar") return "tar";
+  return null;
+}
+
+/** List the regular files in an archive. Throws with a user-facing message on bad input. */
+export function readArchive(bytes: Uint8Array, fileName: string, opts: ReadArchiveOptions): ArchiveEntry[] {
+  const format = detectFormat(bytes, fileName);
+  switch (format) {
+    case "zip":
+      return readZip(bytes, opts);
+    case "tar.gz":
+      return readTar(gunzipLimited(bytes, opts.limits.maxUnpackedBytes), opts);
+    case "tar":
+      return readTar(bytes, opts);
+    default:
+      throw new Error("Unsupported archive format. Upload a .zip, .tar.gz, .tgz or .tar file.");
+  }
+}
+
+// ── ZIP ──
+
+function readZip(bytes: Uint8Array, opts: ReadArchiveOptions): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  let unpacked = 0;
+
+  // The filter sees every entry's header; only selected entries are inflated
+  const contents = unzipSync(bytes, {
+    filter: (info) => {
+      if (info.name.endsWith("/")) return false; // directory
+      unpacked += info.originalSize;
+      if (unpacked > opts.limits.maxUnpackedBytes) {
+        throw new Error(`Archive expands to more than ${formatBytes(opts.limits.maxUnpackedBytes)}.`);
+      }
+      entries.push({ path: info.name, size: info.originalSize });
+      return info.originalSize <= opts.limits.maxContentBytes && opts.wantContent(info.name, info.originalSize);
+    },
+  });
+
+  for (const entry of entries) {
+    if (contents[entry.path]) entry.data = contents[entry.path];
+    if (opts.hash && entry.data) entry.sha256 = sha256Hex(entry.data);
+  }
+  if (opts.hash) hashZipEntries(bytes, entries);
+  return entries;
+}
+
+/** Hash the entries whose content was not kept, inflating them in batches. */
+function hashZipEntries(bytes: Uint8Array, entries: ArchiveEntry[]): void {
+  const pending = new Map(entries.filter((e) => !e.sha256).map((e) => [e.path, e]));
+
+  while (pending.size > 0) {
+    let batch = 0;
+    const contents = unzipSync(bytes, {
+      filter: (info) => {
+        if (!pending.has(info.name) || (batch > 0 && batch + info.originalSize > HASH_BATCH_BYTES)) return false;
+        batch += info.originalSize;
+        return true;
+      },
+    });
+
+    const done = Object.entries(contents);
+    if (done.length === 0) break; // nothing left that fflate will inflate
+    for (const [path, data] of done) {
+      pending.get(path)!.sha256 = sha256Hex(data);
+      pending.delete(path);
+    }
+  }
+}
+
+// ── TAR (ustar, GNU long names, pax path headers) ──
+
+function gunzipLimited(bytes: Uint8Array, maxBytes: number): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  const gunzip = new Gunzip((chunk) => {
+    total += chunk.length;
+    if (total > maxBytes) {
+      throw new Error(`Archive expands to more than ${formatBytes(maxBytes)}.`);
+    }
+    chunks.push(chunk);
+  });
+
+  // Feed small slices so the size limit trips before a compression bomb fills memory
+  const SLICE = 16 * 1024;
+  for (let offset = 0; offset < bytes.length; offset += SLICE) {
+    gunzip.push(bytes.subarray(offset, offset + SLICE), offset + SLICE >= bytes.length);
+  }
+
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+const decoder = new TextDecoder();
+
+function readString(block: Uint8Array, start: number, length: number): string {
+  const field = block.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return decoder.decode(end === -1 ? field : field.subarray(0, end));
+}
+
+function readOctal(block: Uint8Array, start: number, length: number): number {
+  const text = readString(block, start, length).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+/** Extract the `path` record from a pax extended header. */
+function paxPath(data: Uint8Array): string | undefined {
+  for (const record of decoder.decode(data).split("\n")) {
+    const match = record.match(/^\d+ path=(.*)$/);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+function readTar(bytes: Uint8Array, opts: ReadArchiveOptions): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+  let longName: string | undefined;
+
+  while (offset + 512 <= bytes.length) {
+    const header = bytes.subarray(offset, offset + 512);
+    if (header.every((b) => b === 0)) break; // end-of-archive marker
+
+    const size = readOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156]);
+    const dataStart = offset + 512;
+    const data = bytes.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / 512) * 512;
+
+    if (Number.isNaN(size) || dataStart + size > bytes.length) {
+      throw new Error("The tar archive is truncated or corrupt.");
+    }
+
+    if (type === "L") {
+      longName = readString(data, 0, data.length);
+      continue;
+    }
+    if (type === "x") {
+      longName = paxPath(data) ?? longName;
+      continue;
+    }
+    if (type !== "0" && type !== "\0") {
+      longName = undefined; // directories, links, devices, global headers
+      continue;
+    }
+
+    const prefix = readString(header, 345, 155);
+    const name = readString(header, 0, 100);
+    const path = longName ?? (prefix ? `${prefix}/${name}` : name);
+    longName = undefined;
+
+    const entry: ArchiveEntry = { path, size };
+    if (size <= opts.limits.maxContentBytes && opts.wantContent(path, size)) {
+      entry.data = data.slice();
+    }
+    if (opts.hash) entry.sha256 = sha256Hex(data);
+    entries.push(entry);
+  }
+
+  return entries;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ["KB", "MB", "GB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+}
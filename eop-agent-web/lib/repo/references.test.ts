@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { extractPathReferences, isScannableSource, joinRepoPath, parentDir, relativeRepoPath } from "./references";
+
+const FILES = new Set(["analysis/run.ipynb", "analysis/data.csv", "data/raw.csv", "src/train.py"]);
+const DIRS = new Set(["analysis", "data", "src"]);
+
+describe("path helpers", () => {
+  it("joins relative paths and refuses to leave the repository", () => {
+    expect(joinRepoPath("src", "../data/./raw.csv")).toBe("data/raw.csv");
+    expect(joinRepoPath("", "data//raw.csv")).toBe("data/raw.csv");
+    expect(joinRepoPath("src", "../../raw.csv")).toBeUndefined();
+  });
+
+  it("writes the relative path from a folder to a file", () => {
+    expect(relativeRepoPath("work", "input/raw.csv")).toBe("../input/raw.csv");
+    expect(relativeRepoPath("work/plots", "work/data.csv")).toBe("../data.csv");
+    expect(relativeRepoPath("", "input/raw.csv")).toBe("input/raw.csv");
+    expect(parentDir("input/raw.csv")).toBe("input");
+    expect(parentDir("README.md")).toBe("");
+  });
+
+  it("scans scripts and build files only", () => {
+    expect(isScannableSource("src/train.py")).toBe(true);
+    expect(isScannableSource("Makefile")).toBe(true);
+    expect(isScannableSource("data/raw.csv")).toBe(false);
+  });
+});
+
+describe("extractPathReferences", () => {
+  it("resolves literals from the root first, then from the script's folder", () => {
+    const text = ['df = pd.read_csv("data/raw.csv")', "extra = pd.read_csv('data.csv')", "up = `../data/raw.csv`"].join("\n");
+    expect(extractPathReferences("analysis/fit.py", text, FILES, DIRS)).toEqual([
+      { target: "data/raw.csv", kind: "file", base: "root", literal: "data/raw.csv", line: 1 },
+      { target: "analysis/data.csv", kind: "file", base: "file", literal: "data.csv", line: 2 },
+      { target: "data/raw.csv", kind: "file", base: "file", literal: "../data/raw.csv", line: 3 },
+    ]);
+  });
+
+  it("finds folders only when written as a path", () => {
+    const text = ['out = "analysis/"', 'key = row["data"]'].join("\n");
+    expect(extractPathReferences("src/train.py", text, FILES, DIRS)).toEqual([
+      { target: "analysis", kind: "dir", base: "root", literal: "analysis/", line: 1 },
+    ]);
+  });
+
+  it("skips URLs, globs, padded strings, absolute paths and the file itself", () => {
+    const text = [
+      "a = 'https://example.org/data/raw.csv'",
+      "b = glob('data/*.csv')",
+      "c = ' data/raw.csv'",
+      "d = '/data/raw.csv'",
+      "e = 'src/train.py'",
+    ].join("\n");
+    expect(extractPathReferences("src/train.py", text, FILES, DIRS)).toEqual([]);
+  });
+
+  it("reads double-quoted paths in notebook cells", () => {
+    const notebook = JSON.stringify(
+      { cells: [{ source: ["df = pd.read_csv('data.csv')\n", 'raw = pd.read_csv("../data/raw.csv")\n'] }] },
+      null,
+      1
+    );
+    expect(extractPathReferences("analysis/run.ipynb", notebook, FILES, DIRS)).toEqual([
+      { target: "analysis/data.csv", kind: "file", base: "file", literal: "data.csv", line: 5 },
+      { target: "data/raw.csv", kind: "file", base: "file", literal: "../data/raw.csv", line: 6 },
+    ]);
+  });
+});
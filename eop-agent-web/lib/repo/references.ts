@@ -0,0 +1,115 @@
+/**
+ * Hard-coded path detection — finds string literals in scripts that name other
+ * files or folders of the same repository, so a restructuring plan can warn
+ * about references that a move would break.
+ *
+ * Only literal paths are found ("data/raw.csv", './results/'); paths assembled
+ * at run time (os.path.join, f-strings) are not. Bare folder names such as
+ * "data" are ignored because they are far more often dictionary keys.
+ */
+
+import type { RepoPathReference } from "@/lib/types";
+
+const SCANNED_EXT = /\.(py|r|jl|m|ipynb|sh|bash|rmd|qmd|do|sas|js|mjs|ts|yaml|yml|toml|cfg|ini)$/i;
+const SCANNED_NAMES = /(^|\/)(makefile|snakefile|dockerfile)$/i;
+
+/** Most references kept per file; beyond this a script is probably data. */
+const MAX_REFERENCES_PER_FILE = 200;
+
+/** Whether a file's content is worth scanning for path literals. */
+export function isScannableSource(path: string): boolean {
+  return SCANNED_EXT.test(path) || SCANNED_NAMES.test(path);
+}
+
+/** Resolve `rel` against `dir` (repo-relative, "" = root); undefined if it leaves the repo. */
+export function joinRepoPath(dir: string, rel: string): string | undefined {
+  const parts = dir ? dir.split("/") : [];
+  for (const part of rel.split("/")) {
+    if (part === "" || part === ".") continue;
+    if (part === "..") {
+      if (parts.length === 0) return undefined;
+      parts.pop();
+    } else {
+      parts.push(part);
+    }
+  }
+  return parts.join("/");
+}
+
+/** Relative path from folder `fromDir` to `to`, both repo-relative. */
+export function relativeRepoPath(fromDir: string, to: string): string {
+  const from = fromDir ? fromDir.split("/") : [];
+  const target = to.split("/");
+  let common = 0;
+  while (common < from.length && common < target.length - 1 && from[common] === target[common]) common++;
+  return [...from.slice(common).map(() => ".."), ...target.slice(common)].join("/");
+}
+
+export function parentDir(path: string): string {
+  const slash = path.lastIndexOf("/");
+  return slash === -1 ? "" : path.slice(0, slash);
+}
+
+/**
+ * Find literals in `text` (the content of `path`) that resolve to a known
+ * file or folder, first from the repository root, then from the script's folder.
+ */
+export function extractPathReferences(
+  path: string,
+  text: string,
+  files: Set<string>,
+  dirs: Set<string>
+): RepoPathReference[] {
+  const isNotebook = path.toLowerCase().endsWith(".ipynb");
+  const ownDir = parentDir(path);
+  const references: RepoPathReference[] = [];
+  const seen = new Set<string>();
+
+  // A notebook keeps each line of cell source as a JSON string; decode it so its quotes are the code's own
+  const lines = text.split("\n").map((line) => (isNotebook ? notebookSourceLine(line) : line));
+  for (let i = 0; i < lines.length && references.length < MAX_REFERENCES_PER_FILE; i++) {
+    for (const match of lines[i].matchAll(/(["'`])([^"'`\n]{1,300}?)\1/g)) {
+      const literal = match[2];
+      if (/^\s|\s$|:\/\/|[*?{}$]/.test(literal)) continue;
+
+      const resolved = resolveLiteral(literal, ownDir, files, dirs);
+      if (!resolved || resolved.target === path) continue;
+
+      const key = `${i}:${literal}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      references.push({ ...resolved, literal, line: i + 1 });
+    }
+  }
+  return references;
+}
+
+function notebookSourceLine(line: string): string {
+  const match = line.match(/^\s*("(?:[^"\\]|\\.)*")\s*,?\s*$/);
+  if (!match) return line;
+  try {
+    return JSON.parse(match[1]) as string;
+  } catch {
+    return line;
+  }
+}
+
+function resolveLiteral(
+  literal: string,
+  ownDir: string,
+  files: Set<string>,
+  dirs: Set<string>
+): Pick<RepoPathReference, "target" | "kind" | "base"> | undefined {
+  if (literal.startsWith("/")) return undefined;
+  const isDirLike = literal.includes("/");
+
+  const bases: [RepoPathReference["base"], string][] = [["root", ""], ["file", ownDir]];
+  for (const [base, dir] of bases) {
+    if (base === "file" && !ownDir) continue; // same as root
+    const target = joinRepoPath(dir, literal);
+    if (!target) continue;
+    if (files.has(target)) return { target, kind: "file", base };
+    if (isDirLike && dirs.has(target)) return { target, kind: "dir", base };
+  }
+  return undefined;
+}
@@ -0,0 +1,122 @@
+/**
+ * Repository file tree — turns archive entries into the `RepoTree` that the
+ * classification and restructuring tools take as structured input.
+ *
+ * Applies every .gitignore in the archive (nested ones relative to their own
+ * folder), drops VCS/OS metadata, strips a single top-level folder (as in
+ * GitHub "Download ZIP" archives) and enforces the file count limit. Scripts
+ * whose content was read are scanned for hard-coded repository paths.
+ */
+
+import ignore, { type Ignore } from "ignore";
+import type { RepoFileEntry, RepoTree } from "@/lib/types";
+import type { ArchiveEntry, UploadLimits } from "./archive";
+import { formatBytes } from "./archive";
+import { extractPathReferences, isScannableSource, parentDir } from "./references";
+
+const ALWAYS_IGNORED = /(^|\/)(\.git|\.hg|\.svn|__MACOSX)\/|(^|\/)(\.DS_Store|Thumbs\.db)$/;
+
+export function isGitignoreFile(path: string): boolean {
+  return path === ".gitignore" || path.endsWith("/.gitignore");
+}
+
+/** Normalize an archive path; undefined for paths that could escape the root. */
+function normalizePath(path: string): string | undefined {
+  const clean = path.replace(/\\/g, "/").replace(/^(\.\/)+/, "");
+  if (!clean || clean.startsWith("/") || clean.split("/").includes("..")) return undefined;
+  return clean;
+}
+
+/** The single folder every path starts with, if there is one. */
+function commonRoot(paths: string[]): string | undefined {
+  if (paths.length === 0) return undefined;
+  const first = paths[0].split("/")[0];
+  return paths.every((p) => p.startsWith(`${first}/`)) ? first : undefined;
+}
+
+export interface BuildRepoTreeOptions {
+  /** Apply the archive's .gitignore files (default true). Hash manifests cover ignored files too. */
+  gitignore?: boolean;
+}
+
+export function buildRepoTree(
+  archiveName: string,
+  entries: ArchiveEntry[],
+  limits: UploadLimits,
+  { gitignore = true }: BuildRepoTreeOptions = {}
+): RepoTree {
+  let ignoredCount = 0;
+
+  const files: ArchiveEntry[] = [];
+  for (const entry of entries) {
+    const path = normalizePath(entry.path);
+    if (!path || ALWAYS_IGNORED.test(path)) {
+      ignoredCount++;
+      continue;
+    }
+    files.push({ ...entry, path });
+  }
+
+  const root = commonRoot(files.map((f) => f.path));
+  if (root) {
+    for (const f of files) f.path = f.path.slice(root.length + 1);
+  }
+
+  // One matcher per .gitignore, keyed by the folder it lives in ("" = repo root)
+  const matchers: { dir: string; ig: Ignore }[] = files
+    .filter((f) => gitignore && isGitignoreFile(f.path) && f.data)
+    .map((f) => ({
+      dir: f.path.slice(0, -".gitignore".length),
+      ig: ignore().add(new TextDecoder().decode(f.data)),
+    }));
+
+  const isIgnored = (path: string) =>
+    matchers.some(({ dir, ig }) => path.startsWith(dir) && ig.ignores(path.slice(dir.length)));
+
+  const kept = files
+    .filter((f) => {
+      if (isIgnored(f.path)) {
+        ignoredCount++;
+        return false;
+      }
+      return true;
+    })
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  const truncated = kept.length > limits.maxFiles;
+  const listed: RepoFileEntry[] = kept.slice(0, limits.maxFiles).map((f) => ({
+    path: f.path,
+    size: f.size,
+    ...(f.sha256 ? { sha256: f.sha256 } : {}),
+  }));
+
+  const filePaths = new Set(listed.map((f) => f.path));
+  const dirPaths = new Set<string>();
+  for (const path of filePaths) {
+    for (let dir = parentDir(path); dir && !dirPaths.has(dir); dir = parentDir(dir)) dirPaths.add(dir);
+  }
+  const decoder = new TextDecoder();
+  kept.slice(0, limits.maxFiles).forEach((f, i) => {
+    if (!f.data || !isScannableSource(f.path)) return;
+    const references = extractPathReferences(f.path, decoder.decode(f.data), filePaths, dirPaths);
+    if (references.length > 0) listed[i].references = references;
+  });
+
+  return {
+    archiveName,
+    ...(root ? { root } : {}),
+    files: listed,
+    totalBytes: listed.reduce((sum, f) => sum + f.size, 0),
+    ignoredCount,
+    truncated,
+  };
+}
+
+/** One line per file with its size, for the LLM. */
+export function formatRepoTree(tree: RepoTree): string {
+  const header =
+    `Archive "${tree.archiveName}": ${tree.files.length} file(s), ${formatBytes(tree.totalBytes)}` +
+    (tree.ignoredCount > 0 ? `, ${tree.ignoredCount} ignored (.gitignore/metadata)` : "") +
+    (tree.truncated ? ", listing truncated at the file limit" : "");
+  return [header, ...tree.files.map((f) => `  ${f.path} (${formatBytes(f.size)})`)].join("\n");
+}
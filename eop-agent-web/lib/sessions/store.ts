@@ -0,0 +1,162 @@
+/**
+ * File-based session store (server only).
+ *
+ * Each conversation is one JSON file, <EOP_SESSIONS_DIR>/<id>.json (default
+ * ./.eop-sessions), holding its messages, evidence chain and uploaded repo
+ * tree. API keys are never written: messages are reduced to their chat
+ * fields and tool results before saving, and nothing else from a request is stored.
+ *
+ * Writes go to a temporary file that is then renamed over the old one, and
+ * changes to one session are serialized, so two requests on the same
+ * session can't lose each other's turns.
+ */
+
+import { mkdir, readFile, readdir, rename, rm, writeFile } from "fs/promises";
+import path from "path";
+import type { ChatMessage, EvidenceGraph, RepoTree, Session, SessionSummary } from "@/lib/types";
+import { cleanTitle, titleFromMessages } from "./titles";
+
+const SESSION_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export function sessionsDirFromEnv(env: Record<string, string | undefined> = process.env): string {
+  return path.resolve(env.EOP_SESSIONS_DIR || ".eop-sessions");
+}
+
+/** Session ids are UUIDs; anything else could point outside the store. */
+export function isSessionId(id: string): boolean {
+  return SESSION_ID.test(id);
+}
+
+function sessionFile(dir: string, id: string): string {
+  return path.join(dir, `${id}.json`);
+}
+
+/** The chat fields of a message (and its tool results, compaction or usage), without anything else the client may have sent along. */
+function toStoredMessage(msg: ChatMessage): ChatMessage {
+  return {
+    role: msg.role,
+    content: msg.content,
+    ...(msg.tool_calls ? { tool_calls: msg.tool_calls } : {}),
+    ...(msg.tool_call_id ? { tool_call_id: msg.tool_call_id } : {}),
+    ...(msg.name ? { name: msg.name } : {}),
+    ...(msg.toolResults ? { toolResults: msg.toolResults } : {}),
+    ...(msg.compaction ? { compaction: msg.compaction } : {}),
+    ...(msg.usage ? { usage: msg.usage } : {}),
+  };
+}
+
+/** Write the session and return it as stored. */
+async function writeSession(dir: string, session: Session): Promise<Session> {
+  const stored: Session = { ...session, messages: session.messages.map(toStoredMessage) };
+  await mkdir(dir, { recursive: true });
+  const file = sessionFile(dir, session.id);
+  const tmp = `${file}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(stored, null, 2));
+  await rename(tmp, file);
+  return stored;
+}
+
+// Pending change per session id; each change waits for the one before it
+const locks = new Map<string, Promise<unknown>>();
+
+async function withLock<T>(id: string, fn: () => Promise<T>): Promise<T> {
+  const previous = locks.get(id) ?? Promise.resolve();
+  const current = previous.catch(() => {}).then(fn);
+  locks.set(id, current);
+  try {
+    return await current;
+  } finally {
+    if (locks.get(id) === current) locks.delete(id);
+  }
+}
+
+export interface NewSession {
+  title?: string;
+  messages?: ChatMessage[];
+  evidenceGraph?: EvidenceGraph;
+  repoTree?: RepoTree;
+}
+
+export async function createSession(init: NewSession = {}, dir = sessionsDirFromEnv()): Promise<Session> {
+  const now = new Date().toISOString();
+  const messages = init.messages ?? [];
+  const session: Session = {
+    id: crypto.randomUUID(),
+    title: init.title?.trim() ? cleanTitle(init.title) : titleFromMessages(messages),
+    createdAt: now,
+    updatedAt: now,
+    messages,
+    ...(init.evidenceGraph ? { evidenceGraph: init.evidenceGraph } : {}),
+    ...(init.repoTree ? { repoTree: init.repoTree } : {}),
+  };
+  return writeSession(dir, session);
+}
+
+/** The session, or null if there is none with this id. */
+export async function getSession(id: string, dir = sessionsDirFromEnv()): Promise<Session | null> {
+  if (!isSessionId(id)) return null;
+  try {
+    return JSON.parse(await readFile(sessionFile(dir, id), "utf8")) as Session;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+/** All sessions, most recently updated first. */
+export async function listSessions(dir = sessionsDirFromEnv()): Promise<SessionSummary[]> {
+  let names: string[];
+  try {
+    names = await readdir(dir);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw err;
+  }
+
+  const summaries: SessionSummary[] = [];
+  for (const name of names) {
+    const id = name.replace(/\.json$/, "");
+    if (id === name || !isSessionId(id)) continue;
+    const session = await getSession(id, dir).catch(() => null); // skip unreadable files
+    if (!session) continue;
+    summaries.push({
+      id: session.id,
+      title: session.title,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      messageCount: session.messages.length,
+    });
+  }
+  return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Change a session: `change` receives the stored session and returns the new
+ * one. Changes to the same session run one at a time. Returns null (and
+ * doesn't call `change`) if the session doesn't exist.
+ */
+export async function updateSession(
+  id: string,
+  change: (session: Session) => Session | Promise<Session>,
+  dir = sessionsDirFromEnv()
+): Promise<Session | null> {
+  return withLock(id, async () => {
+    const session = await getSession(id, dir);
+    if (!session) return null;
+    return writeSession(dir, { ...(await change(session)), id, updatedAt: new Date().toISOString() });
+  });
+}
+
+export async function renameSession(id: string, title: string, dir = sessionsDirFromEnv()): Promise<Session | null> {
+  return updateSession(id, (session) => ({ ...session, title: cleanTitle(title) }), dir);
+}
+
+/** Returns false if there was no such session. */
+export async function deleteSession(id: string, dir = sessionsDirFromEnv()): Promise<boolean> {
+  if (!isSessionId(id)) return false;
+  return withLock(id, async () => {
+    if (!(await getSession(id, dir))) return false;
+    await rm(sessionFile(dir, id), { force: true });
+    return true;
+  });
+}
@@ -0,0 +1,21 @@
+/**
+ * Conversation titles, shared by the server session store and the browser
+ * thread list (client-safe: no Node imports).
+ */
+
+import type { ChatMessage } from "@/lib/types";
+
+export const DEFAULT_SESSION_TITLE = "New conversation";
+
+const MAX_TITLE_LENGTH = 80;
+
+export function cleanTitle(title: string): string {
+  const line = title.replace(/\s+/g, " ").trim();
+  return line.length > MAX_TITLE_LENGTH ? `${line.slice(0, MAX_TITLE_LENGTH - 1)}…` : line;
+}
+
+/** A title for an untitled conversation: the start of its first user message. */
+export function titleFromMessages(messages: ChatMessage[]): string {
+  const first = messages.find((m) => m.role === "user" && m.content?.trim());
+  return first ? cleanTitle(first.content!) : DEFAULT_SESSION_TITLE;
+}
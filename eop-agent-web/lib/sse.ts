@@ -0,0 +1,51 @@
+/**
+ * Server-sent events helpers for the streaming chat endpoint.
+ *
+ * The server writes one `AgentEvent` per SSE message (`event:` = event type,
+ * `data:` = JSON); the client reads them back from the fetch response body.
+ */
+
+import type { AgentEvent } from "./types";
+
+/** Serialize an agent event as a single SSE message. */
+export function encodeSSE(event: AgentEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Read an SSE response body and call `onEvent` for every event received.
+ * Resolves when the stream ends.
+ */
+export async function readSSE(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: AgentEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const flush = (block: string) => {
+    const data = block
+      .split("\n")
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).trimStart())
+      .join("\n");
+    if (data) onEvent(JSON.parse(data) as AgentEvent);
+  };
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Messages are separated by a blank line
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      flush(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+
+  if (buffer.trim()) flush(buffer);
+}
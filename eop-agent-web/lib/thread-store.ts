@@ -0,0 +1,223 @@
+/**
+ * Browser persistence (localStorage) for chat threads and preferences.
+ *
+ * Each thread is stored under its own key with its messages (assistant
+ * replies carry their tool results), evidence chain, uploaded repo tree and
+ * server session id; a small index lists the threads for the sidebar. The
+ * index is an external store for useSyncExternalStore, so React re-renders
+ * when a thread is saved, renamed or deleted.
+ *
+ * API keys are only written when the user opts in (`rememberKeys`).
+ */
+
+import type {
+  ApiKeys,
+  ChatMessage,
+  ChatThread,
+  ChatThreadSummary,
+  CustomProviderSettings,
+  EvidenceGraph,
+  ModelPrice,
+  Provider,
+} from "./types";
+import { cleanTitle, titleFromMessages } from "./sessions/titles";
+
+const PREFIX = "eop-agent:";
+const INDEX_KEY = `${PREFIX}threads`;
+const PREFS_KEY = `${PREFIX}prefs`;
+const ACTIVE_KEY = `${PREFIX}active-thread`;
+const PROJECT_GRAPH_KEY = `${PREFIX}project-graph`;
+const threadKey = (id: string) => `${PREFIX}thread:${id}`;
+
+export interface StoredPrefs {
+  provider: Provider;
+  model: string;
+  fallbackEnabled: boolean;
+  rememberKeys: boolean;
+  apiKeys?: ApiKeys; // only when rememberKeys is set
+  prices?: Record<string, ModelPrice>; // USD per million tokens, for cost estimates
+  customProvider?: CustomProviderSettings; // headers only when rememberKeys is set
+}
+
+export interface ThreadIndexSnapshot {
+  threads: ChatThreadSummary[]; // most recently updated first
+  error: string | null; // the last failed write, e.g. storage full
+}
+
+function read<T>(key: string): T | null {
+  try {
+    const text = localStorage.getItem(key);
+    return text === null ? null : (JSON.parse(text) as T);
+  } catch {
+    return null; // unreadable entries count as missing
+  }
+}
+
+function write(key: string, value: unknown): void {
+  localStorage.setItem(key, JSON.stringify(value));
+}
+
+/** Write, reporting a failure (storage full) in the snapshot instead of throwing; false if it failed. */
+function writeOrReport(key: string, value: unknown, what: string): boolean {
+  try {
+    write(key, value);
+    return true;
+  } catch {
+    publish({ ...getThreadsSnapshot(), error: `Browser storage is full: ${what} could not be saved.` });
+    return false;
+  }
+}
+
+// ── Thread index (external store) ──
+
+const SERVER_SNAPSHOT: ThreadIndexSnapshot = { threads: [], error: null };
+let snapshot: ThreadIndexSnapshot | null = null;
+const listeners = new Set<() => void>();
+
+function publish(next: ThreadIndexSnapshot): void {
+  snapshot = next;
+  for (const listener of listeners) listener();
+}
+
+export function subscribeThreads(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function getThreadsSnapshot(): ThreadIndexSnapshot {
+  snapshot ??= { threads: read<ChatThreadSummary[]>(INDEX_KEY) ?? [], error: null };
+  return snapshot;
+}
+
+export function getServerThreadsSnapshot(): ThreadIndexSnapshot {
+  return SERVER_SNAPSHOT;
+}
+
+function saveIndex(threads: ChatThreadSummary[], error: string | null = null): void {
+  const sorted = [...threads].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  write(INDEX_KEY, sorted);
+  publish({ threads: sorted, error });
+}
+
+function summarize(thread: ChatThread): ChatThreadSummary {
+  return {
+    id: thread.id,
+    title: thread.title,
+    updatedAt: thread.updatedAt,
+    messageCount: thread.messages.length,
+    ...(thread.sessionId ? { sessionId: thread.sessionId } : {}),
+  };
+}
+
+// ── Threads ──
+
+export function loadThread(id: string): ChatThread | null {
+  return read<ChatThread>(threadKey(id));
+}
+
+export interface ThreadContent {
+  id: string;
+  messages: ChatMessage[];
+  evidenceGraph: EvidenceGraph;
+  repoTree?: ChatThread["repoTree"];
+  sessionId?: string;
+}
+
+function sameContent(thread: ChatThread, content: ThreadContent): boolean {
+  const fields = (c: ThreadContent) => JSON.stringify([c.messages, c.evidenceGraph, c.repoTree ?? null, c.sessionId ?? null]);
+  return fields(thread) === fields(content);
+}
+
+/**
+ * Save a thread's content; title and creation time are kept from the stored
+ * thread, which is left as is (and keeps its place in the list) when only
+ * reopened. When storage is full, the thread is saved without its repo tree
+ * (the largest part), and the snapshot's error says so.
+ */
+export function saveThread(content: ThreadContent): void {
+  const existing = getThreadsSnapshot().threads.find((t) => t.id === content.id);
+  const stored = existing ? loadThread(content.id) : null;
+  if (stored && sameContent(stored, content)) return;
+  const now = new Date().toISOString();
+  const thread: ChatThread = {
+    ...content,
+    title: existing?.title ?? titleFromMessages(content.messages),
+    createdAt: stored?.createdAt ?? now,
+    updatedAt: now,
+  };
+  const others = getThreadsSnapshot().threads.filter((t) => t.id !== thread.id);
+
+  try {
+    write(threadKey(thread.id), thread);
+    saveIndex([...others, summarize(thread)]);
+  } catch {
+    try {
+      write(threadKey(thread.id), { ...thread, repoTree: undefined });
+      saveIndex(
+        [...others, summarize(thread)],
+        thread.repoTree ? "Browser storage is full: the uploaded file tree was not saved with the thread." : null
+      );
+    } catch {
+      publish({ ...getThreadsSnapshot(), error: "Browser storage is full: the conversation could not be saved." });
+    }
+  }
+}
+
+export function renameThread(id: string, title: string): void {
+  const thread = loadThread(id);
+  if (!thread) return;
+  const cleaned = cleanTitle(title);
+  if (!writeOrReport(threadKey(id), { ...thread, title: cleaned }, "the new title")) return;
+  saveIndex(getThreadsSnapshot().threads.map((t) => (t.id === id ? { ...t, title: cleaned } : t)));
+}
+
+export function deleteThread(id: string): void {
+  localStorage.removeItem(threadKey(id));
+  saveIndex(getThreadsSnapshot().threads.filter((t) => t.id !== id));
+}
+
+/** Threads whose title or messages contain `query` (case-insensitive). */
+export function searchThreads(threads: ChatThreadSummary[], query: string): ChatThreadSummary[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return threads;
+  return threads.filter((summary) => {
+    if (summary.title.toLowerCase().includes(q)) return true;
+    return loadThread(summary.id)?.messages.some((m) => m.content?.toLowerCase().includes(q)) ?? false;
+  });
+}
+
+// ── Preferences, active thread, project-scoped chain ──
+
+export function loadPrefs(): StoredPrefs | null {
+  return read<StoredPrefs>(PREFS_KEY);
+}
+
+export function savePrefs(prefs: StoredPrefs): void {
+  const { apiKeys, customProvider, ...rest } = prefs;
+  // Custom headers often carry credentials, so they are kept like keys
+  const custom = customProvider && (prefs.rememberKeys ? customProvider : { ...customProvider, headers: [] });
+  writeOrReport(
+    PREFS_KEY,
+    { ...rest, ...(custom ? { customProvider: custom } : {}), ...(prefs.rememberKeys ? { apiKeys } : {}) },
+    "the settings"
+  );
+}
+
+export function loadActiveThreadId(): string | null {
+  return read<string>(ACTIVE_KEY);
+}
+
+export function saveActiveThreadId(id: string | null): void {
+  if (id) writeOrReport(ACTIVE_KEY, id, "the open thread");
+  else localStorage.removeItem(ACTIVE_KEY);
+}
+
+/** The project-scoped evidence chain, which outlives any one thread. */
+export function loadProjectGraph(): EvidenceGraph | null {
+  return read<EvidenceGraph>(PROJECT_GRAPH_KEY);
+}
+
+export function saveProjectGraph(graph: EvidenceGraph | null): void {
+  if (graph) writeOrReport(PROJECT_GRAPH_KEY, graph, "the project evidence chain");
+  else localStorage.removeItem(PROJECT_GRAPH_KEY);
+}
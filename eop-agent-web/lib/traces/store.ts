@@ -0,0 +1,100 @@
+/**
+ * File-based run trace store (server only).
+ *
+ * Each trace is one JSON file, <EOP_TRACES_DIR>/<id>.json (default
+ * ./.eop-traces). Traces arrive with API keys already redacted (see
+ * lib/eop-agent/trace.ts) but hold the full conversation sent to the model.
+ * Only the newest MAX_TRACES are kept; older ones are removed when a trace is saved.
+ * Tracing is off unless EOP_TRACES=on: anyone who can reach /api/traces can
+ * read every stored conversation.
+ */
+
+import { mkdir, readFile, readdir, rename, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+import type { RunTrace, TraceSummary } from "@/lib/types";
+
+const TRACE_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const MAX_TRACES = 200;
+
+export function tracesDirFromEnv(env: Record<string, string | undefined> = process.env): string {
+  return path.resolve(env.EOP_TRACES_DIR || ".eop-traces");
+}
+
+export function tracesEnabledFromEnv(env: Record<string, string | undefined> = process.env): boolean {
+  return env.EOP_TRACES === "on";
+}
+
+function traceFile(dir: string, id: string): string {
+  return path.join(dir, `${id}.json`);
+}
+
+/** Trace files, newest first. */
+async function traceFiles(dir: string): Promise<{ id: string; mtimeMs: number }[]> {
+  let names: string[];
+  try {
+    names = await readdir(dir);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw err;
+  }
+  const files: { id: string; mtimeMs: number }[] = [];
+  for (const name of names) {
+    const id = name.replace(/\.json$/, "");
+    if (id === name || !TRACE_ID.test(id)) continue;
+    const info = await stat(path.join(dir, name)).catch(() => null);
+    if (info) files.push({ id, mtimeMs: info.mtimeMs });
+  }
+  return files.sort((a, b) => b.mtimeMs - a.mtimeMs);
+}
+
+export async function saveTrace(trace: RunTrace, dir = tracesDirFromEnv()): Promise<void> {
+  await mkdir(dir, { recursive: true });
+  const file = traceFile(dir, trace.id);
+  const tmp = `${file}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(trace));
+  await rename(tmp, file);
+
+  const stale = (await traceFiles(dir)).slice(MAX_TRACES);
+  await Promise.all(stale.map((f) => rm(traceFile(dir, f.id), { force: true })));
+}
+
+/** The trace, or null if there is none with this id. */
+export async function getTrace(id: string, dir = tracesDirFromEnv()): Promise<RunTrace | null> {
+  if (!TRACE_ID.test(id)) return null;
+  try {
+    return JSON.parse(await readFile(traceFile(dir, id), "utf8")) as RunTrace;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+function summarize(trace: RunTrace): TraceSummary {
+  return {
+    id: trace.id,
+    startedAt: trace.startedAt,
+    durationMs: trace.durationMs,
+    status: trace.status,
+    provider: trace.provider,
+    model: trace.model,
+    ...(trace.sessionId ? { sessionId: trace.sessionId } : {}),
+    userMessage: trace.userMessage,
+    llmCalls: trace.events.filter((e) => e.type === "llm_request").length,
+    toolCalls: trace.events.filter((e) => e.type === "tool_call").length,
+  };
+}
+
+/** Traces, newest first; only those of `sessionId` when given. */
+export async function listTraces(
+  options: { sessionId?: string; limit?: number } = {},
+  dir = tracesDirFromEnv()
+): Promise<TraceSummary[]> {
+  const summaries: TraceSummary[] = [];
+  for (const { id } of await traceFiles(dir)) {
+    if (options.limit !== undefined && summaries.length >= options.limit) break;
+    const trace = await getTrace(id, dir).catch(() => null); // skip unreadable files
+    if (!trace || (options.sessionId && trace.sessionId !== options.sessionId)) continue;
+    summaries.push(summarize(trace));
+  }
+  return summaries;
+}
@@ -1,11 +1,48 @@
 // ── Shared types for the EOP Agent web app ──
 
-export type Provider = "openai" | "nim" | "gemini";
+/** Providers backed by a model server; each needs an API key, except a custom endpoint that doesn't ask for one. */
+export type LiveProvider = "openai" | "nim" | "gemini" | "anthropic" | "custom";
+/** Offline providers: "replay" answers from recorded fixtures, "mock" from a script (see lib/llm/fixtures.ts). */
+export type OfflineProvider = "replay" | "mock";
+export type Provider = LiveProvider | OfflineProvider;
+
+/** A provider to call, with its key and an optional model override. */
+export interface LLMTarget {
+  provider: Provider;
+  apiKey: string;
+  model?: string;
+  endpoint?: CustomEndpoint; // required for "custom"
+}
+
+/** An OpenAI-compatible server of your own (vLLM, llama.cpp, Ollama, …) for the "custom" provider. */
+export interface CustomEndpoint {
+  baseUrl: string; // e.g. http://localhost:8000/v1
+  headers?: Record<string, string>; // sent with every request, e.g. an auth header of a gateway
+}
+
+/** The custom provider as configured in the sidebar. */
+export interface CustomProviderSettings {
+  baseUrl: string;
+  model: string;
+  headers: { name: string; value: string }[];
+}
+
+/** What went wrong in an LLM call, as far as switching provider or retrying is concerned. */
+export type LLMErrorClass =
+  | "rate_limit" // 429
+  | "server" // 5xx, overloaded
+  | "timeout"
+  | "network" // connection refused / reset, DNS
+  | "auth" // 401, 403: a bad or unauthorized key
+  | "invalid_request" // other 4xx
+  | "unknown";
 
 export interface ApiKeys {
   openai?: string;
   nim?: string;
   gemini?: string;
+  anthropic?: string;
+  custom?: string; // optional: many local servers take no key
 }
 
 /** A single message in the OpenAI chat format. */
@@ -15,6 +52,37 @@ export interface ChatMessage {
   tool_calls?: ToolCall[];
   tool_call_id?: string;
   name?: string;
+  toolResults?: ToolResult[]; // UI only: tool calls that ran before this assistant reply; never sent to the LLM
+  compaction?: Compaction; // set on the synopsis that replaced older turns (see lib/eop-agent/memory.ts)
+  usage?: ModelUsage[]; // UI only: tokens the turn behind this assistant reply used
+}
+
+/** Tokens of one or more LLM calls, as reported by the provider. */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/** Tokens used with one provider and model (a turn can use several after a fallback). */
+export interface ModelUsage extends TokenUsage {
+  provider: Provider;
+  model: string;
+  calls: number; // LLM calls counted, including ones that reported no usage
+}
+
+/** Price of a model in USD per million tokens. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/** What a synopsis message replaced. */
+export interface Compaction {
+  summarized: number; // messages it covers, counted from the previous synopsis (included)
+  summary: string; // written by the model
+  recorded: string[]; // evidence recorded in those turns, verbatim from the tool results
+  tokensBefore: number; // estimated, of the summarized messages
+  tokensAfter: number; // estimated, of the synopsis
 }
 
 export interface ToolCall {
@@ -29,15 +97,30 @@ export interface ToolCall {
 /** Body sent from the frontend to POST /api/chat */
 export interface ChatRequest {
   provider: Provider;
-  apiKey: string;
-  messages: ChatMessage[]; // conversation history (user + assistant turns)
-  model?: string; // optional model override
+  apiKey?: string; // required except for "custom", whose server may take none
+  messages: ChatMessage[]; // conversation history (user + assistant turns, from the latest synopsis on); with sessionId, only the new turns
+  sessionId?: string; // stored session (POST /api/sessions) whose history the messages are appended to
+  model?: string; // optional model override; required for "custom"
+  endpoint?: CustomEndpoint; // required for "custom"
+  stream?: boolean; // stream progress as server-sent events (AgentEvent)
+  evidenceGraph?: EvidenceGraph; // evidence chain recorded so far in this scope
+  repoTree?: RepoTree; // file tree of an uploaded repository archive (POST /api/upload)
+  fallback?: LLMTarget[]; // tried in order when the provider fails with a `fallbackOn` error
+  fallbackOn?: LLMErrorClass[]; // default: rate_limit, server, timeout, network
 }
 
 /** Response returned from POST /api/chat */
 export interface ChatResponse {
   reply: ChatMessage; // the final assistant message
   toolResults?: ToolResult[]; // intermediate tool execution results (for UI display)
+  evidenceGraph?: EvidenceGraph; // evidence chain after this turn's tool calls
+  path?: string[]; // agent graph nodes the run went through, e.g. route → execute → validate → route → respond
+  partial?: string; // set when the run stopped early with a partial answer: why
+  answeredBy?: { provider: Provider; model: string }; // who produced the reply; differs from the request after a fallback
+  sessionId?: string; // the session the turn was stored in
+  compaction?: ChatMessage; // synopsis of older turns made for this turn; insert it with insertSynopsis()
+  usage?: ModelUsage[]; // tokens used by this turn's LLM calls, per provider and model
+  traceId?: string; // the run's trace (GET /api/traces/:id); also set on errors when one was saved
   error?: string;
 }
 
@@ -45,7 +128,54 @@ export interface ToolResult {
   toolName: string;
   toolCallId: string;
   arguments: Record<string, unknown>;
-  result: string;
+  result: string; // text the LLM sees
+  data?: ToolResultData; // structured form of the result, for UI rendering
+}
+
+/** Structured tool output, discriminated by `kind`. */
+export type ToolResultData =
+  | { kind: "chain_gaps"; report: ChainGapReport }
+  | { kind: "classification"; report: ClassificationReport }
+  | { kind: "move_plan"; plan: MovePlan }
+  | { kind: "claim_assessment"; assessment: ClaimAssessment }
+  | { kind: "entry_document"; document: EntryDocument }
+  | { kind: "hash_manifest"; manifest: HashManifest }
+  | { kind: "invalid_arguments"; errors: ToolArgumentError[] } // the call was rejected, not executed
+  | { kind: "repeated_call"; firstCallId: string }; // identical to an earlier call, with nothing changed since
+
+/**
+ * Progress events streamed from POST /api/chat when `stream: true`.
+ * Each event is sent as one server-sent event whose `data` is the JSON object.
+ */
+export type AgentEvent =
+  | { type: "token"; round: number; delta: string } // assistant text delta
+  | {
+      type: "tool_call"; // a tool call is about to be executed
+      round: number;
+      toolCallId: string;
+      toolName: string;
+      arguments: Record<string, unknown>;
+    }
+  | { type: "tool_result"; round: number; result: ToolResult }
+  | { type: "node"; round: number; node: string } // the agent graph entered a node
+  | { type: "retry"; round: number; node: string; attempt: number; delayMs: number; error: string } // a node failed and runs again
+  | {
+      type: "fallback"; // the provider failed; the same request goes to the next one
+      round: number;
+      from: Provider;
+      to: Provider;
+      errorClass: LLMErrorClass;
+      error: string;
+    }
+  | { type: "compaction"; round: number; compaction: Compaction } // older turns were replaced by a synopsis
+  | { type: "round_end"; round: number; toolCalls: number } // one LLM call (+ its tools) finished
+  | { type: "final"; response: ChatResponse }
+  | { type: "error"; error: string; status: number; traceId?: string };
+
+/** A way a tool call broke its JSON Schema, located by argument path (e.g. `artifact_type`). */
+export interface ToolArgumentError {
+  path: string; // "(arguments)" when they aren't a JSON object, "(tool)" for an unknown tool
+  message: string;
 }
 
 /** OpenAI-style tool definition for function calling */
@@ -57,3 +187,442 @@ export interface ToolDefinition {
     parameters: Record<string, unknown>;
   };
 }
+
+// ── Evidence chain (ECF) ──
+
+/** The seven ECF artifact types, in evidence chain order. */
+export type EcfArtifactType =
+  | "input_data"
+  | "experimental_process"
+  | "output_data"
+  | "visual_data"
+  | "plotting_process"
+  | "visual_claims"
+  | "documentation";
+
+/** How an artifact relates to a claim. */
+export type EvidenceLinkType = "supports" | "generates" | "visualizes" | "documents";
+
+export interface EvidenceArtifact {
+  id: string; // e.g. "A1"
+  name: string; // file path or label, e.g. "data/raw.csv", "Figure 2"
+  type: EcfArtifactType;
+  description?: string;
+}
+
+export interface EvidenceClaim {
+  id: string; // e.g. "C1"
+  text: string;
+}
+
+export interface EvidenceLink {
+  id: string; // e.g. "L1"
+  artifactId: string;
+  claimId: string;
+  type: EvidenceLinkType;
+}
+
+/**
+ * Which evidence chain a graph belongs to: one conversation, or a project
+ * whose chain is kept when the conversation is cleared.
+ */
+export interface EvidenceScope {
+  kind: "conversation" | "project";
+  id: string;
+}
+
+/** The evidence chain recorded by annotate_artifact / link_to_claim. */
+export interface EvidenceGraph {
+  scope: EvidenceScope;
+  artifacts: EvidenceArtifact[];
+  claims: EvidenceClaim[];
+  links: EvidenceLink[];
+}
+
+// ── Evidence chain completeness ──
+
+export type GapSeverity = "error" | "warning" | "info";
+
+/** A stage of the chain that a claim's evidence is missing. */
+export interface ChainGap {
+  claimId: string;
+  stage: EcfArtifactType | null; // null: the claim has no evidence at all
+  requiredBy: EcfArtifactType | null; // the recorded stage that depends on the missing one
+  severity: GapSeverity;
+  message: string;
+}
+
+export interface ClaimCompleteness {
+  claimId: string;
+  claimText: string;
+  presentStages: EcfArtifactType[];
+  gaps: ChainGap[];
+  complete: boolean; // no error or warning gaps
+}
+
+export interface ChainGapReport {
+  claims: ClaimCompleteness[];
+  unlinkedArtifacts: string[]; // artifact ids not linked to any claim
+  totals: Record<GapSeverity, number>;
+}
+
+// ── Repository artifact classification ──
+
+export interface ArtifactClassification {
+  path: string;
+  description?: string;
+  type: EcfArtifactType | null; // null: not an evidence chain artifact (e.g. tests) or no signal
+  confidence: number; // 0..1
+  reasons: string[]; // which rules fired
+  alternatives: { type: EcfArtifactType; confidence: number }[];
+  needsReview: boolean; // below the confidence threshold: for the LLM or user to resolve
+}
+
+export interface ClassificationReport {
+  items: ArtifactClassification[];
+  threshold: number;
+  counts: Partial<Record<EcfArtifactType, number>>;
+  needsReview: number;
+}
+
+// ── Uploaded repository archives ──
+
+export interface RepoFileEntry {
+  path: string; // relative to the repository root, forward slashes
+  size: number; // bytes, uncompressed
+  sha256?: string; // hex digest of the content
+  references?: RepoPathReference[]; // repo paths hard-coded in this file (scripts only)
+}
+
+/** A string literal in a script that names another file or folder of the repository. */
+export interface RepoPathReference {
+  target: string; // repo-relative path it resolves to
+  kind: "file" | "dir";
+  base: "root" | "file"; // resolved from the repository root or from the script's own folder
+  literal: string; // as written in the script
+  line: number; // 1-based
+}
+
+/** File tree built from an uploaded .zip / .tar.gz, after .gitignore filtering. */
+export interface RepoTree {
+  archiveName: string;
+  root?: string; // top-level folder stripped from every path, if the archive had one
+  files: RepoFileEntry[];
+  totalBytes: number;
+  ignoredCount: number; // files dropped by .gitignore rules or VCS/OS metadata
+  truncated: boolean; // more files than the configured limit; the rest were dropped
+}
+
+/** Response of POST /api/upload */
+export interface UploadResponse {
+  tree?: RepoTree;
+  error?: string;
+}
+
+// ── Restructuring plan (suggest_directory_structure) ──
+
+/**
+ * - move: will be moved by the generated script
+ * - keep: already in place, or a root file (README, config) that stays
+ * - conflict: destination collides with another file; not moved
+ * - review: classification too uncertain to move automatically
+ */
+export type MoveStatus = "move" | "keep" | "conflict" | "review";
+
+export interface PlannedMove {
+  from: string;
+  to: string; // proposed destination (equals `from` when nothing is proposed)
+  type: EcfArtifactType | null;
+  status: MoveStatus;
+  note?: string;
+}
+
+export interface MoveConflict {
+  destination: string;
+  paths: string[]; // current paths of the files involved
+  message: string;
+}
+
+/** A hard-coded path in a script that will no longer resolve after the moves. */
+export interface BrokenReference {
+  file: string; // current path of the script
+  line: number;
+  literal: string;
+  target: string; // what it points to today
+  replacement?: string; // literal to use after the moves, when there is a single answer
+  message: string;
+}
+
+export interface MovePlan {
+  entries: PlannedMove[]; // every file, in current-path order
+  conflicts: MoveConflict[];
+  brokenReferences: BrokenReference[];
+  referencesChecked: boolean; // false when script contents were not available (pasted listing)
+  counts: Record<MoveStatus, number>;
+}
+
+// ── Claim strength and disclosure scope (advise_disclosure_scope) ──
+
+/** Existential: "we can do X". Distributional: "we reliably do X under conditions Y". */
+export type ClaimStrength = "existential" | "distributional";
+
+/** Id of a disclosure scope level in the registry ("minimal", "audit_only", or a team's own). */
+export type DisclosureScopeId = string;
+
+/**
+ * When a scope level fits a claim. Every condition given must hold; omitted
+ * conditions always hold.
+ */
+export interface ScopeApplicability {
+  strengths?: (ClaimStrength | "unclear")[];
+  minAxes?: number; // distinct kinds of distributional cue (seeds, across datasets, CI, ...)
+  maxAxes?: number;
+  whenClaimMentions?: string[]; // regular expressions (case-insensitive); at least one must match
+}
+
+export interface DisclosureScopeDefinition {
+  id: DisclosureScopeId;
+  label: string;
+  explanation: string; // one sentence, shown in the system prompt and the UI
+  breadth: number; // how much is disclosed; among fitting levels the broadest wins
+  extends?: DisclosureScopeId; // inherit that level's required artifacts
+  requiredArtifacts: RequiredArtifact[];
+  applicability: ScopeApplicability;
+  builtIn?: boolean;
+}
+
+/** How one registry level fared against a claim. */
+export interface ScopeCandidate {
+  id: DisclosureScopeId;
+  label: string;
+  applies: boolean;
+  reason: string;
+}
+
+/** Response of GET /api/scopes */
+// ── Stored conversations (/api/sessions) ──
+
+/** A conversation stored on the server. API keys are never part of it. */
+export interface Session {
+  id: string;
+  title: string;
+  createdAt: string; // ISO 8601
+  updatedAt: string;
+  messages: ChatMessage[]; // user and assistant turns, as shown in the chat
+  evidenceGraph?: EvidenceGraph;
+  repoTree?: RepoTree;
+}
+
+export interface SessionSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+/** A conversation kept in the browser (lib/thread-store.ts). */
+export interface ChatThread {
+  id: string;
+  title: string;
+  createdAt: string; // ISO 8601
+  updatedAt: string;
+  messages: ChatMessage[]; // assistant replies carry their toolResults
+  evidenceGraph: EvidenceGraph;
+  repoTree?: RepoTree;
+  sessionId?: string; // server copy (/api/sessions), when the store was reachable
+}
+
+export interface ChatThreadSummary {
+  id: string;
+  title: string;
+  updatedAt: string;
+  messageCount: number;
+  sessionId?: string;
+}
+
+/** Response of the /api/sessions routes: one session, the list, or an error. */
+export interface SessionResponse {
+  session?: Session;
+  sessions?: SessionSummary[];
+  error?: string;
+}
+
+export interface ScopesResponse {
+  scopes?: DisclosureScopeDefinition[];
+  error?: string;
+}
+
+/** A phrase in the claim that pointed toward a strength. */
+export interface ClaimCue {
+  text: string; // as it appears in the claim
+  start: number; // character offsets into the claim
+  end: number;
+  label: string; // e.g. "confidence interval", "possibility ('can')"
+  indicates: ClaimStrength | "vague" | "constraint"; // constraint: matched a scope's whenClaimMentions
+}
+
+export interface RequiredArtifact {
+  type: EcfArtifactType;
+  description: string;
+  because?: string; // the cue that added this requirement, if any
+}
+
+export interface ClaimAssessment {
+  claim: string;
+  strength: ClaimStrength | null; // null when the wording is vague or mixed
+  cues: ClaimCue[];
+  scope: DisclosureScopeId; // provisional while needsClarification
+  scopeLabel: string;
+  scopeExplanation: string;
+  consideredScopes: ScopeCandidate[]; // every registry level, broadest first
+  requiredArtifacts: RequiredArtifact[];
+  needsClarification: boolean;
+  clarifyingQuestion?: string;
+  rationale: string;
+}
+
+// ── Entry document ──
+
+/** README-style entry document generated from the evidence chain. */
+export interface EntryDocument {
+  fileName: string; // where it goes in the ECF layout, e.g. "document/README.md"
+  title: string;
+  markdown: string;
+  claimCount: number;
+  figureCount: number; // "how to regenerate" walk-throughs
+  todos: string[]; // text of every TODO marker, in document order
+}
+
+// ── Hash manifest (auditable disclosure of restricted artifacts) ──
+
+/** A file and the SHA-256 of its content. */
+export interface FileHash {
+  path: string;
+  size: number;
+  sha256: string; // lowercase hex
+}
+
+/** One hashed file; snake_case like the ECF manifest. */
+export interface HashManifestEntry extends FileHash {
+  artifact?: { id: string; name: string; type: EcfArtifactType }; // the ECF artifact the file belongs to
+}
+
+/** On-disk hash manifest: what was hashed, when, and the digest of every file. */
+export interface HashManifest {
+  ecf_hash_manifest_version: number;
+  algorithm: "sha256";
+  generated_at: string;
+  source: string; // archive name, or "files" for individually uploaded files
+  files: HashManifestEntry[];
+}
+
+/**
+ * - match: same digest as in the manifest
+ * - changed: supplied, but the digest differs
+ * - missing: in the manifest, not supplied
+ */
+export type HashCheckStatus = "match" | "changed" | "missing";
+
+export interface HashCheck {
+  path: string; // as recorded in the manifest
+  status: HashCheckStatus;
+  expected: string;
+  actual?: string; // digest of the supplied file
+  artifactId?: string;
+}
+
+export interface HashVerification {
+  source: string; // what was checked: archive name, "files" or the uploaded repository
+  checks: HashCheck[];
+  unexpected: string[]; // supplied files that the manifest does not list
+  counts: Record<HashCheckStatus, number>;
+}
+
+/** Response of POST /api/hash */
+export interface HashResponse {
+  manifest?: HashManifest; // create mode
+  verification?: HashVerification; // verify mode
+  error?: string;
+}
+
+// ── Run traces (/api/traces) ──
+
+/** One entry of a run trace; `at` is milliseconds since the run started. */
+export type TraceEvent =
+  | { type: "node"; at: number; node: string }
+  | {
+      type: "llm_request";
+      at: number;
+      callId: number; // pairs the request with its llm_response or llm_error
+      provider: Provider;
+      model: string;
+      messages: ChatMessage[]; // as sent, chat fields only
+      tools: string[]; // names of the tools offered
+    }
+  | {
+      type: "llm_response";
+      at: number;
+      callId: number;
+      provider: Provider;
+      model: string;
+      latencyMs: number;
+      content: string | null;
+      toolCalls?: ToolCall[];
+      usage?: TokenUsage;
+    }
+  | {
+      type: "llm_error";
+      at: number;
+      callId: number;
+      provider: Provider;
+      model: string;
+      latencyMs: number;
+      errorClass: LLMErrorClass;
+      error: string;
+    }
+  | { type: "tool_call"; at: number; toolCallId: string; toolName: string; arguments: Record<string, unknown> }
+  | {
+      type: "tool_result";
+      at: number;
+      toolCallId: string;
+      toolName: string;
+      latencyMs: number;
+      result: string;
+      dataKind?: ToolResultData["kind"];
+    }
+  | { type: "retry"; at: number; node: string; attempt: number; delayMs: number; error: string }
+  | { type: "fallback"; at: number; from: Provider; to: Provider; errorClass: LLMErrorClass; error: string }
+  | { type: "compaction"; at: number; summarized: number; tokensBefore: number; tokensAfter: number }
+  | { type: "reply"; at: number; content: string | null; partial?: string }
+  | { type: "error"; at: number; error: string };
+
+/** Everything one runAgent call did. API keys are redacted before a trace is stored. */
+export interface RunTrace {
+  id: string;
+  startedAt: string; // ISO timestamp
+  durationMs: number;
+  status: "ok" | "partial" | "error";
+  provider: Provider;
+  model: string;
+  sessionId?: string;
+  userMessage: string | null; // the latest user message, which the run answered
+  path: string[]; // agent graph nodes visited
+  usage: ModelUsage[];
+  events: TraceEvent[];
+}
+
+export type TraceSummary = Pick<
+  RunTrace,
+  "id" | "startedAt" | "durationMs" | "status" | "provider" | "model" | "sessionId" | "userMessage"
+> & {
+  llmCalls: number;
+  toolCalls: number;
+};
+
+/** Response of the /api/traces routes: one trace, the list, or an error. */
+export interface TraceResponse {
+  trace?: RunTrace;
+  traces?: TraceSummary[];
+  error?: string;
+}
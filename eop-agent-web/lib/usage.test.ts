@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import type { ModelUsage } from "./types";
+import { DEFAULT_PRICES, addUsage, estimateCost, mergeUsage, totalTokens } from "./usage";
+
+const tokens = (promptTokens: number, completionTokens: number) => ({ promptTokens, completionTokens });
+
+describe("addUsage", () => {
+  it("adds up the calls of one model and counts a call that reported nothing", () => {
+    let usage: ModelUsage[] = [];
+    usage = addUsage(usage, { provider: "openai", model: "gpt-4o-mini", usage: tokens(1_000, 200) });
+    usage = addUsage(usage, { provider: "openai", model: "gpt-4o-mini", usage: tokens(1_500, 300) });
+    usage = addUsage(usage, { provider: "openai", model: "gpt-4o-mini" });
+    expect(usage).toEqual([{ provider: "openai", model: "gpt-4o-mini", calls: 3, promptTokens: 2_500, completionTokens: 500 }]);
+  });
+});
+
+describe("estimateCost", () => {
+  it("prices a known model per million tokens", () => {
+    const usage = addUsage([], { provider: "openai", model: "gpt-4o", usage: tokens(1_000_000, 100_000) });
+    expect(estimateCost(usage, DEFAULT_PRICES)).toEqual({ usd: 3.5, unpriced: [] });
+  });
+
+  it("names a model without a price instead of costing it", () => {
+    const usage = addUsage([], { provider: "custom", model: "local-llama", usage: tokens(5_000, 1_000) });
+    expect(estimateCost(usage, DEFAULT_PRICES)).toEqual({ usd: 0, unpriced: ["local-llama"] });
+    // A model that used no tokens costs nothing, price or not
+    expect(estimateCost(addUsage([], { provider: "mock", model: "mock" }), DEFAULT_PRICES).unpriced).toEqual([]);
+  });
+
+  it("splits a fallback turn by provider and prices each model at its own rate", () => {
+    let turn: ModelUsage[] = [];
+    turn = addUsage(turn, { provider: "openai", model: "gpt-4o-mini", usage: tokens(2_000_000, 0) }); // before the switch
+    turn = addUsage(turn, { provider: "anthropic", model: "claude-haiku-4-5", usage: tokens(1_000_000, 200_000) });
+    turn = addUsage(turn, { provider: "anthropic", model: "claude-haiku-4-5", usage: tokens(0, 200_000) });
+
+    expect(turn.map((u) => [u.provider, u.model, u.calls])).toEqual([
+      ["openai", "gpt-4o-mini", 1],
+      ["anthropic", "claude-haiku-4-5", 2],
+    ]);
+    expect(totalTokens(turn)).toEqual(tokens(3_000_000, 400_000));
+    const { usd, unpriced } = estimateCost(turn, DEFAULT_PRICES);
+    expect(usd).toBeCloseTo(0.3 + 1 + 2);
+    expect(unpriced).toEqual([]);
+  });
+});
+
+describe("mergeUsage", () => {
+  it("merges turns per provider and model without changing them", () => {
+    const first = addUsage([], { provider: "openai", model: "gpt-4o", usage: tokens(100, 10) });
+    const second = addUsage(
+      addUsage([], { provider: "openai", model: "gpt-4o", usage: tokens(50, 5) }),
+      { provider: "gemini", model: "gemini-2.0-flash", usage: tokens(20, 2) }
+    );
+    expect(mergeUsage([first, second])).toEqual([
+      { provider: "openai", model: "gpt-4o", calls: 2, promptTokens: 150, completionTokens: 15 },
+      { provider: "gemini", model: "gemini-2.0-flash", calls: 1, promptTokens: 20, completionTokens: 2 },
+    ]);
+    expect(first[0]).toMatchObject({ calls: 1, promptTokens: 100 });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Token usage and cost estimates.
+ *
+ * Providers report prompt and completion tokens per call; a turn's usage is
+ * kept per provider and model, since a fallback can split one turn across
+ * models with different prices. Costs are estimates from an editable price
+ * table (USD per million tokens) — the defaults are list prices and will drift.
+ */
+
+import type { ModelPrice, ModelUsage, Provider, TokenUsage } from "./types";
+
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gemini-2.0-flash-lite": { input: 0.075, output: 0.3 },
+  "gemini-1.5-pro": { input: 1.25, output: 5 },
+  "claude-sonnet-4-6": { input: 3, output: 15 },
+  "claude-haiku-4-5": { input: 1, output: 5 },
+  "claude-opus-4-6": { input: 5, output: 25 },
+};
+
+/** Count one LLM call (with the usage it reported, if any) into `usage`. */
+export function addUsage(
+  usage: ModelUsage[],
+  call: { provider: Provider; model: string; usage?: TokenUsage }
+): ModelUsage[] {
+  const tokens = call.usage ?? { promptTokens: 0, completionTokens: 0 };
+  const existing = usage.find((u) => u.provider === call.provider && u.model === call.model);
+  if (!existing) return [...usage, { provider: call.provider, model: call.model, calls: 1, ...tokens }];
+  return usage.map((u) =>
+    u === existing
+      ? {
+          ...u,
+          calls: u.calls + 1,
+          promptTokens: u.promptTokens + tokens.promptTokens,
+          completionTokens: u.completionTokens + tokens.completionTokens,
+        }
+      : u
+  );
+}
+
+/** Merge the usage of several turns, per provider and model. */
+export function mergeUsage(turns: ModelUsage[][]): ModelUsage[] {
+  const merged: ModelUsage[] = [];
+  for (const entry of turns.flat()) {
+    const existing = merged.find((u) => u.provider === entry.provider && u.model === entry.model);
+    if (existing) {
+      existing.calls += entry.calls;
+      existing.promptTokens += entry.promptTokens;
+      existing.completionTokens += entry.completionTokens;
+    } else {
+      merged.push({ ...entry });
+    }
+  }
+  return merged;
+}
+
+export function totalTokens(usage: ModelUsage[]): TokenUsage {
+  return usage.reduce(
+    (sum, u) => ({
+      promptTokens: sum.promptTokens + u.promptTokens,
+      completionTokens: sum.completionTokens + u.completionTokens,
+    }),
+    { promptTokens: 0, completionTokens: 0 }
+  );
+}
+
+/** Estimated cost in USD; models without a price are listed in `unpriced` and count as free. */
+export function estimateCost(
+  usage: ModelUsage[],
+  prices: Record<string, ModelPrice>
+): { usd: number; unpriced: string[] } {
+  let usd = 0;
+  const unpriced: string[] = [];
+  for (const u of usage) {
+    const price = prices[u.model];
+    if (!price) {
+      if (u.promptTokens + u.completionTokens > 0 && !unpriced.includes(u.model)) unpriced.push(u.model);
+      continue;
+    }
+    usd += (u.promptTokens * price.input + u.completionTokens * price.output) / 1_000_000;
+  }
+  return { usd, unpriced };
+}